@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getAccuracyStats,
+  getModelAccuracyStats,
+  reattributePredictions,
+  updateAccuracyStats,
+} from "@/lib/ai-accuracy";
+import { assertAdminAuthorized } from "@/lib/admin-auth";
+import { formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+function errorResponse(error: unknown) {
+  const statusCode = isAppError(error) ? error.statusCode : 500;
+  return NextResponse.json(formatErrorResponse(error), {
+    status: statusCode,
+    headers: corsHeaders,
+  });
+}
+
+/**
+ * GET /api/ai-accuracy
+ * Prediction accuracy per provider (stored stats) and per provider and
+ * model version (computed from the predictions)
+ *
+ * Query:
+ * - refresh=1: recompute the provider stats first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (new URL(request.url).searchParams.get("refresh") === "1") {
+      await updateAccuracyStats();
+    }
+
+    const [providers, models] = await Promise.all([getAccuracyStats(), getModelAccuracyStats()]);
+
+    return NextResponse.json(
+      { success: true, providers, models },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching AI accuracy:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/ai-accuracy
+ * Reattribute predictions saved as "auto" (or with a display name as the
+ * model) to the provider and API model id their model field names, then
+ * recompute the stats (scripts/reattribute-predictions.mjs calls this)
+ *
+ * Header: Authorization: Bearer <ADMIN_API_TOKEN>
+ *
+ * Body:
+ * - dryRun: list the changes without writing them
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertAdminAuthorized(request);
+
+    const body = await request.json().catch(() => ({}));
+    const result = await reattributePredictions({ dryRun: !!body.dryRun });
+
+    console.log(
+      `[API /ai-accuracy] Reattribution${result.dryRun ? " (dry run)" : ""}: ${result.changes.length} changes, ${result.updated} updated, ${result.unresolved.length} unresolved`
+    );
+
+    return NextResponse.json(
+      { success: true, ...result },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error reattributing AI predictions:", error);
+    return errorResponse(error);
+  }
+}
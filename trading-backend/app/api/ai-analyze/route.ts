@@ -5,21 +5,24 @@ import {
   type AIProvider,
   type MarketDataForAI,
 } from "@/lib/ai-analysis";
-import { getAIConsensus } from "@/lib/ai-consensus";
+import {
+  getAIConsensus,
+  resolveConsensusWeighting,
+  resolveLevelAggregation,
+} from "@/lib/ai-consensus";
 import { runEnhancedAnalysis } from "@/lib/ai-enhanced-analysis";
 import { getAccuracyStats, compareProviders } from "@/lib/ai-accuracy";
-import {
-  calculatePCR,
-  calculateMaxPain,
-  getLiquidityWalls,
-  calculateVWAP,
-  generateSignal,
-  type OptionStrike,
-  type MarketData,
-} from "@/lib/analysis";
-import { fetchXauSpotPrice, calculateSpread } from "@/lib/price-feed";
-import { calculateGEX } from "@/lib/greeks";
+import { listAIProviders, selectAutoProvider } from "@/lib/ai-providers";
+import { generateSignal, type MarketData } from "@/lib/analysis";
+import { fetchSpotPrice, calculateSpread } from "@/lib/price-feed";
+import { calculateGEX, resolveDealerPositioning } from "@/lib/greeks";
+import { getMarketState } from "@/lib/market-state";
+import { checkDataQuality } from "@/lib/data-quality";
 import { getUpcomingEventsSummary } from "@/lib/economic-calendar";
+import { getActiveScoringProfile } from "@/lib/scoring-profiles";
+import { loadCustomFactors } from "@/lib/custom-factors";
+import { resolveOptionsProduct, productSnapshotWhere } from "@/lib/products";
+import { isAppError } from "@/lib/errors";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -43,107 +46,47 @@ export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => ({}));
     const provider = (body.provider || "auto") as AIProvider;
     const mode = body.mode || "standard"; // "standard" | "enhanced" | "consensus"
+    const weighting = resolveConsensusWeighting(body.weighting); // Consensus vote weights
+    const aggregation = resolveLevelAggregation(body.aggregation); // Consensus levels
     const trackPrediction = body.trackPrediction !== false;
+    const product = resolveOptionsProduct(body.product);
+    const where = productSnapshotWhere(product, body.expiry);
+    const positioning = resolveDealerPositioning(body.positioning);
 
-    console.log(`[API] Mode: ${mode}, Provider: ${provider}`);
+    console.log(`[API] Mode: ${mode}, Provider: ${provider}, Product: ${product.key}`);
 
-    // Get latest OI snapshot
-    const oiSnapshot = await prisma.oiSnapshot.findFirst({
-      orderBy: { extractedAt: "desc" },
-      include: { strikes: { orderBy: { strike: "asc" } } },
-    });
+    // Latest OI snapshot with the volume / OI change snapshots of its expiry
+    const state = await getMarketState(where);
 
-    if (!oiSnapshot) {
+    if (!state) {
       return NextResponse.json(
-        { success: false, error: "ไม่มีข้อมูล OI ในระบบ กรุณา Sync ข้อมูลก่อน" },
+        { success: false, error: `ไม่มีข้อมูล OI ของ ${product.name} ในระบบ กรุณา Sync ข้อมูลก่อน` },
         { status: 400, headers: corsHeaders }
       );
     }
 
-    // Get latest volume snapshot
-    const volumeSnapshot = await prisma.intradayVolumeSnapshot.findFirst({
-      orderBy: { extractedAt: "desc" },
-      include: { strikes: { orderBy: { strike: "asc" } } },
-    });
-
-    // Get latest OI change snapshot
-    const oiChangeSnapshot = await prisma.oiChangeSnapshot.findFirst({
-      orderBy: { extractedAt: "desc" },
-      include: { strikes: { orderBy: { strike: "asc" } } },
-    });
-
-    // Build OptionStrike array
-    const strikeMap = new Map<number, OptionStrike>();
-
-    // Add OI data
-    for (const s of oiSnapshot.strikes) {
-      strikeMap.set(s.strike, {
-        strike_price: s.strike,
-        call_oi: s.callOi || 0,
-        put_oi: s.putOi || 0,
-        call_volume: 0,
-        put_volume: 0,
-        call_oi_change: 0,
-        put_oi_change: 0,
-      });
-    }
-
-    // Add volume data
-    if (volumeSnapshot) {
-      for (const s of volumeSnapshot.strikes) {
-        const existing = strikeMap.get(s.strike);
-        if (existing) {
-          existing.call_volume = s.callVol || 0;
-          existing.put_volume = s.putVol || 0;
-        } else {
-          strikeMap.set(s.strike, {
-            strike_price: s.strike,
-            call_oi: 0,
-            put_oi: 0,
-            call_volume: s.callVol || 0,
-            put_volume: s.putVol || 0,
-            call_oi_change: 0,
-            put_oi_change: 0,
-          });
-        }
-      }
-    }
-
-    // Add OI change data
-    if (oiChangeSnapshot) {
-      for (const s of oiChangeSnapshot.strikes) {
-        const existing = strikeMap.get(s.strike);
-        if (existing) {
-          existing.call_oi_change = s.callChange || 0;
-          existing.put_oi_change = s.putChange || 0;
-        }
-      }
-    }
-
-    const optionStrikes = Array.from(strikeMap.values()).sort(
-      (a, b) => a.strike_price - b.strike_price
-    );
-
-    const currentPrice = oiSnapshot.futurePrice || 0;
+    // Refuses stale data under the REJECT policy, otherwise scores it
+    const dataQuality = await checkDataQuality(state);
 
-    // Calculate analytics
-    const pcr = calculatePCR(optionStrikes, currentPrice);
-    const maxPain = calculateMaxPain(optionStrikes, currentPrice);
-    const walls = getLiquidityWalls(optionStrikes);
-    const vwap = calculateVWAP(optionStrikes);
+    // Merged strikes and analytics precomputed for this snapshot group
+    const { analytics } = state;
+    const oiSnapshot = state.snapshots.oi;
+    const optionStrikes = analytics.optionStrikes;
+    const currentPrice = state.futurePrice;
+    const { pcr, maxPain, walls, vwap, expectedMove } = analytics;
 
-    // Get XAU spot price
+    // Get spot price for the product's MT5 symbol
     let xauSpot: number | null = null;
     let spread: number | null = null;
 
     try {
-      const xauData = await fetchXauSpotPrice();
+      const xauData = await fetchSpotPrice(product);
       if (xauData.price > 0) {
         xauSpot = xauData.price;
         spread = calculateSpread(currentPrice, xauSpot).spread;
       }
     } catch {
-      console.warn("Could not fetch XAU price");
+      console.warn(`Could not fetch ${product.spotSymbol} price`);
     }
 
     // Calculate OI flow
@@ -177,12 +120,22 @@ export async function POST(request: NextRequest) {
       current_price: currentPrice,
       vwap,
       strikes: optionStrikes,
+      previous_strikes: state.previousStrikes,
+      skew: state.skew,
     };
-    const systemSignal = generateSignal(marketData);
+    await loadCustomFactors();
+    const systemSignal = generateSignal(marketData, await getActiveScoringProfile());
 
     // Calculate GEX
     console.log("[API] Calculating GEX...");
-    const gex = calculateGEX(optionStrikes, currentPrice);
+    const gex = calculateGEX(
+      optionStrikes,
+      currentPrice,
+      analytics.daysToExpiry,
+      undefined,
+      product.contractMultiplier,
+      positioning
+    );
     console.log("[API] GEX Calculated");
 
     // Get Economic Events
@@ -192,6 +145,8 @@ export async function POST(request: NextRequest) {
 
     // Build data for AI
     const aiData: MarketDataForAI = {
+      product: product.name,
+      spot_symbol: product.spotSymbol,
       cme_futures_price: currentPrice,
       xau_spot_price: xauSpot,
       spread,
@@ -207,15 +162,27 @@ export async function POST(request: NextRequest) {
       total_put_volume: optionStrikes.reduce((sum, s) => sum + s.put_volume, 0),
       hot_strikes: hotStrikes,
       vwap,
+      expected_move: expectedMove && {
+        source: expectedMove.source,
+        low: expectedMove.low,
+        high: expectedMove.high,
+        move: expectedMove.move,
+      },
       system_signal: systemSignal.signal,
       system_confidence: systemSignal.score,
       data_timestamp: new Date(oiSnapshot.extractedAt).toLocaleString("th-TH", {
         timeZone: "Asia/Bangkok",
       }),
+      data_quality: {
+        score: dataQuality.score,
+        warnings: dataQuality.warnings,
+      },
       // Advanced Analysis
       gex: {
         totalGex: gex.totalGex,
         zeroGammaLevel: gex.zeroGammaLevel,
+        zeroGammaLevels: gex.zeroGammaLevels,
+        positioning: gex.positioning,
         interpretation: gex.interpretation,
       },
       economic_events: {
@@ -236,6 +203,8 @@ export async function POST(request: NextRequest) {
         useConsensus: false,
         provider,
         trackPrediction,
+        product: oiSnapshot.product,
+        expiry: oiSnapshot.expiry,
       });
 
       console.log("[API] Enhanced Analysis Completed");
@@ -247,10 +216,13 @@ export async function POST(request: NextRequest) {
           analysis: enhancedResult.analysis,
           tradingRecommendation: enhancedResult.tradingRecommendation,
           technicals: enhancedResult.enhancedData.technicals,
+          technicalsSource: enhancedResult.enhancedData.technicalsSource,
           historicalContext: enhancedResult.enhancedData.historicalContext.summary,
           economicEvents: enhancedResult.enhancedData.economicEvents.warnings,
           isSafeToTrade: enhancedResult.enhancedData.isSafeToTrade,
           predictionId: enhancedResult.predictionId,
+          product: product.key,
+          dataQuality,
           input_data: aiData,
           processing_time_ms: Date.now() - startTime,
           generated_at: new Date().toISOString(),
@@ -259,7 +231,7 @@ export async function POST(request: NextRequest) {
       );
     } else if (mode === "consensus") {
       // Multi-AI Consensus mode
-      const consensusResult = await getAIConsensus(aiData);
+      const consensusResult = await getAIConsensus(aiData, { weighting, aggregation });
 
       return NextResponse.json(
         {
@@ -269,6 +241,7 @@ export async function POST(request: NextRequest) {
           confidence: consensusResult.consensus_confidence,
           agreement: consensusResult.agreement_level,
           votes: consensusResult.votes,
+          weighting: consensusResult.weighting,
           entry: consensusResult.suggested_entry,
           stopLoss: consensusResult.suggested_sl,
           takeProfit1: consensusResult.suggested_tp1,
@@ -278,6 +251,8 @@ export async function POST(request: NextRequest) {
           individual_results: consensusResult.results,
           providers_used: consensusResult.providers_used,
           providers_failed: consensusResult.providers_failed,
+          product: product.key,
+          dataQuality,
           input_data: aiData,
           processing_time_ms: Date.now() - startTime,
           generated_at: new Date().toISOString(),
@@ -293,6 +268,8 @@ export async function POST(request: NextRequest) {
           success: true,
           mode: "standard",
           analysis: aiResult,
+          product: product.key,
+          dataQuality,
           input_data: aiData,
           processing_time_ms: Date.now() - startTime,
           generated_at: new Date().toISOString(),
@@ -306,6 +283,13 @@ export async function POST(request: NextRequest) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
 
+    if (isAppError(error)) {
+      return NextResponse.json(
+        { success: false, error: errorMessage },
+        { status: error.statusCode, headers: corsHeaders }
+      );
+    }
+
     // Check for common errors
     if (errorMessage.includes("API key")) {
       return NextResponse.json(
@@ -334,17 +318,12 @@ export async function POST(request: NextRequest) {
 // ============================================
 
 export async function GET() {
-  const hasOpenAI = !!process.env.OPENAI_API_KEY;
-  const hasGemini = !!process.env.GEMINI_API_KEY;
-  const hasDeepSeek = !!process.env.DEEPSEEK_API_KEY;
+  const providers = await listAIProviders();
+  const available = providers.filter((p) => p.available);
+  const hasAny = available.length > 0;
 
-  const hasAny = hasOpenAI || hasGemini || hasDeepSeek;
-
-  // Determine preferred provider (DeepSeek is cheapest)
-  let preferred = null;
-  if (hasDeepSeek) preferred = "deepseek";
-  else if (hasGemini) preferred = "gemini";
-  else if (hasOpenAI) preferred = "openai";
+  // What provider "auto" currently resolves to
+  const preferred = selectAutoProvider(providers)?.key ?? null;
 
   // Get accuracy stats
   let accuracyStats = null;
@@ -362,11 +341,14 @@ export async function GET() {
     {
       success: true,
       available: hasAny,
-      providers: {
-        openai: hasOpenAI,
-        gemini: hasGemini,
-        deepseek: hasDeepSeek,
-      },
+      providers: Object.fromEntries(providers.map((p) => [p.key, p.available])),
+      providerList: providers.map((p) => ({
+        key: p.key,
+        name: p.name,
+        model: p.model,
+        available: p.available,
+        useInConsensus: p.useInConsensus,
+      })),
       preferred,
       bestProvider,
       accuracyStats,
@@ -375,7 +357,7 @@ export async function GET() {
         technicalIndicators: true,
         historicalContext: true,
         economicCalendar: true,
-        multiAIConsensus: hasAny && Object.values({ hasOpenAI, hasGemini, hasDeepSeek }).filter(Boolean).length >= 2,
+        multiAIConsensus: available.filter((p) => p.useInConsensus).length >= 2,
         accuracyTracking: true,
       },
       message: hasAny
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCalibrationReport } from "@/lib/ai-calibration";
+import { formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/ai-calibration
+ * Confidence calibration of each AI provider over its evaluated predictions:
+ * reliability bins, Brier score, ECE and the stated -> calibrated mapping
+ *
+ * Query:
+ * - refresh=1: recompute instead of using the cached report
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const refresh = new URL(request.url).searchParams.get("refresh") === "1";
+    const report = await getCalibrationReport({ refresh });
+
+    return NextResponse.json(
+      { success: true, ...report },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching AI calibration:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
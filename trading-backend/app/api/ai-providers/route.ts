@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listAIProviders,
+  saveAIProvider,
+  deleteAIProvider,
+  AI_PROVIDER_KINDS,
+} from "@/lib/ai-providers";
+import { assertAdminAuthorized } from "@/lib/admin-auth";
+import { ValidationError, formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+function errorResponse(error: unknown) {
+  const statusCode = isAppError(error) ? error.statusCode : 500;
+  return NextResponse.json(formatErrorResponse(error), {
+    status: statusCode,
+    headers: corsHeaders,
+  });
+}
+
+/**
+ * GET /api/ai-providers
+ * Built-in and configured AI providers with their availability
+ * (API keys are never returned, only the env var names)
+ */
+export async function GET() {
+  try {
+    const providers = await listAIProviders();
+
+    return NextResponse.json(
+      {
+        success: true,
+        providers,
+        kinds: AI_PROVIDER_KINDS,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching AI providers:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/ai-providers
+ * Create or replace a provider (matched by key); a built-in key overrides
+ * the built-in and fields left out keep its values. A built-in's kind,
+ * baseUrl and apiKeyEnv can't be changed, and a new provider's key env var
+ * must be named AI_PROVIDER_<NAME>_API_KEY.
+ *
+ * Header: Authorization: Bearer <ADMIN_API_TOKEN>
+ * Body: { key, name, model, kind?, baseUrl?, apiKeyEnv?, jsonMode?, maxTokens?,
+ *         costPerInputToken?, costPerOutputToken?, priority?, autoSelect?,
+ *         useInConsensus?, enabled? }
+ *
+ * e.g. a local Ollama server:
+ * { key: "ollama-llama3", name: "Llama 3.1 (local)", model: "llama3.1:8b",
+ *   baseUrl: "http://localhost:11434/v1", apiKeyEnv: null }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertAdminAuthorized(request);
+
+    const body = await request.json();
+    const provider = await saveAIProvider(body);
+
+    return NextResponse.json(
+      { success: true, provider },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error saving AI provider:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/ai-providers?key=...
+ * A built-in the row overrode returns to its defaults
+ *
+ * Header: Authorization: Bearer <ADMIN_API_TOKEN>
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    assertAdminAuthorized(request);
+
+    const key = new URL(request.url).searchParams.get("key");
+    if (!key) {
+      throw new ValidationError("ต้องระบุ key", { key: "required" });
+    }
+
+    await deleteAIProvider(key);
+
+    return NextResponse.json(
+      { success: true },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error deleting AI provider:", error);
+    return errorResponse(error);
+  }
+}
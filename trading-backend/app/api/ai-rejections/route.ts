@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRecentAIRejections } from "@/lib/ai-validation";
+import { formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/ai-rejections
+ * AI responses that failed validation, newest first, for review
+ *
+ * Query:
+ * - provider: only this provider (e.g. "gemini")
+ * - limit: number of rows (default 20, max 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const provider = searchParams.get("provider") || undefined;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 100);
+
+    const rejections = await getRecentAIRejections({ provider, limit });
+
+    return NextResponse.json(
+      {
+        success: true,
+        count: rejections.length,
+        repaired: rejections.filter((r) => r.repaired).length,
+        rejections,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching AI rejections:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
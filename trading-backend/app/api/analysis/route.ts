@@ -1,20 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import {
-  getLiquidityWalls,
-  calculatePCR,
-  calculateMaxPain,
   generateSignal,
-  calculateVWAP,
   type OptionStrike,
   type MarketData,
 } from "@/lib/analysis";
 import {
   NoDataError,
+  ValidationError,
   DatabaseError,
   formatErrorResponse,
   isAppError,
 } from "@/lib/errors";
+import { getMarketState } from "@/lib/market-state";
+import { checkDataQuality } from "@/lib/data-quality";
+import { resolveScoringProfiles, getActiveScoringProfile } from "@/lib/scoring-profiles";
+import { loadCustomFactors } from "@/lib/custom-factors";
+import { DEFAULT_PRODUCT, findProduct, hasOptions, productWhere } from "@/lib/products";
+import { calculateDealerExposure, compareGEXModels, resolveDealerPositioning } from "@/lib/greeks";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -26,22 +29,6 @@ export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
 }
 
-// ============================================
-// Internal Types for DB -> Analysis conversion
-// ============================================
-
-interface InternalStrike {
-  strike: number;
-  callOi: number;
-  putOi: number;
-  callVolume: number;
-  putVolume: number;
-  callOiChange: number;
-  putOiChange: number;
-  volSettle: number | null;
-  range: string | null;
-}
-
 // ============================================
 // API Handler
 // ============================================
@@ -51,9 +38,28 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const product = searchParams.get("product");
     const dateParam = searchParams.get("date");
+    // ?profile=name[@version][,name2...] - first is used for the signal, all are compared
+    const profileParam = searchParams.get("profile");
+    const profiles = profileParam ? await resolveScoringProfiles(profileParam) : [];
+    if (profiles.length === 0) profiles.push(await getActiveScoringProfile());
+    await loadCustomFactors();
+    const scoringProfile = profiles[0];
+    // ?positioning=CALLS_LONG_PUTS_SHORT|ALL_SHORT|OI_CHANGE - dealer model for exposure
+    const positioning = resolveDealerPositioning(searchParams.get("positioning"));
+    // ?maxSkew=minutes - widest gap between OI and the volume / OI change snapshots
+    const maxSkewParam = searchParams.get("maxSkew");
+    const maxSkewMs = maxSkewParam ? Number(maxSkewParam) * 60 * 1000 : undefined;
+    if (maxSkewMs !== undefined && !(maxSkewMs >= 0)) {
+      throw new ValidationError("maxSkew ต้องเป็นจำนวนนาทีที่ไม่ติดลบ", { maxSkew: String(maxSkewParam) });
+    }
+
+    const spec = findProduct(product);
+    if (spec && !hasOptions(spec)) {
+      throw new ValidationError(`${spec.key} ไม่มีข้อมูล Options (Futures เท่านั้น)`, { product: String(product) });
+    }
 
-    // Build where clause
-    const where: any = product ? { product } : {};
+    // Build where clause (registry products match every code they are stored under)
+    const where: any = productWhere(product);
 
     // Date filtering
     if (dateParam) {
@@ -71,141 +77,75 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Fetch latest data from all 3 tables in parallel
-    const [volumeSnapshot, oiSnapshot, oiChangeSnapshot] = await Promise.all([
-      prisma.intradayVolumeSnapshot.findFirst({
-        where,
-        orderBy: { extractedAt: "desc" },
-        include: { strikes: { orderBy: { strike: "asc" } } },
-      }),
-      prisma.oiSnapshot.findFirst({
-        where,
-        orderBy: { extractedAt: "desc" },
-        include: { strikes: { orderBy: { strike: "asc" } } },
-      }),
-      prisma.oiChangeSnapshot.findFirst({
-        where,
-        orderBy: { extractedAt: "desc" },
-        include: { strikes: { orderBy: { strike: "asc" } } },
-      }),
-    ]);
+    // Newest OI snapshot plus the volume / OI change snapshots of the same
+    // expiry within the allowed skew, merged and precomputed
+    const state = await getMarketState(where, { maxSkewMs });
 
     // Need at least OI data
-    if (!oiSnapshot) {
+    if (!state) {
       throw new NoDataError("ข้อมูล OI", { product });
     }
 
-    // Find the most recent snapshot for current price
-    // Use the snapshot with the latest extractedAt timestamp
-    const allSnapshots = [
-      volumeSnapshot ? { source: 'volume', snapshot: volumeSnapshot, price: volumeSnapshot.futurePrice } : null,
-      oiSnapshot ? { source: 'oi', snapshot: oiSnapshot, price: oiSnapshot.futurePrice } : null,
-      oiChangeSnapshot ? { source: 'oichange', snapshot: oiChangeSnapshot, price: oiChangeSnapshot.futurePrice } : null,
-    ].filter(Boolean) as Array<{ source: string; snapshot: any; price: number | null }>;
-    
-    // Sort by extractedAt descending to get most recent
-    allSnapshots.sort((a, b) => 
-      new Date(b.snapshot.extractedAt).getTime() - new Date(a.snapshot.extractedAt).getTime()
-    );
-    
-    // Use the most recent snapshot with a valid price
-    const latestWithPrice = allSnapshots.find(s => s.price && s.price > 0);
-    const currentPrice = latestWithPrice?.price || oiSnapshot.futurePrice || 0;
-    
-    // Use OI snapshot for metadata (product, expiry) but price from latest
-    const primarySource = oiSnapshot;
-    
-    console.log('[API Analysis] Price source:', latestWithPrice?.source || 'oi', 'Price:', currentPrice);
-
-    // Merge data from all sources into unified strike format
-    const strikeMap = new Map<number, InternalStrike>();
-
-    // Initialize with OI data (primary)
-    for (const s of oiSnapshot.strikes) {
-      strikeMap.set(s.strike, {
-        strike: s.strike,
-        callOi: s.callOi || 0,
-        putOi: s.putOi || 0,
-        callVolume: 0,
-        putVolume: 0,
-        callOiChange: 0,
-        putOiChange: 0,
-        volSettle: s.volSettle,
-        range: s.range,
-      });
-    }
-
-    // Add volume data
-    if (volumeSnapshot) {
-      for (const s of volumeSnapshot.strikes) {
-        const existing = strikeMap.get(s.strike);
-        if (existing) {
-          existing.callVolume = s.callVol || 0;
-          existing.putVolume = s.putVol || 0;
-        } else {
-          strikeMap.set(s.strike, {
-            strike: s.strike,
-            callOi: 0,
-            putOi: 0,
-            callVolume: s.callVol || 0,
-            putVolume: s.putVol || 0,
-            callOiChange: 0,
-            putOiChange: 0,
-            volSettle: s.volSettle,
-            range: s.range,
-          });
-        }
-      }
-    }
-
-    // Add OI change data
-    if (oiChangeSnapshot) {
-      for (const s of oiChangeSnapshot.strikes) {
-        const existing = strikeMap.get(s.strike);
-        if (existing) {
-          existing.callOiChange = s.callChange || 0;
-          existing.putOiChange = s.putChange || 0;
-        }
-      }
-    }
-
-    // Convert to sorted array
-    const internalStrikes = Array.from(strikeMap.values()).sort((a, b) => a.strike - b.strike);
-
-    // Convert to OptionStrike format for analysis functions
-    const optionStrikes: OptionStrike[] = internalStrikes.map((s) => ({
-      strike_price: s.strike,
-      call_oi: s.callOi,
-      put_oi: s.putOi,
-      call_volume: s.callVolume,
-      put_volume: s.putVolume,
-      call_oi_change: s.callOiChange,
-      put_oi_change: s.putOiChange,
-    }));
-
-    // ============================================
-    // Run Analysis using lib/analysis.ts
-    // ============================================
-
-    // 1. Liquidity Walls (Support/Resistance)
-    const walls = getLiquidityWalls(optionStrikes);
-
-    // 2. PCR Analysis
-    const pcr = calculatePCR(optionStrikes, currentPrice);
-
-    // 3. Max Pain
-    const maxPain = calculateMaxPain(optionStrikes, currentPrice);
+    // Freshness only applies to the live view, not a past date
+    const dataQuality = await checkDataQuality(state, { checkFreshness: !dateParam });
 
-    // 4. VWAP
-    const vwap = calculateVWAP(optionStrikes);
+    const { analytics } = state;
+    const { oi: oiSnapshot, volume: volumeSnapshot } = state.snapshots;
+    const primarySource = oiSnapshot;
+    const currentPrice = state.futurePrice;
+
+    console.log('[API Analysis] Price source:', state.priceSource || 'oi', 'Price:', currentPrice);
+
+    // Volume strikes for the intraday chart
+    const volumeStrikes = volumeSnapshot
+      ? await prisma.intradayVolumeStrike.findMany({
+        where: { snapshotId: volumeSnapshot.id },
+        orderBy: { strike: "asc" },
+      })
+      : [];
+
+    const internalStrikes = analytics.strikes;
+    const optionStrikes: OptionStrike[] = analytics.optionStrikes;
+    const { walls, pcr, maxPain, vwap, expectedMove } = analytics;
+
+    // Dealer exposure (Black-76, per-strike volSettle) and GEX under each positioning model
+    const contractMultiplier = (findProduct(primarySource.product) ?? DEFAULT_PRODUCT).contractMultiplier;
+    const dealerExposure = calculateDealerExposure(optionStrikes, currentPrice, {
+      daysToExpiry: analytics.daysToExpiry,
+      contractMultiplier,
+      positioning,
+    });
+    const gexModels = compareGEXModels(
+      optionStrikes,
+      currentPrice,
+      analytics.daysToExpiry,
+      undefined,
+      contractMultiplier
+    );
 
-    // 5. Generate Signal
+    // Generate Signal
     const marketData: MarketData = {
       current_price: currentPrice,
       vwap: vwap,
       strikes: optionStrikes,
+      previous_strikes: state.previousStrikes,
+      skew: state.skew,
     };
-    const signal = generateSignal(marketData);
+    const signal = generateSignal(marketData, scoringProfile);
+
+    // Same market data scored by every requested profile
+    const profileComparison = profiles.length > 1
+      ? profiles.map((profile) => {
+        const s = profile === scoringProfile ? signal : generateSignal(marketData, profile);
+        return {
+          profile: { name: profile.name, version: profile.version },
+          type: s.signal,
+          score: s.score,
+          sentiment: s.sentiment,
+          factorScores: s.factor_scores,
+        };
+      })
+      : undefined;
 
     // ============================================
     // Build Response
@@ -267,16 +207,18 @@ export async function GET(request: NextRequest) {
     else if (skewRatio < 0.8) volumeSkew = "CALL_HEAVY";
 
     // Build full response
-    // Use the most recent extractedAt from all snapshots
-    const latestExtractedAt = allSnapshots[0]?.snapshot.extractedAt || primarySource.extractedAt;
-    
     const analysis = {
       marketData: {
         product: primarySource.product,
         expiry: primarySource.expiry,
+        expiresAt: analytics.expiresAt?.toISOString() ?? null,
+        daysToExpiry: analytics.expiryEstimated ? null : analytics.daysToExpiry,
         currentPrice,
-        extractedAt: latestExtractedAt.toISOString(),
+        extractedAt: state.extractedAt.toISOString(),
         strikesCount: internalStrikes.length,
+        priceSource: state.priceSource,
+        sources: state.sources,
+        dataQuality,
       },
       // From lib/analysis.ts
       walls: {
@@ -300,8 +242,13 @@ export async function GET(request: NextRequest) {
         distancePercent: maxPain.distance_percent,
         signal: maxPain.signal,
         description: maxPain.description,
+        magnetStrength: maxPain.magnet_strength,
       },
       vwap,
+      // Dealer delta / gamma / vanna / charm exposure from lib/greeks.ts
+      dealerExposure,
+      gexModels,
+      expectedMove,
       // Signal from lib/analysis.ts
       signal: {
         type: signal.signal,
@@ -315,8 +262,11 @@ export async function GET(request: NextRequest) {
         positiveFactors: signal.factors.positive,
         negativeFactors: signal.factors.negative,
         factorScores: signal.factor_scores,
+        factorDetails: signal.factor_details,
         keyLevels: signal.key_levels,
+        scoringProfile: signal.scoring_profile,
       },
+      profileComparison,
       // Key levels (from walls)
       keyLevels: {
         support: walls.support_levels.map((s, i) => ({
@@ -362,12 +312,13 @@ export async function GET(request: NextRequest) {
           strikesCount: internalStrikes.length,
         },
         // Chart data format
-        intradayData: volumeSnapshot?.strikes.map((s) => ({
+        intradayData: volumeSnapshot && volumeStrikes.map((s) => ({
           strike: s.strike,
           put: s.putVol,
           call: s.callVol,
           volSettle: s.volSettle,
           range: s.range,
+          rangeValue: s.rangeValue,
         })),
         intradaySummary: volumeSnapshot ? {
           put: volumeSnapshot.totalPut || 0,
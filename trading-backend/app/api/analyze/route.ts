@@ -13,6 +13,9 @@ import {
   type MaxPainResult,
   type TradingSignal,
 } from "@/lib/analysis";
+import { resolveScoringProfiles, getActiveScoringProfile } from "@/lib/scoring-profiles";
+import { loadCustomFactors } from "@/lib/custom-factors";
+import { isAppError } from "@/lib/errors";
 
 // ============================================
 // CORS Headers
@@ -50,6 +53,12 @@ interface AnalyzeRequest {
     call_oi_change?: number;
     put_oi_change?: number;
   }>;
+  /** OI of an earlier snapshot (optional - enables the OI diff / ATM buildup factors) */
+  previous_strikes?: Array<{
+    strike_price: number;
+    call_oi: number;
+    put_oi: number;
+  }>;
   /** Optional metadata */
   metadata?: {
     product?: string;
@@ -78,6 +87,14 @@ interface AnalyzeResponse {
     max_pain: MaxPainResult;
     /** Trading signal with enhanced structure */
     signal: TradingSignal;
+    /** Signal per scoring profile when ?profile= lists more than one */
+    profile_comparison?: Array<{
+      profile: TradingSignal["scoring_profile"];
+      signal: TradingSignal["signal"];
+      score: number;
+      sentiment: TradingSignal["sentiment"];
+      factor_scores: TradingSignal["factor_scores"];
+    }>;
     /** Quick summary for display */
     summary: {
       signal: "BUY" | "SELL" | "NEUTRAL";
@@ -141,6 +158,19 @@ function validateRequest(body: unknown): { valid: boolean; error?: string; data?
     }
   }
 
+  // Validate optional previous snapshot
+  if (req.previous_strikes !== undefined) {
+    if (!Array.isArray(req.previous_strikes)) {
+      return { valid: false, error: "previous_strikes must be an array" };
+    }
+    for (let i = 0; i < req.previous_strikes.length; i++) {
+      const strike = req.previous_strikes[i] as Record<string, unknown>;
+      if (typeof strike.strike_price !== "number" || typeof strike.call_oi !== "number" || typeof strike.put_oi !== "number") {
+        return { valid: false, error: `previous_strikes[${i}] must have numeric strike_price, call_oi and put_oi` };
+      }
+    }
+  }
+
   return { valid: true, data: req as unknown as AnalyzeRequest };
 }
 
@@ -168,6 +198,9 @@ function validateRequest(body: unknown): { valid: boolean; error?: string; data?
  *       "put_oi_change": -30
  *     }
  *   ],
+ *   "previous_strikes": [
+ *     { "strike_price": 2700, "call_oi": 1100, "put_oi": 5600 }
+ *   ],
  *   "metadata": {
  *     "product": "Gold (OG|GC)",
  *     "expiry": "Feb 2026"
@@ -244,6 +277,15 @@ export async function POST(request: NextRequest) {
       current_price: req.current_price,
       vwap,
       strikes: optionStrikes,
+      previous_strikes: req.previous_strikes?.map((s) => ({
+        strike_price: s.strike_price,
+        call_oi: s.call_oi,
+        put_oi: s.put_oi,
+        call_volume: 0,
+        put_volume: 0,
+        call_oi_change: 0,
+        put_oi_change: 0,
+      })),
     };
 
     // ============================================
@@ -259,8 +301,25 @@ export async function POST(request: NextRequest) {
     // 3. Max Pain
     const maxPain = calculateMaxPain(optionStrikes, req.current_price);
 
-    // 4. Generate Signal
-    const signal = generateSignal(marketData);
+    // 4. Generate Signal (?profile=name[@version][,name2...], active profile by default)
+    const profileParam = new URL(request.url).searchParams.get("profile");
+    const profiles = profileParam ? await resolveScoringProfiles(profileParam) : [];
+    if (profiles.length === 0) profiles.push(await getActiveScoringProfile());
+    await loadCustomFactors();
+
+    const signal = generateSignal(marketData, profiles[0]);
+    const profileComparison = profiles.length > 1
+      ? profiles.map((profile, i) => {
+        const s = i === 0 ? signal : generateSignal(marketData, profile);
+        return {
+          profile: s.scoring_profile,
+          signal: s.signal,
+          score: s.score,
+          sentiment: s.sentiment,
+          factor_scores: s.factor_scores,
+        };
+      })
+      : undefined;
 
     // ============================================
     // Build Response
@@ -278,6 +337,7 @@ export async function POST(request: NextRequest) {
         pcr,
         max_pain: maxPain,
         signal,
+        profile_comparison: profileComparison,
         summary: {
           signal: signal.signal,
           score: signal.score,
@@ -299,7 +359,7 @@ export async function POST(request: NextRequest) {
         error: error instanceof Error ? error.message : "Internal server error",
         generated_at: new Date().toISOString(),
       } as AnalyzeResponse,
-      { status: 500, headers: corsHeaders }
+      { status: isAppError(error) ? error.statusCode : 500, headers: corsHeaders }
     );
   }
 }
@@ -319,6 +379,13 @@ export async function GET() {
     method: "POST",
     description: "Analyze raw option chain data and generate trading signals",
     content_type: "application/json",
+    query_params: {
+      profile: {
+        type: "string",
+        required: false,
+        description: "Scoring profile: name, name@version, or a comma-separated list to compare (default: active profile)",
+      },
+    },
     request_schema: {
       current_price: {
         type: "number",
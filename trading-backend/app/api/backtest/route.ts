@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runBacktest, type BacktestOptions } from "@/lib/backtest";
+import { resolveScoringProfile } from "@/lib/scoring-profiles";
+import {
+  ValidationError,
+  formatErrorResponse,
+  isAppError,
+} from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// ============================================
+// Query Parsing
+// ============================================
+
+function parseDate(value: string | null, field: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError("วันที่ไม่ถูกต้อง", { [field]: value });
+  }
+  return date;
+}
+
+function parsePositive(value: string | null, field: string): number | undefined {
+  if (value === null || value === "") return undefined;
+  const num = parseFloat(value);
+  if (!isFinite(num) || num < 0) {
+    throw new ValidationError("ค่าต้องเป็นตัวเลขที่ไม่ติดลบ", { [field]: value });
+  }
+  return num;
+}
+
+// ============================================
+// API Handler
+// ============================================
+
+/**
+ * GET /api/backtest
+ * Replay stored snapshots through generateSignal and simulate trades
+ *
+ * Query:
+ * - product (default GOLD), expiry (default the product's default series,
+ *   else the series of the newest snapshot in the window), from, to
+ * - sl, tp (points), maxHold (minutes)
+ * - step (minutes between evaluated snapshots), minEdge (|score - 50|)
+ * - profile (scoring profile name[@version], active profile by default)
+ * - trades=false to omit the trade list
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const options: BacktestOptions = {
+      product: searchParams.get("product") || undefined,
+      expiry: searchParams.get("expiry") || undefined,
+      from: parseDate(searchParams.get("from"), "from"),
+      to: parseDate(searchParams.get("to"), "to"),
+      stopLossPoints: parsePositive(searchParams.get("sl"), "sl"),
+      takeProfitPoints: parsePositive(searchParams.get("tp"), "tp"),
+      maxHoldMinutes: parsePositive(searchParams.get("maxHold"), "maxHold"),
+      stepMinutes: parsePositive(searchParams.get("step"), "step"),
+      minScoreEdge: parsePositive(searchParams.get("minEdge"), "minEdge"),
+      profile: await resolveScoringProfile(searchParams.get("profile")),
+    };
+
+    if (options.from && options.to && options.from > options.to) {
+      throw new ValidationError("from ต้องอยู่ก่อน to", { from: "after to" });
+    }
+
+    const result = await runBacktest(options);
+    const includeTrades = searchParams.get("trades") !== "false";
+
+    return NextResponse.json(
+      {
+        success: true,
+        backtest: includeTrades ? result : { ...result, trades: undefined },
+        generatedAt: new Date().toISOString(),
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error running backtest:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importCandles, isCandleTimeframe, parseCandleCsv } from "@/lib/candles";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * POST /api/candles/import
+ * Import OHLC candles from CSV
+ *
+ * Either send raw CSV (Content-Type: text/csv) with ?symbol=OG&timeframe=1h,
+ * or JSON: { symbol: "OG", timeframe: "1h", csv: "time,open,high,low,close\n..." }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const contentType = request.headers.get("content-type") || "";
+
+    let symbol = searchParams.get("symbol") || "";
+    let timeframe = searchParams.get("timeframe") || "1h";
+    let csv = "";
+
+    if (contentType.includes("application/json")) {
+      const body = await request.json();
+      symbol = body.symbol || symbol;
+      timeframe = body.timeframe || timeframe;
+      csv = typeof body.csv === "string" ? body.csv : "";
+    } else {
+      csv = await request.text();
+    }
+
+    symbol = symbol.trim();
+
+    if (!symbol) {
+      return NextResponse.json(
+        { success: false, error: "symbol is required" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (!isCandleTimeframe(timeframe)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid timeframe: ${timeframe}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const { candles, errors } = parseCandleCsv(csv);
+
+    if (candles.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No valid candles found in CSV", errors },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const imported = await importCandles(symbol, timeframe, candles);
+
+    return NextResponse.json(
+      {
+        success: true,
+        symbol,
+        timeframe,
+        imported,
+        rejected: errors.length,
+        errors: errors.slice(0, 20),
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error importing candles:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to import candles",
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
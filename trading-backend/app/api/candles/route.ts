@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { isCandleTimeframe, rebuildCandlesFromSnapshots } from "@/lib/candles";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/candles
+ * Get stored candles for a symbol and timeframe
+ * Query: ?symbol=OG&timeframe=1h&limit=200
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get("symbol");
+    const timeframe = searchParams.get("timeframe") || "1h";
+    const limit = Math.min(parseInt(searchParams.get("limit") || "200"), 1000);
+
+    if (!(limit > 0)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid limit: ${searchParams.get("limit")}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (!isCandleTimeframe(timeframe)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid timeframe: ${timeframe}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Without a symbol, list which symbols/timeframes have candles
+    if (!symbol) {
+      const available = await prisma.priceCandle.groupBy({
+        by: ["symbol", "timeframe"],
+        _count: { _all: true },
+        _min: { openTime: true },
+        _max: { openTime: true },
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          available: available.map((a) => ({
+            symbol: a.symbol,
+            timeframe: a.timeframe,
+            count: a._count._all,
+            from: a._min.openTime,
+            to: a._max.openTime,
+          })),
+        },
+        { headers: corsHeaders }
+      );
+    }
+
+    const candles = await prisma.priceCandle.findMany({
+      where: { symbol, timeframe },
+      orderBy: { openTime: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        symbol,
+        timeframe,
+        count: candles.length,
+        candles: candles.reverse(),
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching candles:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch candles" },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+/**
+ * POST /api/candles
+ * Rebuild snapshot-derived candles from stored snapshots (backfill)
+ * Body: { symbol: "OG", since?: ISO date }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const symbol = typeof body.symbol === "string" ? body.symbol.trim() : "";
+
+    if (!symbol) {
+      return NextResponse.json(
+        { success: false, error: "symbol is required" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const since = body.since ? new Date(body.since) : undefined;
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json(
+        { success: false, error: "since must be a valid date" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const result = await rebuildCandlesFromSnapshots(symbol, since);
+
+    return NextResponse.json(
+      { success: true, symbol, ...result },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error rebuilding candles:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to rebuild candles",
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listCustomFactors,
+  saveCustomFactor,
+  deleteCustomFactor,
+  CUSTOM_FACTOR_DIRECTIONS,
+} from "@/lib/custom-factors";
+import { FACTOR_METRICS } from "@/lib/signal-factors";
+import { ValidationError, formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+function errorResponse(error: unknown) {
+  const statusCode = isAppError(error) ? error.statusCode : 500;
+  return NextResponse.json(formatErrorResponse(error), {
+    status: statusCode,
+    headers: corsHeaders,
+  });
+}
+
+/**
+ * GET /api/custom-factors
+ * List custom factor definitions with the metrics and functions an
+ * expression may use
+ */
+export async function GET() {
+  try {
+    const factors = await listCustomFactors();
+
+    return NextResponse.json(
+      {
+        success: true,
+        factors,
+        metrics: Object.entries(FACTOR_METRICS).map(([name, m]) => ({ name, description: m.description })),
+        functions: ["abs(x)", "min(a, b, ...)", "max(a, b, ...)"],
+        directions: CUSTOM_FACTOR_DIRECTIONS,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching custom factors:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/custom-factors
+ * Create or replace a definition (matched by key)
+ * Body: { key, name, expression, direction?, bullishThreshold?, bearishThreshold?,
+ *         score, order?, bullishTh, bearishTh, bullishEn, bearishEn,
+ *         explanationTh?, explanationEn?, enabled? }
+ * Messages may contain {value}, replaced with the expression result.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const factor = await saveCustomFactor(body);
+
+    return NextResponse.json(
+      { success: true, factor },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error saving custom factor:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/custom-factors?key=...
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const key = new URL(request.url).searchParams.get("key");
+    if (!key) {
+      throw new ValidationError("ต้องระบุ key", { key: "required" });
+    }
+
+    await deleteCustomFactor(key);
+
+    return NextResponse.json(
+      { success: true },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error deleting custom factor:", error);
+    return errorResponse(error);
+  }
+}
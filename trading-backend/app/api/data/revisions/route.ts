@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { getRevisionHistory } from "@/lib/snapshot-revisions";
+import type { DataType } from "@/lib/types";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+const DATA_TYPES: DataType[] = ["volume", "oi", "oichange"];
+
+/**
+ * GET /api/data/revisions
+ * Get the revision history of one snapshot (how the data built up within its window)
+ * Query: ?type=volume&snapshotId=xxx&strikes=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const dataType = (searchParams.get("type") || "oi") as DataType;
+    const snapshotId = searchParams.get("snapshotId");
+    const includeStrikes = searchParams.get("strikes") === "true";
+
+    if (!DATA_TYPES.includes(dataType)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid type: ${dataType}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (!snapshotId) {
+      return NextResponse.json(
+        { success: false, error: "snapshotId is required" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const select = {
+      id: true,
+      product: true,
+      expiry: true,
+      windowStart: true,
+      extractedAt: true,
+      latestRevisionId: true,
+      revisionCount: true,
+      contentHash: true,
+    };
+
+    const snapshot =
+      dataType === "volume"
+        ? await prisma.intradayVolumeSnapshot.findUnique({ where: { id: snapshotId }, select })
+        : dataType === "oichange"
+          ? await prisma.oiChangeSnapshot.findUnique({ where: { id: snapshotId }, select })
+          : await prisma.oiSnapshot.findUnique({ where: { id: snapshotId }, select });
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, error: "Snapshot not found" },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const revisions = await getRevisionHistory(dataType, snapshotId, includeStrikes);
+
+    return NextResponse.json(
+      {
+        success: true,
+        dataType,
+        snapshot,
+        revisions,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
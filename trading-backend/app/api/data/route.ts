@@ -2,20 +2,31 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import {
   generateSignal,
-  calculateVWAP,
-  getLiquidityWalls,
-  calculatePCR,
-  calculateMaxPain,
-  type OptionStrike,
   type MarketData,
   type TradingSignal,
 } from "@/lib/analysis";
-import { sendSignalNotification } from "@/lib/telegram/bot";
+import { sendSignalNotification, sendOrderEventNotifications } from "@/lib/telegram/bot";
 import { parseProductInfo } from "@/lib/utils";
 import type { ExtensionPayload, ExtensionChartData, ChartSummary, DataType } from "@/lib/types";
+import {
+  buildRevisionContent,
+  hashRevisionContent,
+  revisionCreateInput,
+  type RevisionContent,
+  type RevisionStrike,
+} from "@/lib/snapshot-revisions";
 import { runEnhancedAnalysis } from "@/lib/ai-enhanced-analysis";
+import { recordPriceTick } from "@/lib/candles";
+import { processFuturesPrice } from "@/lib/order-monitor";
+import { evaluateOrderRisk, attachRiskDecision } from "@/lib/risk";
+import { getActiveScoringProfile } from "@/lib/scoring-profiles";
+import { loadCustomFactors } from "@/lib/custom-factors";
+import { DEFAULT_PRODUCT, findProduct, productWhere } from "@/lib/products";
 import { fetchXauSpotPrice, calculateSpread } from "@/lib/price-feed";
 import { calculateGEX } from "@/lib/greeks";
+import { parseRangeValue } from "@/lib/expected-move";
+import { getMarketState, getMarketStateForSnapshot } from "@/lib/market-state";
+import type { SnapshotAnalytics } from "@/lib/snapshot-analytics";
 import { getUpcomingEventsSummary } from "@/lib/economic-calendar";
 import type { MarketDataForAI } from "@/lib/ai-analysis";
 
@@ -86,332 +97,481 @@ function detectDataType(title: string): DataType {
   return "volume";
 }
 
-// Deduplication threshold in minutes
+// Deduplication window in minutes - extractions within one window are kept
+// as revisions of a single snapshot
 const DEDUP_THRESHOLD_MINUTES = 5;
 
-// Check if data has changed significantly
-function hasDataChanged(
-  oldStrikes: Array<{ strike: number; put?: number | null; call?: number | null }>,
-  newData: ExtensionChartData["tableData"],
-  oldPrice?: number | null,
-  newPrice?: number | null
-): boolean {
-  console.log(`[API /data] Checking change: OldPrice=${oldPrice}, NewPrice=${newPrice}, Strikes=${newData.length}`);
-
-  // Check if price changed significantly (more than 0.1)
-  if (oldPrice !== undefined && newPrice !== undefined) {
-    const p1 = oldPrice || 0;
-    const p2 = newPrice || 0;
-    const diff = Math.abs(p1 - p2);
-    if (diff > 0.1) {
-      console.log(`[API /data] Price changed by ${diff} (> 0.1). Updating.`);
-      return true;
-    }
-  }
-
-  // If strike count is different, data changed
-  if (oldStrikes.length !== newData.length) {
-    console.log(`[API /data] Strike count changed: ${oldStrikes.length} -> ${newData.length}`);
-    return true;
-  }
-
-  // Check if put/call values changed significantly (more than 1% or absolute 10)
-  for (const newRow of newData) {
-    const strike = parseFloat(String(newRow.strike)) || 0;
-    const oldRow = oldStrikes.find(s => s.strike === strike);
-    if (!oldRow) return true;
-
-    const newPut = newRow.put !== null ? parseFloat(String(newRow.put)) || 0 : 0;
-    const newCall = newRow.call !== null ? parseFloat(String(newRow.call)) || 0 : 0;
-    const oldPut = oldRow.put || 0;
-    const oldCall = oldRow.call || 0;
+// Match the snapshot whose dedup window is still open
+function openWindowWhere(product: string, expiry: string) {
+  const thresholdTime = new Date(Date.now() - DEDUP_THRESHOLD_MINUTES * 60 * 1000);
 
-    // Check if changed more than 10 contracts or 1%
-    const putDiff = Math.abs(newPut - oldPut);
-    const callDiff = Math.abs(newCall - oldCall);
+  return {
+    product,
+    expiry,
+    OR: [
+      { windowStart: { gte: thresholdTime } },
+      // Snapshots saved before revision tracking have no windowStart
+      { windowStart: null, extractedAt: { gte: thresholdTime } },
+    ],
+  };
+}
 
-    if (putDiff > 10 || (oldPut > 0 && putDiff / oldPut > 0.01)) return true;
-    if (callDiff > 10 || (oldCall > 0 && callDiff / oldCall > 0.01)) return true;
-  }
+// Rebuild revision content from a stored snapshot row
+function snapshotRowContent(
+  snapshot: { futurePrice: number | null; vol: number | null; volChg: number | null; futureChg: number | null },
+  totals: { put: number | null; call: number | null },
+  strikes: RevisionStrike[]
+): RevisionContent {
+  return {
+    futurePrice: snapshot.futurePrice,
+    summary: {
+      put: totals.put,
+      call: totals.call,
+      vol: snapshot.vol,
+      volChg: snapshot.volChg,
+      futureChg: snapshot.futureChg,
+    },
+    strikes,
+  };
+}
 
-  return false;
+// Claim the next revision number of an existing snapshot inside the save
+// transaction. bump increments revisionCount atomically (holding the row
+// lock until commit), so concurrent ingests of one snapshot get distinct
+// revisions. A legacy snapshot (count 0) first keeps its pre-revision
+// state as revision 1.
+async function claimRevision(
+  bump: () => Promise<number>,
+  saveLegacyRevision: () => Promise<unknown>
+): Promise<number> {
+  const revision = await bump();
+  if (revision > 1) return revision;
+
+  await saveLegacyRevision();
+  return bump();
 }
 
-// Save Intraday Volume data (with deduplication)
+// Save Intraday Volume data (one immutable revision per accepted extraction)
 async function saveVolumeSnapshot(
   chartData: ExtensionChartData,
   product: string,
   expiry: string,
   summary: ChartSummary
 ) {
-  const thresholdTime = new Date(Date.now() - DEDUP_THRESHOLD_MINUTES * 60 * 1000);
+  const content = buildRevisionContent(chartData, summary);
+  const contentHash = hashRevisionContent(content);
+  const extractedAt = new Date(chartData.extractedAt);
 
-  // Check for recent snapshot
+  // Check for a snapshot in the current window
   const existingSnapshot = await prisma.intradayVolumeSnapshot.findFirst({
-    where: {
-      product,
-      expiry,
-      extractedAt: { gte: thresholdTime },
-    },
+    where: openWindowWhere(product, expiry),
     orderBy: { extractedAt: "desc" },
     include: { strikes: true },
   });
 
   if (existingSnapshot) {
-    // Check if data actually changed
-    const oldStrikes = existingSnapshot.strikes.map(s => ({
-      strike: s.strike,
-      put: s.putVol,
-      call: s.callVol,
-    }));
-
-    if (!hasDataChanged(oldStrikes, chartData.tableData, existingSnapshot.futurePrice, chartData.futurePrice)) {
-      console.log("[API /data] Volume: No significant change, skipping");
+    const previousContent = snapshotRowContent(
+      existingSnapshot,
+      { put: existingSnapshot.totalPut, call: existingSnapshot.totalCall },
+      existingSnapshot.strikes.map((s) => ({
+        strike: s.strike,
+        put: s.putVol,
+        call: s.callVol,
+        volSettle: s.volSettle,
+        range: s.range,
+      }))
+    );
+
+    if ((existingSnapshot.contentHash || hashRevisionContent(previousContent)) === contentHash) {
+      console.log("[API /data] Volume: Identical content, skipping");
       return existingSnapshot;
     }
 
-    // Update existing snapshot
-    console.log("[API /data] Volume: Updating existing snapshot", existingSnapshot.id);
+    return prisma.$transaction(async (tx) => {
+      const revision = await claimRevision(
+        () =>
+          tx.intradayVolumeSnapshot
+            .update({
+              where: { id: existingSnapshot.id },
+              data: { revisionCount: { increment: 1 } },
+              select: { revisionCount: true },
+            })
+            .then((s) => s.revisionCount),
+        () =>
+          tx.snapshotRevision.create({
+            data: revisionCreateInput(
+              "volume",
+              existingSnapshot.id,
+              1,
+              previousContent,
+              hashRevisionContent(previousContent),
+              existingSnapshot.extractedAt
+            ),
+          })
+      );
+
+      console.log("[API /data] Volume: Adding revision", revision, "to snapshot", existingSnapshot.id);
+
+      const rev = await tx.snapshotRevision.create({
+        data: revisionCreateInput("volume", existingSnapshot.id, revision, content, contentHash, extractedAt),
+      });
+
+      // Refresh the projection to the latest revision
+      await tx.intradayVolumeStrike.deleteMany({
+        where: { snapshotId: existingSnapshot.id },
+      });
 
-    // Delete old strikes and recreate
-    await prisma.intradayVolumeStrike.deleteMany({
-      where: { snapshotId: existingSnapshot.id },
+      return tx.intradayVolumeSnapshot.update({
+        where: { id: existingSnapshot.id },
+        data: {
+          futurePrice: content.futurePrice,
+          totalPut: summary.put,
+          totalCall: summary.call,
+          vol: summary.vol,
+          volChg: summary.volChg,
+          futureChg: summary.futureChg,
+          extractedAt,
+          windowStart: existingSnapshot.windowStart || existingSnapshot.extractedAt,
+          latestRevisionId: rev.id,
+          revisionCount: revision,
+          contentHash,
+          strikes: {
+            create: content.strikes.map((s) => ({
+              strike: s.strike,
+              putVol: s.put,
+              callVol: s.call,
+              volSettle: s.volSettle,
+              range: s.range,
+              rangeValue: parseRangeValue(s.range),
+            })),
+          },
+        },
+        include: { strikes: true },
+      });
     });
+  }
 
-    const updated = await prisma.intradayVolumeSnapshot.update({
-      where: { id: existingSnapshot.id },
+  // Create new snapshot with its first revision
+  return prisma.$transaction(async (tx) => {
+    const snapshot = await tx.intradayVolumeSnapshot.create({
       data: {
-        futurePrice: chartData.futurePrice || null,
+        product,
+        expiry,
+        futurePrice: content.futurePrice,
         totalPut: summary.put,
         totalCall: summary.call,
         vol: summary.vol,
         volChg: summary.volChg,
         futureChg: summary.futureChg,
-        extractedAt: new Date(chartData.extractedAt),
+        extractedAt,
+        windowStart: extractedAt,
+        revisionCount: 1,
+        contentHash,
         strikes: {
-          create: chartData.tableData.map((row) => ({
-            strike: parseFloat(String(row.strike)) || 0,
-            putVol: row.put !== null ? parseFloat(String(row.put)) || 0 : null,
-            callVol: row.call !== null ? parseFloat(String(row.call)) || 0 : null,
-            volSettle: row.volSettle !== null ? parseFloat(String(row.volSettle)) || null : null,
-            range: row.range !== null && row.range !== undefined ? String(row.range) : null,
+          create: content.strikes.map((s) => ({
+            strike: s.strike,
+            putVol: s.put,
+            callVol: s.call,
+            volSettle: s.volSettle,
+            range: s.range,
+            rangeValue: parseRangeValue(s.range),
           })),
         },
       },
-      include: { strikes: true },
     });
 
-    return updated;
-  }
+    const rev = await tx.snapshotRevision.create({
+      data: revisionCreateInput("volume", snapshot.id, 1, content, contentHash, extractedAt),
+    });
 
-  // Create new snapshot
-  const snapshot = await prisma.intradayVolumeSnapshot.create({
-    data: {
-      product,
-      expiry,
-      futurePrice: chartData.futurePrice || null,
-      totalPut: summary.put,
-      totalCall: summary.call,
-      vol: summary.vol,
-      volChg: summary.volChg,
-      futureChg: summary.futureChg,
-      extractedAt: new Date(chartData.extractedAt),
-      strikes: {
-        create: chartData.tableData.map((row) => ({
-          strike: parseFloat(String(row.strike)) || 0,
-          putVol: row.put !== null ? parseFloat(String(row.put)) || 0 : null,
-          callVol: row.call !== null ? parseFloat(String(row.call)) || 0 : null,
-          volSettle: row.volSettle !== null ? parseFloat(String(row.volSettle)) || null : null,
-          range: row.range !== null && row.range !== undefined ? String(row.range) : null,
-        })),
-      },
-    },
-    include: { strikes: true },
+    return tx.intradayVolumeSnapshot.update({
+      where: { id: snapshot.id },
+      data: { latestRevisionId: rev.id },
+      include: { strikes: true },
+    });
   });
-
-  return snapshot;
 }
 
-// Save Open Interest data (with deduplication)
+// Save Open Interest data (one immutable revision per accepted extraction)
 async function saveOiSnapshot(
   chartData: ExtensionChartData,
   product: string,
   expiry: string,
   summary: ChartSummary
 ) {
-  const thresholdTime = new Date(Date.now() - DEDUP_THRESHOLD_MINUTES * 60 * 1000);
+  const content = buildRevisionContent(chartData, summary);
+  const contentHash = hashRevisionContent(content);
+  const extractedAt = new Date(chartData.extractedAt);
 
-  // Check for recent snapshot
+  // Check for a snapshot in the current window
   const existingSnapshot = await prisma.oiSnapshot.findFirst({
-    where: {
-      product,
-      expiry,
-      extractedAt: { gte: thresholdTime },
-    },
+    where: openWindowWhere(product, expiry),
     orderBy: { extractedAt: "desc" },
     include: { strikes: true },
   });
 
   if (existingSnapshot) {
-    const oldStrikes = existingSnapshot.strikes.map(s => ({
-      strike: s.strike,
-      put: s.putOi,
-      call: s.callOi,
-    }));
-
-    if (!hasDataChanged(oldStrikes, chartData.tableData, existingSnapshot.futurePrice, chartData.futurePrice)) {
-      console.log("[API /data] OI: No significant change, skipping");
+    const previousContent = snapshotRowContent(
+      existingSnapshot,
+      { put: existingSnapshot.totalPutOi, call: existingSnapshot.totalCallOi },
+      existingSnapshot.strikes.map((s) => ({
+        strike: s.strike,
+        put: s.putOi,
+        call: s.callOi,
+        volSettle: s.volSettle,
+        range: s.range,
+      }))
+    );
+
+    if ((existingSnapshot.contentHash || hashRevisionContent(previousContent)) === contentHash) {
+      console.log("[API /data] OI: Identical content, skipping");
       return existingSnapshot;
     }
 
-    console.log("[API /data] OI: Updating existing snapshot", existingSnapshot.id);
+    return prisma.$transaction(async (tx) => {
+      const revision = await claimRevision(
+        () =>
+          tx.oiSnapshot
+            .update({
+              where: { id: existingSnapshot.id },
+              data: { revisionCount: { increment: 1 } },
+              select: { revisionCount: true },
+            })
+            .then((s) => s.revisionCount),
+        () =>
+          tx.snapshotRevision.create({
+            data: revisionCreateInput(
+              "oi",
+              existingSnapshot.id,
+              1,
+              previousContent,
+              hashRevisionContent(previousContent),
+              existingSnapshot.extractedAt
+            ),
+          })
+      );
+
+      console.log("[API /data] OI: Adding revision", revision, "to snapshot", existingSnapshot.id);
 
-    await prisma.oiStrike.deleteMany({
-      where: { snapshotId: existingSnapshot.id },
+      const rev = await tx.snapshotRevision.create({
+        data: revisionCreateInput("oi", existingSnapshot.id, revision, content, contentHash, extractedAt),
+      });
+
+      // Refresh the projection to the latest revision
+      await tx.oiStrike.deleteMany({
+        where: { snapshotId: existingSnapshot.id },
+      });
+
+      return tx.oiSnapshot.update({
+        where: { id: existingSnapshot.id },
+        data: {
+          futurePrice: content.futurePrice,
+          totalPutOi: summary.put,
+          totalCallOi: summary.call,
+          vol: summary.vol,
+          volChg: summary.volChg,
+          futureChg: summary.futureChg,
+          extractedAt,
+          windowStart: existingSnapshot.windowStart || existingSnapshot.extractedAt,
+          latestRevisionId: rev.id,
+          revisionCount: revision,
+          contentHash,
+          strikes: {
+            create: content.strikes.map((s) => ({
+              strike: s.strike,
+              putOi: s.put,
+              callOi: s.call,
+              volSettle: s.volSettle,
+              range: s.range,
+              rangeValue: parseRangeValue(s.range),
+            })),
+          },
+        },
+        include: { strikes: true },
+      });
     });
+  }
 
-    const updated = await prisma.oiSnapshot.update({
-      where: { id: existingSnapshot.id },
+  // Create new snapshot with its first revision
+  return prisma.$transaction(async (tx) => {
+    const snapshot = await tx.oiSnapshot.create({
       data: {
-        futurePrice: chartData.futurePrice || null,
+        product,
+        expiry,
+        futurePrice: content.futurePrice,
         totalPutOi: summary.put,
         totalCallOi: summary.call,
         vol: summary.vol,
         volChg: summary.volChg,
         futureChg: summary.futureChg,
-        extractedAt: new Date(chartData.extractedAt),
+        extractedAt,
+        windowStart: extractedAt,
+        revisionCount: 1,
+        contentHash,
         strikes: {
-          create: chartData.tableData.map((row) => ({
-            strike: parseFloat(String(row.strike)) || 0,
-            putOi: row.put !== null ? parseFloat(String(row.put)) || 0 : null,
-            callOi: row.call !== null ? parseFloat(String(row.call)) || 0 : null,
-            volSettle: row.volSettle !== null ? parseFloat(String(row.volSettle)) || null : null,
-            range: row.range !== null && row.range !== undefined ? String(row.range) : null,
+          create: content.strikes.map((s) => ({
+            strike: s.strike,
+            putOi: s.put,
+            callOi: s.call,
+            volSettle: s.volSettle,
+            range: s.range,
+            rangeValue: parseRangeValue(s.range),
           })),
         },
       },
-      include: { strikes: true },
     });
 
-    return updated;
-  }
+    const rev = await tx.snapshotRevision.create({
+      data: revisionCreateInput("oi", snapshot.id, 1, content, contentHash, extractedAt),
+    });
 
-  const snapshot = await prisma.oiSnapshot.create({
-    data: {
-      product,
-      expiry,
-      futurePrice: chartData.futurePrice || null,
-      totalPutOi: summary.put,
-      totalCallOi: summary.call,
-      vol: summary.vol,
-      volChg: summary.volChg,
-      futureChg: summary.futureChg,
-      extractedAt: new Date(chartData.extractedAt),
-      strikes: {
-        create: chartData.tableData.map((row) => ({
-          strike: parseFloat(String(row.strike)) || 0,
-          putOi: row.put !== null ? parseFloat(String(row.put)) || 0 : null,
-          callOi: row.call !== null ? parseFloat(String(row.call)) || 0 : null,
-          volSettle: row.volSettle !== null ? parseFloat(String(row.volSettle)) || null : null,
-          range: row.range !== null && row.range !== undefined ? String(row.range) : null,
-        })),
-      },
-    },
-    include: { strikes: true },
+    return tx.oiSnapshot.update({
+      where: { id: snapshot.id },
+      data: { latestRevisionId: rev.id },
+      include: { strikes: true },
+    });
   });
-
-  return snapshot;
 }
 
-// Save OI Change data (with deduplication)
+// Save OI Change data (one immutable revision per accepted extraction)
 async function saveOiChangeSnapshot(
   chartData: ExtensionChartData,
   product: string,
   expiry: string,
   summary: ChartSummary
 ) {
-  const thresholdTime = new Date(Date.now() - DEDUP_THRESHOLD_MINUTES * 60 * 1000);
+  const content = buildRevisionContent(chartData, summary);
+  const contentHash = hashRevisionContent(content);
+  const extractedAt = new Date(chartData.extractedAt);
 
-  // Check for recent snapshot
+  // Check for a snapshot in the current window
   const existingSnapshot = await prisma.oiChangeSnapshot.findFirst({
-    where: {
-      product,
-      expiry,
-      extractedAt: { gte: thresholdTime },
-    },
+    where: openWindowWhere(product, expiry),
     orderBy: { extractedAt: "desc" },
     include: { strikes: true },
   });
 
   if (existingSnapshot) {
-    const oldStrikes = existingSnapshot.strikes.map(s => ({
-      strike: s.strike,
-      put: s.putChange,
-      call: s.callChange,
-    }));
-
-    if (!hasDataChanged(oldStrikes, chartData.tableData, existingSnapshot.futurePrice, chartData.futurePrice)) {
-      console.log("[API /data] OI Change: No significant change, skipping");
+    const previousContent = snapshotRowContent(
+      existingSnapshot,
+      { put: existingSnapshot.totalPutChange, call: existingSnapshot.totalCallChange },
+      existingSnapshot.strikes.map((s) => ({
+        strike: s.strike,
+        put: s.putChange,
+        call: s.callChange,
+        volSettle: s.volSettle,
+        range: s.range,
+      }))
+    );
+
+    if ((existingSnapshot.contentHash || hashRevisionContent(previousContent)) === contentHash) {
+      console.log("[API /data] OI Change: Identical content, skipping");
       return existingSnapshot;
     }
 
-    console.log("[API /data] OI Change: Updating existing snapshot", existingSnapshot.id);
+    return prisma.$transaction(async (tx) => {
+      const revision = await claimRevision(
+        () =>
+          tx.oiChangeSnapshot
+            .update({
+              where: { id: existingSnapshot.id },
+              data: { revisionCount: { increment: 1 } },
+              select: { revisionCount: true },
+            })
+            .then((s) => s.revisionCount),
+        () =>
+          tx.snapshotRevision.create({
+            data: revisionCreateInput(
+              "oichange",
+              existingSnapshot.id,
+              1,
+              previousContent,
+              hashRevisionContent(previousContent),
+              existingSnapshot.extractedAt
+            ),
+          })
+      );
+
+      console.log("[API /data] OI Change: Adding revision", revision, "to snapshot", existingSnapshot.id);
+
+      const rev = await tx.snapshotRevision.create({
+        data: revisionCreateInput("oichange", existingSnapshot.id, revision, content, contentHash, extractedAt),
+      });
+
+      // Refresh the projection to the latest revision
+      await tx.oiChangeStrike.deleteMany({
+        where: { snapshotId: existingSnapshot.id },
+      });
 
-    await prisma.oiChangeStrike.deleteMany({
-      where: { snapshotId: existingSnapshot.id },
+      return tx.oiChangeSnapshot.update({
+        where: { id: existingSnapshot.id },
+        data: {
+          futurePrice: content.futurePrice,
+          totalPutChange: summary.put,
+          totalCallChange: summary.call,
+          vol: summary.vol,
+          volChg: summary.volChg,
+          futureChg: summary.futureChg,
+          extractedAt,
+          windowStart: existingSnapshot.windowStart || existingSnapshot.extractedAt,
+          latestRevisionId: rev.id,
+          revisionCount: revision,
+          contentHash,
+          strikes: {
+            create: content.strikes.map((s) => ({
+              strike: s.strike,
+              putChange: s.put,
+              callChange: s.call,
+              volSettle: s.volSettle,
+              range: s.range,
+              rangeValue: parseRangeValue(s.range),
+            })),
+          },
+        },
+        include: { strikes: true },
+      });
     });
+  }
 
-    const updated = await prisma.oiChangeSnapshot.update({
-      where: { id: existingSnapshot.id },
+  // Create new snapshot with its first revision
+  return prisma.$transaction(async (tx) => {
+    const snapshot = await tx.oiChangeSnapshot.create({
       data: {
-        futurePrice: chartData.futurePrice || null,
+        product,
+        expiry,
+        futurePrice: content.futurePrice,
         totalPutChange: summary.put,
         totalCallChange: summary.call,
         vol: summary.vol,
         volChg: summary.volChg,
         futureChg: summary.futureChg,
-        extractedAt: new Date(chartData.extractedAt),
+        extractedAt,
+        windowStart: extractedAt,
+        revisionCount: 1,
+        contentHash,
         strikes: {
-          create: chartData.tableData.map((row) => ({
-            strike: parseFloat(String(row.strike)) || 0,
-            putChange: row.put !== null ? parseFloat(String(row.put)) || 0 : null,
-            callChange: row.call !== null ? parseFloat(String(row.call)) || 0 : null,
-            volSettle: row.volSettle !== null ? parseFloat(String(row.volSettle)) || null : null,
-            range: row.range !== null && row.range !== undefined ? String(row.range) : null,
+          create: content.strikes.map((s) => ({
+            strike: s.strike,
+            putChange: s.put,
+            callChange: s.call,
+            volSettle: s.volSettle,
+            range: s.range,
+            rangeValue: parseRangeValue(s.range),
           })),
         },
       },
-      include: { strikes: true },
     });
 
-    return updated;
-  }
+    const rev = await tx.snapshotRevision.create({
+      data: revisionCreateInput("oichange", snapshot.id, 1, content, contentHash, extractedAt),
+    });
 
-  const snapshot = await prisma.oiChangeSnapshot.create({
-    data: {
-      product,
-      expiry,
-      futurePrice: chartData.futurePrice || null,
-      totalPutChange: summary.put,
-      totalCallChange: summary.call,
-      vol: summary.vol,
-      volChg: summary.volChg,
-      futureChg: summary.futureChg,
-      extractedAt: new Date(chartData.extractedAt),
-      strikes: {
-        create: chartData.tableData.map((row) => ({
-          strike: parseFloat(String(row.strike)) || 0,
-          putChange: row.put !== null ? parseFloat(String(row.put)) || 0 : null,
-          callChange: row.call !== null ? parseFloat(String(row.call)) || 0 : null,
-          volSettle: row.volSettle !== null ? parseFloat(String(row.volSettle)) || null : null,
-          range: row.range !== null && row.range !== undefined ? String(row.range) : null,
-        })),
-      },
-    },
-    include: { strikes: true },
+    return tx.oiChangeSnapshot.update({
+      where: { id: snapshot.id },
+      data: { latestRevisionId: rev.id },
+      include: { strikes: true },
+    });
   });
-
-  return snapshot;
 }
 
 /**
@@ -435,6 +595,7 @@ export async function POST(request: NextRequest) {
     let oiChangeSnapshotId: string | null = null;
     let latestProduct = "";
     let latestFuturePrice = 0;
+    let latestExtractedAt: Date | null = null;
 
     console.log("[API /data] Payload received:", {
       hasVolumeData: !!body.volumeData?.data?.[0],
@@ -455,6 +616,7 @@ export async function POST(request: NextRequest) {
       volumeSnapshotId = snapshot.id;
       latestProduct = product;
       latestFuturePrice = chartData.futurePrice || 0;
+      latestExtractedAt = new Date(chartData.extractedAt);
 
       results.push({
         dataType: "volume",
@@ -477,6 +639,7 @@ export async function POST(request: NextRequest) {
       oiSnapshotId = snapshot.id;
       latestProduct = product;
       latestFuturePrice = chartData.futurePrice || latestFuturePrice;
+      latestExtractedAt = new Date(chartData.extractedAt);
 
       results.push({
         dataType: "oi",
@@ -499,6 +662,7 @@ export async function POST(request: NextRequest) {
       oiChangeSnapshotId = snapshot.id;
       latestProduct = product;
       latestFuturePrice = chartData.futurePrice || latestFuturePrice;
+      latestExtractedAt = new Date(chartData.extractedAt);
 
       results.push({
         dataType: "oichange",
@@ -532,6 +696,7 @@ export async function POST(request: NextRequest) {
 
         latestProduct = product;
         latestFuturePrice = chartData.futurePrice || latestFuturePrice;
+        latestExtractedAt = new Date(chartData.extractedAt);
 
         results.push({
           dataType,
@@ -550,104 +715,67 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Feed the futures price into the candle store for technical indicators
+    if (latestProduct && latestFuturePrice > 0) {
+      try {
+        await recordPriceTick(latestProduct, latestFuturePrice, latestExtractedAt || new Date());
+      } catch (candleError) {
+        console.error("[API /data] Candle update error (non-blocking):", candleError);
+      }
+    }
+
+    // Move open FUTURES-quoted orders along with the new price
+    if (latestProduct && latestFuturePrice > 0) {
+      try {
+        const orderEvents = await processFuturesPrice(latestProduct, latestFuturePrice, latestExtractedAt || new Date());
+        await sendOrderEventNotifications(orderEvents);
+      } catch (orderError) {
+        console.error("[API /data] Order monitor error (non-blocking):", orderError);
+      }
+    }
+
+    // Materialize analytics for the ingested group (recomputed on revision).
+    // A payload without OI regroups the newest OI snapshot of its series.
+    let analytics: SnapshotAnalytics | null = null;
+    let previousStrikes: MarketData["previous_strikes"] = null;
+    let skew: MarketData["skew"] = null;
+    try {
+      const state = oiSnapshotId
+        ? await getMarketStateForSnapshot(oiSnapshotId)
+        : await getMarketState({ product: results[0].product, expiry: results[0].expiry });
+      analytics = state?.analytics ?? null;
+      previousStrikes = state?.previousStrikes ?? null;
+      skew = state?.skew ?? null;
+    } catch (analyticsError) {
+      console.error("[API /data] Snapshot analytics error (non-blocking):", analyticsError);
+    }
+
     // Run analysis if we have OI data (primary for signal generation)
     let signalResult = null;
     let tradingSignal: TradingSignal | null = null;
 
     if (oiSnapshotId && latestProduct) {
-      // Get current OI snapshot
-      const currentOi = await prisma.oiSnapshot.findUnique({
-        where: { id: oiSnapshotId },
-        include: { strikes: true },
-      });
-
-      // Get current Volume snapshot (if available)
-      const currentVolume = volumeSnapshotId
-        ? await prisma.intradayVolumeSnapshot.findUnique({
-          where: { id: volumeSnapshotId },
-          include: { strikes: true },
-        })
-        : null;
-
-      // Get OI Change snapshot (if available)
-      const currentOiChange = oiChangeSnapshotId
-        ? await prisma.oiChangeSnapshot.findUnique({
-          where: { id: oiChangeSnapshotId },
-          include: { strikes: true },
-        })
-        : null;
-
-      if (currentOi) {
-        const currentPrice = currentOi.futurePrice || latestFuturePrice || 0;
-
-        // Build strike map to merge data from all sources
-        const strikeMap = new Map<number, OptionStrike>();
-
-        // Initialize with OI data (primary)
-        for (const s of currentOi.strikes) {
-          strikeMap.set(s.strike, {
-            strike_price: s.strike,
-            call_oi: s.callOi || 0,
-            put_oi: s.putOi || 0,
-            call_volume: 0,
-            put_volume: 0,
-            call_oi_change: 0,
-            put_oi_change: 0,
-          });
-        }
-
-        // Add Volume data
-        if (currentVolume) {
-          for (const s of currentVolume.strikes) {
-            const existing = strikeMap.get(s.strike);
-            if (existing) {
-              existing.call_volume = s.callVol || 0;
-              existing.put_volume = s.putVol || 0;
-            } else {
-              strikeMap.set(s.strike, {
-                strike_price: s.strike,
-                call_oi: 0,
-                put_oi: 0,
-                call_volume: s.callVol || 0,
-                put_volume: s.putVol || 0,
-                call_oi_change: 0,
-                put_oi_change: 0,
-              });
-            }
-          }
-        }
-
-        // Add OI Change data
-        if (currentOiChange) {
-          for (const s of currentOiChange.strikes) {
-            const existing = strikeMap.get(s.strike);
-            if (existing) {
-              existing.call_oi_change = s.callChange || 0;
-              existing.put_oi_change = s.putChange || 0;
-            }
-          }
-        }
-
-        // Convert to sorted array
-        const optionStrikes: OptionStrike[] = Array.from(strikeMap.values())
-          .sort((a, b) => a.strike_price - b.strike_price);
-
-        // Calculate VWAP
-        const vwap = calculateVWAP(optionStrikes);
+      if (analytics) {
+        const currentPrice = analytics.futurePrice || latestFuturePrice || 0;
+        const optionStrikes = analytics.optionStrikes;
+        const vwap = analytics.vwap;
 
         // Build MarketData for signal generation
         const marketData: MarketData = {
           current_price: currentPrice,
           vwap,
           strikes: optionStrikes,
+          previous_strikes: previousStrikes,
+          skew,
         };
 
-        // Generate signal using unified analysis
-        tradingSignal = generateSignal(marketData);
+        // Generate signal using unified analysis and the active scoring profile
+        const scoringProfile = await getActiveScoringProfile();
+        await loadCustomFactors();
+        tradingSignal = generateSignal(marketData, scoringProfile);
 
-        // Calculate PCR for storage
-        const pcr = calculatePCR(optionStrikes, currentPrice);
-        const maxPain = calculateMaxPain(optionStrikes, currentPrice);
+        // PCR and max pain for storage
+        const { pcr, maxPain } = analytics;
 
         // Calculate strength (1-5) from score (0-100)
         const strength = Math.ceil(tradingSignal.score / 20) as 1 | 2 | 3 | 4 | 5;
@@ -676,6 +804,8 @@ export async function POST(request: NextRequest) {
             volumeSnapshotId,
             oiSnapshotId,
             oiChangeSnapshotId,
+            scoringProfile: scoringProfile.name,
+            scoringProfileVersion: scoringProfile.version,
           },
         });
 
@@ -704,6 +834,7 @@ export async function POST(request: NextRequest) {
           summary: tradingSignal.summary,
           key_levels: tradingSignal.key_levels,
           volume_confirmed: tradingSignal.factor_scores.volume_score > 0,
+          scoring_profile: tradingSignal.scoring_profile,
         };
 
         // Auto-create MT5 Order from AI Analysis for strong signals
@@ -713,15 +844,19 @@ export async function POST(request: NextRequest) {
             console.log("[API /data] Running AI Analysis for MT5 Order...");
             
             // Build AI data
+            const productSpec = findProduct(latestProduct) ?? DEFAULT_PRODUCT;
+            const { expectedMove } = analytics;
             const aiData: MarketDataForAI = {
+              product: productSpec.name,
+              spot_symbol: productSpec.spotSymbol,
               cme_futures_price: currentPrice,
               xau_spot_price: null,
               spread: null,
               oi_pcr: pcr.oi_pcr,
               volume_pcr: pcr.volume_pcr,
               max_pain: maxPain.max_pain_strike,
-              call_wall: getLiquidityWalls(optionStrikes).resistance.strike,
-              put_wall: getLiquidityWalls(optionStrikes).support.strike,
+              call_wall: analytics.walls.resistance.strike,
+              put_wall: analytics.walls.support.strike,
               net_oi_change: optionStrikes.reduce((sum, s) => sum + s.call_oi_change - s.put_oi_change, 0),
               call_oi_change: optionStrikes.reduce((sum, s) => sum + s.call_oi_change, 0),
               put_oi_change: optionStrikes.reduce((sum, s) => sum + s.put_oi_change, 0),
@@ -737,6 +872,12 @@ export async function POST(request: NextRequest) {
                 .sort((a, b) => b.volume - a.volume)
                 .slice(0, 10),
               vwap: vwap,
+              expected_move: expectedMove && {
+                source: expectedMove.source,
+                low: expectedMove.low,
+                high: expectedMove.high,
+                move: expectedMove.move,
+              },
               system_signal: tradingSignal.signal,
               system_confidence: tradingSignal.score,
               data_timestamp: new Date().toLocaleString("th-TH", { timeZone: "Asia/Bangkok" }),
@@ -746,6 +887,8 @@ export async function POST(request: NextRequest) {
               useConsensus: false,
               provider: "auto",
               trackPrediction: true,
+              product: latestProduct,
+              expiry: analytics.expiry,
             });
 
             const recommendation = enhancedResult.tradingRecommendation;
@@ -754,47 +897,65 @@ export async function POST(request: NextRequest) {
             if (recommendation.confidence >= 60 && recommendation.safeToTrade) {
               const orderType = ["BUY", "STRONG_BUY"].includes(recommendation.action) ? "BUY" : "SELL";
               
-              // Check if there's already an OPEN order for this symbol
-              const existingOrder = await prisma.mT5Order.findFirst({
-                where: {
-                  symbol: "XAUUSD",
-                  status: "OPEN",
-                },
+              const entryPrice = (recommendation.entryZone.start + recommendation.entryZone.end) / 2;
+
+              // Size the order and check daily loss / exposure limits
+              const orderSymbol = productSpec.spotSymbol;
+
+              const risk = await evaluateOrderRisk({
+                symbol: orderSymbol,
+                orderType,
+                entryPrice,
+                stopLoss: recommendation.stopLoss,
+                aiPredictionId: enhancedResult.predictionId,
+                source: "AUTO",
               });
 
-              if (!existingOrder) {
+              if (risk.approved) {
                 const mt5Order = await prisma.mT5Order.create({
                   data: {
-                    symbol: "XAUUSD",
+                    symbol: orderSymbol,
                     orderType: orderType,
-                    lotSize: 0.01,
-                    entryPrice: (recommendation.entryZone.start + recommendation.entryZone.end) / 2,
+                    lotSize: risk.lotSize,
+                    entryPrice,
                     stopLoss: recommendation.stopLoss,
                     takeProfit1: recommendation.takeProfit1,
                     takeProfit2: recommendation.takeProfit2,
                     takeProfit3: null,
                     status: "OPEN",
+                    priceBasis: "FUTURES",
                     signalSource: "AI",
                     aiPredictionId: enhancedResult.predictionId,
-                    notes: `${recommendation.action} | Confidence: ${recommendation.confidence}% | ${tradingSignal.reason}`,
+                    notes: `${recommendation.action} | Confidence: ${recommendation.confidence}% | Risk: ${risk.riskAmount} USD | ${tradingSignal.reason}`,
                   },
                 });
+                await attachRiskDecision(risk.id, mt5Order.id);
 
-                console.log("[API /data] MT5 Order created:", mt5Order.id, orderType, "@ Entry:", mt5Order.entryPrice);
+                console.log("[API /data] MT5 Order created:", mt5Order.id, orderType, mt5Order.lotSize, "lot @ Entry:", mt5Order.entryPrice);
                 
                 signalResult = {
                   ...signalResult,
                   mt5Order: {
                     id: mt5Order.id,
                     orderType: mt5Order.orderType,
+                    lotSize: mt5Order.lotSize,
                     entryPrice: mt5Order.entryPrice,
                     stopLoss: mt5Order.stopLoss,
                     takeProfit1: mt5Order.takeProfit1,
                     takeProfit2: mt5Order.takeProfit2,
+                    riskAmount: risk.riskAmount,
                   },
                 } as typeof signalResult & { mt5Order: unknown };
               } else {
-                console.log("[API /data] Skipping MT5 Order - existing OPEN order:", existingOrder.id);
+                console.log("[API /data] MT5 Order blocked by risk check:", risk.reasons.join("; "));
+
+                signalResult = {
+                  ...signalResult,
+                  mt5OrderBlocked: {
+                    riskDecisionId: risk.id,
+                    reasons: risk.reasons,
+                  },
+                } as typeof signalResult & { mt5OrderBlocked: unknown };
               }
             } else {
               console.log("[API /data] Skipping MT5 Order - Confidence:", recommendation.confidence, "Safe:", recommendation.safeToTrade);
@@ -840,7 +1001,7 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get("limit") || "10");
     const offset = parseInt(searchParams.get("offset") || "0");
 
-    const where = product ? { product } : {};
+    const where = productWhere(product);
 
     let snapshots;
 
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeExpiries } from "@/lib/expiry-analysis";
+import { resolveOptionsProduct } from "@/lib/products";
+import { ValidationError, formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/expiries
+ * Walls, PCR, max pain and GEX for every live expiry of a product,
+ * plus a combined view weighted toward the nearest expiries
+ *
+ * Query:
+ * - product (default GOLD)
+ * - asOf: ISO date to analyze as of (default now)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const product = resolveOptionsProduct(searchParams.get("product"));
+
+    const asOfParam = searchParams.get("asOf");
+    const asOf = asOfParam ? new Date(asOfParam) : new Date();
+    if (isNaN(asOf.getTime())) {
+      throw new ValidationError("asOf ต้องเป็นวันที่ที่ถูกต้อง", { asOf: String(asOfParam) });
+    }
+
+    const analysis = await analyzeExpiries(product, asOf);
+
+    return NextResponse.json(
+      { success: true, ...analysis },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error analyzing expiries:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
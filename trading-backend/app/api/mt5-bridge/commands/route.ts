@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { assertBridgeAuthorized, pollBridgeCommands } from "@/lib/mt5-bridge";
+import { formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/mt5-bridge/commands
+ * Polled by the MT5 Expert Advisor. Returns commands to execute
+ * (PLACE, MODIFY, CANCEL, CLOSE) and marks them as sent.
+ *
+ * Header: Authorization: Bearer <MT5_BRIDGE_TOKEN>
+ * Query: limit (default 20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    assertBridgeAuthorized(request);
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "20") || 20, 1), 100);
+
+    const commands = await pollBridgeCommands(limit);
+
+    return NextResponse.json(
+      {
+        success: true,
+        commands,
+        serverTime: new Date().toISOString(),
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error polling MT5 bridge commands:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
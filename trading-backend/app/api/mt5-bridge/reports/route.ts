@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  assertBridgeAuthorized,
+  applyBridgeReport,
+  type BridgeReport,
+} from "@/lib/mt5-bridge";
+import type { OrderEvent } from "@/lib/order-monitor";
+import { sendOrderEventNotifications } from "@/lib/telegram/bot";
+import { formatErrorResponse, getErrorMessage, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * POST /api/mt5-bridge/reports
+ * Execution reports from the MT5 Expert Advisor
+ *
+ * Header: Authorization: Bearer <MT5_BRIDGE_TOKEN>
+ * Body: a single report or { reports: [...] }
+ *   { type: "FILLED" | "REJECTED" | "MODIFIED" | "CANCELLED" | "CLOSED",
+ *     orderId | commandId | ticket, price?, sl?, tp?, profit?, reason?, time?, error? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertBridgeAuthorized(request);
+
+    const body = await request.json();
+    const reports: BridgeReport[] = Array.isArray(body.reports) ? body.reports : [body];
+
+    // Apply each report on its own so one bad report doesn't drop the rest
+    const results: Array<{ index: number; ok: boolean; error?: string }> = [];
+    const events: OrderEvent[] = [];
+
+    for (const [index, report] of reports.entries()) {
+      try {
+        events.push(...(await applyBridgeReport(report)));
+        results.push({ index, ok: true });
+      } catch (reportError) {
+        console.error("[MT5 Bridge] Report failed:", report, reportError);
+        results.push({ index, ok: false, error: getErrorMessage(reportError) });
+      }
+    }
+
+    try {
+      await sendOrderEventNotifications(events);
+    } catch (notifyError) {
+      console.error("[MT5 Bridge] Notification error (non-blocking):", notifyError);
+    }
+
+    return NextResponse.json(
+      {
+        success: results.every((r) => r.ok),
+        results,
+        events: events.map((e) => ({ type: e.type, orderId: e.orderId, result: e.result })),
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error applying MT5 bridge report:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
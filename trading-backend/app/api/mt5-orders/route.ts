@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { calculateProfitLoss } from "@/lib/order-monitor";
+import { queueBridgeCommand, type BridgeOrder } from "@/lib/mt5-bridge";
+import { DEFAULT_PRODUCT, findProduct } from "@/lib/products";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,6 +14,17 @@ export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
 }
 
+/**
+ * Ask the EA to cancel a pending order or close an open position
+ */
+async function requestBridgeExit(
+  order: BridgeOrder & { status: string }
+): Promise<"CANCEL" | "CLOSE"> {
+  const type = order.status === "PENDING" ? "CANCEL" : "CLOSE";
+  await queueBridgeCommand(order, type);
+  return type;
+}
+
 /**
  * GET /api/mt5-orders
  * Get all MT5 orders with optional filtering
@@ -19,7 +33,8 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
-    const symbol = searchParams.get("symbol");
+    const product = searchParams.get("product");
+    const symbol = searchParams.get("symbol") || (product ? findProduct(product)?.spotSymbol ?? product : null);
     const limit = parseInt(searchParams.get("limit") || "50");
     const offset = parseInt(searchParams.get("offset") || "0");
 
@@ -55,6 +70,7 @@ export async function GET(request: NextRequest) {
       PENDING: stats.find((s) => s.status === "PENDING")?._count.status || 0,
       OPEN: stats.find((s) => s.status === "OPEN")?._count.status || 0,
       CLOSED: stats.find((s) => s.status === "CLOSED")?._count.status || 0,
+      CANCELLED: stats.find((s) => s.status === "CANCELLED")?._count.status || 0,
     };
 
     const resultSummary = {
@@ -106,7 +122,7 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const {
-      symbol = "XAUUSD",
+      product,
       orderType,
       lotSize = 0.01,
       entryPrice,
@@ -118,8 +134,24 @@ export async function POST(request: NextRequest) {
       signalSource = "MANUAL",
       aiPredictionId,
       status = "OPEN",
+      priceBasis = "SPOT",
+      moveSlToBreakeven = false,
+      executionMode = "SIMULATED",
     } = body;
 
+    // Symbol defaults to the product's spot symbol (XAUUSD when neither is given)
+    const symbol: string | undefined =
+      body.symbol || (product ? findProduct(product) : DEFAULT_PRODUCT)?.spotSymbol;
+    if (!symbol) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown product: ${product}`,
+        },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
     // Validate required fields
     if (!orderType || !entryPrice || !stopLoss || !takeProfit1) {
       return NextResponse.json(
@@ -142,6 +174,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!["SPOT", "FUTURES"].includes(priceBasis)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid priceBasis. Must be SPOT or FUTURES",
+        },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (!["SIMULATED", "BRIDGE"].includes(executionMode)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid executionMode. Must be SIMULATED or BRIDGE",
+        },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // The terminal quotes spot, so bridged orders can't use futures levels
+    if (executionMode === "BRIDGE" && priceBasis !== "SPOT") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "BRIDGE orders must use SPOT prices",
+        },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const isBridge = executionMode === "BRIDGE";
+
     const order = await prisma.mT5Order.create({
       data: {
         symbol,
@@ -155,11 +220,19 @@ export async function POST(request: NextRequest) {
         notes,
         signalSource,
         aiPredictionId,
-        status,
+        // Bridged orders open when the EA reports the fill
+        status: isBridge ? "PENDING" : status,
+        priceBasis,
+        moveSlToBreakeven: !!moveSlToBreakeven,
+        executionMode,
         entryTime: new Date(),
       },
     });
 
+    if (isBridge) {
+      await queueBridgeCommand(order, "PLACE");
+    }
+
     return NextResponse.json(
       {
         success: true,
@@ -199,21 +272,41 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const existing = await prisma.mT5Order.findUnique({ where: { id } });
+    const isLiveBridge =
+      existing?.executionMode === "BRIDGE" && ["PENDING", "OPEN"].includes(existing.status);
+
+    if (existing && isLiveBridge) {
+      // Closing a bridged order is a request to the terminal; the journal
+      // closes when the EA reports back
+      if (updateData.status === "CLOSED") {
+        const type = await requestBridgeExit(existing);
+        return NextResponse.json(
+          {
+            success: true,
+            order: existing,
+            message: `${type} command queued for MT5`,
+          },
+          { status: 202, headers: corsHeaders }
+        );
+      }
+
+      const levelsChanged = ["stopLoss", "takeProfit1", "takeProfit2", "takeProfit3"].some(
+        (key) => updateData[key] !== undefined && updateData[key] !== existing[key as keyof typeof existing]
+      );
+      if (levelsChanged) {
+        await queueBridgeCommand({ ...existing, ...updateData }, "MODIFY");
+      }
+    }
+
     // If closing the order, set closeTime
     if (updateData.status === "CLOSED" && !updateData.closeTime) {
       updateData.closeTime = new Date();
     }
 
     // Calculate profit/loss if closing
-    if (updateData.closePrice && updateData.status === "CLOSED") {
-      const order = await prisma.mT5Order.findUnique({ where: { id } });
-      if (order) {
-        if (order.orderType === "BUY") {
-          updateData.profitLoss = updateData.closePrice - order.entryPrice;
-        } else {
-          updateData.profitLoss = order.entryPrice - updateData.closePrice;
-        }
-      }
+    if (updateData.closePrice && updateData.status === "CLOSED" && existing) {
+      Object.assign(updateData, calculateProfitLoss(existing, updateData.closePrice));
     }
 
     const order = await prisma.mT5Order.update({
@@ -260,6 +353,19 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    // A live bridged order has to leave the terminal before the journal row goes
+    const existing = await prisma.mT5Order.findUnique({ where: { id } });
+    if (existing?.executionMode === "BRIDGE" && ["PENDING", "OPEN"].includes(existing.status)) {
+      const type = await requestBridgeExit(existing);
+      return NextResponse.json(
+        {
+          success: true,
+          message: `${type} command queued for MT5; order kept until the EA reports back`,
+        },
+        { status: 202, headers: corsHeaders }
+      );
+    }
+
     await prisma.mT5Order.delete({
       where: { id },
     });
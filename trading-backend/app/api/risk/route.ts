@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRiskSettings,
+  getRiskExposure,
+  getRecentRiskDecisions,
+  calculatePositionSize,
+  getContractSpec,
+} from "@/lib/risk";
+import { ValidationError, formatErrorResponse, isAppError } from "@/lib/errors";
+import { resolveProduct } from "@/lib/products";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/risk
+ * Current risk settings, exposure and recent risk decisions
+ *
+ * Query:
+ * - symbol, or product (its spot symbol; default XAUUSD)
+ * - entry, sl: also return the position size for these levels
+ * - limit: number of decisions (default 20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get("symbol") || resolveProduct(searchParams.get("product")).spotSymbol;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 100);
+
+    const settings = await getRiskSettings();
+    const [exposure, decisions] = await Promise.all([
+      getRiskExposure(symbol, settings),
+      getRecentRiskDecisions(limit),
+    ]);
+
+    let positionSize = null;
+    const entry = searchParams.get("entry");
+    const sl = searchParams.get("sl");
+    if (entry || sl) {
+      const entryPrice = parseFloat(entry || "");
+      const stopLoss = parseFloat(sl || "");
+      if (!isFinite(entryPrice) || !isFinite(stopLoss)) {
+        throw new ValidationError("ต้องระบุ entry และ sl เป็นตัวเลข", { entry: String(entry), sl: String(sl) });
+      }
+      positionSize = calculatePositionSize(settings, entryPrice, stopLoss, getContractSpec(symbol));
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        symbol,
+        settings,
+        contractSpec: getContractSpec(symbol),
+        exposure,
+        positionSize,
+        decisions,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching risk status:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
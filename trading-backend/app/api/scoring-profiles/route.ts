@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listScoringProfiles,
+  saveScoringProfileVersion,
+  activateScoringProfile,
+} from "@/lib/scoring-profiles";
+import { formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+function errorResponse(error: unknown) {
+  const statusCode = isAppError(error) ? error.statusCode : 500;
+  return NextResponse.json(formatErrorResponse(error), {
+    status: statusCode,
+    headers: corsHeaders,
+  });
+}
+
+/**
+ * GET /api/scoring-profiles
+ * List all scoring profile versions (newest first) and the active one
+ */
+export async function GET() {
+  try {
+    const profiles = await listScoringProfiles();
+
+    return NextResponse.json(
+      {
+        success: true,
+        active: profiles.find((p) => p.isActive) || null,
+        profiles,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching scoring profiles:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/scoring-profiles
+ * Save a new version of a profile
+ * Body: { name, weights?, thresholds?, notes?, activate? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const profile = await saveScoringProfileVersion({
+      name: body.name,
+      weights: body.weights || {},
+      thresholds: body.thresholds || {},
+      notes: body.notes,
+      activate: !!body.activate,
+    });
+
+    return NextResponse.json(
+      { success: true, profile },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error saving scoring profile:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PUT /api/scoring-profiles
+ * Activate a stored version for live signals
+ * Body: { id } (id: null reverts to the built-in profile)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const active = await activateScoringProfile(body.id || null);
+
+    return NextResponse.json(
+      { success: true, active },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error activating scoring profile:", error);
+    return errorResponse(error);
+  }
+}
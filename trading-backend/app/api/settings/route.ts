@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { sendTestNotification } from "@/lib/telegram/bot";
+import { STALE_DATA_POLICIES, type StaleDataPolicy } from "@/lib/data-quality";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,6 +13,38 @@ export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
 }
 
+function riskFields(settings: {
+  accountBalance: number;
+  riskPercent: number;
+  maxDailyLossPercent: number;
+  maxOpenOrders: number;
+  maxOpenLots: number;
+}) {
+  return {
+    accountBalance: settings.accountBalance,
+    riskPercent: settings.riskPercent,
+    maxDailyLossPercent: settings.maxDailyLossPercent,
+    maxOpenOrders: settings.maxOpenOrders,
+    maxOpenLots: settings.maxOpenLots,
+  };
+}
+
+function dataQualityFields(settings: {
+  maxOiAgeMinutes: number;
+  maxVolumeAgeMinutes: number;
+  maxOiChangeAgeMinutes: number;
+  maxPriceDivergencePct: number;
+  staleDataPolicy: string;
+}) {
+  return {
+    maxOiAgeMinutes: settings.maxOiAgeMinutes,
+    maxVolumeAgeMinutes: settings.maxVolumeAgeMinutes,
+    maxOiChangeAgeMinutes: settings.maxOiChangeAgeMinutes,
+    maxPriceDivergencePct: settings.maxPriceDivergencePct,
+    staleDataPolicy: settings.staleDataPolicy,
+  };
+}
+
 /**
  * GET /api/settings
  * Get current settings
@@ -45,6 +78,8 @@ export async function GET() {
             : null,
           signalThreshold: settings.signalThreshold,
           analysisInterval: settings.analysisInterval,
+          ...riskFields(settings),
+          ...dataQualityFields(settings),
           updatedAt: settings.updatedAt,
         },
       },
@@ -75,6 +110,16 @@ export async function POST(request: NextRequest) {
       signalThreshold,
       analysisInterval,
       testNotification,
+      accountBalance,
+      riskPercent,
+      maxDailyLossPercent,
+      maxOpenOrders,
+      maxOpenLots,
+      maxOiAgeMinutes,
+      maxVolumeAgeMinutes,
+      maxOiChangeAgeMinutes,
+      maxPriceDivergencePct,
+      staleDataPolicy,
     } = body;
 
     // Validate
@@ -92,6 +137,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (accountBalance !== undefined && !(accountBalance > 0)) {
+      return NextResponse.json(
+        { success: false, error: "Account balance must be greater than 0" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (riskPercent !== undefined && (riskPercent <= 0 || riskPercent > 10)) {
+      return NextResponse.json(
+        { success: false, error: "Risk per trade must be between 0 and 10%" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (maxDailyLossPercent !== undefined && (maxDailyLossPercent <= 0 || maxDailyLossPercent > 100)) {
+      return NextResponse.json(
+        { success: false, error: "Max daily loss must be between 0 and 100%" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (maxOpenOrders !== undefined && (!Number.isInteger(maxOpenOrders) || maxOpenOrders < 0)) {
+      return NextResponse.json(
+        { success: false, error: "Max open orders must be a whole number ≥ 0" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (maxOpenLots !== undefined && maxOpenLots < 0) {
+      return NextResponse.json(
+        { success: false, error: "Max open lots must be ≥ 0" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    for (const [field, value] of Object.entries({ maxOiAgeMinutes, maxVolumeAgeMinutes, maxOiChangeAgeMinutes })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        return NextResponse.json(
+          { success: false, error: `${field} must be a whole number of minutes ≥ 1` },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+    }
+
+    if (maxPriceDivergencePct !== undefined && !(maxPriceDivergencePct > 0)) {
+      return NextResponse.json(
+        { success: false, error: "Max price divergence must be greater than 0%" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (staleDataPolicy !== undefined && !STALE_DATA_POLICIES.includes(staleDataPolicy as StaleDataPolicy)) {
+      return NextResponse.json(
+        { success: false, error: `Stale data policy must be one of ${STALE_DATA_POLICIES.join(", ")}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
     // Test notification if requested
     if (testNotification && telegramBotToken && telegramChatId) {
       const testResult = await sendTestNotification(telegramBotToken, telegramChatId);
@@ -112,6 +215,16 @@ export async function POST(request: NextRequest) {
     if (telegramChatId !== undefined) updateData.telegramChatId = telegramChatId;
     if (signalThreshold !== undefined) updateData.signalThreshold = signalThreshold;
     if (analysisInterval !== undefined) updateData.analysisInterval = analysisInterval;
+    if (accountBalance !== undefined) updateData.accountBalance = accountBalance;
+    if (riskPercent !== undefined) updateData.riskPercent = riskPercent;
+    if (maxDailyLossPercent !== undefined) updateData.maxDailyLossPercent = maxDailyLossPercent;
+    if (maxOpenOrders !== undefined) updateData.maxOpenOrders = maxOpenOrders;
+    if (maxOpenLots !== undefined) updateData.maxOpenLots = maxOpenLots;
+    if (maxOiAgeMinutes !== undefined) updateData.maxOiAgeMinutes = maxOiAgeMinutes;
+    if (maxVolumeAgeMinutes !== undefined) updateData.maxVolumeAgeMinutes = maxVolumeAgeMinutes;
+    if (maxOiChangeAgeMinutes !== undefined) updateData.maxOiChangeAgeMinutes = maxOiChangeAgeMinutes;
+    if (maxPriceDivergencePct !== undefined) updateData.maxPriceDivergencePct = maxPriceDivergencePct;
+    if (staleDataPolicy !== undefined) updateData.staleDataPolicy = staleDataPolicy;
 
     const settings = await prisma.settings.upsert({
       where: { id: "default" },
@@ -122,6 +235,17 @@ export async function POST(request: NextRequest) {
         telegramChatId: telegramChatId || null,
         signalThreshold: signalThreshold || 3,
         analysisInterval: analysisInterval || 5,
+        // undefined falls back to the schema defaults
+        accountBalance,
+        riskPercent,
+        maxDailyLossPercent,
+        maxOpenOrders,
+        maxOpenLots,
+        maxOiAgeMinutes,
+        maxVolumeAgeMinutes,
+        maxOiChangeAgeMinutes,
+        maxPriceDivergencePct,
+        staleDataPolicy,
       },
     });
 
@@ -136,6 +260,8 @@ export async function POST(request: NextRequest) {
           telegramConfigured: !!(settings.telegramBotToken && settings.telegramChatId),
           signalThreshold: settings.signalThreshold,
           analysisInterval: settings.analysisInterval,
+          ...riskFields(settings),
+          ...dataQualityFields(settings),
           updatedAt: settings.updatedAt,
         },
       },
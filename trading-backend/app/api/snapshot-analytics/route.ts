@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  backfillSnapshotAnalytics,
+  refreshSnapshotAnalytics,
+  ANALYTICS_VERSION,
+} from "@/lib/snapshot-analytics";
+import { getMarketState } from "@/lib/market-state";
+import { resolveOptionsProduct, productSnapshotWhere } from "@/lib/products";
+import { NoDataError, ValidationError, formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+function errorResponse(error: unknown) {
+  const statusCode = isAppError(error) ? error.statusCode : 500;
+  return NextResponse.json(formatErrorResponse(error), {
+    status: statusCode,
+    headers: corsHeaders,
+  });
+}
+
+/**
+ * GET /api/snapshot-analytics
+ * Precomputed analytics of the latest snapshot group, with the age and
+ * skew of each source
+ *
+ * Query:
+ * - product (default GOLD)
+ * - expiry (default the product's default series)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const product = resolveOptionsProduct(searchParams.get("product"));
+    const expiry = searchParams.get("expiry");
+
+    const state = await getMarketState(productSnapshotWhere(product, expiry));
+    if (!state) {
+      throw new NoDataError("ข้อมูล OI", { product: product.key, expiry });
+    }
+
+    return NextResponse.json(
+      { success: true, version: ANALYTICS_VERSION, sources: state.sources, analytics: state.analytics },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error fetching snapshot analytics:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/snapshot-analytics
+ * Recompute one snapshot group, or backfill a batch of OI snapshots
+ * without current analytics (scripts/backfill-analytics.mjs loops this)
+ *
+ * Body:
+ * - { oiSnapshotId } recomputes that snapshot's group
+ * - { product?, cursor?, limit?, force? } backfills the next batch;
+ *   repeat with the returned nextCursor until it is null
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (body.oiSnapshotId) {
+      const analytics = await refreshSnapshotAnalytics(String(body.oiSnapshotId));
+      return NextResponse.json(
+        { success: true, version: ANALYTICS_VERSION, analytics },
+        { headers: corsHeaders }
+      );
+    }
+
+    if (body.limit !== undefined && !(Number(body.limit) > 0)) {
+      throw new ValidationError("limit ต้องเป็นจำนวนบวก", { limit: String(body.limit) });
+    }
+
+    const backfill = await backfillSnapshotAnalytics({
+      product: body.product,
+      cursor: body.cursor,
+      limit: body.limit !== undefined ? Number(body.limit) : undefined,
+      force: !!body.force,
+    });
+
+    console.log(
+      `[API /snapshot-analytics] Backfill: ${backfill.computed} computed, ${backfill.skipped} current, ${backfill.failed.length} failed`
+    );
+
+    return NextResponse.json(
+      { success: true, version: ANALYTICS_VERSION, ...backfill },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error backfilling snapshot analytics:", error);
+    return errorResponse(error);
+  }
+}
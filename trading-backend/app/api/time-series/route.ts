@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSnapshotTimeSeries, parseTimeSeriesParams } from "@/lib/time-series";
+import { resolveOptionsProduct } from "@/lib/products";
+import { formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/time-series
+ * OI PCR, volume PCR, max pain, call/put wall, VWAP, net GEX and futures
+ * price for every stored snapshot in a range, bucketed by interval
+ *
+ * Query:
+ * - product (default GOLD)
+ * - expiry (default: newest snapshot's expiry in the range)
+ * - interval: 5m | 15m | 1h | 1d (default 15m)
+ * - from, to: ISO dates (default the last 24 hours)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const product = resolveOptionsProduct(searchParams.get("product"));
+    const { interval, from, to } = parseTimeSeriesParams({
+      interval: searchParams.get("interval"),
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+    });
+
+    const series = await getSnapshotTimeSeries(product, {
+      expiry: searchParams.get("expiry"),
+      interval,
+      from,
+      to,
+    });
+
+    return NextResponse.json(
+      { success: true, ...series },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error building time series:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
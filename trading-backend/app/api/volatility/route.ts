@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeVolatility } from "@/lib/volatility";
+import { resolveOptionsProduct } from "@/lib/products";
+import { formatErrorResponse, isAppError } from "@/lib/errors";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/volatility
+ * Volatility smile, ATM IV, 25-delta risk reversal and butterfly from the
+ * latest volume, OI and OI change snapshots, with the change since the
+ * previous snapshot of each
+ *
+ * Query:
+ * - product (default GOLD)
+ * - expiry (default: newest snapshot's expiry)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const product = resolveOptionsProduct(searchParams.get("product"));
+
+    const analysis = await analyzeVolatility(product, searchParams.get("expiry"));
+
+    return NextResponse.json(
+      { success: true, ...analysis },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error analyzing volatility:", error);
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
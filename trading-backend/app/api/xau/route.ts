@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-  fetchXauSpotPrice,
+  fetchSpotPrice,
   calculateSpread,
   convertLevelsToXau,
   getTradingZones,
@@ -9,31 +9,57 @@ import {
   type SpreadInfo,
   type ConvertedLevels,
 } from "@/lib/price-feed";
-import prisma from "@/lib/db";
-import { getLiquidityWalls, calculateMaxPain, type OptionStrike } from "@/lib/analysis";
+import { processSpotPrice } from "@/lib/order-monitor";
+import { sendOrderEventNotifications } from "@/lib/telegram/bot";
+import { getMarketState } from "@/lib/market-state";
+import { resolveProduct, resolveOptionsProduct, productSnapshotWhere } from "@/lib/products";
+import { assertAdminAuthorized } from "@/lib/admin-auth";
+import { isAppError } from "@/lib/errors";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
 export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
 }
 
+/**
+ * Move open SPOT-quoted orders along with a new spot price (non-blocking)
+ */
+async function monitorSpotOrders(price: number, symbol: string): Promise<void> {
+  try {
+    const events = await processSpotPrice(price, new Date(), symbol);
+    await sendOrderEventNotifications(events);
+  } catch (error) {
+    console.error("[API /xau] Order monitor error (non-blocking):", error);
+  }
+}
+
 // ============================================
 // GET /api/xau - Get XAU spot price and converted levels
+// ?product=SILVER converts against XAGUSD instead
 // ============================================
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const includeLevels = searchParams.get("levels") !== "false";
-    const product = searchParams.get("product");
-
-    // Fetch XAU spot price (tries multiple sources automatically)
-    const xauPrice: SpotPrice = await fetchXauSpotPrice();
+    // Levels come from option snapshots; the spot price alone works for any product
+    const product = includeLevels
+      ? resolveOptionsProduct(searchParams.get("product"))
+      : resolveProduct(searchParams.get("product"));
+    const expiry = searchParams.get("expiry");
+
+    // Fetch spot price (tries multiple sources automatically)
+    const xauPrice: SpotPrice = await fetchSpotPrice(product);
+
+    // Only real quotes drive orders, not the market-closed placeholder or CME estimate
+    if (xauPrice.price > 0 && !xauPrice.source.startsWith("CME Futures")) {
+      await monitorSpotOrders(xauPrice.price, product.spotSymbol);
+    }
 
     // Get CME Futures price from latest OI snapshot
     let spreadInfo: SpreadInfo | null = null;
@@ -41,33 +67,15 @@ export async function GET(request: NextRequest) {
     let tradingZones = null;
 
     if (includeLevels) {
-      const where = product ? { product } : {};
-      
-      // Get latest OI snapshot for CME levels
-      const oiSnapshot = await prisma.oiSnapshot.findFirst({
-        where,
-        orderBy: { extractedAt: "desc" },
-        include: { strikes: { orderBy: { strike: "asc" } } },
-      });
-
-      if (oiSnapshot && oiSnapshot.futurePrice) {
+      // Latest market state for CME levels
+      const state = await getMarketState(productSnapshotWhere(product, expiry));
+
+      if (state && state.futurePrice) {
         // Calculate spread
-        spreadInfo = calculateSpread(oiSnapshot.futurePrice, xauPrice.price);
-        
-        // Convert strikes to OptionStrike format for analysis
-        const optionStrikes: OptionStrike[] = oiSnapshot.strikes.map(s => ({
-          strike_price: s.strike,
-          call_oi: s.callOi || 0,
-          put_oi: s.putOi || 0,
-          call_volume: 0,
-          put_volume: 0,
-          call_oi_change: 0,
-          put_oi_change: 0,
-        }));
-
-        // Get walls and max pain
-        const walls = getLiquidityWalls(optionStrikes);
-        const maxPain = calculateMaxPain(optionStrikes, oiSnapshot.futurePrice);
+        spreadInfo = calculateSpread(state.futurePrice, xauPrice.price);
+
+        // Walls and max pain (precomputed)
+        const { walls, maxPain } = state.analytics;
 
         // Get support/resistance levels
         const supportLevels = walls.support_levels.map(l => l.strike);
@@ -87,13 +95,14 @@ export async function GET(request: NextRequest) {
         );
 
         // Get trading zones
-        tradingZones = getTradingZones(convertedLevels, xauPrice.price);
+        tradingZones = getTradingZones(convertedLevels, xauPrice.price, product.zoneUnit);
       }
     }
 
     // Build response
     const response = {
       success: true,
+      product: product.key,
       xau: {
         symbol: xauPrice.symbol,
         price: xauPrice.price,
@@ -108,7 +117,7 @@ export async function GET(request: NextRequest) {
         spot_price: spreadInfo.spot_price,
         spread: spreadInfo.spread,
         spread_percent: spreadInfo.spread_percent,
-        status: getSpreadStatus(spreadInfo.spread),
+        status: getSpreadStatus(spreadInfo.spread, product.normalSpread),
         updated_at: spreadInfo.updated_at.toISOString(),
       } : null,
       levels: convertedLevels,
@@ -131,19 +140,22 @@ export async function GET(request: NextRequest) {
         error: error instanceof Error ? error.message : "Failed to fetch XAU price",
         suggestion: "ลองใหม่อีกครั้ง หรือตรวจสอบการเชื่อมต่ออินเทอร์เน็ต",
       },
-      { status: 500, headers: corsHeaders }
+      { status: isAppError(error) ? error.statusCode : 500, headers: corsHeaders }
     );
   }
 }
 
 // ============================================
 // POST /api/xau - Manual XAU price input (for backup)
+// Converts levels only. The typed price moves open SPOT orders only with
+// monitorOrders: true and Authorization: Bearer <ADMIN_API_TOKEN>.
 // ============================================
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { xau_price, cme_price } = body;
+    const product = resolveOptionsProduct(body.product);
 
     if (!xau_price || typeof xau_price !== "number" || xau_price <= 0) {
       return NextResponse.json(
@@ -152,21 +164,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (body.monitorOrders === true) {
+      assertAdminAuthorized(request);
+      await monitorSpotOrders(xau_price, product.spotSymbol);
+    }
+
     // OPTIMIZATION: Start database query early, await later (async-api-routes rule)
     // This prevents waterfall - query starts immediately while we process other logic
-    const oiSnapshotPromise = prisma.oiSnapshot.findFirst({
-      orderBy: { extractedAt: "desc" },
-      include: { strikes: { orderBy: { strike: "asc" } } },
-    });
+    const statePromise = getMarketState(productSnapshotWhere(product, body.expiry));
 
     // If CME price provided, use it; otherwise we'll get from snapshot
     let futuresPrice = cme_price;
     
-    // Await snapshot - we need it for both price fallback and levels
-    const oiSnapshot = await oiSnapshotPromise;
+    // Await market state - we need it for both price fallback and levels
+    const state = await statePromise;
     
     if (!futuresPrice) {
-      futuresPrice = oiSnapshot?.futurePrice || 0;
+      futuresPrice = state?.futurePrice || 0;
     }
 
     if (!futuresPrice) {
@@ -179,24 +193,13 @@ export async function POST(request: NextRequest) {
     // Calculate spread
     const spreadInfo = calculateSpread(futuresPrice, xau_price);
 
-    // oiSnapshot already fetched above - no duplicate query needed
+    // state already fetched above - no duplicate query needed
 
     let convertedLevels: ConvertedLevels | null = null;
     let tradingZones = null;
 
-    if (oiSnapshot) {
-      const optionStrikes: OptionStrike[] = oiSnapshot.strikes.map(s => ({
-        strike_price: s.strike,
-        call_oi: s.callOi || 0,
-        put_oi: s.putOi || 0,
-        call_volume: 0,
-        put_volume: 0,
-        call_oi_change: 0,
-        put_oi_change: 0,
-      }));
-
-      const walls = getLiquidityWalls(optionStrikes);
-      const maxPain = calculateMaxPain(optionStrikes, futuresPrice);
+    if (state) {
+      const { walls, maxPain } = state.analytics;
 
       convertedLevels = convertLevelsToXau(
         {
@@ -210,13 +213,14 @@ export async function POST(request: NextRequest) {
         xau_price
       );
 
-      tradingZones = getTradingZones(convertedLevels, xau_price);
+      tradingZones = getTradingZones(convertedLevels, xau_price, product.zoneUnit);
     }
 
     return NextResponse.json({
       success: true,
+      product: product.key,
       xau: {
-        symbol: "XAU/USD",
+        symbol: product.feeds.twelveData,
         price: xau_price,
         source: "Manual Input",
         timestamp: new Date().toISOString(),
@@ -226,7 +230,7 @@ export async function POST(request: NextRequest) {
         spot_price: spreadInfo.spot_price,
         spread: spreadInfo.spread,
         spread_percent: spreadInfo.spread_percent,
-        status: getSpreadStatus(spreadInfo.spread),
+        status: getSpreadStatus(spreadInfo.spread, product.normalSpread),
       },
       levels: convertedLevels,
       trading_zones: tradingZones,
@@ -235,6 +239,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("Error processing manual XAU input:", error);
     
+    if (isAppError(error)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode, headers: corsHeaders }
+      );
+    }
+
     return NextResponse.json(
       { success: false, error: "เกิดข้อผิดพลาดในการคำนวณ" },
       { status: 500, headers: corsHeaders }
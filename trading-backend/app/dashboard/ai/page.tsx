@@ -10,6 +10,7 @@ import {
 import { AIControls } from "@/components/trading/ai/ai-controls";
 import { AIResultDisplay } from "@/components/trading/ai/ai-result-display";
 import { AIStatsCards } from "@/components/trading/ai/ai-stats-cards";
+import { AICalibrationPanel } from "@/components/trading/ai/ai-calibration-panel";
 import { AIAnalysisResponse, AnalysisMode, ProviderType } from "@/components/trading/ai/types";
 import { AlertTriangle, Sparkles, Check } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
@@ -96,6 +97,8 @@ export default function AIAnalysisPage() {
               onModeChange={setMode}
             />
 
+            <AICalibrationPanel />
+
             {/* Quick Tips or Status */}
             {!result && (
               <Card className="border-blue-500/20 bg-blue-500/5 mt-auto">
@@ -41,17 +41,22 @@ interface MT5Order {
   takeProfit1: number;
   takeProfit2: number | null;
   takeProfit3: number | null;
-  status: "PENDING" | "OPEN" | "CLOSED";
+  status: "PENDING" | "OPEN" | "CLOSED" | "CANCELLED";
   result: string | null;
   closePrice: number | null;
   closeTime: string | null;
   profitLoss: number | null;
+  profitLossUsd: number | null;
   tp1Hit: boolean;
   tp2Hit: boolean;
   tp3Hit: boolean;
   slHit: boolean;
   notes: string | null;
   signalSource: string | null;
+  executionMode: "SIMULATED" | "BRIDGE";
+  bridgeStatus: string | null;
+  ticket: string | null;
+  slippage: number | null;
   createdAt: string;
 }
 
@@ -460,9 +465,16 @@ export default function MT5Page() {
                                     {order.signalSource}
                                   </Badge>
                                 )}
+                                {order.executionMode === "BRIDGE" && (
+                                  <Badge variant="outline" className="text-xs text-purple-500 border-purple-500">
+                                    MT5 {order.bridgeStatus || ""}
+                                  </Badge>
+                                )}
                               </div>
                               <p className="text-sm text-muted-foreground">
                                 Entry: {formatNumber(order.entryPrice, 2)} | Lot: {order.lotSize}
+                                {order.ticket && <> | Ticket: {order.ticket}</>}
+                                {order.slippage !== null && <> | Slippage: {formatNumber(order.slippage, 2)}</>}
                               </p>
                             </div>
 
@@ -671,6 +683,11 @@ export default function MT5Page() {
                                     )}>
                                       {order.profitLoss >= 0 ? "+" : ""}{formatNumber(order.profitLoss, 2)}
                                     </p>
+                                    {order.profitLossUsd !== null && (
+                                      <p className="text-xs text-muted-foreground font-mono">
+                                        {order.profitLossUsd >= 0 ? "+" : ""}{formatNumber(order.profitLossUsd, 2)} USD
+                                      </p>
+                                    )}
                                   </div>
                                 </div>
                               )}
@@ -9,6 +9,8 @@ import { Button } from "@/components/ui/button";
 import { IntradayVolumeChart } from "@/components/charts/intraday-volume-chart";
 import { OiChart } from "@/components/charts/oi-chart";
 import { TradingViewChart } from "@/components/charts/tradingview-chart";
+import { TimeSeriesChart } from "@/components/charts/time-series-chart";
+import { useTimeSeries, type TimeSeriesInterval } from "@/hooks/use-time-series";
 import { SkeletonDashboard } from "@/components/ui/skeleton";
 import { XauConverter } from "@/components/trading/xau-converter";
 import { formatDateTime, formatNumber, getRelativeTime } from "@/lib/utils";
@@ -66,6 +68,12 @@ interface OptionsAnalysis {
     signal: string;
     description: string;
   };
+  expectedMove?: {
+    source: "RANGE" | "ATM_IV";
+    low: number;
+    high: number;
+    move: number;
+  } | null;
   keyLevels: {
     support: Array<{ strike: number; putOi: number; strength: number }>;
     resistance: Array<{ strike: number; callOi: number; strength: number }>;
@@ -140,6 +148,7 @@ export default function DashboardPage() {
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(true);
   const [date, setDate] = useState<Date | undefined>(undefined);
+  const [seriesInterval, setSeriesInterval] = useState<TimeSeriesInterval>("15m");
 
   const fetchData = useCallback(async () => {
     setIsLoading(true);
@@ -180,6 +189,15 @@ export default function DashboardPage() {
 
   const analysis = data?.analysis;
   const signal = analysis?.signal;
+
+  // Metrics over the selected day, or the last 24 hours
+  const seriesDay = date ? format(date, "yyyy-MM-dd") : null;
+  const timeSeries = useTimeSeries({
+    expiry: analysis?.marketData.expiry,
+    interval: seriesInterval,
+    from: seriesDay ? new Date(`${seriesDay}T00:00:00+07:00`).toISOString() : undefined,
+    to: seriesDay ? new Date(`${seriesDay}T23:59:59+07:00`).toISOString() : undefined,
+  });
   const signalType = signal?.type || "NEUTRAL";
   const config = getSignalConfig(signalType);
   const SignalIcon = config.icon;
@@ -533,6 +551,7 @@ export default function DashboardPage() {
                         futurePrice={analysis.marketData.currentPrice}
                         summary={data.intradaySummary}
                         title="Intraday Volume"
+                        expectedMove={analysis.expectedMove}
                       />
                     )}
 
@@ -549,6 +568,15 @@ export default function DashboardPage() {
                       }))}
                       currentPrice={analysis.marketData.currentPrice}
                       maxPainStrike={analysis.maxPain.maxPainStrike}
+                      expectedMove={analysis.expectedMove}
+                    />
+
+                    {/* PCR / Max Pain / Walls / GEX over time */}
+                    <TimeSeriesChart
+                      points={timeSeries.points}
+                      interval={seriesInterval}
+                      onIntervalChange={setSeriesInterval}
+                      isLoading={timeSeries.isLoading}
                     />
                   </div>
                 </div>
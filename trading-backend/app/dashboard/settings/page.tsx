@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/components/ui/use-toast";
+import { ScoringProfileEditor } from "@/components/settings/scoring-profile-editor";
 import { Send, Check, AlertCircle, Loader2 } from "lucide-react";
 
 interface Settings {
@@ -15,6 +16,16 @@ interface Settings {
   telegramChatId: string | null;
   signalThreshold: number;
   analysisInterval: number;
+  accountBalance: number;
+  riskPercent: number;
+  maxDailyLossPercent: number;
+  maxOpenOrders: number;
+  maxOpenLots: number;
+  maxOiAgeMinutes: number;
+  maxVolumeAgeMinutes: number;
+  maxOiChangeAgeMinutes: number;
+  maxPriceDivergencePct: number;
+  staleDataPolicy: "WARN" | "REJECT";
   updatedAt: string;
 }
 
@@ -31,6 +42,16 @@ export default function SettingsPage() {
   const [signalThreshold, setSignalThreshold] = useState(3);
   const [analysisInterval, setAnalysisInterval] = useState(5);
   const [enableNotifications, setEnableNotifications] = useState(false);
+  const [accountBalance, setAccountBalance] = useState(10000);
+  const [riskPercent, setRiskPercent] = useState(1);
+  const [maxDailyLossPercent, setMaxDailyLossPercent] = useState(3);
+  const [maxOpenOrders, setMaxOpenOrders] = useState(1);
+  const [maxOpenLots, setMaxOpenLots] = useState(1);
+  const [maxOiAgeMinutes, setMaxOiAgeMinutes] = useState(60);
+  const [maxVolumeAgeMinutes, setMaxVolumeAgeMinutes] = useState(30);
+  const [maxOiChangeAgeMinutes, setMaxOiChangeAgeMinutes] = useState(60);
+  const [maxPriceDivergencePct, setMaxPriceDivergencePct] = useState(0.3);
+  const [rejectStaleData, setRejectStaleData] = useState(false);
 
   const fetchSettings = useCallback(async () => {
     setIsLoading(true);
@@ -42,6 +63,16 @@ export default function SettingsPage() {
         setSignalThreshold(result.settings.signalThreshold);
         setAnalysisInterval(result.settings.analysisInterval);
         setEnableNotifications(result.settings.telegramConfigured);
+        setAccountBalance(result.settings.accountBalance);
+        setRiskPercent(result.settings.riskPercent);
+        setMaxDailyLossPercent(result.settings.maxDailyLossPercent);
+        setMaxOpenOrders(result.settings.maxOpenOrders);
+        setMaxOpenLots(result.settings.maxOpenLots);
+        setMaxOiAgeMinutes(result.settings.maxOiAgeMinutes);
+        setMaxVolumeAgeMinutes(result.settings.maxVolumeAgeMinutes);
+        setMaxOiChangeAgeMinutes(result.settings.maxOiChangeAgeMinutes);
+        setMaxPriceDivergencePct(result.settings.maxPriceDivergencePct);
+        setRejectStaleData(result.settings.staleDataPolicy === "REJECT");
       }
     } catch (err) {
       console.error("Error fetching settings:", err);
@@ -65,6 +96,16 @@ export default function SettingsPage() {
           telegramChatId: telegramChatId || undefined,
           signalThreshold,
           analysisInterval,
+          accountBalance,
+          riskPercent,
+          maxDailyLossPercent,
+          maxOpenOrders,
+          maxOpenLots,
+          maxOiAgeMinutes,
+          maxVolumeAgeMinutes,
+          maxOiChangeAgeMinutes,
+          maxPriceDivergencePct,
+          staleDataPolicy: rejectStaleData ? "REJECT" : "WARN",
         }),
       });
       const result = await response.json();
@@ -290,6 +331,147 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Risk Settings */}
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle className="text-lg">การจัดการความเสี่ยง</CardTitle>
+            <CardDescription>
+              คำนวณ Lot อัตโนมัติจากระยะ SL และจำกัดความเสี่ยงของออเดอร์อัตโนมัติ
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="accountBalance">ยอดเงินในพอร์ต (USD)</Label>
+                <Input
+                  id="accountBalance"
+                  type="number"
+                  min="0"
+                  value={accountBalance}
+                  onChange={(e) => setAccountBalance(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="riskPercent">ความเสี่ยงต่อออเดอร์ (%)</Label>
+                <Input
+                  id="riskPercent"
+                  type="number"
+                  min="0.1"
+                  max="10"
+                  step="0.1"
+                  value={riskPercent}
+                  onChange={(e) => setRiskPercent(parseFloat(e.target.value) || 0)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  = {((accountBalance * riskPercent) / 100).toFixed(2)} USD ต่อออเดอร์
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxDailyLoss">ขาดทุนสูงสุดต่อวัน (%)</Label>
+                <Input
+                  id="maxDailyLoss"
+                  type="number"
+                  min="0.5"
+                  max="100"
+                  step="0.5"
+                  value={maxDailyLossPercent}
+                  onChange={(e) => setMaxDailyLossPercent(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="maxOpenOrders">ออเดอร์เปิดสูงสุด</Label>
+                  <Input
+                    id="maxOpenOrders"
+                    type="number"
+                    min="0"
+                    value={maxOpenOrders}
+                    onChange={(e) => setMaxOpenOrders(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxOpenLots">Lot รวมสูงสุด</Label>
+                  <Input
+                    id="maxOpenLots"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={maxOpenLots}
+                    onChange={(e) => setMaxOpenLots(parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Data Quality Settings */}
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle className="text-lg">คุณภาพข้อมูล</CardTitle>
+            <CardDescription>
+              อายุข้อมูลสูงสุดของแต่ละแหล่ง และการจัดการเมื่อข้อมูลเก่าหรือไม่ตรงกัน
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="maxOiAge">อายุ OI สูงสุด (นาที)</Label>
+                <Input
+                  id="maxOiAge"
+                  type="number"
+                  min="1"
+                  value={maxOiAgeMinutes}
+                  onChange={(e) => setMaxOiAgeMinutes(parseInt(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxVolumeAge">อายุ Volume สูงสุด (นาที)</Label>
+                <Input
+                  id="maxVolumeAge"
+                  type="number"
+                  min="1"
+                  value={maxVolumeAgeMinutes}
+                  onChange={(e) => setMaxVolumeAgeMinutes(parseInt(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxOiChangeAge">อายุ OI Change สูงสุด (นาที)</Label>
+                <Input
+                  id="maxOiChangeAge"
+                  type="number"
+                  min="1"
+                  value={maxOiChangeAgeMinutes}
+                  onChange={(e) => setMaxOiChangeAgeMinutes(parseInt(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxPriceDivergence">ราคา Futures ต่างกันได้สูงสุด (%)</Label>
+              <Input
+                id="maxPriceDivergence"
+                type="number"
+                min="0.05"
+                step="0.05"
+                value={maxPriceDivergencePct}
+                onChange={(e) => setMaxPriceDivergencePct(parseFloat(e.target.value) || 0)}
+              />
+              <p className="text-xs text-muted-foreground">
+                ระหว่างราคาใน Snapshot OI, Volume และ OI Change
+              </p>
+            </div>
+            <div className="flex items-center justify-between p-3 rounded-lg bg-muted">
+              <div>
+                <Label>ปฏิเสธการวิเคราะห์เมื่อข้อมูลเก่า</Label>
+                <p className="text-xs text-muted-foreground">
+                  ปิดไว้ = วิเคราะห์ต่อพร้อมคำเตือนและคะแนนคุณภาพข้อมูล
+                </p>
+              </div>
+              <Switch checked={rejectStaleData} onCheckedChange={setRejectStaleData} />
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Extension Info */}
         <Card className="border-border">
           <CardHeader>
@@ -321,6 +503,9 @@ export default function SettingsPage() {
             บันทึกการตั้งค่า
           </Button>
         </div>
+
+        {/* Signal Scoring */}
+        <ScoringProfileEditor />
       </div>
     </div>
   );
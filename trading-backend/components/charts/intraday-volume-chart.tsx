@@ -34,6 +34,8 @@ interface IntradayChartProps {
         futureChg: number;
     };
     title?: string;
+    /** Expected-move band in futures price, drawn as dashed lines */
+    expectedMove?: { low: number; high: number } | null;
 }
 
 interface RangeData {
@@ -47,6 +49,7 @@ export function IntradayVolumeChart({
     futurePrice = 0,
     summary,
     title = "Intraday Volume",
+    expectedMove = null,
 }: IntradayChartProps) {
     const chartContainerRef = useRef<HTMLDivElement>(null);
     const chartRef = useRef<IChartApi | null>(null);
@@ -54,6 +57,7 @@ export function IntradayVolumeChart({
     const callSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
     const volSettleSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
     const [futurePriceLineX, setFuturePriceLineX] = useState<number | null>(null);
+    const [expectedMoveX, setExpectedMoveX] = useState<{ low: number | null; high: number | null } | null>(null);
     const [tooltip, setTooltip] = useState<{
         put: number | null;
         call: number | null;
@@ -278,8 +282,35 @@ export function IntradayVolumeChart({
             chartRef.current.timeScale().subscribeVisibleTimeRangeChange(updateFuturePriceLinePosition);
         }
 
+        // Expected-move band edges, snapped to the nearest strike
+        if (chartRef.current && expectedMove) {
+            const nearestStrike = (price: number) =>
+                data.reduce((prev, curr) =>
+                    Math.abs(curr.strike - price) < Math.abs(prev.strike - price) ? curr : prev
+                ).strike;
+            const lowStrike = nearestStrike(expectedMove.low);
+            const highStrike = nearestStrike(expectedMove.high);
+
+            const updateExpectedMovePosition = () => {
+                if (!chartRef.current) return;
+                const timeScale = chartRef.current.timeScale();
+                setExpectedMoveX({
+                    // @ts-ignore
+                    low: timeScale.timeToCoordinate(lowStrike),
+                    // @ts-ignore
+                    high: timeScale.timeToCoordinate(highStrike),
+                });
+            };
+
+            setTimeout(updateExpectedMovePosition, 50);
+            chartRef.current.timeScale().subscribeVisibleTimeRangeChange(updateExpectedMovePosition);
+        } else {
+            setExpectedMoveX(null);
+        }
+
         chartRef.current?.timeScale().fitContent();
-    }, [data, futurePrice]);
+        // Band edges as deps: callers pass a fresh object every render
+    }, [data, futurePrice, expectedMove?.low, expectedMove?.high]);
 
     const ranges = extractRanges();
     const maxRangeValue = ranges.length > 0 ? Math.max(...ranges.map((r) => r.value)) : 0;
@@ -380,6 +411,14 @@ export function IntradayVolumeChart({
                                     </span>
                                 </div>
                             )}
+                            {expectedMove && (
+                                <div className="flex items-center gap-2">
+                                    <span className="text-muted-foreground">Expected Move:</span>
+                                    <span className="text-cyan-400 font-bold font-mono text-base">
+                                        {expectedMove.low.toFixed(1)} - {expectedMove.high.toFixed(1)}
+                                    </span>
+                                </div>
+                            )}
                             {summary?.futureChg !== undefined && (
                                 <div className="flex items-center gap-2">
                                     <span className="text-muted-foreground">Chg:</span>
@@ -450,6 +489,24 @@ export function IntradayVolumeChart({
                         </div>
                     )}
 
+                    {/* Expected Move Band Overlay */}
+                    {expectedMove && expectedMoveX && (["low", "high"] as const).map((side) =>
+                        expectedMoveX[side] !== null ? (
+                            <div
+                                key={side}
+                                className="absolute top-0 bottom-[30px] z-10 pointer-events-none border-l border-dashed border-cyan-400/70"
+                                style={{
+                                    left: `${expectedMoveX[side]}px`,
+                                    transform: 'translateX(-50%)'
+                                }}
+                            >
+                                <div className="absolute bottom-0 left-1/2 -translate-x-1/2 bg-cyan-500/90 text-black text-[10px] px-1.5 py-0.5 rounded font-bold shadow-sm whitespace-nowrap">
+                                    EM {expectedMove[side].toFixed(1)}
+                                </div>
+                            </div>
+                        ) : null
+                    )}
+
                     {/* Future Price Vertical Line Overlay */}
                     {futurePriceLineX !== null && futurePrice > 0 && (
                         <div
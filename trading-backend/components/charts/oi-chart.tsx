@@ -29,6 +29,8 @@ interface OiChartProps {
   currentPrice?: number;
   maxPainStrike?: number;
   title?: string;
+  /** Expected-move band in futures price, drawn as dashed lines */
+  expectedMove?: { low: number; high: number } | null;
 }
 
 interface RangeData {
@@ -42,6 +44,7 @@ export function OiChart({
   currentPrice = 0,
   maxPainStrike = 0,
   title = "Open Interest ตาม Strike",
+  expectedMove = null,
 }: OiChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
@@ -49,6 +52,7 @@ export function OiChart({
   const callSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
   const volSettleSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
   const [currentPriceLineX, setCurrentPriceLineX] = useState<number | null>(null);
+  const [expectedMoveX, setExpectedMoveX] = useState<{ low: number | null; high: number | null } | null>(null);
   const [tooltip, setTooltip] = useState<{
     strike: number;
     putOi: number | null;
@@ -281,8 +285,35 @@ export function OiChart({
       chartRef.current.timeScale().subscribeVisibleTimeRangeChange(updateCurrentPriceLinePosition);
     }
 
+    // Expected-move band edges, snapped to the nearest strike
+    if (chartRef.current && expectedMove) {
+      const nearestStrike = (price: number) =>
+        data.reduce((prev, curr) =>
+          Math.abs(curr.strike - price) < Math.abs(prev.strike - price) ? curr : prev
+        ).strike;
+      const lowStrike = nearestStrike(expectedMove.low);
+      const highStrike = nearestStrike(expectedMove.high);
+
+      const updateExpectedMovePosition = () => {
+        if (!chartRef.current) return;
+        const timeScale = chartRef.current.timeScale();
+        setExpectedMoveX({
+          // @ts-ignore
+          low: timeScale.timeToCoordinate(lowStrike),
+          // @ts-ignore
+          high: timeScale.timeToCoordinate(highStrike),
+        });
+      };
+
+      setTimeout(updateExpectedMovePosition, 50);
+      chartRef.current.timeScale().subscribeVisibleTimeRangeChange(updateExpectedMovePosition);
+    } else {
+      setExpectedMoveX(null);
+    }
+
     chartRef.current?.timeScale().fitContent();
-  }, [data, currentPrice, maxPainStrike]);
+    // Band edges as deps: callers pass a fresh object every render
+  }, [data, currentPrice, maxPainStrike, expectedMove?.low, expectedMove?.high]);
 
   const ranges = extractRanges();
   const maxRangeValue = ranges.length > 0 ? Math.max(...ranges.map((r) => r.value)) : 0;
@@ -392,6 +423,14 @@ export function OiChart({
                 </Badge>
               </div>
             )}
+            {expectedMove && (
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Expected Move:</span>
+                <span className="text-cyan-400 font-bold font-mono text-base">
+                  {expectedMove.low.toFixed(1)} - {expectedMove.high.toFixed(1)}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* OI Change Summary */}
@@ -481,6 +520,24 @@ export function OiChart({
             </div>
           )}
 
+          {/* Expected Move Band Overlay */}
+          {expectedMove && expectedMoveX && (["low", "high"] as const).map((side) =>
+            expectedMoveX[side] !== null ? (
+              <div
+                key={side}
+                className="absolute top-0 bottom-[30px] z-10 pointer-events-none border-l border-dashed border-cyan-400/70"
+                style={{
+                  left: `${expectedMoveX[side]}px`,
+                  transform: 'translateX(-50%)'
+                }}
+              >
+                <div className="absolute bottom-0 left-1/2 -translate-x-1/2 bg-cyan-500/90 text-black text-[10px] px-1.5 py-0.5 rounded font-bold shadow-sm whitespace-nowrap">
+                  EM {expectedMove[side].toFixed(1)}
+                </div>
+              </div>
+            ) : null
+          )}
+
           {/* Current Price Vertical Line Overlay */}
           {currentPriceLineX !== null && currentPrice > 0 && (
             <div
@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  createChart,
+  IChartApi,
+  ISeriesApi,
+  HistogramData,
+  LineData,
+  ColorType,
+  UTCTimestamp,
+} from "lightweight-charts";
+import type { TimeSeriesInterval, TimeSeriesPoint } from "@/hooks/use-time-series";
+
+interface TimeSeriesChartProps {
+  points: TimeSeriesPoint[];
+  interval: TimeSeriesInterval;
+  onIntervalChange?: (interval: TimeSeriesInterval) => void;
+  isLoading?: boolean;
+  title?: string;
+}
+
+const INTERVALS: TimeSeriesInterval[] = ["5m", "15m", "1h", "1d"];
+
+/** Price-scale lines: key, label, color, dashed */
+const PRICE_LINES: Array<{ key: keyof TimeSeriesPoint; label: string; color: string; dashed: boolean }> = [
+  { key: "futurePrice", label: "Futures", color: "#eab308", dashed: false },
+  { key: "maxPain", label: "Max Pain", color: "#a855f7", dashed: true },
+  { key: "callWall", label: "Call Wall", color: "#3b82f6", dashed: true },
+  { key: "putWall", label: "Put Wall", color: "#f97316", dashed: true },
+  { key: "vwap", label: "VWAP", color: "#22d3ee", dashed: false },
+];
+
+/** PCR lines on the left scale */
+const PCR_LINES: Array<{ key: keyof TimeSeriesPoint; label: string; color: string }> = [
+  { key: "oiPcr", label: "OI PCR", color: "#f43f5e" },
+  { key: "volumePcr", label: "Volume PCR", color: "#10b981" },
+];
+
+// Bangkok local time on the axis
+const toChartTime = (iso: string) => ((new Date(iso).getTime() + 7 * 60 * 60 * 1000) / 1000) as UTCTimestamp;
+
+function lineData(points: TimeSeriesPoint[], key: keyof TimeSeriesPoint): LineData[] {
+  return points
+    .filter((p) => typeof p[key] === "number")
+    .map((p) => ({ time: toChartTime(p.time), value: p[key] as number }));
+}
+
+export function TimeSeriesChart({
+  points,
+  interval,
+  onIntervalChange,
+  isLoading = false,
+  title = "Intraday Metrics",
+}: TimeSeriesChartProps) {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const priceSeriesRef = useRef<Array<ISeriesApi<"Line">>>([]);
+  const pcrSeriesRef = useRef<Array<ISeriesApi<"Line">>>([]);
+  const gexSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+
+  useEffect(() => {
+    if (!chartContainerRef.current) return;
+
+    const chart = createChart(chartContainerRef.current, {
+      layout: {
+        background: { type: ColorType.Solid, color: "transparent" },
+        textColor: "#9ca3af",
+        fontFamily: "'Inter', sans-serif",
+      },
+      grid: {
+        vertLines: { color: "#1f2937", style: 2 },
+        horzLines: { color: "#1f2937", style: 2 },
+      },
+      width: chartContainerRef.current.clientWidth,
+      height: 360,
+      rightPriceScale: {
+        borderColor: "#374151",
+        scaleMargins: { top: 0.05, bottom: 0.3 },
+      },
+      leftPriceScale: {
+        visible: true,
+        borderColor: "#374151",
+        scaleMargins: { top: 0.05, bottom: 0.3 },
+      },
+      timeScale: {
+        borderColor: "#374151",
+        timeVisible: true,
+        secondsVisible: false,
+      },
+      crosshair: {
+        vertLine: { color: "#4b5563", labelBackgroundColor: "#1f2937" },
+        horzLine: { color: "#4b5563", labelBackgroundColor: "#1f2937" },
+      },
+      // @ts-ignore
+      attributionLogo: false,
+    });
+
+    chartRef.current = chart;
+
+    priceSeriesRef.current = PRICE_LINES.map((line) =>
+      chart.addLineSeries({
+        color: line.color,
+        lineWidth: 2,
+        lineStyle: line.dashed ? 2 : 0,
+        priceScaleId: "right",
+        title: line.label,
+        lastValueVisible: false,
+        priceLineVisible: false,
+      })
+    );
+
+    pcrSeriesRef.current = PCR_LINES.map((line) =>
+      chart.addLineSeries({
+        color: line.color,
+        lineWidth: 1,
+        priceScaleId: "left",
+        title: line.label,
+        lastValueVisible: false,
+        priceLineVisible: false,
+      })
+    );
+
+    // Net GEX in the bottom strip
+    const gexSeries = chart.addHistogramSeries({
+      priceScaleId: "gex",
+      priceFormat: { type: "volume" },
+      lastValueVisible: false,
+      priceLineVisible: false,
+    });
+    chart.priceScale("gex").applyOptions({ scaleMargins: { top: 0.75, bottom: 0 } });
+    gexSeriesRef.current = gexSeries;
+
+    const handleResize = () => {
+      if (chartContainerRef.current) {
+        chart.applyOptions({ width: chartContainerRef.current.clientWidth });
+      }
+    };
+    window.addEventListener("resize", handleResize, { passive: true });
+
+    return () => {
+      window.removeEventListener("resize", handleResize);
+      chart.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!chartRef.current || !gexSeriesRef.current) return;
+
+    PRICE_LINES.forEach((line, i) => priceSeriesRef.current[i]?.setData(lineData(points, line.key)));
+    PCR_LINES.forEach((line, i) => pcrSeriesRef.current[i]?.setData(lineData(points, line.key)));
+
+    const gexData: HistogramData[] = points
+      .filter((p) => p.netGex !== null)
+      .map((p) => ({
+        time: toChartTime(p.time),
+        value: p.netGex as number,
+        color: (p.netGex as number) >= 0 ? "rgba(34, 197, 94, 0.6)" : "rgba(239, 68, 68, 0.6)",
+      }));
+    gexSeriesRef.current.setData(gexData);
+
+    chartRef.current.timeScale().fitContent();
+  }, [points]);
+
+  return (
+    <Card className="border-border/40 bg-card/40 backdrop-blur-sm shadow-lg overflow-hidden">
+      <CardHeader className="pb-4 border-b border-border/10 space-y-3">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <CardTitle className="text-xl font-bold tracking-tight">{title}</CardTitle>
+          {onIntervalChange && (
+            <div className="flex items-center gap-1">
+              {INTERVALS.map((value) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={value === interval ? "default" : "outline"}
+                  className="h-7 px-2 text-xs"
+                  onClick={() => onIntervalChange(value)}
+                >
+                  {value}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-4 flex-wrap text-xs">
+          {[...PRICE_LINES, ...PCR_LINES].map((line) => (
+            <div key={line.key} className="flex items-center gap-1.5">
+              <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: line.color }} />
+              <span className="text-muted-foreground">{line.label}</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-1.5">
+            <div className="w-2.5 h-2.5 rounded-sm bg-green-500/60" />
+            <span className="text-muted-foreground">Net GEX</span>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0">
+        <div className="relative h-[360px] w-full">
+          <div ref={chartContainerRef} className="w-full h-full" />
+          {!isLoading && points.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+              ไม่มีข้อมูล Snapshot ในช่วงเวลานี้
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
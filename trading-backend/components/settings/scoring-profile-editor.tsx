@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import type { ScoringProfile } from "@/lib/analysis";
+
+interface StoredProfile extends ScoringProfile {
+  id: string | null;
+  isActive: boolean;
+  notes: string | null;
+  createdAt: string | null;
+}
+
+const WEIGHT_FIELDS: Array<{ key: keyof ScoringProfile["weights"]; label: string }> = [
+  { key: "pcr_strong", label: "PCR (แรง)" },
+  { key: "pcr_mild", label: "PCR (อ่อน)" },
+  { key: "vwap", label: "VWAP" },
+  { key: "flow", label: "OI Flow" },
+  { key: "wall", label: "ใกล้ Wall" },
+  { key: "wall_breakout", label: "ทะลุ Wall" },
+  { key: "max_pain", label: "Max Pain" },
+  { key: "volume", label: "Volume ยืนยัน" },
+  { key: "oi_diff", label: "OI Diff (Snapshot)" },
+  { key: "atm_buildup", label: "OI สะสมใกล้ ATM" },
+  { key: "skew", label: "Volatility Skew" },
+];
+
+const THRESHOLD_FIELDS: Array<{ key: keyof ScoringProfile["thresholds"]; label: string; step: string }> = [
+  { key: "pcr_strong_bullish", label: "PCR Bullish แรง <", step: "0.05" },
+  { key: "pcr_mild_bullish", label: "PCR Bullish <", step: "0.05" },
+  { key: "pcr_mild_bearish", label: "PCR Bearish >", step: "0.05" },
+  { key: "pcr_strong_bearish", label: "PCR Bearish แรง >", step: "0.05" },
+  { key: "wall_proximity_pct", label: "ระยะใกล้ Wall (%)", step: "1" },
+  { key: "max_pain_distance_pct", label: "ระยะ Max Pain (%)", step: "0.5" },
+  { key: "buy", label: "BUY ≥", step: "1" },
+  { key: "buy_moderate", label: "BUY ปานกลาง ≥", step: "1" },
+  { key: "buy_strong", label: "BUY แรง ≥", step: "1" },
+  { key: "sell", label: "SELL ≤", step: "1" },
+  { key: "sell_moderate", label: "SELL ปานกลาง ≤", step: "1" },
+  { key: "sell_strong", label: "SELL แรง ≤", step: "1" },
+];
+
+export function ScoringProfileEditor() {
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<StoredProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("default");
+  const [weights, setWeights] = useState<ScoringProfile["weights"] | null>(null);
+  const [thresholds, setThresholds] = useState<ScoringProfile["thresholds"] | null>(null);
+  const [notes, setNotes] = useState("");
+  const [activate, setActivate] = useState(true);
+
+  const loadIntoForm = (profile: StoredProfile) => {
+    setName(profile.name);
+    setWeights({ ...profile.weights });
+    setThresholds({ ...profile.thresholds });
+    setNotes("");
+  };
+
+  const fetchProfiles = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/scoring-profiles");
+      const result = await response.json();
+      if (result.success) {
+        setProfiles(result.profiles);
+        if (result.active) loadIntoForm(result.active);
+      }
+    } catch (err) {
+      console.error("Error fetching scoring profiles:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const handleSave = async () => {
+    if (!weights || !thresholds) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/scoring-profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, weights, thresholds, notes: notes || undefined, activate }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast({
+          title: "บันทึก Scoring Profile แล้ว",
+          description: `${result.profile.name} v${result.profile.version}${activate ? " (ใช้งานอยู่)" : ""}`,
+          variant: "success",
+        });
+        fetchProfiles();
+      } else {
+        toast({
+          title: "เกิดข้อผิดพลาด",
+          description: result.error?.message || "ไม่สามารถบันทึก profile ได้",
+          variant: "destructive",
+        });
+      }
+    } catch (err) {
+      toast({
+        title: "เกิดข้อผิดพลาด",
+        description: "ไม่สามารถบันทึก profile ได้",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleActivate = async (profile: StoredProfile) => {
+    try {
+      const response = await fetch("/api/scoring-profiles", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: profile.id }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast({
+          title: "เปลี่ยน Profile แล้ว",
+          description: `ใช้ ${profile.name} v${profile.version} สำหรับสัญญาณใหม่`,
+          variant: "success",
+        });
+        fetchProfiles();
+      }
+    } catch (err) {
+      console.error("Error activating profile:", err);
+    }
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-primary" />
+          Scoring Profile
+        </CardTitle>
+        <CardDescription>
+          กำหนดคะแนนและเกณฑ์ของแต่ละปัจจัย ทุกการบันทึกจะสร้างเวอร์ชันใหม่
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !weights || !thresholds ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="profileName">ชื่อ Profile</Label>
+                <Input
+                  id="profileName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profileNotes">หมายเหตุ</Label>
+                <Input
+                  id="profileNotes"
+                  placeholder="เช่น เพิ่มน้ำหนัก OI Flow"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">คะแนนแต่ละปัจจัย (±)</p>
+              <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                {WEIGHT_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`w-${key}`} className="text-xs text-muted-foreground">
+                      {label}
+                    </Label>
+                    <Input
+                      id={`w-${key}`}
+                      type="number"
+                      min="0"
+                      max="50"
+                      value={weights[key]}
+                      onChange={(e) => setWeights({ ...weights, [key]: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">เกณฑ์</p>
+              <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                {THRESHOLD_FIELDS.map(({ key, label, step }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`t-${key}`} className="text-xs text-muted-foreground">
+                      {label}
+                    </Label>
+                    <Input
+                      id={`t-${key}`}
+                      type="number"
+                      step={step}
+                      value={thresholds[key]}
+                      onChange={(e) => setThresholds({ ...thresholds, [key]: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between p-3 rounded-lg bg-muted">
+              <div>
+                <Label>ใช้งานทันที</Label>
+                <p className="text-xs text-muted-foreground">
+                  ใช้เวอร์ชันใหม่นี้สำหรับสัญญาณที่สร้างหลังจากนี้
+                </p>
+              </div>
+              <Switch checked={activate} onCheckedChange={setActivate} />
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving || !name}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                บันทึกเป็นเวอร์ชันใหม่
+              </Button>
+            </div>
+
+            {/* Version history */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium">เวอร์ชันทั้งหมด</p>
+              <div className="divide-y divide-border rounded-lg border border-border">
+                {profiles.map((profile) => (
+                  <div
+                    key={profile.id ?? "built-in"}
+                    className="flex items-center justify-between gap-3 p-3 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {profile.name} v{profile.version}
+                        </span>
+                        {profile.isActive && <Badge variant="success">ใช้งานอยู่</Badge>}
+                        {!profile.id && <Badge variant="outline">Built-in</Badge>}
+                      </div>
+                      {profile.notes && (
+                        <p className="text-xs text-muted-foreground truncate">{profile.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => loadIntoForm(profile)}>
+                        แก้ไข
+                      </Button>
+                      {!profile.isActive && (
+                        <Button variant="outline" size="sm" onClick={() => handleActivate(profile)}>
+                          ใช้งาน
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
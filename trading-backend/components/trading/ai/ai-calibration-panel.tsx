@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Target } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { staticSwrConfig } from "@/lib/swr-config";
+import { CalibrationReport, ProviderCalibration } from "./types";
+
+/**
+ * Reliability of each provider's confidence: per confidence bin, the
+ * stated confidence (marker) against the win rate it actually achieved (bar)
+ */
+export function AICalibrationPanel() {
+    const { data, isLoading } = useSWR<CalibrationReport>("/api/ai-calibration", staticSwrConfig);
+    const [selected, setSelected] = useState("overall");
+
+    const calibrations = data?.success ? [data.overall, ...data.providers] : [];
+    const calibration = calibrations.find((c) => c.provider === selected) ?? calibrations[0];
+
+    return (
+        <Card className="border-border/50 bg-card/30 backdrop-blur-sm">
+            <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center gap-2 text-muted-foreground">
+                    <Target className="h-4 w-4" />
+                    ความแม่นยำของความมั่นใจ (Calibration)
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {isLoading && <p className="text-sm text-muted-foreground">กำลังโหลด...</p>}
+
+                {!isLoading && (!calibration || calibration.samples === 0) && (
+                    <p className="text-sm text-muted-foreground">
+                        ยังไม่มีการวิเคราะห์ที่ประเมินผลแล้ว (เฉพาะ BUY / SELL)
+                    </p>
+                )}
+
+                {calibration && calibration.samples > 0 && (
+                    <>
+                        <div className="flex flex-wrap gap-2">
+                            {calibrations.map((c) => (
+                                <Button
+                                    key={c.provider}
+                                    variant={c.provider === calibration.provider ? "secondary" : "outline"}
+                                    size="sm"
+                                    onClick={() => setSelected(c.provider)}
+                                    className="h-7 text-xs"
+                                >
+                                    {c.provider === "overall" ? "ทั้งหมด" : c.provider}
+                                </Button>
+                            ))}
+                        </div>
+
+                        <CalibrationSummary calibration={calibration} minSamples={data?.minSamples ?? 0} />
+
+                        <div className="space-y-1.5">
+                            {calibration.bins.map((bin) => (
+                                <div key={bin.from} className="flex items-center gap-2 text-xs">
+                                    <span className="w-14 text-muted-foreground tabular-nums">
+                                        {bin.from}-{bin.to}%
+                                    </span>
+                                    <div className="relative flex-1 h-3 bg-muted rounded-full overflow-hidden">
+                                        <div
+                                            className={cn(
+                                                "h-full rounded-full",
+                                                bin.winRate >= bin.avgConfidence ? "bg-green-500/70" : "bg-red-500/70"
+                                            )}
+                                            style={{ width: `${bin.winRate}%` }}
+                                        />
+                                        <div
+                                            className="absolute top-0 h-full w-0.5 bg-foreground"
+                                            style={{ left: `${bin.avgConfidence}%` }}
+                                        />
+                                    </div>
+                                    <span className="w-20 text-right tabular-nums">
+                                        {bin.winRate}% <span className="text-muted-foreground">({bin.count})</span>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            แท่ง = Win Rate จริง, เส้น = ความมั่นใจเฉลี่ยที่ AI ให้ (ตรงกัน = calibrate ดี)
+                        </p>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+function CalibrationSummary({
+    calibration,
+    minSamples,
+}: {
+    calibration: ProviderCalibration;
+    minSamples: number;
+}) {
+    return (
+        <div className="grid grid-cols-2 gap-2 text-xs">
+            <Stat label="จำนวน" value={`${calibration.samples}`} />
+            <Stat label="Win Rate / ความมั่นใจเฉลี่ย" value={`${calibration.winRate}% / ${calibration.avgConfidence}%`} />
+            <Stat label="Brier Score (ต่ำ = ดี)" value={calibration.brierScore?.toFixed(3) ?? "-"} />
+            <Stat label="ECE" value={calibration.ece !== null ? `${calibration.ece}%` : "-"} />
+            {calibration.mapping.length === 0 && (
+                <p className="col-span-2 text-muted-foreground">
+                    ต้องมีอย่างน้อย {minSamples} รายการจึงจะปรับความมั่นใจของการวิเคราะห์ใหม่
+                </p>
+            )}
+        </div>
+    );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+    return (
+        <div className="rounded-md bg-background/50 p-2">
+            <div className="text-muted-foreground">{label}</div>
+            <div className="font-bold">{value}</div>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import useSWR from "swr";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -14,7 +15,8 @@ import {
     Users,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { AnalysisMode, ProviderType } from "./types";
+import { staticSwrConfig } from "@/lib/swr-config";
+import { AIProviderOption, AnalysisMode, ProviderType } from "./types";
 
 interface AIControlsProps {
     onAnalyze: (provider: ProviderType, mode: AnalysisMode) => void;
@@ -31,6 +33,10 @@ export function AIControls({
 }: AIControlsProps) {
     const [selectedProvider, setSelectedProvider] = useState<ProviderType>("auto");
 
+    // Built-in and configured providers (/api/ai-providers)
+    const { data } = useSWR<{ providers: AIProviderOption[] }>("/api/ai-providers", staticSwrConfig);
+    const providers = (data?.providers ?? []).filter((p) => p.enabled);
+
     return (
         <div className="space-y-6">
             {/* Main Action Card */}
@@ -126,26 +132,15 @@ export function AIControls({
                                 onClick={() => setSelectedProvider("auto")}
                                 label="Auto (Best)"
                             />
-                            <ProviderButton
-                                active={selectedProvider === "deepseek"}
-                                onClick={() => setSelectedProvider("deepseek")}
-                                label="DeepSeek V3"
-                            />
-                            <ProviderButton
-                                active={selectedProvider === "deepseek-r1"}
-                                onClick={() => setSelectedProvider("deepseek-r1")}
-                                label="DeepSeek R1"
-                            />
-                            <ProviderButton
-                                active={selectedProvider === "gemini"}
-                                onClick={() => setSelectedProvider("gemini")}
-                                label="Gemini Pro"
-                            />
-                            <ProviderButton
-                                active={selectedProvider === "openai"}
-                                onClick={() => setSelectedProvider("openai")}
-                                label="GPT-4o"
-                            />
+                            {providers.map((provider) => (
+                                <ProviderButton
+                                    key={provider.key}
+                                    active={selectedProvider === provider.key}
+                                    onClick={() => setSelectedProvider(provider.key)}
+                                    label={provider.name}
+                                    disabled={!provider.available}
+                                />
+                            ))}
                         </div>
                     </CardContent>
                 </Card>
@@ -203,16 +198,20 @@ function ProviderButton({
     active,
     onClick,
     label,
+    disabled = false,
 }: {
     active: boolean;
     onClick: () => void;
     label: string;
+    disabled?: boolean;
 }) {
     return (
         <Button
             variant={active ? "secondary" : "outline"}
             size="sm"
             onClick={onClick}
+            disabled={disabled}
+            title={disabled ? "ยังไม่ได้ตั้งค่า API Key" : undefined}
             className={cn(
                 "justify-start font-normal",
                 active ? "bg-secondary text-secondary-foreground" : "text-muted-foreground"
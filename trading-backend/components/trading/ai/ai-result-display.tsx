@@ -78,6 +78,15 @@ export function AIResultDisplay({ result }: AIResultDisplayProps) {
                                             />
                                         </div>
                                         <span className="font-bold text-sm">ความมั่นใจ {result.confidence}%</span>
+                                        {result.calibrated_confidence !== undefined &&
+                                            result.calibrated_confidence !== result.confidence && (
+                                                <span
+                                                    className="text-xs text-muted-foreground"
+                                                    title="ปรับตาม Win Rate จริงของโมเดลนี้ที่ระดับความมั่นใจใกล้เคียงกัน"
+                                                >
+                                                    (ปรับแล้ว {result.calibrated_confidence}%)
+                                                </span>
+                                            )}
                                     </div>
                                 </div>
                             </div>
@@ -1,9 +1,19 @@
 export type AnalysisMode = "standard" | "enhanced" | "consensus";
-export type ProviderType = "auto" | "openai" | "gemini" | "deepseek" | "deepseek-r1";
+/** "auto" or an AI provider key from /api/ai-providers */
+export type ProviderType = string;
+
+export interface AIProviderOption {
+    key: string;
+    name: string;
+    model: string;
+    enabled: boolean;
+    available: boolean;
+}
 
 export interface AIAnalysisResult {
     recommendation: "STRONG_BUY" | "BUY" | "NEUTRAL" | "SELL" | "STRONG_SELL";
     confidence: number;
+    calibrated_confidence?: number;
     entry_zone: {
         start: number;
         end: number;
@@ -20,8 +30,15 @@ export interface AIAnalysisResult {
     bearish_factors: string[];
     warnings: string[];
     suggested_timeframe: string;
+    provider: string;
     model: string;
+    model_version: string;
     processing_time_ms: number;
+    usage?: {
+        input_tokens: number;
+        output_tokens: number;
+        cost_usd: number;
+    };
 }
 
 export interface AIAnalysisResponse {
@@ -32,3 +49,31 @@ export interface AIAnalysisResponse {
     error?: string;
     suggestion?: string;
 }
+
+/** /api/ai-calibration (lib/ai-calibration) */
+export interface ReliabilityBin {
+    from: number;
+    to: number;
+    count: number;
+    avgConfidence: number;
+    winRate: number;
+}
+
+export interface ProviderCalibration {
+    provider: string;
+    samples: number;
+    avgConfidence: number | null;
+    winRate: number | null;
+    brierScore: number | null;
+    ece: number | null;
+    bins: ReliabilityBin[];
+    mapping: Array<{ confidence: number; calibrated: number }>;
+}
+
+export interface CalibrationReport {
+    success: boolean;
+    generatedAt: string;
+    minSamples: number;
+    providers: ProviderCalibration[];
+    overall: ProviderCalibration;
+}
@@ -294,6 +294,32 @@ export function SignalDisplay({
                   {signal.factorScores.max_pain_score > 0 ? '+' : ''}{signal.factorScores.max_pain_score}
                 </span>
               </div>
+
+              {/* Custom Factors */}
+              {signal.factorDetails?.map((factor) => (
+                <div key={factor.key} className="flex items-center gap-2" title={factor.thai.long}>
+                  <span className="text-xs w-24 text-muted-foreground truncate">{factor.thai.short}</span>
+                  <div className="flex-1 h-3 bg-gray-700 rounded-full overflow-hidden relative">
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <div className="w-px h-full bg-gray-500" />
+                    </div>
+                    {factor.score > 0 ? (
+                      <div 
+                        className="h-full bg-green-500 ml-[50%]" 
+                        style={{ width: `${Math.min(Math.abs(factor.score) * 2, 50)}%` }} 
+                      />
+                    ) : factor.score < 0 ? (
+                      <div 
+                        className="h-full bg-red-500" 
+                        style={{ width: `${Math.min(Math.abs(factor.score) * 2, 50)}%`, marginLeft: `${50 - Math.min(Math.abs(factor.score) * 2, 50)}%` }} 
+                      />
+                    ) : null}
+                  </div>
+                  <span className={`text-xs w-12 text-right font-mono ${factor.score > 0 ? 'text-green-400' : factor.score < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                    {factor.score > 0 ? '+' : ''}{factor.score}
+                  </span>
+                </div>
+              ))}
               
               {/* Total Line */}
               <div className="border-t border-border/40 mt-2 pt-2">
@@ -6,6 +6,7 @@ import {
   realtimeSwrConfig,
   staticSwrConfig,
 } from "@/lib/swr-config";
+import type { Factor, FactorScores } from "@/lib/analysis";
 
 // ============================================
 // Types
@@ -131,14 +132,9 @@ export interface AnalysisResponse {
       factors: string[];
       positiveFactors: string[];
       negativeFactors: string[];
-      factorScores: {
-        pcr_score: number;
-        vwap_score: number;
-        wall_score: number;
-        max_pain_score: number;
-        flow_score: number;
-        volume_score: number;
-      };
+      factorScores: FactorScores;
+      /** Custom (database-defined) factors with their bilingual text */
+      factorDetails?: Factor[];
       keyLevels: {
         max_pain: number;
         call_wall: number;
@@ -0,0 +1,72 @@
+"use client";
+
+import useSWR from "swr";
+import { getTimeSeriesKey, realtimeSwrConfig } from "@/lib/swr-config";
+
+// ============================================
+// Types
+// ============================================
+
+export type TimeSeriesInterval = "5m" | "15m" | "1h" | "1d";
+
+export interface TimeSeriesPoint {
+  time: string;
+  futurePrice: number | null;
+  oiPcr: number | null;
+  volumePcr: number | null;
+  maxPain: number | null;
+  callWall: number | null;
+  putWall: number | null;
+  vwap: number | null;
+  netGex: number | null;
+  snapshots: { oi: number; volume: number };
+}
+
+interface TimeSeriesResponse {
+  success: boolean;
+  product: string;
+  expiry: string | null;
+  interval: TimeSeriesInterval;
+  from: string;
+  to: string;
+  points: TimeSeriesPoint[];
+  error?: string;
+}
+
+// ============================================
+// Hook: useTimeSeries
+// ============================================
+
+/**
+ * Bucketed PCR, max pain, walls, VWAP and GEX from /api/time-series
+ *
+ * @example
+ * const { points } = useTimeSeries({ interval: "15m" });
+ */
+export function useTimeSeries(
+  params: {
+    product?: string;
+    expiry?: string;
+    interval?: TimeSeriesInterval;
+    from?: string;
+    to?: string;
+  } = {},
+  refreshInterval = 60000
+) {
+  const { data, error, isLoading, mutate } = useSWR<TimeSeriesResponse>(
+    getTimeSeriesKey(params),
+    {
+      ...realtimeSwrConfig,
+      refreshInterval,
+    }
+  );
+
+  return {
+    points: data?.points ?? [],
+    expiry: data?.expiry ?? null,
+    isLoading,
+    isError: !!error || data?.success === false,
+    error: error?.message || data?.error,
+    refresh: mutate,
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Admin Authentication
+ *
+ * Configuration writes (AI provider registry, one-off migrations) need a
+ * bearer token matching ADMIN_API_TOKEN. They are disabled when the token
+ * is not configured.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { UnauthorizedError } from "./errors";
+
+export function assertAdminAuthorized(request: Request): void {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    throw new UnauthorizedError("ยังไม่ได้ตั้งค่า ADMIN_API_TOKEN");
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const token = header.replace(/^Bearer\s+/i, "").trim();
+
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    throw new UnauthorizedError("Admin token ไม่ถูกต้อง");
+  }
+}
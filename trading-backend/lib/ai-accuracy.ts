@@ -4,9 +4,13 @@
  * Tracks AI prediction outcomes to measure and improve accuracy
  */
 
+import type { AIPrediction } from "@prisma/client";
 import prisma from "./db";
 import type { AIAnalysisResult } from "./ai-analysis";
 import type { ConsensusResult } from "./ai-consensus";
+import { BUILT_IN_AI_PROVIDERS, loadAIProviders, type AIProviderDefinition } from "./ai-providers";
+import { calibrateConfidence } from "./ai-calibration";
+import { loadSnapshotPricePath, type PricePoint } from "./candles";
 
 // ============================================
 // Types
@@ -22,11 +26,51 @@ export interface PredictionRecord {
   stopLoss: number;
   takeProfit1: number;
   takeProfit2: number;
+  takeProfit3?: number;
   priceAtPrediction: number;
   outcome?: string;
+  firstHit?: string;
+  maxProfit?: number;
+  maxLoss?: number;
+  minutesToOutcome?: number;
   createdAt: Date;
 }
 
+/** Market context a prediction was made in, stored with it for evaluation */
+export interface PredictionContext {
+  /** CME futures price at prediction time */
+  futurePrice: number;
+  /** CME futures - spot; the AI quotes levels in spot when it is known */
+  spread: number | null;
+  /** Futures series the futures price came from */
+  expiry?: string | null;
+}
+
+export interface PredictionLevels {
+  recommendation: string;
+  priceAtPrediction: number;
+  stopLoss: number;
+  takeProfit1: number;
+  takeProfit2: number;
+  takeProfit3: number | null;
+  createdAt: Date;
+}
+
+export interface PathEvaluation {
+  outcome: "WIN" | "LOSS" | "BREAKEVEN";
+  hitTp1: boolean;
+  hitTp2: boolean;
+  hitTp3: boolean;
+  hitSl: boolean;
+  firstHit: "SL" | "TP1" | "TP2" | "TP3" | null;
+  outcomeAt: Date | null;
+  minutesToOutcome: number | null;
+  maxProfit: number; // MFE in points
+  maxLoss: number;   // MAE in points (positive)
+  priceAtOutcome: number;
+  pricePoints: number;
+}
+
 export interface AccuracyStats {
   provider: string;
   totalPredictions: number;
@@ -35,12 +79,37 @@ export interface AccuracyStats {
   sellAccuracy: number;
   tp1HitRate: number;
   tp2HitRate: number;
+  tp3HitRate: number;
   slHitRate: number;
   avgConfidence: number;
+  avgMaxProfit: number;
+  avgMaxLoss: number;
   last7DaysWinRate: number;
   last30DaysWinRate: number;
 }
 
+export interface ModelAccuracyStats extends AccuracyStats {
+  /** API model id the predictions were made with */
+  model: string;
+}
+
+export interface ReattributionChange {
+  from: { provider: string; model: string };
+  to: { provider: string; model: string };
+  count: number;
+}
+
+export interface ReattributionResult {
+  dryRun: boolean;
+  changes: ReattributionChange[];
+  updated: number;
+  /**
+   * "auto" predictions left as they are: the model matches no provider, or
+   * several (candidates lists their keys)
+   */
+  unresolved: { model: string; count: number; candidates: string[] }[];
+}
+
 export interface ProviderComparison {
   providers: AccuracyStats[];
   bestProvider: string;
@@ -52,28 +121,31 @@ export interface ProviderComparison {
 // ============================================
 
 /**
- * Save an AI prediction for accuracy tracking
+ * Save an AI prediction for accuracy tracking, under the provider and model
+ * that actually answered (never "auto")
  */
 export async function savePrediction(
   prediction: AIAnalysisResult,
-  provider: string,
-  currentPrice: number,
+  context: PredictionContext,
   product: string
 ): Promise<string> {
   const record = await prisma.aIPrediction.create({
     data: {
-      provider,
-      model: prediction.model,
+      provider: prediction.provider,
+      model: prediction.model_version,
       recommendation: prediction.recommendation,
       confidence: prediction.confidence,
+      calibratedConfidence: prediction.calibrated_confidence ?? null,
       entryStart: prediction.entry_zone.start,
       entryEnd: prediction.entry_zone.end,
       stopLoss: prediction.stop_loss,
       takeProfit1: prediction.take_profit_1,
       takeProfit2: prediction.take_profit_2,
       takeProfit3: prediction.take_profit_3,
-      priceAtPrediction: currentPrice,
+      priceAtPrediction: context.futurePrice - (context.spread ?? 0),
       product,
+      expiry: context.expiry ?? null,
+      spread: context.spread,
       analysis: prediction as unknown as object,
       outcome: "PENDING",
       // Set expiry to 24 hours for intraday, 72 hours for swing
@@ -91,7 +163,7 @@ export async function savePrediction(
  */
 export async function saveConsensusPrediction(
   consensus: ConsensusResult,
-  currentPrice: number,
+  context: PredictionContext,
   product: string
 ): Promise<string> {
   const record = await prisma.aIPrediction.create({
@@ -100,13 +172,16 @@ export async function saveConsensusPrediction(
       model: `Multi-AI (${consensus.providers_used.join(", ")})`,
       recommendation: consensus.consensus,
       confidence: consensus.consensus_confidence,
+      calibratedConfidence: await calibrateConfidence("consensus", consensus.consensus_confidence),
       entryStart: consensus.suggested_entry.start,
       entryEnd: consensus.suggested_entry.end,
       stopLoss: consensus.suggested_sl,
       takeProfit1: consensus.suggested_tp1,
       takeProfit2: consensus.suggested_tp2,
-      priceAtPrediction: currentPrice,
+      priceAtPrediction: context.futurePrice - (context.spread ?? 0),
       product,
+      expiry: context.expiry ?? null,
+      spread: context.spread,
       analysis: consensus as unknown as object,
       outcome: "PENDING",
       expiresAt: new Date(Date.now() + 48 * 60 * 60 * 1000),
@@ -121,10 +196,94 @@ export async function saveConsensusPrediction(
 // ============================================
 
 /**
- * Evaluate pending predictions against current price
+ * Walk the price path after a prediction was made and decide which level
+ * was touched first. SL before TP1 is a LOSS; once TP1 is touched the trade
+ * is a WIN and keeps running for TP2/TP3 until SL, the final target or expiry.
+ * Excursions are measured in points from priceAtPrediction.
+ */
+export function evaluatePredictionPath(
+  levels: PredictionLevels,
+  path: PricePoint[]
+): PathEvaluation | null {
+  const points = path.filter((p) => p.at.getTime() > levels.createdAt.getTime());
+  if (points.length === 0) return null;
+
+  const isBuy = ["BUY", "STRONG_BUY"].includes(levels.recommendation);
+  const isSell = ["SELL", "STRONG_SELL"].includes(levels.recommendation);
+  const sign = isBuy ? 1 : isSell ? -1 : 0;
+
+  const result: PathEvaluation = {
+    outcome: "BREAKEVEN",
+    hitTp1: false,
+    hitTp2: false,
+    hitTp3: false,
+    hitSl: false,
+    firstHit: null,
+    outcomeAt: null,
+    minutesToOutcome: null,
+    maxProfit: 0,
+    maxLoss: 0,
+    priceAtOutcome: points[points.length - 1].price,
+    pricePoints: points.length,
+  };
+
+  // NEUTRAL predictions have no levels to touch
+  if (sign === 0) return result;
+
+  const reached = (level: number | null, price: number) =>
+    level !== null && (price - level) * sign >= 0;
+  const finalTarget = levels.takeProfit3 ?? levels.takeProfit2;
+
+  for (const point of points) {
+    const move = (point.price - levels.priceAtPrediction) * sign;
+    result.maxProfit = Math.max(result.maxProfit, move);
+    result.maxLoss = Math.max(result.maxLoss, -move);
+    result.priceAtOutcome = point.price;
+
+    if ((point.price - levels.stopLoss) * sign <= 0) {
+      // After TP1 the stop only closes the remainder; the prediction stays a WIN
+      result.hitSl = true;
+      if (!result.firstHit) {
+        result.firstHit = "SL";
+        result.outcomeAt = point.at;
+      }
+      break;
+    }
+
+    if (reached(levels.takeProfit1, point.price)) result.hitTp1 = true;
+    if (reached(levels.takeProfit2, point.price)) result.hitTp2 = true;
+    if (reached(levels.takeProfit3, point.price)) result.hitTp3 = true;
+
+    if (!result.firstHit && result.hitTp1) {
+      result.firstHit = result.hitTp3 ? "TP3" : result.hitTp2 ? "TP2" : "TP1";
+      result.outcomeAt = point.at;
+    }
+
+    if (reached(finalTarget, point.price)) break;
+  }
+
+  if (result.firstHit === "SL") result.outcome = "LOSS";
+  else if (result.firstHit) result.outcome = "WIN";
+
+  if (result.outcomeAt) {
+    const minutes = (result.outcomeAt.getTime() - levels.createdAt.getTime()) / 60000;
+    result.minutesToOutcome = Math.round(minutes * 10) / 10;
+  }
+
+  result.maxProfit = Math.round(result.maxProfit * 100) / 100;
+  result.maxLoss = Math.round(result.maxLoss * 100) / 100;
+
+  return result;
+}
+
+/**
+ * Evaluate expired pending predictions against the stored futures prices of
+ * their series between createdAt and expiresAt, shifted to spot by the
+ * spread recorded with the prediction. currentPrice (a futures quote) is
+ * only used when no prices were stored for the prediction's window.
  */
 export async function evaluatePendingPredictions(
-  currentPrice: number
+  currentPrice?: number
 ): Promise<{ evaluated: number; wins: number; losses: number }> {
   const pendingPredictions = await prisma.aIPrediction.findMany({
     where: {
@@ -138,59 +297,45 @@ export async function evaluatePendingPredictions(
   let losses = 0;
 
   for (const prediction of pendingPredictions) {
-    const isBuy = ["BUY", "STRONG_BUY"].includes(prediction.recommendation);
-    const isSell = ["SELL", "STRONG_SELL"].includes(prediction.recommendation);
-    
-    let outcome: "WIN" | "LOSS" | "BREAKEVEN";
-    let hitTp1 = false;
-    let hitTp2 = false;
-    let hitSl = false;
-
-    if (isBuy) {
-      // For BUY: win if price went up to TP1, loss if hit SL
-      hitTp1 = currentPrice >= prediction.takeProfit1;
-      hitTp2 = currentPrice >= prediction.takeProfit2;
-      hitSl = currentPrice <= prediction.stopLoss;
-      
-      if (hitTp1) {
-        outcome = "WIN";
-        wins++;
-      } else if (hitSl) {
-        outcome = "LOSS";
-        losses++;
-      } else {
-        outcome = "BREAKEVEN";
-      }
-    } else if (isSell) {
-      // For SELL: win if price went down to TP1, loss if hit SL
-      hitTp1 = currentPrice <= prediction.takeProfit1;
-      hitTp2 = currentPrice <= prediction.takeProfit2;
-      hitSl = currentPrice >= prediction.stopLoss;
-      
-      if (hitTp1) {
-        outcome = "WIN";
-        wins++;
-      } else if (hitSl) {
-        outcome = "LOSS";
-        losses++;
-      } else {
-        outcome = "BREAKEVEN";
-      }
-    } else {
-      // NEUTRAL predictions
-      outcome = "BREAKEVEN";
+    const spread = prediction.spread ?? 0;
+    const path = await loadSnapshotPricePath(
+      prediction.product,
+      prediction.createdAt,
+      prediction.expiresAt || undefined,
+      prediction.expiry
+    );
+    const spotPath = path.map((p) => ({ at: p.at, price: p.price - spread }));
+
+    let result = evaluatePredictionPath(prediction, spotPath);
+    let outcomeNotes: string | undefined;
+
+    if (!result && currentPrice) {
+      result = evaluatePredictionPath(prediction, [{ at: new Date(), price: currentPrice - spread }]);
+      outcomeNotes = "ไม่มีราคาที่บันทึกไว้ในช่วงเวลานี้ ประเมินจากราคาปัจจุบัน";
     }
 
-    // Update prediction
+    if (!result) continue;
+
+    if (result.outcome === "WIN") wins++;
+    if (result.outcome === "LOSS") losses++;
+
     await prisma.aIPrediction.update({
       where: { id: prediction.id },
       data: {
-        outcome,
-        priceAtOutcome: currentPrice,
+        outcome: result.outcome,
+        priceAtOutcome: result.priceAtOutcome,
+        outcomeNotes,
         evaluatedAt: new Date(),
-        hitTp1,
-        hitTp2,
-        hitSl,
+        hitTp1: result.hitTp1,
+        hitTp2: result.hitTp2,
+        hitTp3: prediction.takeProfit3 !== null ? result.hitTp3 : null,
+        hitSl: result.hitSl,
+        maxProfit: result.maxProfit,
+        maxLoss: result.maxLoss,
+        firstHit: result.firstHit,
+        outcomeAt: result.outcomeAt,
+        minutesToOutcome: result.minutesToOutcome,
+        pricePoints: result.pricePoints,
       },
     });
 
@@ -229,97 +374,202 @@ export async function markPredictionOutcome(
 // Calculate Accuracy Stats
 // ============================================
 
+/** Provider recorded by predictions saved before the resolved provider was stored */
+const UNRESOLVED_PROVIDER = "auto";
+
+type AccuracyFields = Omit<AccuracyStats, "provider"> & {
+  correctPredictions: number;
+  incorrectPredictions: number;
+  pendingPredictions: number;
+};
+
+const percent = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Accuracy of a set of predictions
+ */
+function computeAccuracy(predictions: AIPrediction[]): AccuracyFields {
+  const total = predictions.length;
+  const evaluated = predictions.filter(p => p.outcome !== "PENDING");
+  const wins = evaluated.filter(p => p.outcome === "WIN").length;
+  const losses = evaluated.filter(p => p.outcome === "LOSS").length;
+
+  // By recommendation type
+  const buyPreds = evaluated.filter(p => ["BUY", "STRONG_BUY"].includes(p.recommendation));
+  const sellPreds = evaluated.filter(p => ["SELL", "STRONG_SELL"].includes(p.recommendation));
+
+  const buyWins = buyPreds.filter(p => p.outcome === "WIN").length;
+  const sellWins = sellPreds.filter(p => p.outcome === "WIN").length;
+
+  // Excursions (only predictions evaluated along the price path have them)
+  const withExcursion = evaluated.filter(p => p.maxProfit !== null && p.maxLoss !== null);
+  const avgMaxProfit = withExcursion.length > 0
+    ? withExcursion.reduce((sum, p) => sum + (p.maxProfit || 0), 0) / withExcursion.length
+    : 0;
+  const avgMaxLoss = withExcursion.length > 0
+    ? withExcursion.reduce((sum, p) => sum + (p.maxLoss || 0), 0) / withExcursion.length
+    : 0;
+
+  // Time-based stats
+  const last7Days = evaluated.filter(p => p.createdAt.getTime() >= Date.now() - 7 * 24 * 60 * 60 * 1000);
+  const last30Days = evaluated.filter(p => p.createdAt.getTime() >= Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+  return {
+    totalPredictions: total,
+    correctPredictions: wins,
+    incorrectPredictions: losses,
+    pendingPredictions: total - evaluated.length,
+    winRate: percent(wins, evaluated.length),
+    buyAccuracy: percent(buyWins, buyPreds.length),
+    sellAccuracy: percent(sellWins, sellPreds.length),
+    tp1HitRate: percent(evaluated.filter(p => p.hitTp1).length, evaluated.length),
+    tp2HitRate: percent(evaluated.filter(p => p.hitTp2).length, evaluated.length),
+    tp3HitRate: percent(evaluated.filter(p => p.hitTp3).length, evaluated.length),
+    slHitRate: percent(evaluated.filter(p => p.hitSl).length, evaluated.length),
+    avgConfidence: total > 0 ? predictions.reduce((sum, p) => sum + p.confidence, 0) / total : 0,
+    avgMaxProfit,
+    avgMaxLoss,
+    last7DaysWinRate: percent(last7Days.filter(p => p.outcome === "WIN").length, last7Days.length),
+    last30DaysWinRate: percent(last30Days.filter(p => p.outcome === "WIN").length, last30Days.length),
+  };
+}
+
+function toAccuracyStats(provider: string, s: Omit<AccuracyStats, "provider">): AccuracyStats {
+  return {
+    provider,
+    totalPredictions: s.totalPredictions,
+    winRate: round1(s.winRate),
+    buyAccuracy: round1(s.buyAccuracy),
+    sellAccuracy: round1(s.sellAccuracy),
+    tp1HitRate: round1(s.tp1HitRate),
+    tp2HitRate: round1(s.tp2HitRate),
+    tp3HitRate: round1(s.tp3HitRate),
+    slHitRate: round1(s.slHitRate),
+    avgConfidence: round1(s.avgConfidence),
+    avgMaxProfit: round1(s.avgMaxProfit),
+    avgMaxLoss: round1(s.avgMaxLoss),
+    last7DaysWinRate: round1(s.last7DaysWinRate),
+    last30DaysWinRate: round1(s.last30DaysWinRate),
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k) ?? [];
+    group.push(item);
+    groups.set(k, group);
+  }
+  return groups;
+}
+
 /**
- * Update accuracy stats for all providers
+ * Recompute the stats of every provider with predictions (including
+ * consensus and providers no longer in the registry). Predictions still
+ * recorded as "auto" are left out until reattributePredictions resolves them.
  */
 export async function updateAccuracyStats(): Promise<void> {
-  const providers = ["openai", "gemini", "deepseek", "consensus"];
+  const predictions = await prisma.aIPrediction.findMany({
+    where: { provider: { not: UNRESOLVED_PROVIDER } },
+  });
+
+  const byProvider = groupBy(predictions, p => p.provider);
 
-  for (const provider of providers) {
-    const predictions = await prisma.aIPrediction.findMany({
+  for (const [provider, providerPredictions] of byProvider) {
+    const fields = computeAccuracy(providerPredictions);
+    await prisma.aIAccuracyStats.upsert({
       where: { provider },
+      create: { provider, ...fields },
+      update: fields,
     });
+  }
 
-    if (predictions.length === 0) continue;
+  // Rows of providers whose predictions were all reattributed
+  await prisma.aIAccuracyStats.deleteMany({
+    where: { provider: { notIn: [...byProvider.keys()] } },
+  });
+}
 
-    const total = predictions.length;
-    const evaluated = predictions.filter(p => p.outcome !== "PENDING");
-    const wins = evaluated.filter(p => p.outcome === "WIN").length;
-    const losses = evaluated.filter(p => p.outcome === "LOSS").length;
-    
-    // By recommendation type
-    const buyPreds = predictions.filter(p => 
-      ["BUY", "STRONG_BUY"].includes(p.recommendation) && p.outcome !== "PENDING"
-    );
-    const sellPreds = predictions.filter(p => 
-      ["SELL", "STRONG_SELL"].includes(p.recommendation) && p.outcome !== "PENDING"
-    );
+// ============================================
+// Reattribute Predictions
+// ============================================
+
+/**
+ * Providers a stored model value (display name or API model id) may refer
+ * to. The built-in definitions are tried first: rows saved before the
+ * registry carry built-in names, and an override that kept the built-in's
+ * name ("GPT-4o" now running gpt-4o-mini) must not claim them. Registry
+ * providers are tried when no built-in matches.
+ */
+function matchModel(
+  model: string,
+  registry: AIProviderDefinition[],
+  provider: string | null
+): AIProviderDefinition[] {
+  const matches = (p: AIProviderDefinition) =>
+    (p.model === model || p.name === model) && (provider === null || p.key === provider);
+
+  const builtIn = BUILT_IN_AI_PROVIDERS.filter(matches);
+  return builtIn.length > 0 ? builtIn : registry.filter(matches);
+}
+
+/**
+ * One-off migration for predictions saved before the resolved provider and
+ * API model id were recorded: "auto" rows get the provider their model
+ * field names, and display names in the model field become API model ids
+ * ("DeepSeek R1" -> "deepseek-reasoner"). See matchModel for the order
+ * providers are matched in; an "auto" row whose model matches several
+ * providers is reported as unresolved rather than guessed. Consensus rows
+ * are left alone.
+ */
+export async function reattributePredictions(
+  options: { dryRun?: boolean } = {}
+): Promise<ReattributionResult> {
+  const dryRun = options.dryRun ?? false;
+  const registry = await loadAIProviders();
+
+  const groups = await prisma.aIPrediction.groupBy({
+    by: ["provider", "model"],
+    where: { provider: { not: "consensus" } },
+    _count: { _all: true },
+  });
 
-    const buyWins = buyPreds.filter(p => p.outcome === "WIN").length;
-    const sellWins = sellPreds.filter(p => p.outcome === "WIN").length;
+  const changes: ReattributionChange[] = [];
+  const unresolved: ReattributionResult["unresolved"] = [];
 
-    // TP hit rates
-    const tp1Hits = evaluated.filter(p => p.hitTp1).length;
-    const tp2Hits = evaluated.filter(p => p.hitTp2).length;
-    const slHits = evaluated.filter(p => p.hitSl).length;
+  for (const group of groups) {
+    const count = group._count._all;
+    const isAuto = group.provider === UNRESOLVED_PROVIDER;
+    const matches = matchModel(group.model, registry, isAuto ? null : group.provider);
 
-    // Time-based stats
-    const last7Days = await prisma.aIPrediction.findMany({
-      where: {
-        provider,
-        createdAt: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) },
-        outcome: { not: "PENDING" },
-      },
-    });
-    const last30Days = await prisma.aIPrediction.findMany({
-      where: {
-        provider,
-        createdAt: { gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) },
-        outcome: { not: "PENDING" },
-      },
-    });
+    if (matches.length !== 1) {
+      if (isAuto) unresolved.push({ model: group.model, count, candidates: matches.map(p => p.key) });
+      continue;
+    }
 
-    const last7Wins = last7Days.filter(p => p.outcome === "WIN").length;
-    const last30Wins = last30Days.filter(p => p.outcome === "WIN").length;
+    const match = matches[0];
 
-    // Average confidence
-    const avgConfidence = predictions.reduce((sum, p) => sum + p.confidence, 0) / total;
+    const to = { provider: match.key, model: match.model };
+    if (to.provider === group.provider && to.model === group.model) continue;
 
-    await prisma.aIAccuracyStats.upsert({
-      where: { provider },
-      create: {
-        provider,
-        totalPredictions: total,
-        correctPredictions: wins,
-        incorrectPredictions: losses,
-        pendingPredictions: total - evaluated.length,
-        winRate: evaluated.length > 0 ? (wins / evaluated.length) * 100 : 0,
-        buyAccuracy: buyPreds.length > 0 ? (buyWins / buyPreds.length) * 100 : 0,
-        sellAccuracy: sellPreds.length > 0 ? (sellWins / sellPreds.length) * 100 : 0,
-        tp1HitRate: evaluated.length > 0 ? (tp1Hits / evaluated.length) * 100 : 0,
-        tp2HitRate: evaluated.length > 0 ? (tp2Hits / evaluated.length) * 100 : 0,
-        slHitRate: evaluated.length > 0 ? (slHits / evaluated.length) * 100 : 0,
-        avgConfidence,
-        last7DaysWinRate: last7Days.length > 0 ? (last7Wins / last7Days.length) * 100 : 0,
-        last30DaysWinRate: last30Days.length > 0 ? (last30Wins / last30Days.length) * 100 : 0,
-      },
-      update: {
-        totalPredictions: total,
-        correctPredictions: wins,
-        incorrectPredictions: losses,
-        pendingPredictions: total - evaluated.length,
-        winRate: evaluated.length > 0 ? (wins / evaluated.length) * 100 : 0,
-        buyAccuracy: buyPreds.length > 0 ? (buyWins / buyPreds.length) * 100 : 0,
-        sellAccuracy: sellPreds.length > 0 ? (sellWins / sellPreds.length) * 100 : 0,
-        tp1HitRate: evaluated.length > 0 ? (tp1Hits / evaluated.length) * 100 : 0,
-        tp2HitRate: evaluated.length > 0 ? (tp2Hits / evaluated.length) * 100 : 0,
-        slHitRate: evaluated.length > 0 ? (slHits / evaluated.length) * 100 : 0,
-        avgConfidence,
-        last7DaysWinRate: last7Days.length > 0 ? (last7Wins / last7Days.length) * 100 : 0,
-        last30DaysWinRate: last30Days.length > 0 ? (last30Wins / last30Days.length) * 100 : 0,
-      },
-    });
+    changes.push({ from: { provider: group.provider, model: group.model }, to, count });
+  }
+
+  let updated = 0;
+  if (!dryRun) {
+    for (const change of changes) {
+      const result = await prisma.aIPrediction.updateMany({
+        where: change.from,
+        data: change.to,
+      });
+      updated += result.count;
+    }
+    await updateAccuracyStats();
   }
+
+  return { dryRun, changes, updated, unresolved };
 }
 
 // ============================================
@@ -334,19 +584,26 @@ export async function getAccuracyStats(): Promise<AccuracyStats[]> {
     orderBy: { winRate: "desc" },
   });
 
-  return stats.map(s => ({
-    provider: s.provider,
-    totalPredictions: s.totalPredictions,
-    winRate: Math.round(s.winRate * 10) / 10,
-    buyAccuracy: Math.round(s.buyAccuracy * 10) / 10,
-    sellAccuracy: Math.round(s.sellAccuracy * 10) / 10,
-    tp1HitRate: Math.round(s.tp1HitRate * 10) / 10,
-    tp2HitRate: Math.round(s.tp2HitRate * 10) / 10,
-    slHitRate: Math.round(s.slHitRate * 10) / 10,
-    avgConfidence: Math.round(s.avgConfidence * 10) / 10,
-    last7DaysWinRate: Math.round(s.last7DaysWinRate * 10) / 10,
-    last30DaysWinRate: Math.round(s.last30DaysWinRate * 10) / 10,
-  }));
+  return stats.map(s => toAccuracyStats(s.provider, s));
+}
+
+/**
+ * Accuracy per provider and model version, computed from the predictions
+ * (a provider whose model was changed shows one entry per model)
+ */
+export async function getModelAccuracyStats(): Promise<ModelAccuracyStats[]> {
+  const predictions = await prisma.aIPrediction.findMany({
+    where: { provider: { notIn: [UNRESOLVED_PROVIDER, "consensus"] } },
+  });
+
+  const byModel = groupBy(predictions, p => `${p.provider}\u0000${p.model}`);
+
+  return [...byModel.values()]
+    .map(group => ({
+      ...toAccuracyStats(group[0].provider, computeAccuracy(group)),
+      model: group[0].model,
+    }))
+    .sort((a, b) => a.provider.localeCompare(b.provider) || b.totalPredictions - a.totalPredictions);
 }
 
 /**
@@ -404,8 +661,13 @@ export async function getRecentPredictions(limit = 20): Promise<PredictionRecord
     stopLoss: p.stopLoss,
     takeProfit1: p.takeProfit1,
     takeProfit2: p.takeProfit2,
+    takeProfit3: p.takeProfit3 ?? undefined,
     priceAtPrediction: p.priceAtPrediction,
     outcome: p.outcome || undefined,
+    firstHit: p.firstHit || undefined,
+    maxProfit: p.maxProfit ?? undefined,
+    maxLoss: p.maxLoss ?? undefined,
+    minutesToOutcome: p.minutesToOutcome ?? undefined,
     createdAt: p.createdAt,
   }));
 }
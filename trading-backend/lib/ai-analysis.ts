@@ -1,18 +1,38 @@
 /**
  * AI-Powered Market Analysis
  * 
- * Uses OpenAI GPT-4 or Google Gemini to analyze CME options data
- * and provide trading recommendations
+ * Uses the providers of the AI provider registry (lib/ai-providers:
+ * Gemini, DeepSeek, OpenAI or any OpenAI-compatible endpoint) to analyze
+ * CME options data and provide trading recommendations
  */
 
 import OpenAI from "openai";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { InvalidAIResponseError, ValidationError } from "./errors";
+import { calibrateConfidence } from "./ai-calibration";
+import {
+  estimateAICost,
+  getAIProviderApiKey,
+  loadAIProviders,
+  selectAutoProvider,
+  type AIProviderDefinition,
+} from "./ai-providers";
+import {
+  buildRepairPrompt,
+  recordAIRejection,
+  validateAIResponse,
+  type AIAnalysisContent,
+} from "./ai-validation";
 
 // ============================================
 // Types
 // ============================================
 
 export interface MarketDataForAI {
+  // Product (registry name and MT5 symbol); Gold / XAUUSD when omitted
+  product?: string;
+  spot_symbol?: string;
+
   // Current prices
   cme_futures_price: number;
   xau_spot_price: number | null;
@@ -44,6 +64,14 @@ export interface MarketDataForAI {
   // VWAP
   vwap: number;
 
+  // Expected-move band in futures price (lib/expected-move)
+  expected_move?: {
+    source: "RANGE" | "ATM_IV";
+    low: number;
+    high: number;
+    move: number;
+  } | null;
+
   // Current signal from system
   system_signal: "BUY" | "SELL" | "NEUTRAL";
   system_confidence: number;
@@ -51,10 +79,20 @@ export interface MarketDataForAI {
   // Timestamp
   data_timestamp: string;
 
+  // Freshness / consistency of the snapshots behind this data (lib/data-quality)
+  data_quality?: {
+    score: number;
+    warnings: string[];
+  };
+
   // Advanced Analysis
   gex?: {
     totalGex: number;
     zeroGammaLevel: number | null;
+    /** Every flip level found, ascending */
+    zeroGammaLevels?: number[];
+    /** Dealer positioning model the GEX was computed under */
+    positioning?: string;
     interpretation: string;
   };
 
@@ -69,6 +107,7 @@ export interface AIAnalysisResult {
   // Main recommendation
   recommendation: "STRONG_BUY" | "BUY" | "NEUTRAL" | "SELL" | "STRONG_SELL";
   confidence: number; // 0-100
+  calibrated_confidence?: number; // confidence mapped to the provider's observed win rate (lib/ai-calibration)
 
   // Entry/Exit levels (in XAU prices if available, otherwise CME)
   entry_zone: {
@@ -100,11 +139,20 @@ export interface AIAnalysisResult {
   // Timeframe
   suggested_timeframe: string;
 
-  // AI model used
+  // AI provider registry key (resolved, never "auto"), display name and API model id
+  provider: string;
   model: string;
+  model_version: string;
 
   // Processing time
   processing_time_ms: number;
+
+  // Tokens over the analysis (and repair) calls, priced by the provider's costs
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+  };
 }
 
 // ============================================
@@ -173,13 +221,16 @@ function formatDataForPrompt(data: MarketDataForAI): string {
     .map(s => `  - Strike ${s.strike}: ${s.volume.toLocaleString()} contracts (${s.type})`)
     .join("\n");
 
-  return `
-## ข้อมูลตลาด Gold ณ ${data.data_timestamp}
+  const product = data.product || "Gold";
+  const spot = data.spot_symbol || "XAUUSD";
 
+  return `
+## ข้อมูลตลาด ${product} ณ ${data.data_timestamp}
+${spot !== "XAUUSD" ? `(สินค้านี้เทรดที่ ${spot}: ทุกราคาที่ตอบต้องเป็นราคา ${spot} แทนราคา XAU)\n` : ""}${formatDataQualityForAI(data.data_quality)}
 ### ราคาปัจจุบัน
-- CME Gold Futures: $${data.cme_futures_price.toFixed(2)}
-- XAU Spot: ${data.xau_spot_price ? `$${data.xau_spot_price.toFixed(2)}` : "N/A"}
-- Spread (CME - XAU): ${data.spread ? `$${data.spread.toFixed(2)}` : "N/A"}
+- CME ${product} Futures: $${data.cme_futures_price.toFixed(2)}
+- ${spot} Spot: ${data.xau_spot_price ? `$${data.xau_spot_price.toFixed(2)}` : "N/A"}
+- Spread (CME - Spot): ${data.spread ? `$${data.spread.toFixed(2)}` : "N/A"}
 
 ### Put/Call Ratio
 - OI PCR: ${data.oi_pcr.toFixed(3)} ${data.oi_pcr > 1 ? "(Bullish)" : data.oi_pcr < 0.7 ? "(Bearish)" : "(Neutral)"}
@@ -189,7 +240,8 @@ function formatDataForPrompt(data: MarketDataForAI): string {
 - Max Pain: $${data.max_pain}
 - Call Wall (แนวต้าน): $${data.call_wall}
 - Put Wall (แนวรับ): $${data.put_wall}
-- VWAP: $${data.vwap.toFixed(2)}
+- VWAP: $${data.vwap.toFixed(2)}${data.expected_move ? `
+- Expected Move (${data.expected_move.source === "ATM_IV" ? "จาก ATM IV" : "จาก QuikStrike Range"}): $${data.expected_move.low.toFixed(1)} - $${data.expected_move.high.toFixed(1)} (±${data.expected_move.move.toFixed(1)}) ใช้เป็นกรอบ TP/SL` : ""}
 
 ### OI Flow (การเปลี่ยนแปลง Open Interest)
 - Net OI Change: ${data.net_oi_change > 0 ? "+" : ""}${data.net_oi_change.toLocaleString()}
@@ -208,7 +260,9 @@ ${hotStrikesStr}
 
 ### Advanced Analysis (GEX & News)
 ${data.gex ? `- GEX Interpretation: ${data.gex.interpretation}
-- Zero Gamma Level: ${data.gex.zeroGammaLevel ? "$" + data.gex.zeroGammaLevel : "N/A"}` : "- GEX: N/A"}
+- Zero Gamma Level: ${data.gex.zeroGammaLevel ? "$" + data.gex.zeroGammaLevel : "N/A (GEX ไม่เปลี่ยนเครื่องหมาย)"}${data.gex.zeroGammaLevels && data.gex.zeroGammaLevels.length > 1 ? `
+- All Zero Gamma Levels: ${data.gex.zeroGammaLevels.map((l) => "$" + l).join(", ")}` : ""}${data.gex.positioning ? `
+- Dealer Positioning Model: ${data.gex.positioning}` : ""}` : "- GEX: N/A"}
 
 ${data.economic_events ? `- Trading Caution: ${data.economic_events.tradingCaution}
 - Warnings: ${data.economic_events.warnings.join(", ") || "None"}
@@ -221,193 +275,199 @@ ${data.economic_events ? `- Trading Caution: ${data.economic_events.tradingCauti
 `.trim();
 }
 
-// ============================================
-// OpenAI Analysis
-// ============================================
-
-export async function analyzeWithOpenAI(
-  data: MarketDataForAI
-): Promise<AIAnalysisResult> {
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY not configured");
-  }
-
-  const openai = new OpenAI({ apiKey });
-  const startTime = Date.now();
-
-  const prompt = formatDataForPrompt(data);
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: SYSTEM_PROMPT },
-      { role: "user", content: prompt },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.3,
-    max_tokens: 2000,
-  });
-
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error("No response from OpenAI");
-  }
-
-  const result = JSON.parse(content);
+/**
+ * Data quality note for the prompt; empty when every source is fresh and
+ * consistent, otherwise the warnings and a request to lower confidence
+ */
+export function formatDataQualityForAI(quality: MarketDataForAI["data_quality"]): string {
+  if (!quality || quality.warnings.length === 0) return "";
 
-  return {
-    ...result,
-    model: "GPT-4o",
-    processing_time_ms: Date.now() - startTime,
-  };
+  return `### ⚠️ คุณภาพข้อมูล: ${quality.score}/100
+${quality.warnings.map((w) => `- ${w}`).join("\n")}
+(ข้อมูลไม่สมบูรณ์ ให้ลด confidence ลงตามความเหมาะสม)
+`;
 }
 
 // ============================================
-// Gemini Analysis
+// Validated Completion
 // ============================================
 
-export async function analyzeWithGemini(
-  data: MarketDataForAI
-): Promise<AIAnalysisResult> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY not configured");
-  }
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({
-    model: "gemini-1.5-flash-001",
-    generationConfig: {
-      temperature: 0.3,
-      maxOutputTokens: 2000,
-      responseMimeType: "application/json",
-    },
-  });
+type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
 
-  const startTime = Date.now();
-  const prompt = `${SYSTEM_PROMPT}\n\n${formatDataForPrompt(data)}`;
-
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  const text = response.text();
+interface Completion {
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+}
 
-  if (!text) {
-    throw new Error("No response from Gemini");
-  }
+type CompleteFn = (messages: ChatMessage[]) => Promise<Completion>;
 
-  // Parse JSON from response
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error("Invalid JSON response from Gemini");
+/**
+ * Ask a provider for an analysis and validate the answer (lib/ai-validation).
+ * A failing answer is sent back once with its errors; when the repaired
+ * answer fails too, the provider has failed (InvalidAIResponseError).
+ * Failed answers are recorded either way. Token counts cover both calls.
+ */
+async function completeValidated(
+  provider: AIProviderDefinition,
+  data: MarketDataForAI,
+  complete: CompleteFn
+): Promise<{ result: AIAnalysisContent; inputTokens: number; outputTokens: number }> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: formatDataForPrompt(data) },
+  ];
+
+  const first = await complete(messages);
+  const checked = validateAIResponse(first.content, data);
+  if (checked.result) {
+    return { result: checked.result, inputTokens: first.inputTokens, outputTokens: first.outputTokens };
   }
 
-  const parsed = JSON.parse(jsonMatch[0]);
+  console.warn(`[AI Analysis] ${provider.key} response failed validation, requesting repair:`, checked.errors);
 
-  return {
-    ...parsed,
-    model: "Gemini 1.5 Flash",
-    processing_time_ms: Date.now() - startTime,
+  const rejection = {
+    provider: provider.key,
+    model: provider.model,
+    rawOutput: first.content,
+    errors: checked.errors,
+    input: data,
   };
+  let repairOutput: string | null = null;
+  let repairErrors: string[];
+  try {
+    const repair = await complete([
+      ...messages,
+      { role: "assistant", content: first.content },
+      { role: "user", content: buildRepairPrompt(checked.errors) },
+    ]);
+    repairOutput = repair.content;
+    const repaired = validateAIResponse(repair.content, data);
+    repairErrors = repaired.errors;
+
+    if (repaired.result) {
+      await recordAIRejection({ ...rejection, repairOutput, repairErrors: null });
+      return {
+        result: repaired.result,
+        inputTokens: first.inputTokens + repair.inputTokens,
+        outputTokens: first.outputTokens + repair.outputTokens,
+      };
+    }
+  } catch (error) {
+    repairErrors = [`Repair request failed: ${error instanceof Error ? error.message : String(error)}`];
+  }
+
+  await recordAIRejection({ ...rejection, repairOutput, repairErrors });
+  throw new InvalidAIResponseError(provider.name, repairErrors, { provider: provider.key, model: provider.model });
 }
 
 // ============================================
-// DeepSeek Analysis
+// Provider Clients
 // ============================================
 
-export async function analyzeWithDeepSeek(
-  data: MarketDataForAI
-): Promise<AIAnalysisResult> {
-  const apiKey = process.env.DEEPSEEK_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("DEEPSEEK_API_KEY not configured");
-  }
-
-  // DeepSeek uses OpenAI-compatible API
+/**
+ * OpenAI and any endpoint speaking its chat completions API
+ * (DeepSeek, Ollama, llama.cpp server, vLLM, ...)
+ */
+function openAICompatibleClient(provider: AIProviderDefinition, apiKey: string | undefined): CompleteFn {
+  // The SDK insists on a key; keyless local servers ignore it
   const openai = new OpenAI({
-    apiKey,
-    baseURL: "https://api.deepseek.com/v1",
-  });
-
-  const startTime = Date.now();
-  const prompt = formatDataForPrompt(data);
-
-  const response = await openai.chat.completions.create({
-    model: "deepseek-chat", // หรือ "deepseek-reasoner" สำหรับ R1
-    messages: [
-      { role: "system", content: SYSTEM_PROMPT },
-      { role: "user", content: prompt },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.3,
-    max_tokens: 2000,
+    apiKey: apiKey ?? "not-needed",
+    baseURL: provider.baseUrl ?? undefined,
   });
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error("No response from DeepSeek");
-  }
+  return async (messages) => {
+    const response = await openai.chat.completions.create({
+      model: provider.model,
+      messages,
+      ...(provider.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+      temperature: 0.3,
+      max_tokens: provider.maxTokens,
+    });
 
-  const result = JSON.parse(content);
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${provider.name}`);
+    }
+    return {
+      content,
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: response.usage?.completion_tokens ?? 0,
+    };
+  };
+}
 
-  return {
-    ...result,
-    model: "DeepSeek Chat",
-    processing_time_ms: Date.now() - startTime,
+function geminiClient(provider: AIProviderDefinition, apiKey: string): CompleteFn {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel(
+    {
+      model: provider.model,
+      generationConfig: {
+        temperature: 0.3,
+        maxOutputTokens: provider.maxTokens,
+        ...(provider.jsonMode ? { responseMimeType: "application/json" } : {}),
+      },
+    },
+    provider.baseUrl ? { baseUrl: provider.baseUrl } : undefined
+  );
+
+  return async (messages) => {
+    // Gemini has no system role here: the system prompt leads the first user turn
+    const [system, ...turns] = messages;
+    const result = await model.generateContent({
+      contents: turns.map((m, i) => ({
+        role: m.role === "assistant" ? "model" : "user",
+        parts: [{ text: i === 0 ? `${system.content}\n\n${m.content}` : m.content }],
+      })),
+    });
+
+    const text = result.response.text();
+    if (!text) {
+      throw new Error(`No response from ${provider.name}`);
+    }
+    return {
+      content: text,
+      inputTokens: result.response.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: result.response.usageMetadata?.candidatesTokenCount ?? 0,
+    };
   };
 }
 
 // ============================================
-// DeepSeek R1 (Reasoning Model)
+// Provider Analysis
 // ============================================
 
-export async function analyzeWithDeepSeekR1(
+/**
+ * Run the analysis on one registry provider (lib/ai-providers)
+ */
+export async function analyzeWithProvider(
+  provider: AIProviderDefinition,
   data: MarketDataForAI
 ): Promise<AIAnalysisResult> {
-  const apiKey = process.env.DEEPSEEK_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("DEEPSEEK_API_KEY not configured");
+  const apiKey = getAIProviderApiKey(provider);
+  if (provider.apiKeyEnv && !apiKey) {
+    throw new Error(`${provider.apiKeyEnv} not configured`);
   }
 
-  const openai = new OpenAI({
-    apiKey,
-    baseURL: "https://api.deepseek.com/v1",
-  });
-
   const startTime = Date.now();
-  const prompt = formatDataForPrompt(data);
-
-  const response = await openai.chat.completions.create({
-    model: "deepseek-reasoner", // DeepSeek R1
-    messages: [
-      { role: "system", content: SYSTEM_PROMPT },
-      { role: "user", content: prompt },
-    ],
-    temperature: 0.3,
-    max_tokens: 4000, // R1 needs more tokens for reasoning
-  });
-
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error("No response from DeepSeek R1");
-  }
-
-  // R1 might include reasoning before JSON, extract JSON part
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error("Invalid JSON response from DeepSeek R1");
-  }
+  const complete = provider.kind === "gemini"
+    ? geminiClient(provider, apiKey ?? "")
+    : openAICompatibleClient(provider, apiKey);
 
-  const result = JSON.parse(jsonMatch[0]);
+  const { result, inputTokens, outputTokens } = await completeValidated(provider, data, complete);
 
   return {
     ...result,
-    model: "DeepSeek R1",
+    calibrated_confidence: await calibrateConfidence(provider.key, result.confidence),
+    provider: provider.key,
+    model: provider.name,
+    model_version: provider.model,
     processing_time_ms: Date.now() - startTime,
+    usage: {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      cost_usd: Math.round(estimateAICost(provider, inputTokens, outputTokens) * 1e6) / 1e6,
+    },
   };
 }
 
@@ -415,7 +475,8 @@ export async function analyzeWithDeepSeekR1(
 // Main Analysis Function
 // ============================================
 
-export type AIProvider = "openai" | "gemini" | "deepseek" | "deepseek-r1" | "auto";
+/** "auto" or an AI provider registry key (lib/ai-providers) */
+export type AIProvider = string;
 
 export async function analyzeWithAI(
   data: MarketDataForAI,
@@ -423,36 +484,33 @@ export async function analyzeWithAI(
 ): Promise<AIAnalysisResult> {
   console.log(`[AI Analysis] Requesting analysis with provider: ${provider}`);
 
-  // Auto-select based on available API keys
+  const providers = await loadAIProviders();
+  let selected: AIProviderDefinition | null;
+
+  // Auto-select the first available provider by priority
   if (provider === "auto") {
-    if (process.env.GEMINI_API_KEY) {
-      provider = "gemini"; // Prefer Gemini (Fastest & Reliable)
-    } else if (process.env.DEEPSEEK_API_KEY) {
-      provider = "deepseek";
-    } else if (process.env.OPENAI_API_KEY) {
-      provider = "openai";
-    } else {
-      throw new Error("No AI API key configured. Set GEMINI_API_KEY, DEEPSEEK_API_KEY, or OPENAI_API_KEY");
+    selected = selectAutoProvider(providers);
+    if (!selected) {
+      throw new Error("No AI API key configured. Set GEMINI_API_KEY, DEEPSEEK_API_KEY, or OPENAI_API_KEY, or add a keyless AI provider");
+    }
+    console.log(`[AI Analysis] Auto-selected provider: ${selected.key}`);
+  } else {
+    selected = providers.find((p) => p.key === provider) ?? null;
+    if (!selected) {
+      throw new ValidationError(`Unknown provider: ${provider}`, {
+        provider: ["auto", ...providers.map((p) => p.key)].join(" | "),
+      });
+    }
+    if (!selected.enabled) {
+      throw new ValidationError(`Provider ${provider} ถูกปิดใช้งาน`, { provider });
     }
-    console.log(`[AI Analysis] Auto-selected provider: ${provider}`);
   }
 
   const startTime = Date.now();
   try {
-    switch (provider) {
-      case "openai":
-        return await analyzeWithOpenAI(data);
-      case "gemini":
-        return await analyzeWithGemini(data);
-      case "deepseek":
-        return await analyzeWithDeepSeek(data);
-      case "deepseek-r1":
-        return await analyzeWithDeepSeekR1(data);
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
-    }
+    return await analyzeWithProvider(selected, data);
   } finally {
-    console.log(`[AI Analysis] Completed in ${Date.now() - startTime}ms using ${provider}`);
+    console.log(`[AI Analysis] Completed in ${Date.now() - startTime}ms using ${selected.key}`);
   }
 }
 
@@ -0,0 +1,233 @@
+/**
+ * AI Confidence Calibration
+ *
+ * Does 80% confidence mean an 80% win rate? Over evaluated directional
+ * predictions (BUY / SELL; a WIN counts 1, LOSS and BREAKEVEN 0) this
+ * builds each provider's reliability curve, Brier score and expected
+ * calibration error (ECE), and a mapping from stated to observed
+ * confidence. analyzeWithProvider and the prediction log apply the
+ * mapping to new predictions.
+ */
+
+import prisma from "./db";
+
+// ============================================
+// Types
+// ============================================
+
+export interface CalibrationSample {
+  confidence: number; // 0-100 as stated
+  win: boolean;
+}
+
+export interface ReliabilityBin {
+  /** Confidence range [from, to); the last bin includes 100 */
+  from: number;
+  to: number;
+  count: number;
+  avgConfidence: number; // %
+  winRate: number; // %
+}
+
+export interface CalibrationPoint {
+  confidence: number;
+  calibrated: number;
+}
+
+export interface ProviderCalibration {
+  provider: string;
+  samples: number;
+  avgConfidence: number | null;
+  winRate: number | null;
+  /** Mean squared error of confidence as a probability; 0 = perfect, 0.25 = always 50% */
+  brierScore: number | null;
+  /** Sample-weighted gap between confidence and win rate over the bins, % */
+  ece: number | null;
+  bins: ReliabilityBin[];
+  /** Stated -> calibrated confidence; empty = not enough samples, confidence is kept */
+  mapping: CalibrationPoint[];
+}
+
+export interface CalibrationReport {
+  generatedAt: string;
+  minSamples: number;
+  providers: ProviderCalibration[];
+  /** Every provider's predictions together */
+  overall: ProviderCalibration;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const BIN_WIDTH = 10;
+
+/** Samples a provider needs before its mapping is used */
+const MIN_SAMPLES = 20;
+
+/**
+ * Pseudo-samples pulling each bin's win rate toward its stated confidence,
+ * so a bin with a handful of trades can't swing the mapping
+ */
+const PRIOR_STRENGTH = 5;
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+// ============================================
+// Calibration
+// ============================================
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function buildBins(samples: CalibrationSample[]): ReliabilityBin[] {
+  const bins: ReliabilityBin[] = [];
+
+  for (let from = 0; from < 100; from += BIN_WIDTH) {
+    const to = from + BIN_WIDTH;
+    const inBin = samples.filter((s) => s.confidence >= from && (s.confidence < to || (to === 100 && s.confidence === 100)));
+    if (inBin.length === 0) continue;
+
+    bins.push({
+      from,
+      to,
+      count: inBin.length,
+      avgConfidence: round(inBin.reduce((sum, s) => sum + s.confidence, 0) / inBin.length),
+      winRate: round((inBin.filter((s) => s.win).length / inBin.length) * 100),
+    });
+  }
+
+  return bins;
+}
+
+/**
+ * Bin win rates shrunk toward the stated confidence, then made
+ * non-decreasing (pool adjacent violators) so more confidence never maps
+ * to less
+ */
+function buildMapping(bins: ReliabilityBin[]): CalibrationPoint[] {
+  const blocks = bins.map((bin) => {
+    const weight = bin.count + PRIOR_STRENGTH;
+    const value = (bin.winRate * bin.count + bin.avgConfidence * PRIOR_STRENGTH) / weight;
+    return { confidence: [bin.avgConfidence], value, weight };
+  });
+
+  for (let i = 1; i < blocks.length; ) {
+    if (blocks[i - 1].value <= blocks[i].value) {
+      i++;
+      continue;
+    }
+    const a = blocks[i - 1];
+    const b = blocks[i];
+    const weight = a.weight + b.weight;
+    blocks.splice(i - 1, 2, {
+      confidence: [...a.confidence, ...b.confidence],
+      value: (a.value * a.weight + b.value * b.weight) / weight,
+      weight,
+    });
+    if (i > 1) i--;
+  }
+
+  return blocks.flatMap((block) =>
+    block.confidence.map((confidence) => ({ confidence, calibrated: round(block.value) }))
+  );
+}
+
+/**
+ * Reliability curve, scores and mapping for one set of predictions
+ */
+export function buildCalibration(provider: string, samples: CalibrationSample[]): ProviderCalibration {
+  if (samples.length === 0) {
+    return { provider, samples: 0, avgConfidence: null, winRate: null, brierScore: null, ece: null, bins: [], mapping: [] };
+  }
+
+  const bins = buildBins(samples);
+  const brier = samples.reduce((sum, s) => sum + (s.confidence / 100 - (s.win ? 1 : 0)) ** 2, 0) / samples.length;
+  const ece = bins.reduce((sum, bin) => sum + (bin.count / samples.length) * Math.abs(bin.avgConfidence - bin.winRate), 0);
+
+  return {
+    provider,
+    samples: samples.length,
+    avgConfidence: round(samples.reduce((sum, s) => sum + s.confidence, 0) / samples.length),
+    winRate: round((samples.filter((s) => s.win).length / samples.length) * 100),
+    brierScore: round(brier, 4),
+    ece: round(ece),
+    bins,
+    mapping: samples.length >= MIN_SAMPLES ? buildMapping(bins) : [],
+  };
+}
+
+/**
+ * Map a stated confidence through a calibration mapping: linear between
+ * points, held at the end points beyond them
+ */
+export function applyCalibration(mapping: CalibrationPoint[], confidence: number): number {
+  if (mapping.length === 0) return confidence;
+
+  if (confidence <= mapping[0].confidence) return Math.round(mapping[0].calibrated);
+  for (let i = 1; i < mapping.length; i++) {
+    const lo = mapping[i - 1];
+    const hi = mapping[i];
+    if (confidence <= hi.confidence) {
+      const t = hi.confidence === lo.confidence ? 1 : (confidence - lo.confidence) / (hi.confidence - lo.confidence);
+      return Math.round(lo.calibrated + t * (hi.calibrated - lo.calibrated));
+    }
+  }
+  return Math.round(mapping[mapping.length - 1].calibrated);
+}
+
+// ============================================
+// Report
+// ============================================
+
+let cache: { loadedAt: number; report: CalibrationReport } | null = null;
+
+/**
+ * Calibration of every provider with evaluated predictions (cached briefly;
+ * refresh bypasses the cache)
+ */
+export async function getCalibrationReport(options: { refresh?: boolean } = {}): Promise<CalibrationReport> {
+  if (!options.refresh && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.report;
+
+  const predictions = await prisma.aIPrediction.findMany({
+    where: {
+      outcome: { in: ["WIN", "LOSS", "BREAKEVEN"] },
+      recommendation: { in: ["BUY", "STRONG_BUY", "SELL", "STRONG_SELL"] },
+    },
+    select: { provider: true, confidence: true, outcome: true },
+  });
+
+  const byProvider = new Map<string, CalibrationSample[]>();
+  for (const p of predictions) {
+    const samples = byProvider.get(p.provider) ?? [];
+    samples.push({ confidence: p.confidence, win: p.outcome === "WIN" });
+    byProvider.set(p.provider, samples);
+  }
+
+  const report: CalibrationReport = {
+    generatedAt: new Date().toISOString(),
+    minSamples: MIN_SAMPLES,
+    providers: [...byProvider.entries()]
+      .map(([provider, samples]) => buildCalibration(provider, samples))
+      .sort((a, b) => b.samples - a.samples),
+    overall: buildCalibration("overall", [...byProvider.values()].flat()),
+  };
+
+  cache = { loadedAt: Date.now(), report };
+  return report;
+}
+
+/**
+ * A provider's stated confidence mapped to its observed win rate; the
+ * confidence is kept when the provider has too little history or the
+ * report can't be loaded
+ */
+export async function calibrateConfidence(provider: string, confidence: number): Promise<number> {
+  try {
+    const report = await getCalibrationReport();
+    const calibration = report.providers.find((p) => p.provider === provider);
+    return calibration ? applyCalibration(calibration.mapping, confidence) : confidence;
+  } catch (error) {
+    console.error("[AI Calibration] Failed to load calibration:", error);
+    return confidence;
+  }
+}
@@ -6,32 +6,52 @@
  */
 
 import {
-  analyzeWithOpenAI,
-  analyzeWithGemini,
-  analyzeWithDeepSeek,
+  analyzeWithProvider,
   type MarketDataForAI,
   type AIAnalysisResult,
 } from "./ai-analysis";
+import { estimateAICost, isAIProviderAvailable, loadAIProviders } from "./ai-providers";
+import prisma from "./db";
+import { ValidationError } from "./errors";
 
 // ============================================
 // Types
 // ============================================
 
 export interface SingleAIResult {
-  provider: string;
+  provider: string; // Display name
+  provider_key: string; // AI provider registry key
   success: boolean;
   result?: AIAnalysisResult;
   error?: string;
   processing_time_ms: number;
 }
 
+/**
+ * How much each provider's vote counts:
+ * - EQUAL: one provider, one vote
+ * - WIN_RATE / WIN_RATE_30D: its win rate over all / the last 30 days of evaluated predictions
+ * - CALIBRATED: its confidence mapped to its observed win rate (lib/ai-calibration)
+ */
+export type ConsensusWeighting = "EQUAL" | "WIN_RATE" | "WIN_RATE_30D" | "CALIBRATED";
+
+/** How the providers' entry / SL / TP levels are combined (weighted) */
+export type LevelAggregation = "MEAN" | "MEDIAN" | "TRIMMED_MEAN";
+
+export interface ConsensusOptions {
+  providers?: string[]; // AI provider registry keys
+  minProviders?: number; // Minimum successful providers needed
+  weighting?: ConsensusWeighting;
+  aggregation?: LevelAggregation;
+}
+
 export interface ConsensusResult {
   // Consensus recommendation
   consensus: "STRONG_BUY" | "BUY" | "NEUTRAL" | "SELL" | "STRONG_SELL";
   consensus_confidence: number; // 0-100
   agreement_level: "HIGH" | "MEDIUM" | "LOW" | "CONFLICT";
   
-  // Entry/Exit levels (averaged)
+  // Entry/Exit levels (aggregated from the providers on the consensus side)
   suggested_entry: {
     start: number;
     end: number;
@@ -52,6 +72,13 @@ export interface ConsensusResult {
     strong_sell: number;
   };
   
+  // How the providers were combined
+  weighting: {
+    mode: ConsensusWeighting;
+    aggregation: LevelAggregation;
+    weights: Record<string, number>; // Provider name -> share of the vote (sums to 1)
+  };
+  
   // Summary
   summary: string;
   warnings: string[];
@@ -82,117 +109,133 @@ function scoreToRecommendation(score: number): ConsensusResult["consensus"] {
   return "NEUTRAL";
 }
 
+// ============================================
+// Weighting
+// ============================================
+
+export const CONSENSUS_WEIGHTINGS: ConsensusWeighting[] = ["EQUAL", "WIN_RATE", "WIN_RATE_30D", "CALIBRATED"];
+export const LEVEL_AGGREGATIONS: LevelAggregation[] = ["MEAN", "MEDIAN", "TRIMMED_MEAN"];
+
+/** Evaluated predictions a provider needs before its record counts */
+const MIN_EVALUATED_FOR_WEIGHT = 10;
+
+/** Win rate assumed without enough history */
+const PRIOR_WIN_RATE = 0.5;
+
+/** A poor record mutes a provider but never removes it */
+const MIN_WEIGHT = 0.05;
+
+/** TRIMMED_MEAN drops this share of the values at each end (at least one of 3+) */
+const TRIM_FRACTION = 0.2;
+
+const EVALUATED_OUTCOMES = ["WIN", "LOSS", "BREAKEVEN"];
+
+export function resolveConsensusWeighting(value: string | null | undefined): ConsensusWeighting {
+  if (!value) return "EQUAL";
+
+  const mode = value.toUpperCase() as ConsensusWeighting;
+  if (!CONSENSUS_WEIGHTINGS.includes(mode)) {
+    throw new ValidationError(`weighting ไม่ถูกต้อง: ${value}`, { weighting: CONSENSUS_WEIGHTINGS.join(" | ") });
+  }
+  return mode;
+}
+
+export function resolveLevelAggregation(value: string | null | undefined): LevelAggregation {
+  if (!value) return "MEDIAN";
+
+  const method = value.toUpperCase() as LevelAggregation;
+  if (!LEVEL_AGGREGATIONS.includes(method)) {
+    throw new ValidationError(`aggregation ไม่ถูกต้อง: ${value}`, { aggregation: LEVEL_AGGREGATIONS.join(" | ") });
+  }
+  return method;
+}
+
+/**
+ * Weight of each result (same order), from the providers' evaluated
+ * predictions. Providers without enough history get the prior.
+ */
+async function loadResultWeights(
+  results: SingleAIResult[],
+  mode: ConsensusWeighting
+): Promise<number[]> {
+  if (mode === "EQUAL") return results.map(() => 1);
+
+  // Calibration already falls back to the stated confidence without history
+  if (mode === "CALIBRATED") {
+    return results.map((r) => Math.max(MIN_WEIGHT, (r.result!.calibrated_confidence ?? r.result!.confidence) / 100));
+  }
+
+  const keys = [...new Set(results.map((r) => r.provider_key))];
+  const history = await prisma.aIPrediction.findMany({
+    where: {
+      provider: { in: keys },
+      outcome: { in: EVALUATED_OUTCOMES },
+      ...(mode === "WIN_RATE_30D"
+        ? { createdAt: { gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) } }
+        : {}),
+    },
+    select: { provider: true, outcome: true },
+  });
+
+  return results.map((r) => {
+    const sample = history.filter((p) => p.provider === r.provider_key);
+    const winRate = sample.length >= MIN_EVALUATED_FOR_WEIGHT
+      ? sample.filter((p) => p.outcome === "WIN").length / sample.length
+      : PRIOR_WIN_RATE;
+    return Math.max(MIN_WEIGHT, winRate);
+  });
+}
+
 // ============================================
 // Main Consensus Function
 // ============================================
 
 /**
- * Run analysis on multiple AI providers and combine results
+ * Run analysis on multiple AI providers and combine results.
+ * By default every available provider marked for consensus takes part.
  */
 export async function getAIConsensus(
   data: MarketDataForAI,
-  options: {
-    useOpenAI?: boolean;
-    useGemini?: boolean;
-    useDeepSeek?: boolean;
-    minProviders?: number; // Minimum successful providers needed
-  } = {}
+  options: ConsensusOptions = {}
 ): Promise<ConsensusResult> {
-  const {
-    useOpenAI = !!process.env.OPENAI_API_KEY,
-    useGemini = !!process.env.GEMINI_API_KEY,
-    useDeepSeek = !!process.env.DEEPSEEK_API_KEY,
-    minProviders = 2,
-  } = options;
+  const { minProviders = 2, weighting = "EQUAL", aggregation = "MEDIAN" } = options;
 
   const startTime = Date.now();
   const results: SingleAIResult[] = [];
   const providersUsed: string[] = [];
   const providersFailed: string[] = [];
 
-  // Create promises for each provider
-  const promises: Promise<void>[] = [];
-
-  if (useOpenAI) {
-    promises.push(
-      (async () => {
-        const providerStart = Date.now();
-        try {
-          const result = await analyzeWithOpenAI(data);
-          results.push({
-            provider: "OpenAI GPT-4",
-            success: true,
-            result,
-            processing_time_ms: Date.now() - providerStart,
-          });
-          providersUsed.push("OpenAI");
-        } catch (error) {
-          results.push({
-            provider: "OpenAI GPT-4",
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-            processing_time_ms: Date.now() - providerStart,
-          });
-          providersFailed.push("OpenAI");
-        }
-      })()
-    );
-  }
-
-  if (useGemini) {
-    promises.push(
-      (async () => {
-        const providerStart = Date.now();
-        try {
-          const result = await analyzeWithGemini(data);
-          results.push({
-            provider: "Google Gemini",
-            success: true,
-            result,
-            processing_time_ms: Date.now() - providerStart,
-          });
-          providersUsed.push("Gemini");
-        } catch (error) {
-          results.push({
-            provider: "Google Gemini",
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-            processing_time_ms: Date.now() - providerStart,
-          });
-          providersFailed.push("Gemini");
-        }
-      })()
-    );
-  }
-
-  if (useDeepSeek) {
-    promises.push(
-      (async () => {
-        const providerStart = Date.now();
-        try {
-          const result = await analyzeWithDeepSeek(data);
-          results.push({
-            provider: "DeepSeek",
-            success: true,
-            result,
-            processing_time_ms: Date.now() - providerStart,
-          });
-          providersUsed.push("DeepSeek");
-        } catch (error) {
-          results.push({
-            provider: "DeepSeek",
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-            processing_time_ms: Date.now() - providerStart,
-          });
-          providersFailed.push("DeepSeek");
-        }
-      })()
-    );
-  }
-
-  // Wait for all providers
-  await Promise.all(promises);
+  const registry = await loadAIProviders();
+  const selected = options.providers
+    ? registry.filter((p) => options.providers!.includes(p.key) && isAIProviderAvailable(p))
+    : registry.filter((p) => p.useInConsensus && isAIProviderAvailable(p));
+
+  // Run every provider in parallel
+  await Promise.all(
+    selected.map(async (provider) => {
+      const providerStart = Date.now();
+      try {
+        const result = await analyzeWithProvider(provider, data);
+        results.push({
+          provider: provider.name,
+          provider_key: provider.key,
+          success: true,
+          result,
+          processing_time_ms: Date.now() - providerStart,
+        });
+        providersUsed.push(provider.name);
+      } catch (error) {
+        results.push({
+          provider: provider.name,
+          provider_key: provider.key,
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          processing_time_ms: Date.now() - providerStart,
+        });
+        providersFailed.push(provider.name);
+      }
+    })
+  );
 
   // Get successful results
   const successfulResults = results.filter(r => r.success && r.result);
@@ -212,16 +255,14 @@ export async function getAIConsensus(
     strong_sell: 0,
   };
 
-  let totalScore = 0;
-  let totalConfidence = 0;
-  let entryStarts: number[] = [];
-  let entryEnds: number[] = [];
-  let stopLosses: number[] = [];
-  let tp1s: number[] = [];
-  let tp2s: number[] = [];
+  const weights = await loadResultWeights(successfulResults, weighting);
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+
+  let weightedScore = 0;
+  let weightedConfidence = 0;
   const allWarnings: string[] = [];
 
-  for (const r of successfulResults) {
+  successfulResults.forEach((r, i) => {
     const rec = r.result!.recommendation;
     
     // Count votes
@@ -231,24 +272,17 @@ export async function getAIConsensus(
     else if (rec === "SELL") votes.sell++;
     else if (rec === "STRONG_SELL") votes.strong_sell++;
     
-    // Sum scores
-    totalScore += RECOMMENDATION_SCORES[rec] || 0;
-    totalConfidence += r.result!.confidence;
-    
-    // Collect levels
-    entryStarts.push(r.result!.entry_zone.start);
-    entryEnds.push(r.result!.entry_zone.end);
-    stopLosses.push(r.result!.stop_loss);
-    tp1s.push(r.result!.take_profit_1);
-    tp2s.push(r.result!.take_profit_2);
+    // Weighted scores
+    weightedScore += weights[i] * (RECOMMENDATION_SCORES[rec] || 0);
+    weightedConfidence += weights[i] * r.result!.confidence;
     
     // Collect warnings
     allWarnings.push(...r.result!.warnings);
-  }
+  });
 
   const numSuccess = successfulResults.length;
-  const avgScore = totalScore / numSuccess;
-  const avgConfidence = totalConfidence / numSuccess;
+  const avgScore = weightedScore / totalWeight;
+  const avgConfidence = weightedConfidence / totalWeight;
   
   // Determine consensus
   const consensus = scoreToRecommendation(avgScore);
@@ -272,14 +306,26 @@ export async function getAIConsensus(
     agreementLevel = "CONFLICT";
   }
 
-  // Average levels
+  // Levels come from the providers on the consensus side: a SELL's stop
+  // loss averaged into a BUY would land on the wrong side of the entry
+  const direction = Math.sign(RECOMMENDATION_SCORES[consensus]);
+  const aligned = successfulResults
+    .map((r, i) => ({ result: r.result!, weight: weights[i] }))
+    .filter(({ result }) => Math.sign(RECOMMENDATION_SCORES[result.recommendation] || 0) === direction);
+  const levelSources = aligned.length > 0
+    ? aligned
+    : successfulResults.map((r, i) => ({ result: r.result!, weight: weights[i] }));
+
+  const level = (pick: (r: AIAnalysisResult) => number) =>
+    Math.round(aggregateLevels(levelSources.map((s) => ({ value: pick(s.result), weight: s.weight })), aggregation) * 100) / 100;
+
   const avgEntry = {
-    start: Math.round(average(entryStarts) * 100) / 100,
-    end: Math.round(average(entryEnds) * 100) / 100,
+    start: level((r) => r.entry_zone.start),
+    end: level((r) => r.entry_zone.end),
   };
-  const avgSL = Math.round(average(stopLosses) * 100) / 100;
-  const avgTP1 = Math.round(average(tp1s) * 100) / 100;
-  const avgTP2 = Math.round(average(tp2s) * 100) / 100;
+  const avgSL = level((r) => r.stop_loss);
+  const avgTP1 = level((r) => r.take_profit_1);
+  const avgTP2 = level((r) => r.take_profit_2);
 
   // Deduplicate warnings
   const uniqueWarnings = [...new Set(allWarnings)];
@@ -303,6 +349,13 @@ export async function getAIConsensus(
     suggested_tp2: avgTP2,
     results,
     votes,
+    weighting: {
+      mode: weighting,
+      aggregation,
+      weights: Object.fromEntries(
+        successfulResults.map((r, i) => [r.provider, Math.round((weights[i] / totalWeight) * 1000) / 1000])
+      ),
+    },
     summary,
     warnings: uniqueWarnings.slice(0, 5), // Top 5 warnings
     total_time_ms: Date.now() - startTime,
@@ -315,9 +368,46 @@ export async function getAIConsensus(
 // Helper Functions
 // ============================================
 
-function average(numbers: number[]): number {
-  if (numbers.length === 0) return 0;
-  return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+interface WeightedValue {
+  value: number;
+  weight: number;
+}
+
+function weightedMean(values: WeightedValue[]): number {
+  const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+  if (totalWeight === 0) return 0;
+  return values.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight;
+}
+
+/**
+ * Value at half the total weight; halfway between two values on a tie
+ */
+function weightedMedian(values: WeightedValue[]): number {
+  const sorted = [...values].sort((a, b) => a.value - b.value);
+  const half = sorted.reduce((sum, v) => sum + v.weight, 0) / 2;
+
+  let cumulative = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight;
+    if (Math.abs(cumulative - half) < 1e-9 && i + 1 < sorted.length) {
+      return (sorted[i].value + sorted[i + 1].value) / 2;
+    }
+    if (cumulative > half) return sorted[i].value;
+  }
+  return sorted.length > 0 ? sorted[sorted.length - 1].value : 0;
+}
+
+function trimmedMean(values: WeightedValue[]): number {
+  const sorted = [...values].sort((a, b) => a.value - b.value);
+  const trim = sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * TRIM_FRACTION)) : 0;
+  return weightedMean(sorted.slice(trim, sorted.length - trim));
+}
+
+export function aggregateLevels(values: WeightedValue[], method: LevelAggregation): number {
+  if (values.length === 0) return 0;
+  if (method === "MEDIAN") return weightedMedian(values);
+  if (method === "TRIMMED_MEAN") return trimmedMean(values);
+  return weightedMean(values);
 }
 
 function buildConsensusSummary(
@@ -359,11 +449,14 @@ function buildConsensusSummary(
 export async function getQuickConsensus(
   data: MarketDataForAI
 ): Promise<ConsensusResult> {
-  // Use only 2 fastest/cheapest providers
+  // Use only the 2 cheapest available providers
+  const providers = (await loadAIProviders())
+    .filter((p) => p.useInConsensus && isAIProviderAvailable(p))
+    .sort((a, b) => estimateAICost(a, 1, 1) - estimateAICost(b, 1, 1))
+    .slice(0, 2);
+
   return getAIConsensus(data, {
-    useDeepSeek: !!process.env.DEEPSEEK_API_KEY,
-    useGemini: !!process.env.GEMINI_API_KEY,
-    useOpenAI: !process.env.DEEPSEEK_API_KEY && !process.env.GEMINI_API_KEY,
+    providers: providers.map((p) => p.key),
     minProviders: 1,
   });
 }
@@ -14,14 +14,15 @@ import {
   analyzeWithAI, 
   type AIProvider, 
   type AIAnalysisResult,
-  type MarketDataForAI 
+  type MarketDataForAI,
+  formatDataQualityForAI
 } from "./ai-analysis";
-import { getAIConsensus, type ConsensusResult } from "./ai-consensus";
+import { getAIConsensus, type ConsensusOptions, type ConsensusResult } from "./ai-consensus";
 import { 
   calculateTechnicalIndicators, 
-  generateEstimatedOHLC,
   type TechnicalIndicators 
 } from "./technical-indicators";
+import { loadTechnicalsOHLC, type TechnicalsSource } from "./candles";
 import { 
   buildHistoricalContext, 
   formatHistoricalContextForAI,
@@ -40,6 +41,7 @@ import {
   compareProviders,
   type AccuracyStats 
 } from "./ai-accuracy";
+import { DEFAULT_PRODUCT, findProduct } from "./products";
 
 // ============================================
 // Types
@@ -48,6 +50,7 @@ import {
 export interface EnhancedMarketData extends MarketDataForAI {
   // Technical indicators
   technicals: TechnicalIndicators;
+  technicalsSource: TechnicalsSource;
   
   // Historical context
   historicalContext: MarketConditionHistory;
@@ -81,6 +84,8 @@ export interface EnhancedAnalysisResult {
     riskReward: number;
     warnings: string[];
     safeToTrade: boolean;
+    /** Expected-move band in trading (spot) price used to check TP/SL */
+    expectedMove?: { low: number; high: number } | null;
   };
   
   // Prediction tracking ID
@@ -143,14 +148,16 @@ export const ENHANCED_SYSTEM_PROMPT = `คุณเป็นนักวิเ
 
 export function buildEnhancedPrompt(data: EnhancedMarketData): string {
   const sections: string[] = [];
+  const product = data.product || "Gold";
+  const spot = data.spot_symbol || "XAUUSD";
   
   // Section 1: Current Market Data
-  sections.push(`## ข้อมูลตลาด Gold ณ ${data.data_timestamp}
-
+  sections.push(`## ข้อมูลตลาด ${product} ณ ${data.data_timestamp}
+${spot !== "XAUUSD" ? `(สินค้านี้เทรดที่ ${spot}: ทุกราคาที่ตอบต้องเป็นราคา ${spot} แทนราคา XAU)\n` : ""}${formatDataQualityForAI(data.data_quality)}
 ### ราคาปัจจุบัน
-- CME Gold Futures: $${data.cme_futures_price.toFixed(2)}
-- XAU Spot: ${data.xau_spot_price ? `$${data.xau_spot_price.toFixed(2)}` : "N/A"}
-- Spread (CME - XAU): ${data.spread ? `$${data.spread.toFixed(2)}` : "N/A"}
+- CME ${product} Futures: $${data.cme_futures_price.toFixed(2)}
+- ${spot} Spot: ${data.xau_spot_price ? `$${data.xau_spot_price.toFixed(2)}` : "N/A"}
+- Spread (CME - Spot): ${data.spread ? `$${data.spread.toFixed(2)}` : "N/A"}
 
 ### Put/Call Ratio
 - OI PCR: ${data.oi_pcr.toFixed(3)} ${data.oi_pcr > 1 ? "(Bullish)" : data.oi_pcr < 0.7 ? "(Bearish)" : "(Neutral)"}
@@ -160,7 +167,8 @@ export function buildEnhancedPrompt(data: EnhancedMarketData): string {
 - Max Pain: $${data.max_pain}
 - Call Wall (แนวต้าน): $${data.call_wall}
 - Put Wall (แนวรับ): $${data.put_wall}
-- VWAP: $${data.vwap.toFixed(2)}
+- VWAP: $${data.vwap.toFixed(2)}${data.expected_move ? `
+- Expected Move (${data.expected_move.source === "ATM_IV" ? "จาก ATM IV" : "จาก QuikStrike Range"}): $${data.expected_move.low.toFixed(1)} - $${data.expected_move.high.toFixed(1)} (±${data.expected_move.move.toFixed(1)}) ใช้เป็นกรอบ TP/SL` : ""}
 
 ### OI Flow (การเปลี่ยนแปลง Open Interest)
 - Net OI Change: ${data.net_oi_change > 0 ? "+" : ""}${data.net_oi_change.toLocaleString()}
@@ -173,8 +181,13 @@ export function buildEnhancedPrompt(data: EnhancedMarketData): string {
 
   // Section 2: Technical Indicators
   const tech = data.technicals;
+  const techSource = data.technicalsSource.isEstimated
+    ? "⚠️ ประมาณการ (ประวัติราคาไม่เพียงพอ) - ใช้เป็นข้อมูลประกอบเท่านั้น"
+    : `แท่งราคาจริง ${data.technicalsSource.candleCount} แท่ง (${data.technicalsSource.timeframe})`;
   sections.push(`## Technical Indicators
 
+ที่มาของข้อมูล: ${techSource}
+
 ### RSI (14)
 - ค่า: ${tech.rsi}
 - สัญญาณ: ${tech.rsi_signal}
@@ -182,7 +195,7 @@ export function buildEnhancedPrompt(data: EnhancedMarketData): string {
 ### Moving Averages
 - MA20: ${tech.ma20} (ราคา${tech.price_vs_ma.above_ma20 ? "เหนือ" : "ใต้"})
 - MA50: ${tech.ma50} (ราคา${tech.price_vs_ma.above_ma50 ? "เหนือ" : "ใต้"})
-- MA200: ${tech.ma200} (ราคา${tech.price_vs_ma.above_ma200 ? "เหนือ" : "ใต้"})
+- MA200: ${tech.ma200 !== null ? `${tech.ma200} (ราคา${tech.price_vs_ma.above_ma200 ? "เหนือ" : "ใต้"})` : "ไม่มี (แท่งราคาไม่ถึง 200 แท่ง)"}
 - MA Trend: ${tech.ma_trend}
 
 ### ATR (14) - Volatility
@@ -239,6 +252,12 @@ export async function runEnhancedAnalysis(
     useConsensus?: boolean;
     provider?: AIProvider;
     trackPrediction?: boolean;
+    /** Snapshot product used to look up stored candles; predictions are saved under its registry name */
+    product?: string;
+    /** Futures series of cme_futures_price, recorded so predictions are evaluated on the same series */
+    expiry?: string;
+    /** Weighting / level aggregation when useConsensus */
+    consensus?: Pick<ConsensusOptions, "weighting" | "aggregation">;
   } = {}
 ): Promise<EnhancedAnalysisResult> {
   const startTime = Date.now();
@@ -246,17 +265,30 @@ export async function runEnhancedAnalysis(
     useConsensus = false,
     provider = "auto",
     trackPrediction = true,
+    product,
+    expiry,
+    consensus,
   } = options;
+  const predictionProduct = findProduct(product)?.name ?? product ?? DEFAULT_PRODUCT.name;
+  const predictionContext = {
+    futurePrice: baseData.cme_futures_price,
+    spread: baseData.spread,
+    expiry,
+  };
 
-  // 1. Calculate Technical Indicators
-  const ohlcData = generateEstimatedOHLC(baseData.cme_futures_price, 200);
+  // 1. Calculate Technical Indicators (stored candles, estimator as fallback)
+  const { ohlc: ohlcData, source: technicalsSource } = await loadTechnicalsOHLC(
+    product,
+    baseData.cme_futures_price
+  );
   const technicals = calculateTechnicalIndicators(ohlcData, baseData.cme_futures_price);
 
   // 2. Build Historical Context
   const historicalContext = await buildHistoricalContext(
     baseData.oi_pcr,
     baseData.max_pain,
-    baseData.cme_futures_price
+    baseData.cme_futures_price,
+    product
   );
 
   // 3. Get Economic Calendar
@@ -271,6 +303,7 @@ export async function runEnhancedAnalysis(
   const enhancedData: EnhancedMarketData = {
     ...baseData,
     technicals,
+    technicalsSource,
     historicalContext,
     economicEvents,
     isSafeToTrade: tradeSafety.safe,
@@ -287,7 +320,7 @@ export async function runEnhancedAnalysis(
 
   if (useConsensus) {
     // Use Multi-AI Consensus
-    const consensusResult = await getAIConsensus(baseData);
+    const consensusResult = await getAIConsensus(baseData, consensus);
     analysis = consensusResult;
     isConsensus = true;
     providersUsed = consensusResult.providers_used;
@@ -295,8 +328,8 @@ export async function runEnhancedAnalysis(
     if (trackPrediction) {
       predictionId = await saveConsensusPrediction(
         consensusResult,
-        baseData.cme_futures_price,
-        "Gold"
+        predictionContext,
+        predictionProduct
       );
     }
   } else {
@@ -309,20 +342,27 @@ export async function runEnhancedAnalysis(
     if (trackPrediction) {
       predictionId = await savePrediction(
         singleResult,
-        provider === "auto" ? "auto" : provider,
-        baseData.cme_futures_price,
-        "Gold"
+        predictionContext,
+        predictionProduct
       );
     }
   }
 
-  // 7. Build Trading Recommendation
+  // 7. Build Trading Recommendation (expected move shifted from futures to spot by the spread)
+  const spreadOffset = baseData.spread ?? 0;
   const tradingRecommendation = buildTradingRecommendation(
     analysis,
     isConsensus,
     technicals,
+    technicalsSource,
     economicEvents,
-    tradeSafety.safe
+    tradeSafety.safe,
+    baseData.expected_move
+      ? {
+          low: Math.round((baseData.expected_move.low - spreadOffset) * 100) / 100,
+          high: Math.round((baseData.expected_move.high - spreadOffset) * 100) / 100,
+        }
+      : null
   );
 
   return {
@@ -344,8 +384,10 @@ function buildTradingRecommendation(
   analysis: AIAnalysisResult | ConsensusResult,
   isConsensus: boolean,
   technicals: TechnicalIndicators,
+  technicalsSource: TechnicalsSource,
   economicEvents: UpcomingEvents,
-  isSafe: boolean
+  isSafe: boolean,
+  expectedMove: { low: number; high: number } | null = null
 ): EnhancedAnalysisResult["tradingRecommendation"] {
   let action: string;
   let confidence: number;
@@ -383,6 +425,9 @@ function buildTradingRecommendation(
   }
 
   // Add technical warnings
+  if (technicalsSource.isEstimated) {
+    warnings.push("⚠️ Technical Indicators เป็นค่าประมาณการ - ประวัติราคายังไม่เพียงพอ");
+  }
   if (technicals.rsi_signal === "OVERBOUGHT" && ["BUY", "STRONG_BUY"].includes(action)) {
     warnings.push("⚠️ RSI Overbought - ราคาอาจพักตัว");
   }
@@ -393,6 +438,29 @@ function buildTradingRecommendation(
     warnings.push("⚠️ Volatility สูง - ตั้ง SL ให้กว้างขึ้น");
   }
 
+  // Expected-move band as TP/SL guide: TP1 is kept inside the band,
+  // TP2 and SL outside it are flagged
+  if (expectedMove && action !== "NEUTRAL") {
+    const isBuy = action.includes("BUY");
+    const entry = (entryZone.start + entryZone.end) / 2;
+    const targetEdge = isBuy ? expectedMove.high : expectedMove.low;
+    const stopEdge = isBuy ? expectedMove.low : expectedMove.high;
+    const beyond = (price: number, edge: number) => (isBuy ? price > edge : price < edge);
+
+    if (beyond(takeProfit1, targetEdge) && beyond(targetEdge, entry)) {
+      warnings.push(`🎯 TP1 ${takeProfit1} เกินกรอบ Expected Move - ปรับเป็น ${targetEdge}`);
+      takeProfit1 = targetEdge;
+      const risk = Math.abs(entry - stopLoss);
+      if (risk > 0) riskReward = Math.round((Math.abs(takeProfit1 - entry) / risk) * 100) / 100;
+    }
+    if (beyond(takeProfit2, targetEdge)) {
+      warnings.push(`🎯 TP2 อยู่นอกกรอบ Expected Move (${targetEdge}) - โอกาสถึงเป้าต่ำ`);
+    }
+    if (beyond(stopEdge, stopLoss)) {
+      warnings.push(`🛡️ SL อยู่นอกกรอบ Expected Move (${stopEdge}) - ความเสี่ยงกว้างกว่าการเคลื่อนไหวปกติ`);
+    }
+  }
+
   // Add economic calendar warnings
   if (economicEvents.tradingCaution === "HIGH") {
     warnings.push("🔴 มีข่าวสำคัญวันนี้ - ระวังความผันผวน");
@@ -414,5 +482,6 @@ function buildTradingRecommendation(
     riskReward,
     warnings,
     safeToTrade: isSafe,
+    expectedMove,
   };
 }
@@ -0,0 +1,368 @@
+/**
+ * AI Provider Registry
+ *
+ * The models analyzeWithAI, consensus and accuracy tracking can use. The
+ * built-in providers are defined here; AIProviderConfig rows add more (any
+ * OpenAI-compatible endpoint, including a local Ollama or llama.cpp
+ * server) or override the built-in with the same key. A provider is
+ * available when it is enabled and its API key env var is set, or it
+ * needs no key.
+ */
+
+import type { AIProviderConfig } from "@prisma/client";
+import prisma from "./db";
+import { NotFoundError, ValidationError } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+export type AIProviderKind = "openai-compatible" | "gemini";
+
+export interface AIProviderDefinition {
+  /** Stored in AIPrediction.provider and AIAccuracyStats.provider */
+  key: string;
+  name: string;
+  kind: AIProviderKind;
+  /** null = the kind's default endpoint */
+  baseUrl: string | null;
+  /** API model id, stored in AIPrediction.model */
+  model: string;
+  /** Env var holding the API key; null for keyless local servers */
+  apiKeyEnv: string | null;
+  /** Endpoint can be asked for a JSON object response */
+  jsonMode: boolean;
+  maxTokens: number;
+  /** USD */
+  costPerInputToken: number;
+  costPerOutputToken: number;
+  /** Auto-selection order, lowest first */
+  priority: number;
+  autoSelect: boolean;
+  useInConsensus: boolean;
+  enabled: boolean;
+  /** Defined in code, possibly overridden by a row */
+  builtIn: boolean;
+}
+
+export type AIProviderInput = { key: string } & Partial<Omit<AIProviderDefinition, "key" | "builtIn">>;
+
+export interface AIProviderStatus extends AIProviderDefinition {
+  available: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const AI_PROVIDER_KINDS: AIProviderKind[] = ["openai-compatible", "gemini"];
+
+/** Keys with a meaning of their own in requests and AIPrediction.provider */
+const RESERVED_KEYS = ["auto", "consensus"];
+
+/**
+ * Env vars a configured provider may read its key from. The key is sent to
+ * the provider's baseUrl, so a row must not be able to name an arbitrary
+ * server secret.
+ */
+const API_KEY_ENV_PATTERN = /^AI_PROVIDER_[A-Z0-9_]+_API_KEY$/;
+
+/** Where a built-in's key is sent and read from; an override can't change these */
+const BUILT_IN_LOCKED_FIELDS = ["kind", "baseUrl", "apiKeyEnv"] as const;
+
+const DEEPSEEK_BASE_URL = "https://api.deepseek.com/v1";
+
+/** Costs are list prices per 1M tokens */
+export const BUILT_IN_AI_PROVIDERS: AIProviderDefinition[] = [
+  {
+    key: "gemini",
+    name: "Gemini 1.5 Flash",
+    kind: "gemini",
+    baseUrl: null,
+    model: "gemini-1.5-flash-001",
+    apiKeyEnv: "GEMINI_API_KEY",
+    jsonMode: true,
+    maxTokens: 2000,
+    costPerInputToken: 0.075 / 1e6,
+    costPerOutputToken: 0.3 / 1e6,
+    priority: 10, // Fastest & reliable
+    autoSelect: true,
+    useInConsensus: true,
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    key: "deepseek",
+    name: "DeepSeek Chat",
+    kind: "openai-compatible",
+    baseUrl: DEEPSEEK_BASE_URL,
+    model: "deepseek-chat",
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    jsonMode: true,
+    maxTokens: 2000,
+    costPerInputToken: 0.27 / 1e6,
+    costPerOutputToken: 1.1 / 1e6,
+    priority: 20,
+    autoSelect: true,
+    useInConsensus: true,
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    key: "openai",
+    name: "GPT-4o",
+    kind: "openai-compatible",
+    baseUrl: null,
+    model: "gpt-4o",
+    apiKeyEnv: "OPENAI_API_KEY",
+    jsonMode: true,
+    maxTokens: 2000,
+    costPerInputToken: 2.5 / 1e6,
+    costPerOutputToken: 10 / 1e6,
+    priority: 30,
+    autoSelect: true,
+    useInConsensus: true,
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    key: "deepseek-r1",
+    name: "DeepSeek R1",
+    kind: "openai-compatible",
+    baseUrl: DEEPSEEK_BASE_URL,
+    model: "deepseek-reasoner",
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    jsonMode: false, // Reasoning model: JSON is extracted from the text
+    maxTokens: 4000, // R1 needs more tokens for reasoning
+    costPerInputToken: 0.55 / 1e6,
+    costPerOutputToken: 2.19 / 1e6,
+    priority: 40,
+    autoSelect: false,
+    useInConsensus: false,
+    enabled: true,
+    builtIn: true,
+  },
+];
+
+/** Defaults for a row that neither sets a field nor overrides a built-in */
+const NEW_PROVIDER_DEFAULTS: Omit<AIProviderDefinition, "key" | "name" | "model"> = {
+  kind: "openai-compatible",
+  baseUrl: null,
+  apiKeyEnv: null,
+  jsonMode: true,
+  maxTokens: 2000,
+  costPerInputToken: 0,
+  costPerOutputToken: 0,
+  priority: 100,
+  autoSelect: true,
+  useInConsensus: true,
+  enabled: true,
+  builtIn: false,
+};
+
+const CACHE_TTL_MS = 60 * 1000;
+
+// ============================================
+// Availability
+// ============================================
+
+export function getAIProviderApiKey(provider: AIProviderDefinition): string | undefined {
+  return provider.apiKeyEnv ? process.env[provider.apiKeyEnv] || undefined : undefined;
+}
+
+export function isAIProviderAvailable(provider: AIProviderDefinition): boolean {
+  return provider.enabled && (!provider.apiKeyEnv || !!getAIProviderApiKey(provider));
+}
+
+/**
+ * Provider for "auto": the available auto-select provider with the lowest priority
+ */
+export function selectAutoProvider(providers: AIProviderDefinition[]): AIProviderDefinition | null {
+  return providers.find((p) => p.autoSelect && isAIProviderAvailable(p)) ?? null;
+}
+
+export function estimateAICost(provider: AIProviderDefinition, inputTokens: number, outputTokens: number): number {
+  return inputTokens * provider.costPerInputToken + outputTokens * provider.costPerOutputToken;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate a definition. Returns field -> message for every problem.
+ */
+export function validateAIProvider(provider: AIProviderDefinition): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!provider.key || !/^[a-z][a-z0-9_-]*$/.test(provider.key)) {
+    errors.key = "ต้องขึ้นต้นด้วย a-z และมีได้เฉพาะ a-z 0-9 _ -";
+  } else if (RESERVED_KEYS.includes(provider.key)) {
+    errors.key = `ห้ามใช้ ${RESERVED_KEYS.join(", ")}`;
+  }
+  if (!provider.name?.trim()) errors.name = "ต้องระบุชื่อ";
+  if (!provider.model?.trim()) errors.model = "ต้องระบุ model";
+
+  if (!AI_PROVIDER_KINDS.includes(provider.kind)) {
+    errors.kind = AI_PROVIDER_KINDS.join(" | ");
+  }
+
+  if (provider.baseUrl !== null) {
+    try {
+      const url = new URL(provider.baseUrl);
+      if (url.protocol !== "http:" && url.protocol !== "https:") errors.baseUrl = "ต้องเป็น http(s) URL";
+    } catch {
+      errors.baseUrl = "URL ไม่ถูกต้อง";
+    }
+  }
+
+  const builtIn = BUILT_IN_AI_PROVIDERS.find((p) => p.key === provider.key);
+  if (builtIn) {
+    for (const field of BUILT_IN_LOCKED_FIELDS) {
+      if (provider[field] !== builtIn[field]) errors[field] = "เปลี่ยนค่านี้ของ provider ในตัวไม่ได้";
+    }
+  } else if (provider.apiKeyEnv !== null && !API_KEY_ENV_PATTERN.test(provider.apiKeyEnv)) {
+    errors.apiKeyEnv = "ต้องเป็นชื่อ env var รูปแบบ AI_PROVIDER_<NAME>_API_KEY เช่น AI_PROVIDER_OLLAMA_API_KEY";
+  }
+
+  if (!Number.isInteger(provider.maxTokens) || provider.maxTokens < 1) {
+    errors.maxTokens = "ต้องเป็นจำนวนเต็มมากกว่า 0";
+  }
+  for (const field of ["costPerInputToken", "costPerOutputToken"] as const) {
+    const cost = provider[field];
+    if (typeof cost !== "number" || !isFinite(cost) || cost < 0) errors[field] = "ต้องเป็นตัวเลขไม่ติดลบ";
+  }
+  if (!Number.isInteger(provider.priority)) {
+    errors.priority = "ต้องเป็นจำนวนเต็ม";
+  }
+
+  return errors;
+}
+
+// ============================================
+// Registry
+// ============================================
+
+let cache: { loadedAt: number; providers: AIProviderDefinition[] } | null = null;
+
+/**
+ * Definition from a row. An override of a built-in keeps the built-in's
+ * kind, endpoint and key env var whatever the row says, so a built-in's key
+ * is only ever sent to its own endpoint; a row naming an env var outside
+ * AI_PROVIDER_*_API_KEY gets no key.
+ */
+function fromRow(row: AIProviderConfig): AIProviderDefinition {
+  const builtIn = BUILT_IN_AI_PROVIDERS.find((p) => p.key === row.key);
+  const apiKeyEnv = row.apiKeyEnv !== null && API_KEY_ENV_PATTERN.test(row.apiKeyEnv) ? row.apiKeyEnv : null;
+
+  return {
+    key: row.key,
+    name: row.name,
+    kind: builtIn?.kind ?? (row.kind as AIProviderKind),
+    baseUrl: builtIn ? builtIn.baseUrl : row.baseUrl,
+    model: row.model,
+    apiKeyEnv: builtIn ? builtIn.apiKeyEnv : apiKeyEnv,
+    jsonMode: row.jsonMode,
+    maxTokens: row.maxTokens,
+    costPerInputToken: row.costPerInputToken,
+    costPerOutputToken: row.costPerOutputToken,
+    priority: row.priority,
+    autoSelect: row.autoSelect,
+    useInConsensus: row.useInConsensus,
+    enabled: row.enabled,
+    builtIn: !!builtIn,
+  };
+}
+
+/**
+ * Built-in providers merged with the configured rows, by priority.
+ * Includes disabled providers; cheap when the cache is fresh.
+ */
+export async function loadAIProviders(): Promise<AIProviderDefinition[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.providers;
+
+  const rows = await prisma.aIProviderConfig.findMany();
+  const byKey = new Map(BUILT_IN_AI_PROVIDERS.map((p) => [p.key, p]));
+  for (const row of rows) {
+    byKey.set(row.key, fromRow(row));
+  }
+
+  const providers = [...byKey.values()].sort((a, b) => a.priority - b.priority || a.key.localeCompare(b.key));
+  cache = { loadedAt: Date.now(), providers };
+  return providers;
+}
+
+export async function getAIProvider(key: string): Promise<AIProviderDefinition | null> {
+  return (await loadAIProviders()).find((p) => p.key === key) ?? null;
+}
+
+/**
+ * Every provider with its availability (key env var names only, never values)
+ */
+export async function listAIProviders(): Promise<AIProviderStatus[]> {
+  const providers = await loadAIProviders();
+  return providers.map((p) => ({ ...p, available: isAIProviderAvailable(p) }));
+}
+
+// ============================================
+// Read / Write
+// ============================================
+
+/**
+ * Create or replace the row with the given key. Fields left out keep the
+ * built-in's value when the key overrides a built-in.
+ */
+export async function saveAIProvider(input: AIProviderInput): Promise<AIProviderDefinition> {
+  const base = BUILT_IN_AI_PROVIDERS.find((p) => p.key === input.key);
+  const fields = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  const provider: AIProviderDefinition = {
+    name: "",
+    model: "",
+    ...NEW_PROVIDER_DEFAULTS,
+    ...base,
+    ...fields,
+    key: input.key,
+    builtIn: !!base,
+  };
+
+  const errors = validateAIProvider(provider);
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError("AI provider ไม่ถูกต้อง", errors);
+  }
+
+  const data = {
+    name: provider.name.trim(),
+    kind: provider.kind,
+    baseUrl: provider.baseUrl,
+    model: provider.model.trim(),
+    apiKeyEnv: provider.apiKeyEnv,
+    jsonMode: provider.jsonMode,
+    maxTokens: provider.maxTokens,
+    costPerInputToken: provider.costPerInputToken,
+    costPerOutputToken: provider.costPerOutputToken,
+    priority: provider.priority,
+    autoSelect: provider.autoSelect,
+    useInConsensus: provider.useInConsensus,
+    enabled: provider.enabled,
+  };
+
+  const row = await prisma.aIProviderConfig.upsert({
+    where: { key: provider.key },
+    update: data,
+    create: { key: provider.key, ...data },
+  });
+
+  cache = null;
+  return fromRow(row);
+}
+
+/**
+ * Delete a row; a built-in it overrode comes back with its defaults
+ */
+export async function deleteAIProvider(key: string): Promise<void> {
+  const existing = await prisma.aIProviderConfig.findUnique({ where: { key } });
+  if (!existing) throw new NotFoundError("AI provider", { key });
+
+  await prisma.aIProviderConfig.delete({ where: { key } });
+  cache = null;
+}
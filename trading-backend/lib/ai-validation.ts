@@ -0,0 +1,326 @@
+/**
+ * AI Response Validation
+ *
+ * Checks what a provider returned against the AIAnalysisResult schema
+ * (types, enums) and against trade geometry: stop loss on the losing side
+ * of the entry zone, take profits ordered away from it, a risk/reward that
+ * matches the levels, and every level within a plausible distance of the
+ * current price. ai-analysis sends failures back to the model once with
+ * the errors; outputs that failed are recorded for review.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "./db";
+import type { AIAnalysisResult, MarketDataForAI } from "./ai-analysis";
+
+// ============================================
+// Types
+// ============================================
+
+/** What the model is asked for; the rest is added by the caller */
+export type AIAnalysisContent = Omit<
+  AIAnalysisResult,
+  "calibrated_confidence" | "provider" | "model" | "model_version" | "processing_time_ms" | "usage"
+>;
+
+export interface AIValidationResult {
+  /** Normalized result; null when there are errors */
+  result: AIAnalysisContent | null;
+  errors: string[];
+}
+
+export interface AIRejection {
+  /** AI provider registry key */
+  provider: string;
+  /** API model id */
+  model: string;
+  rawOutput: string;
+  errors: string[];
+  repairOutput: string | null;
+  /** null when the repair passed */
+  repairErrors: string[] | null;
+  input: MarketDataForAI;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const AI_RECOMMENDATIONS: AIAnalysisResult["recommendation"][] = [
+  "STRONG_BUY",
+  "BUY",
+  "NEUTRAL",
+  "SELL",
+  "STRONG_SELL",
+];
+
+/** Furthest a level may be from the reference price, % */
+const MAX_LEVEL_DISTANCE_PERCENT = 5;
+
+/** Reported risk/reward may differ from the levels' by this much (ratio) */
+const RR_TOLERANCE = 0.25;
+const RR_ABSOLUTE_TOLERANCE = 0.2;
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parse a response as JSON, falling back to the outermost {...} for models
+ * that wrap it in text or reasoning. null when nothing parses.
+ */
+export function parseAIJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    const match = content.match(/\{[\s\S]*\}/);
+    if (!match) return null;
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.replace(/[$,]/g, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toStringArray(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) return null;
+  return value;
+}
+
+/**
+ * Reference price for level checks: the spot price the levels are quoted
+ * in, derived from CME futures and the spread when spot is unavailable
+ */
+export function referencePrice(data: MarketDataForAI): number {
+  return data.xau_spot_price ?? data.cme_futures_price - (data.spread ?? 0);
+}
+
+/**
+ * Validate a parsed response. Minor slips are normalized (numeric strings,
+ * lower-case recommendation, a reversed entry zone, take_profit_3: null);
+ * everything else is reported as an error.
+ */
+export function validateAIAnalysis(raw: unknown, data: MarketDataForAI): AIValidationResult {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { result: null, errors: ["คำตอบไม่ใช่ JSON object"] };
+  }
+  const r = raw as Record<string, unknown>;
+
+  // Schema
+  const recommendation = String(r.recommendation ?? "").trim().toUpperCase().replace(/\s+/g, "_");
+  if (!AI_RECOMMENDATIONS.includes(recommendation as AIAnalysisResult["recommendation"])) {
+    errors.push(`recommendation ต้องเป็น ${AI_RECOMMENDATIONS.join(" | ")} (ได้ ${JSON.stringify(r.recommendation)})`);
+  }
+
+  const confidence = toNumber(r.confidence);
+  if (confidence === null || confidence < 0 || confidence > 100) {
+    errors.push(`confidence ต้องเป็นตัวเลข 0-100 (ได้ ${JSON.stringify(r.confidence)})`);
+  }
+
+  const zone = r.entry_zone && typeof r.entry_zone === "object" ? (r.entry_zone as Record<string, unknown>) : null;
+  let entryStart = toNumber(zone?.start);
+  let entryEnd = toNumber(zone?.end);
+  if (entryStart === null || entryEnd === null) {
+    errors.push("entry_zone ต้องมี start และ end เป็นตัวเลข");
+  } else if (entryStart > entryEnd) {
+    [entryStart, entryEnd] = [entryEnd, entryStart];
+  }
+
+  const stopLoss = toNumber(r.stop_loss);
+  const tp1 = toNumber(r.take_profit_1);
+  const tp2 = toNumber(r.take_profit_2);
+  const tp3 = r.take_profit_3 === undefined || r.take_profit_3 === null ? null : toNumber(r.take_profit_3);
+  if (stopLoss === null) errors.push("stop_loss ต้องเป็นตัวเลข");
+  if (tp1 === null) errors.push("take_profit_1 ต้องเป็นตัวเลข");
+  if (tp2 === null) errors.push("take_profit_2 ต้องเป็นตัวเลข");
+  if (r.take_profit_3 !== undefined && r.take_profit_3 !== null && tp3 === null) {
+    errors.push("take_profit_3 ต้องเป็นตัวเลขหรือ null");
+  }
+
+  const riskReward = toNumber(r.risk_reward_ratio);
+  if (riskReward === null || riskReward < 0) {
+    errors.push("risk_reward_ratio ต้องเป็นตัวเลขไม่ติดลบ");
+  }
+
+  if (typeof r.summary !== "string" || !r.summary.trim()) {
+    errors.push("summary ต้องเป็นข้อความ");
+  }
+
+  const lists = {
+    reasoning: toStringArray(r.reasoning),
+    bullish_factors: toStringArray(r.bullish_factors),
+    bearish_factors: toStringArray(r.bearish_factors),
+    warnings: toStringArray(r.warnings),
+  };
+  for (const [field, value] of Object.entries(lists)) {
+    if (value === null) errors.push(`${field} ต้องเป็น array ของข้อความ`);
+  }
+
+  if (r.suggested_timeframe !== undefined && typeof r.suggested_timeframe !== "string") {
+    errors.push("suggested_timeframe ต้องเป็นข้อความ");
+  }
+
+  if (errors.length > 0) return { result: null, errors };
+
+  const result: AIAnalysisContent = {
+    recommendation: recommendation as AIAnalysisResult["recommendation"],
+    confidence: Math.round(confidence!),
+    entry_zone: {
+      start: entryStart!,
+      end: entryEnd!,
+      description: typeof zone?.description === "string" ? zone.description : "",
+    },
+    stop_loss: stopLoss!,
+    take_profit_1: tp1!,
+    take_profit_2: tp2!,
+    ...(tp3 !== null ? { take_profit_3: tp3 } : {}),
+    risk_reward_ratio: riskReward!,
+    summary: r.summary as string,
+    reasoning: lists.reasoning!,
+    bullish_factors: lists.bullish_factors!,
+    bearish_factors: lists.bearish_factors!,
+    warnings: lists.warnings!,
+    suggested_timeframe: (r.suggested_timeframe as string | undefined) || "Intraday",
+  };
+
+  errors.push(...checkTradeGeometry(result, data));
+  return errors.length > 0 ? { result: null, errors } : { result, errors: [] };
+}
+
+/**
+ * Level sanity for a schema-valid result. NEUTRAL levels are informational,
+ * so only their distance from the price is checked.
+ */
+export function checkTradeGeometry(result: AIAnalysisContent, data: MarketDataForAI): string[] {
+  const errors: string[] = [];
+  const { entry_zone: zone, stop_loss: sl, take_profit_1: tp1, take_profit_2: tp2, take_profit_3: tp3 } = result;
+
+  const reference = referencePrice(data);
+  if (reference > 0) {
+    const levels: Array<[string, number]> = [
+      ["entry_zone.start", zone.start],
+      ["entry_zone.end", zone.end],
+      ["stop_loss", sl],
+      ["take_profit_1", tp1],
+      ["take_profit_2", tp2],
+      ...(tp3 !== undefined ? [["take_profit_3", tp3] as [string, number]] : []),
+    ];
+    for (const [field, level] of levels) {
+      const distance = (Math.abs(level - reference) / reference) * 100;
+      if (distance > MAX_LEVEL_DISTANCE_PERCENT) {
+        errors.push(
+          `${field} (${level}) ห่างจากราคาอ้างอิง ${reference.toFixed(2)} ถึง ${distance.toFixed(1)}% (เกิน ${MAX_LEVEL_DISTANCE_PERCENT}%) ตรวจสอบการแปลงราคาด้วย Spread`
+        );
+      }
+    }
+  }
+
+  const isBuy = result.recommendation === "BUY" || result.recommendation === "STRONG_BUY";
+  const isSell = result.recommendation === "SELL" || result.recommendation === "STRONG_SELL";
+  if (!isBuy && !isSell) return errors;
+
+  if (isBuy) {
+    if (sl >= zone.start) errors.push(`${result.recommendation}: stop_loss (${sl}) ต้องต่ำกว่า entry_zone.start (${zone.start})`);
+    if (tp1 <= zone.end) errors.push(`${result.recommendation}: take_profit_1 (${tp1}) ต้องสูงกว่า entry_zone.end (${zone.end})`);
+    if (tp2 < tp1) errors.push(`${result.recommendation}: take_profit_2 (${tp2}) ต้องไม่ต่ำกว่า take_profit_1 (${tp1})`);
+    if (tp3 !== undefined && tp3 < tp2) errors.push(`${result.recommendation}: take_profit_3 (${tp3}) ต้องไม่ต่ำกว่า take_profit_2 (${tp2})`);
+  } else {
+    if (sl <= zone.end) errors.push(`${result.recommendation}: stop_loss (${sl}) ต้องสูงกว่า entry_zone.end (${zone.end})`);
+    if (tp1 >= zone.start) errors.push(`${result.recommendation}: take_profit_1 (${tp1}) ต้องต่ำกว่า entry_zone.start (${zone.start})`);
+    if (tp2 > tp1) errors.push(`${result.recommendation}: take_profit_2 (${tp2}) ต้องไม่สูงกว่า take_profit_1 (${tp1})`);
+    if (tp3 !== undefined && tp3 > tp2) errors.push(`${result.recommendation}: take_profit_3 (${tp3}) ต้องไม่สูงกว่า take_profit_2 (${tp2})`);
+  }
+  if (errors.length > 0) return errors;
+
+  // The prompt doesn't say which target the ratio uses, so TP1 or TP2 passes
+  const entry = (zone.start + zone.end) / 2;
+  const risk = Math.abs(entry - sl);
+  if (risk > 0) {
+    const ratios = [tp1, tp2].map((tp) => Math.abs(tp - entry) / risk);
+    const consistent = ratios.some(
+      (ratio) => Math.abs(ratio - result.risk_reward_ratio) <= Math.max(RR_ABSOLUTE_TOLERANCE, ratio * RR_TOLERANCE)
+    );
+    if (!consistent) {
+      errors.push(
+        `risk_reward_ratio (${result.risk_reward_ratio}) ไม่ตรงกับระดับราคา (TP1 ${ratios[0].toFixed(2)}, TP2 ${ratios[1].toFixed(2)} จากกลาง entry zone ${entry.toFixed(2)})`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a raw response in one step
+ */
+export function validateAIResponse(content: string, data: MarketDataForAI): AIValidationResult {
+  const parsed = parseAIJson(content);
+  if (parsed === null) return { result: null, errors: ["คำตอบไม่ใช่ JSON ที่อ่านได้"] };
+  return validateAIAnalysis(parsed, data);
+}
+
+// ============================================
+// Repair
+// ============================================
+
+/**
+ * Follow-up message asking the model to correct its previous answer
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return `คำตอบก่อนหน้าไม่ผ่านการตรวจสอบ:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+กรุณาแก้ไขให้ถูกต้องและตอบใหม่เป็น JSON ตามรูปแบบที่กำหนดเท่านั้น (ไม่มีข้อความอื่น)`;
+}
+
+// ============================================
+// Rejection Log
+// ============================================
+
+/**
+ * Record an output that failed validation, whether or not the repair
+ * saved it. Never throws: the log must not break an analysis.
+ */
+export async function recordAIRejection(rejection: AIRejection): Promise<void> {
+  try {
+    await prisma.aIRejectedResponse.create({
+      data: {
+        provider: rejection.provider,
+        model: rejection.model,
+        rawOutput: rejection.rawOutput,
+        errors: rejection.errors,
+        repairOutput: rejection.repairOutput,
+        repairErrors: rejection.repairErrors ?? undefined,
+        repaired: rejection.repairErrors === null,
+        inputData: rejection.input as unknown as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    console.error("[AI Validation] Failed to record rejected response:", error);
+  }
+}
+
+export async function getRecentAIRejections(options: { provider?: string; limit?: number } = {}) {
+  return prisma.aIRejectedResponse.findMany({
+    where: options.provider ? { provider: options.provider } : undefined,
+    orderBy: { createdAt: "desc" },
+    take: options.limit ?? 20,
+  });
+}
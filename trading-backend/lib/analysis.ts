@@ -5,9 +5,11 @@
  * - Liquidity Walls (Support/Resistance)
  * - Put/Call Ratio (PCR)
  * - Max Pain Calculation
- * - Trading Signal Generation
+ * - Trading Signal Generation (factor pipeline in lib/signal-factors)
  */
 
+import { getSignalFactors } from "./signal-factors";
+
 // ============================================
 // Type Definitions
 // ============================================
@@ -20,12 +22,27 @@ export interface OptionStrike {
   put_volume: number;
   call_oi_change: number;
   put_oi_change: number;
+  /** Settlement implied volatility in percent (CME volSettle), when stored */
+  vol_settle?: number | null;
 }
 
 export interface MarketData {
   current_price: number;
   vwap: number;
   strikes: OptionStrike[];
+  /** Strikes of the previous OI snapshot, for the snapshot-to-snapshot OI diff factors */
+  previous_strikes?: OptionStrike[] | null;
+  /** Skew of the OI snapshot, for the skew factor */
+  skew?: MarketSkew | null;
+}
+
+/**
+ * 25-delta risk reversal in vol points (see lib/volatility)
+ */
+export interface MarketSkew {
+  riskReversal: number | null;
+  /** Change since the previous snapshot */
+  riskReversalChange: number | null;
 }
 
 export interface LiquidityWalls {
@@ -78,6 +95,10 @@ export interface MaxPainResult {
   /** Signal based on price vs max pain */
   signal: "BULLISH" | "BEARISH" | "NEUTRAL";
   description: string;
+  /** Days to expiry of the series, when known */
+  days_to_expiry?: number;
+  /** How strongly price is pulled to max pain: 1 at expiry, 0.5 a week out */
+  magnet_strength?: number;
 }
 
 export interface TradingSignal {
@@ -103,21 +124,100 @@ export interface TradingSignal {
     put_wall: number;
     significant_strikes: number[];
   };
-  /** Individual factor scores (for debugging) */
-  factor_scores: {
-    pcr_score: number;
-    vwap_score: number;
-    wall_score: number;
-    max_pain_score: number;
-    flow_score: number;
-    volume_score: number; // NEW: Volume confirmation score
-  };
+  /** Points each registered factor added, keyed `<factor key>_score` */
+  factor_scores: FactorScores;
+  /** Bilingual detail of factors that provide one (custom factors) */
+  factor_details: Factor[];
   /** Volume analysis details */
   volume_analysis?: VolumeAnalysis;
+  /** Scoring profile that produced this signal */
+  scoring_profile: {
+    name: string;
+    version: number;
+  };
   /** Legacy: full breakdown */
   breakdown: string[];
 }
 
+/**
+ * Built-in factor scores are always present; factors that did not apply
+ * score 0. Factors registered later add their own keys.
+ */
+export type FactorScores = {
+  pcr_score: number;
+  vwap_score: number;
+  wall_score: number;
+  max_pain_score: number;
+  flow_score: number;
+  oi_diff_score: number;
+  atm_buildup_score: number;
+  volume_score: number;
+  skew_score: number;
+} & Record<string, number>;
+
+// ============================================
+// Scoring Profile Types
+// ============================================
+
+/**
+ * Point values and cut-offs used by generateSignal.
+ * Stored versioned in the database (see lib/scoring-profiles.ts).
+ */
+export interface ScoringProfile {
+  name: string;
+  version: number;
+  weights: {
+    /** PCR beyond the strong cut-offs */
+    pcr_strong: number;
+    /** PCR beyond the mild cut-offs */
+    pcr_mild: number;
+    /** Price above/below VWAP */
+    vwap: number;
+    /** Net OI flow into calls/puts */
+    flow: number;
+    /** Price near Put/Call Wall */
+    wall: number;
+    /** Price through Put/Call Wall */
+    wall_breakout: number;
+    /** Max pain pull */
+    max_pain: number;
+    /** Maximum volume confirmation / contradiction */
+    volume: number;
+    /** OI diff against the previous snapshot */
+    oi_diff: number;
+    /** OI buildup near the money since the previous snapshot */
+    atm_buildup: number;
+    /** 25-delta risk reversal beyond SKEW_THRESHOLD */
+    skew: number;
+  };
+  thresholds: {
+    /** Volume PCR below this = strong bullish */
+    pcr_strong_bullish: number;
+    /** Volume PCR below this = mild bullish */
+    pcr_mild_bullish: number;
+    /** Volume PCR above this = mild bearish */
+    pcr_mild_bearish: number;
+    /** Volume PCR above this = strong bearish */
+    pcr_strong_bearish: number;
+    /** "Near wall" = within this % of the support-resistance range */
+    wall_proximity_pct: number;
+    /** Max pain must be further than this % from price */
+    max_pain_distance_pct: number;
+    /** Score at or above = BUY */
+    buy: number;
+    /** Score at or above = BUY (moderate) */
+    buy_moderate: number;
+    /** Score at or above = BUY (strong) */
+    buy_strong: number;
+    /** Score at or below = SELL */
+    sell: number;
+    /** Score at or below = SELL (moderate) */
+    sell_moderate: number;
+    /** Score at or below = SELL (strong) */
+    sell_strong: number;
+  };
+}
+
 // ============================================
 // Volume Analysis Types
 // ============================================
@@ -307,11 +407,14 @@ export function calculatePCR(
  * 3. Sum total pain
  * 4. Max Pain = strike with maximum total pain (option writers profit most)
  * 
- * Market tends to gravitate towards Max Pain near expiration.
+ * Market tends to gravitate towards Max Pain near expiration, so when
+ * daysToExpiry is given the result carries a magnet strength that fades
+ * with time to expiry.
  */
 export function calculateMaxPain(
   data: OptionStrike[],
-  currentPrice: number
+  currentPrice: number,
+  daysToExpiry?: number
 ): MaxPainResult {
   if (data.length === 0) {
     return {
@@ -387,7 +490,7 @@ export function calculateMaxPain(
     description = `Price near Max Pain ${max_pain_strike} - consolidation expected`;
   }
 
-  return {
+  const result: MaxPainResult = {
     max_pain_strike,
     distance_from_price: Math.round(distance_from_price * 100) / 100,
     distance_percent: Math.round(distance_percent * 100) / 100,
@@ -395,6 +498,14 @@ export function calculateMaxPain(
     signal,
     description,
   };
+
+  if (daysToExpiry !== undefined) {
+    result.days_to_expiry = Math.round(daysToExpiry * 100) / 100;
+    result.magnet_strength = Math.round((1 / (1 + daysToExpiry / 7)) * 100) / 100;
+    result.description += ` (${daysToExpiry.toFixed(1)} DTE)`;
+  }
+
+  return result;
 }
 
 // ============================================
@@ -589,230 +700,122 @@ export function getVolumeConfirmation(
 // 5. Signal Generation
 // ============================================
 
+/**
+ * Built-in scoring profile (the original hard-coded values).
+ * Used when no profile is stored in the database.
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: "default",
+  version: 0,
+  weights: {
+    pcr_strong: 10,
+    pcr_mild: 5,
+    vwap: 15,
+    flow: 15,
+    wall: 20,
+    wall_breakout: 25,
+    max_pain: 10,
+    volume: 10,
+    oi_diff: 10,
+    atm_buildup: 5,
+    skew: 5,
+  },
+  thresholds: {
+    pcr_strong_bullish: 0.6,
+    pcr_mild_bullish: 0.8,
+    pcr_mild_bearish: 1.0,
+    pcr_strong_bearish: 1.2,
+    wall_proximity_pct: 20,
+    max_pain_distance_pct: 2,
+    buy: 55,
+    buy_moderate: 60,
+    buy_strong: 75,
+    sell: 45,
+    sell_moderate: 40,
+    sell_strong: 25,
+  },
+};
+
 /**
  * Generate Trading Signal based on comprehensive analysis
  * 
- * Advanced Scoring System:
+ * Advanced Scoring System (default profile values):
  * - Base Score: 50 (Neutral)
  * - PCR Factor: +10 (bullish) / -10 (bearish)
  * - Trend (VWAP): +15 / -15
  * - OI Flow: +15 / -15
  * - Wall Interaction: +20 / -20
  * - Max Pain: +10 / -10
+ * - OI Diff vs previous snapshot: +10 / -10 (when previous_strikes given)
+ * - ATM OI Buildup: +5 / -5 (when previous_strikes given)
+ * - Volatility Skew: +5 / -5 (when skew given)
+ * - Volume Confirmation: +10 / -10
+ * 
+ * Each factor is a module registered in lib/signal-factors; point values
+ * and cut-offs come from the scoring profile.
  * 
  * Final Score: 0-100 (0 = Strong Sell, 50 = Neutral, 100 = Strong Buy)
  */
-export function generateSignal(market: MarketData): TradingSignal {
+export function generateSignal(
+  market: MarketData,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): TradingSignal {
   const { current_price, vwap, strikes } = market;
+  const { thresholds: t } = profile;
 
   // Calculate all metrics
   const walls = getLiquidityWalls(strikes);
   const pcr = calculatePCR(strikes, current_price);
   const maxPain = calculateMaxPain(strikes, current_price);
+  const volumeAnalysis = analyzeVolume(strikes, current_price);
 
   // Calculate OI Flow (net change)
   const netCallOiChange = strikes.reduce((sum, s) => sum + s.call_oi_change, 0);
   const netPutOiChange = strikes.reduce((sum, s) => sum + s.put_oi_change, 0);
 
   // ============================================
-  // Advanced Scoring System
+  // Factor Pipeline
   // ============================================
   
   // Base Score: Start at 50 (Neutral)
   let score = 50;
-  
-  // Track individual scores for debugging
-  let pcrScoreVal = 0;
-  let vwapScoreVal = 0;
-  let wallScoreVal = 0;
-  let maxPainScoreVal = 0;
-  let flowScoreVal = 0;
-
-  // Separate factors into positive (bullish) and negative (bearish)
+
+  const factorScores: Record<string, number> = {};
+  const factorDetails: Factor[] = [];
   const positiveFactors: string[] = [];
   const negativeFactors: string[] = [];
   const breakdown: string[] = [];
 
-  // ============================================
-  // 1. PCR Factor (+10 / -10)
-  // PCR (Volume) < 0.6 = Bullish, > 1.0 = Bearish
-  // ============================================
-  const volumePcr = pcr.volume_pcr;
-  
-  if (volumePcr < 0.6) {
-    score += 10;
-    pcrScoreVal = 10;
-    positiveFactors.push(`PCR ต่ำมาก (${volumePcr.toFixed(2)}) = นักลงทุนซื้อ Call มากกว่า Put อย่างชัดเจน`);
-    breakdown.push(`[+10] PCR ${volumePcr.toFixed(2)} < 0.6 → Bullish Sentiment`);
-  } else if (volumePcr < 0.8) {
-    score += 5;
-    pcrScoreVal = 5;
-    positiveFactors.push(`PCR ค่อนข้างต่ำ (${volumePcr.toFixed(2)}) = มีแนวโน้ม Bullish`);
-    breakdown.push(`[+5] PCR ${volumePcr.toFixed(2)} < 0.8 → Mild Bullish`);
-  } else if (volumePcr > 1.2) {
-    score -= 10;
-    pcrScoreVal = -10;
-    negativeFactors.push(`PCR สูงมาก (${volumePcr.toFixed(2)}) = นักลงทุนซื้อ Put มากกว่า Call อย่างชัดเจน`);
-    breakdown.push(`[-10] PCR ${volumePcr.toFixed(2)} > 1.2 → Bearish Sentiment`);
-  } else if (volumePcr > 1.0) {
-    score -= 5;
-    pcrScoreVal = -5;
-    negativeFactors.push(`PCR ค่อนข้างสูง (${volumePcr.toFixed(2)}) = มีแนวโน้ม Bearish`);
-    breakdown.push(`[-5] PCR ${volumePcr.toFixed(2)} > 1.0 → Mild Bearish`);
-  } else {
-    breakdown.push(`[0] PCR ${volumePcr.toFixed(2)} = Neutral`);
+  for (const factor of getSignalFactors()) {
+    const outcome = factor.evaluate({
+      market,
+      profile,
+      walls,
+      pcr,
+      maxPain,
+      volumeAnalysis,
+      netCallOiChange,
+      netPutOiChange,
+      score,
+    });
+
+    factorScores[`${factor.key}_score`] = outcome?.score ?? 0;
+    if (!outcome) continue;
+
+    score += outcome.score;
+    if (outcome.message && outcome.score > 0) positiveFactors.push(outcome.message);
+    else if (outcome.message && outcome.score < 0) negativeFactors.push(outcome.message);
+    breakdown.push(...outcome.breakdown);
+    if (outcome.detail) factorDetails.push(outcome.detail);
   }
 
-  // ============================================
-  // 2. Trend Factor - VWAP (+15 / -15)
-  // Price > VWAP = Bullish, Price < VWAP = Bearish
-  // ============================================
-  if (current_price > 0 && vwap > 0) {
-    const vwapDiff = ((current_price - vwap) / vwap) * 100;
-    
-    if (current_price > vwap) {
-      score += 15;
-      vwapScoreVal = 15;
-      positiveFactors.push(`ราคาเหนือ VWAP (+${vwapDiff.toFixed(2)}%) = แรงซื้อเหนือกว่าแรงขาย`);
-      breakdown.push(`[+15] Price ${current_price.toFixed(1)} > VWAP ${vwap.toFixed(1)} → Bullish Trend`);
-    } else if (current_price < vwap) {
-      score -= 15;
-      vwapScoreVal = -15;
-      negativeFactors.push(`ราคาใต้ VWAP (${vwapDiff.toFixed(2)}%) = แรงขายเหนือกว่าแรงซื้อ`);
-      breakdown.push(`[-15] Price ${current_price.toFixed(1)} < VWAP ${vwap.toFixed(1)} → Bearish Trend`);
-    } else {
-      breakdown.push(`[0] Price = VWAP → Neutral Trend`);
-    }
-  }
+  const factor_scores = factorScores as FactorScores;
 
-  // ============================================
-  // 3. OI Flow Factor (+15 / -15)
-  // Net Call OI Change > Net Put = Bullish (Smart money buying calls)
-  // Net Put OI Change > Net Call = Bearish (Smart money hedging)
-  // ============================================
-  if (netCallOiChange > netPutOiChange && netCallOiChange > 0) {
-    score += 15;
-    flowScoreVal = 15;
-    const diff = netCallOiChange - netPutOiChange;
-    positiveFactors.push(`เงินไหลเข้า Call มากกว่า Put (+${diff.toLocaleString()}) = Smart Money คาดราคาขึ้น`);
-    breakdown.push(`[+15] Net Call OI (+${netCallOiChange.toLocaleString()}) > Net Put OI (+${netPutOiChange.toLocaleString()}) → Smart Money Bullish`);
-  } else if (netPutOiChange > netCallOiChange && netPutOiChange > 0) {
-    score -= 15;
-    flowScoreVal = -15;
-    const diff = netPutOiChange - netCallOiChange;
-    negativeFactors.push(`เงินไหลเข้า Put มากกว่า Call (+${diff.toLocaleString()}) = Smart Money คาดราคาลง/Hedging`);
-    breakdown.push(`[-15] Net Put OI (+${netPutOiChange.toLocaleString()}) > Net Call OI (+${netCallOiChange.toLocaleString()}) → Smart Money Bearish`);
-  } else {
-    breakdown.push(`[0] OI Flow Balanced → Neutral`);
-  }
-
-  // ============================================
-  // 4. Wall Interaction (+20 / -20)
-  // Price near Put Wall (Support) = Bullish bounce expected
-  // Price near Call Wall (Resistance) = Bearish rejection expected
-  // ============================================
-  const supportDistance = current_price - walls.support.strike;
-  const resistanceDistance = walls.resistance.strike - current_price;
-  const priceRange = walls.resistance.strike - walls.support.strike;
-  
-  if (priceRange > 0) {
-    const supportProximityPct = (supportDistance / priceRange) * 100;
-    const resistanceProximityPct = (resistanceDistance / priceRange) * 100;
-
-    // Near Put Wall (Support) - within 20% of range
-    if (supportProximityPct >= 0 && supportProximityPct < 20) {
-      score += 20;
-      wallScoreVal = 20;
-      positiveFactors.push(`ราคาใกล้แนวรับ ${walls.support.strike} (Put Wall) = คาดเด้งขึ้น`);
-      breakdown.push(`[+20] Price near Put Wall ${walls.support.strike} (${supportProximityPct.toFixed(0)}% from support) → Bounce Expected`);
-    }
-    // Near Call Wall (Resistance) - within 20% of range
-    else if (resistanceProximityPct >= 0 && resistanceProximityPct < 20) {
-      score -= 20;
-      wallScoreVal = -20;
-      negativeFactors.push(`ราคาใกล้แนวต้าน ${walls.resistance.strike} (Call Wall) = คาดถูกกดลง`);
-      breakdown.push(`[-20] Price near Call Wall ${walls.resistance.strike} (${resistanceProximityPct.toFixed(0)}% from resistance) → Rejection Expected`);
-    }
-    // Breaking above resistance = Strong bullish (+25 bonus)
-    else if (current_price > walls.resistance.strike) {
-      score += 25;
-      wallScoreVal = 25;
-      positiveFactors.push(`ราคาทะลุแนวต้าน ${walls.resistance.strike} = Breakout ขาขึ้น!`);
-      breakdown.push(`[+25] BREAKOUT! Price ${current_price.toFixed(1)} > Call Wall ${walls.resistance.strike}`);
-    }
-    // Breaking below support = Strong bearish (-25)
-    else if (current_price < walls.support.strike) {
-      score -= 25;
-      wallScoreVal = -25;
-      negativeFactors.push(`ราคาหลุดแนวรับ ${walls.support.strike} = Breakdown ขาลง!`);
-      breakdown.push(`[-25] BREAKDOWN! Price ${current_price.toFixed(1)} < Put Wall ${walls.support.strike}`);
-    }
-    else {
-      // Price in middle of range
-      breakdown.push(`[0] Price in middle of range (${supportProximityPct.toFixed(0)}% from support) → Neutral`);
-    }
-  }
-
-  // ============================================
-  // 5. Max Pain Factor (+10 / -10)
-  // Price below Max Pain = Bullish pull up
-  // Price above Max Pain = Bearish pull down
-  // ============================================
-  if (maxPain.distance_percent > 2) {
-    score += 10;
-    maxPainScoreVal = 10;
-    positiveFactors.push(`Max Pain (${maxPain.max_pain_strike}) อยู่เหนือราคา ${maxPain.distance_percent.toFixed(1)}% = แรงดึงขึ้น`);
-    breakdown.push(`[+10] Max Pain ${maxPain.max_pain_strike} is ${maxPain.distance_percent.toFixed(1)}% above price → Upward Magnet`);
-  } else if (maxPain.distance_percent < -2) {
-    score -= 10;
-    maxPainScoreVal = -10;
-    negativeFactors.push(`Max Pain (${maxPain.max_pain_strike}) อยู่ใต้ราคา ${Math.abs(maxPain.distance_percent).toFixed(1)}% = แรงดึงลง`);
-    breakdown.push(`[-10] Max Pain ${maxPain.max_pain_strike} is ${Math.abs(maxPain.distance_percent).toFixed(1)}% below price → Downward Magnet`);
-  } else {
-    breakdown.push(`[0] Price near Max Pain ${maxPain.max_pain_strike} (${maxPain.distance_percent.toFixed(1)}%) → Sideways Expected`);
-  }
-
-  // ============================================
-  // 6. Volume Analysis & Confirmation (NEW)
-  // Volume confirms or contradicts the signal
-  // ============================================
-  const volumeAnalysis = analyzeVolume(strikes, current_price);
-  let volumeScoreVal = 0;
-
-  // Calculate preliminary signal direction for volume confirmation
-  const preliminarySignal: "BUY" | "SELL" | "NEUTRAL" = 
-    score >= 55 ? "BUY" : score <= 45 ? "SELL" : "NEUTRAL";
-
-  const volumeConfirmation = getVolumeConfirmation(volumeAnalysis, preliminarySignal);
-  volumeScoreVal = volumeConfirmation.score;
-  score += volumeScoreVal;
-
-  if (volumeScoreVal > 0) {
-    positiveFactors.push(volumeConfirmation.description);
-    breakdown.push(`[+${volumeScoreVal}] Volume Confirmation: ${volumeAnalysis.signal} (${volumeAnalysis.confidence}% confidence)`);
-  } else if (volumeScoreVal < 0) {
-    negativeFactors.push(volumeConfirmation.description);
-    breakdown.push(`[${volumeScoreVal}] Volume Contradiction: ${volumeAnalysis.signal} (${volumeAnalysis.confidence}% confidence)`);
-  } else {
-    breakdown.push(`[0] Volume: ${volumeAnalysis.signal} - ไม่มีสัญญาณชัดเจน`);
-  }
-
-  // ============================================
-  // Find Significant Strikes (Unusual Volume Spikes)
-  // Strikes with volume > 2x average are highlighted
-  // ============================================
+  // Strikes with unusual volume (> 2x average)
   const significantStrikes = volumeAnalysis.volume_spikes
     .map(s => s.strike)
     .sort((a, b) => a - b);
 
-  if (significantStrikes.length > 0) {
-    const spikeInfo = volumeAnalysis.volume_spikes
-      .slice(0, 5)
-      .map(s => `${s.strike}(${s.volume_ratio.toFixed(1)}x)`)
-      .join(', ');
-    breakdown.push(`[INFO] Volume Spikes: ${spikeInfo}`);
-  }
-
   // ============================================
   // Clamp Score to 0-100
   // ============================================
@@ -825,27 +828,27 @@ export function generateSignal(market: MarketData): TradingSignal {
   let sentiment: "Bullish" | "Bearish" | "Sideway";
   let reason: string;
 
-  if (score >= 75) {
+  if (score >= t.buy_strong) {
     signal = "BUY";
     sentiment = "Bullish";
     reason = "สัญญาณซื้อแข็งแกร่ง: หลายปัจจัยสนับสนุนขาขึ้น (PCR ต่ำ, ราคาเหนือ VWAP, เงินไหลเข้า Call, ใกล้แนวรับ)";
-  } else if (score >= 60) {
+  } else if (score >= t.buy_moderate) {
     signal = "BUY";
     sentiment = "Bullish";
     reason = "หลายปัจจัยเอียงขาขึ้น: ตลาด Options บ่งชี้แนวโน้มขึ้น";
-  } else if (score >= 55) {
+  } else if (score >= t.buy) {
     signal = "BUY";
     sentiment = "Bullish";
     reason = "มีแนวโน้มขึ้นเล็กน้อยจากข้อมูล Options";
-  } else if (score <= 25) {
+  } else if (score <= t.sell_strong) {
     signal = "SELL";
     sentiment = "Bearish";
     reason = "สัญญาณขายแข็งแกร่ง: หลายปัจจัยสนับสนุนขาลง (PCR สูง, ราคาใต้ VWAP, เงินไหลเข้า Put, ใกล้แนวต้าน)";
-  } else if (score <= 40) {
+  } else if (score <= t.sell_moderate) {
     signal = "SELL";
     sentiment = "Bearish";
     reason = "หลายปัจจัยเอียงขาลง: ตลาด Options บ่งชี้แนวโน้มลง";
-  } else if (score <= 45) {
+  } else if (score <= t.sell) {
     signal = "SELL";
     sentiment = "Bearish";
     reason = "มีแนวโน้มลงเล็กน้อยจากข้อมูล Options";
@@ -869,20 +872,21 @@ export function generateSignal(market: MarketData): TradingSignal {
     sentiment,
     current_price,
     vwap,
-    volumePcr,
+    volumePcr: pcr.volume_pcr,
     maxPain,
     walls,
     netCallOiChange,
     netPutOiChange,
     positiveFactors,
     negativeFactors,
-    pcrScoreVal,
-    vwapScoreVal,
-    wallScoreVal,
-    maxPainScoreVal,
-    flowScoreVal,
-    volumeScoreVal,
+    pcrScoreVal: factor_scores.pcr_score ?? 0,
+    vwapScoreVal: factor_scores.vwap_score ?? 0,
+    wallScoreVal: factor_scores.wall_score ?? 0,
+    maxPainScoreVal: factor_scores.max_pain_score ?? 0,
+    flowScoreVal: factor_scores.flow_score ?? 0,
+    volumeScoreVal: factor_scores.volume_score ?? 0,
     volumeAnalysis,
+    thresholds: t,
   });
 
   return {
@@ -901,15 +905,13 @@ export function generateSignal(market: MarketData): TradingSignal {
       put_wall: walls.support.strike,
       significant_strikes: significantStrikes,
     },
-    factor_scores: {
-      pcr_score: pcrScoreVal,
-      vwap_score: vwapScoreVal,
-      wall_score: wallScoreVal,
-      max_pain_score: maxPainScoreVal,
-      flow_score: flowScoreVal,
-      volume_score: volumeScoreVal,
-    },
+    factor_scores,
+    factor_details: factorDetails,
     volume_analysis: volumeAnalysis,
+    scoring_profile: {
+      name: profile.name,
+      version: profile.version,
+    },
     breakdown,
   };
 }
@@ -938,6 +940,7 @@ interface SummaryInput {
   flowScoreVal: number;
   volumeScoreVal: number;
   volumeAnalysis: VolumeAnalysis;
+  thresholds: ScoringProfile["thresholds"];
 }
 
 function generateHumanSummary(input: SummaryInput): string {
@@ -961,6 +964,7 @@ function generateHumanSummary(input: SummaryInput): string {
     flowScoreVal,
     volumeScoreVal,
     volumeAnalysis,
+    thresholds: t,
   } = input;
 
   const lines: string[] = [];
@@ -969,10 +973,10 @@ function generateHumanSummary(input: SummaryInput): string {
   // Opening - What is the signal?
   // ============================================
   if (signal === "BUY") {
-    if (score >= 75) {
+    if (score >= t.buy_strong) {
       lines.push(`🟢 สรุป: สัญญาณ "ซื้อ" ชัดเจนมาก (คะแนน ${score}/100)`);
       lines.push(`ตลาดส่งสัญญาณขาขึ้นค่อนข้างแข็งแกร่ง มีโอกาสสูงที่ราคาจะปรับตัวขึ้นในระยะสั้น`);
-    } else if (score >= 60) {
+    } else if (score >= t.buy_moderate) {
       lines.push(`🟢 สรุป: สัญญาณ "ซื้อ" ค่อนข้างดี (คะแนน ${score}/100)`);
       lines.push(`หลายปัจจัยสนับสนุนขาขึ้น แต่ยังไม่ถึงขั้นแข็งแกร่งมาก ควรระวังจุดกลับตัว`);
     } else {
@@ -980,10 +984,10 @@ function generateHumanSummary(input: SummaryInput): string {
       lines.push(`มีแนวโน้มขึ้นเล็กน้อย แต่ไม่ชัดเจนมาก ควรรอสัญญาณยืนยันเพิ่ม`);
     }
   } else if (signal === "SELL") {
-    if (score <= 25) {
+    if (score <= t.sell_strong) {
       lines.push(`🔴 สรุป: สัญญาณ "ขาย" ชัดเจนมาก (คะแนน ${score}/100)`);
       lines.push(`ตลาดส่งสัญญาณขาลงค่อนข้างแข็งแกร่ง มีโอกาสสูงที่ราคาจะปรับตัวลงในระยะสั้น`);
-    } else if (score <= 40) {
+    } else if (score <= t.sell_moderate) {
       lines.push(`🔴 สรุป: สัญญาณ "ขาย" ค่อนข้างชัด (คะแนน ${score}/100)`);
       lines.push(`หลายปัจจัยสนับสนุนขาลง แต่ยังไม่ถึงขั้นแข็งแกร่งมาก ควรระวังจุดกลับตัว`);
     } else {
@@ -1006,7 +1010,7 @@ function generateHumanSummary(input: SummaryInput): string {
     if (pcrScoreVal > 0) {
       lines.push(`✅ นักลงทุนซื้อ "Call Option" มากกว่า "Put Option"`);
       lines.push(`   → หมายความว่า: คนส่วนใหญ่คาดว่าราคาจะขึ้น เพราะ Call คือสิทธิ์ซื้อ ถ้าราคาขึ้นก็กำไร`);
-      if (volumePcr < 0.6) {
+      if (volumePcr < t.pcr_strong_bullish) {
         lines.push(`   → PCR = ${volumePcr.toFixed(2)} (ต่ำมาก = Bullish แรง)`);
       } else {
         lines.push(`   → PCR = ${volumePcr.toFixed(2)} (ต่ำ = Bullish)`);
@@ -1015,7 +1019,7 @@ function generateHumanSummary(input: SummaryInput): string {
       lines.push(`⚠️ นักลงทุนซื้อ "Put Option" มากกว่า "Call Option"`);
       lines.push(`   → หมายความว่า: คนส่วนใหญ่คาดว่าราคาจะลง หรือต้องการป้องกันความเสี่ยง`);
       lines.push(`   → Put คือสิทธิ์ขาย ถ้าราคาลงก็กำไร`);
-      if (volumePcr > 1.2) {
+      if (volumePcr > t.pcr_strong_bearish) {
         lines.push(`   → PCR = ${volumePcr.toFixed(2)} (สูงมาก = Bearish แรง)`);
       } else {
         lines.push(`   → PCR = ${volumePcr.toFixed(2)} (สูง = Bearish)`);
@@ -1243,25 +1247,17 @@ export function quickAnalysis(
 }
 
 // ============================================
-// Factor Generation System
+// Factor Details
 // ============================================
 
 /**
- * Factor type enumeration
- */
-export type FactorType = 
-  | "PCR_BULLISH" | "PCR_BEARISH" | "PCR_NEUTRAL"
-  | "VWAP_ABOVE" | "VWAP_BELOW" | "VWAP_NEUTRAL"
-  | "FLOW_CALL" | "FLOW_PUT" | "FLOW_NEUTRAL"
-  | "WALL_SUPPORT" | "WALL_RESISTANCE" | "WALL_BREAKOUT" | "WALL_BREAKDOWN" | "WALL_NEUTRAL"
-  | "MAXPAIN_BELOW" | "MAXPAIN_ABOVE" | "MAXPAIN_NEUTRAL"
-  | "VOLUME_SPIKE" | "OI_BUILDUP" | "OI_UNWINDING";
-
-/**
- * Factor with bilingual text
+ * Bilingual description of a factor outcome (TradingSignal.factor_details)
  */
 export interface Factor {
-  type: FactorType;
+  /** e.g. "SKEW_CALL", "CUSTOM_BULLISH" */
+  type: string;
+  /** Custom factors: "custom_<key>" */
+  key?: string;
   sentiment: "BULLISH" | "BEARISH" | "NEUTRAL";
   score: number;
   thai: {
@@ -1276,529 +1272,3 @@ export interface Factor {
   };
   values?: Record<string, number | string>;
 }
-
-/**
- * Market conditions input for factor generation
- */
-export interface MarketConditions {
-  current_price: number;
-  vwap: number;
-  pcr: PCRResult;
-  maxPain: MaxPainResult;
-  walls: LiquidityWalls;
-  netCallOiChange: number;
-  netPutOiChange: number;
-  volumeSpikes?: number[];
-}
-
-/**
- * Generate all factors based on market conditions
- * This is the main helper function for translating conditions into human-readable strings
- */
-export function generateFactors(conditions: MarketConditions): Factor[] {
-  const factors: Factor[] = [];
-  const {
-    current_price,
-    vwap,
-    pcr,
-    maxPain,
-    walls,
-    netCallOiChange,
-    netPutOiChange,
-    volumeSpikes = [],
-  } = conditions;
-
-  // ============================================
-  // 1. PCR Factor
-  // ============================================
-  const pcrFactor = generatePCRFactor(pcr.volume_pcr);
-  if (pcrFactor) factors.push(pcrFactor);
-
-  // ============================================
-  // 2. VWAP Factor
-  // ============================================
-  const vwapFactor = generateVWAPFactor(current_price, vwap);
-  if (vwapFactor) factors.push(vwapFactor);
-
-  // ============================================
-  // 3. OI Flow Factor
-  // ============================================
-  const flowFactor = generateFlowFactor(netCallOiChange, netPutOiChange);
-  if (flowFactor) factors.push(flowFactor);
-
-  // ============================================
-  // 4. Wall Interaction Factor
-  // ============================================
-  const wallFactor = generateWallFactor(current_price, walls);
-  if (wallFactor) factors.push(wallFactor);
-
-  // ============================================
-  // 5. Max Pain Factor
-  // ============================================
-  const maxPainFactor = generateMaxPainFactor(current_price, maxPain);
-  if (maxPainFactor) factors.push(maxPainFactor);
-
-  // ============================================
-  // 6. Volume Spike Factor
-  // ============================================
-  if (volumeSpikes.length > 0) {
-    const spikeFactor = generateVolumeSpikesFactor(volumeSpikes, current_price);
-    if (spikeFactor) factors.push(spikeFactor);
-  }
-
-  return factors;
-}
-
-/**
- * Generate PCR factor
- */
-function generatePCRFactor(volumePcr: number): Factor | null {
-  if (volumePcr < 0.6) {
-    return {
-      type: "PCR_BULLISH",
-      sentiment: "BULLISH",
-      score: 10,
-      thai: {
-        short: `PCR ต่ำมาก (${volumePcr.toFixed(2)})`,
-        long: `PCR ต่ำมาก (${volumePcr.toFixed(2)}) = นักลงทุนซื้อ Call มากกว่า Put อย่างชัดเจน`,
-        explanation: `Put/Call Ratio อยู่ที่ ${volumePcr.toFixed(2)} ซึ่งต่ำมาก หมายความว่านักลงทุนส่วนใหญ่กำลังซื้อ Call Option (เดิมพันขาขึ้น) มากกว่า Put Option (เดิมพันขาลง) แสดงถึงความเชื่อมั่นในตลาดขาขึ้น`,
-      },
-      english: {
-        short: `Very Low PCR (${volumePcr.toFixed(2)})`,
-        long: `Very Low PCR (${volumePcr.toFixed(2)}) = Investors buying Calls over Puts significantly`,
-        explanation: `Put/Call Ratio is ${volumePcr.toFixed(2)}, which is very low. This means most investors are buying Call Options (betting on upside) more than Put Options (betting on downside), indicating strong bullish sentiment.`,
-      },
-      values: { pcr: volumePcr },
-    };
-  } else if (volumePcr < 0.8) {
-    return {
-      type: "PCR_BULLISH",
-      sentiment: "BULLISH",
-      score: 5,
-      thai: {
-        short: `PCR ค่อนข้างต่ำ (${volumePcr.toFixed(2)})`,
-        long: `PCR ค่อนข้างต่ำ (${volumePcr.toFixed(2)}) = มีแนวโน้ม Bullish`,
-        explanation: `Put/Call Ratio อยู่ที่ ${volumePcr.toFixed(2)} ต่ำกว่าระดับกลาง แสดงว่ามีความต้องการ Call มากกว่า Put เล็กน้อย เป็นสัญญาณ Bullish เบาๆ`,
-      },
-      english: {
-        short: `Low PCR (${volumePcr.toFixed(2)})`,
-        long: `Low PCR (${volumePcr.toFixed(2)}) = Mild Bullish Sentiment`,
-        explanation: `Put/Call Ratio at ${volumePcr.toFixed(2)} is below neutral, showing slightly more demand for Calls than Puts - a mild bullish signal.`,
-      },
-      values: { pcr: volumePcr },
-    };
-  } else if (volumePcr > 1.2) {
-    return {
-      type: "PCR_BEARISH",
-      sentiment: "BEARISH",
-      score: -10,
-      thai: {
-        short: `PCR สูงมาก (${volumePcr.toFixed(2)})`,
-        long: `PCR สูงมาก (${volumePcr.toFixed(2)}) = นักลงทุนซื้อ Put มากกว่า Call อย่างชัดเจน`,
-        explanation: `Put/Call Ratio อยู่ที่ ${volumePcr.toFixed(2)} ซึ่งสูงมาก หมายความว่านักลงทุนกำลังซื้อ Put Option (ป้องกันความเสี่ยงหรือเดิมพันขาลง) มากกว่า Call แสดงถึงความกังวลในตลาด`,
-      },
-      english: {
-        short: `Very High PCR (${volumePcr.toFixed(2)})`,
-        long: `Very High PCR (${volumePcr.toFixed(2)}) = Investors buying Puts over Calls significantly`,
-        explanation: `Put/Call Ratio is ${volumePcr.toFixed(2)}, which is very high. This means investors are buying Put Options (hedging or betting on downside) more than Calls, indicating strong bearish sentiment or fear.`,
-      },
-      values: { pcr: volumePcr },
-    };
-  } else if (volumePcr > 1.0) {
-    return {
-      type: "PCR_BEARISH",
-      sentiment: "BEARISH",
-      score: -5,
-      thai: {
-        short: `PCR ค่อนข้างสูง (${volumePcr.toFixed(2)})`,
-        long: `PCR ค่อนข้างสูง (${volumePcr.toFixed(2)}) = มีแนวโน้ม Bearish`,
-        explanation: `Put/Call Ratio อยู่ที่ ${volumePcr.toFixed(2)} สูงกว่าระดับกลาง แสดงว่ามีความต้องการ Put มากกว่า Call เล็กน้อย เป็นสัญญาณ Bearish เบาๆ`,
-      },
-      english: {
-        short: `High PCR (${volumePcr.toFixed(2)})`,
-        long: `High PCR (${volumePcr.toFixed(2)}) = Mild Bearish Sentiment`,
-        explanation: `Put/Call Ratio at ${volumePcr.toFixed(2)} is above neutral, showing slightly more demand for Puts than Calls - a mild bearish signal.`,
-      },
-      values: { pcr: volumePcr },
-    };
-  }
-
-  return {
-    type: "PCR_NEUTRAL",
-    sentiment: "NEUTRAL",
-    score: 0,
-    thai: {
-      short: `PCR ปกติ (${volumePcr.toFixed(2)})`,
-      long: `PCR อยู่ในระดับปกติ (${volumePcr.toFixed(2)})`,
-      explanation: `Put/Call Ratio อยู่ที่ ${volumePcr.toFixed(2)} ซึ่งอยู่ในช่วงปกติ (0.8-1.0) แสดงว่าความต้องการ Put และ Call ค่อนข้างสมดุลกัน`,
-    },
-    english: {
-      short: `Neutral PCR (${volumePcr.toFixed(2)})`,
-      long: `PCR at Neutral Level (${volumePcr.toFixed(2)})`,
-      explanation: `Put/Call Ratio at ${volumePcr.toFixed(2)} is in normal range (0.8-1.0), indicating balanced demand for Puts and Calls.`,
-    },
-    values: { pcr: volumePcr },
-  };
-}
-
-/**
- * Generate VWAP factor
- */
-function generateVWAPFactor(price: number, vwap: number): Factor | null {
-  if (price <= 0 || vwap <= 0) return null;
-
-  const diff = ((price - vwap) / vwap) * 100;
-  const diffStr = diff > 0 ? `+${diff.toFixed(2)}%` : `${diff.toFixed(2)}%`;
-
-  if (price > vwap) {
-    return {
-      type: "VWAP_ABOVE",
-      sentiment: "BULLISH",
-      score: 15,
-      thai: {
-        short: `ราคาเหนือ VWAP (${diffStr})`,
-        long: `ราคาเหนือ VWAP (${diffStr}) = แรงซื้อเหนือกว่าแรงขาย`,
-        explanation: `ราคาปัจจุบัน ${price.toFixed(1)} อยู่เหนือ VWAP (ราคาเฉลี่ยถ่วงน้ำหนักปริมาณ) ที่ ${vwap.toFixed(1)} หมายความว่าผู้ซื้อส่วนใหญ่ในวันนี้ยังมีกำไร มีแรงซื้อมากกว่าแรงขาย`,
-      },
-      english: {
-        short: `Price Above VWAP (${diffStr})`,
-        long: `Price Above VWAP (${diffStr}) = Buyers in Control`,
-        explanation: `Current price ${price.toFixed(1)} is above VWAP (Volume Weighted Average Price) at ${vwap.toFixed(1)}. This means most buyers today are in profit, indicating buying pressure dominates.`,
-      },
-      values: { price, vwap, diff },
-    };
-  } else if (price < vwap) {
-    return {
-      type: "VWAP_BELOW",
-      sentiment: "BEARISH",
-      score: -15,
-      thai: {
-        short: `ราคาใต้ VWAP (${diffStr})`,
-        long: `ราคาใต้ VWAP (${diffStr}) = แรงขายเหนือกว่าแรงซื้อ`,
-        explanation: `ราคาปัจจุบัน ${price.toFixed(1)} อยู่ใต้ VWAP ที่ ${vwap.toFixed(1)} หมายความว่าผู้ซื้อส่วนใหญ่ในวันนี้ขาดทุน มีแรงขายกดราคาลง`,
-      },
-      english: {
-        short: `Price Below VWAP (${diffStr})`,
-        long: `Price Below VWAP (${diffStr}) = Sellers in Control`,
-        explanation: `Current price ${price.toFixed(1)} is below VWAP at ${vwap.toFixed(1)}. This means most buyers today are at a loss, indicating selling pressure dominates.`,
-      },
-      values: { price, vwap, diff },
-    };
-  }
-
-  return {
-    type: "VWAP_NEUTRAL",
-    sentiment: "NEUTRAL",
-    score: 0,
-    thai: {
-      short: `ราคาใกล้ VWAP`,
-      long: `ราคาอยู่ใกล้ VWAP = ตลาดสมดุล`,
-      explanation: `ราคาปัจจุบันอยู่ใกล้เคียงกับ VWAP แสดงว่าแรงซื้อและแรงขายค่อนข้างสมดุลกัน`,
-    },
-    english: {
-      short: `Price at VWAP`,
-      long: `Price at VWAP = Market Balanced`,
-      explanation: `Current price is near VWAP, indicating balanced buying and selling pressure.`,
-    },
-    values: { price, vwap, diff: 0 },
-  };
-}
-
-/**
- * Generate OI Flow factor
- */
-function generateFlowFactor(netCallChange: number, netPutChange: number): Factor | null {
-  const diff = netCallChange - netPutChange;
-
-  if (netCallChange > netPutChange && netCallChange > 0) {
-    return {
-      type: "FLOW_CALL",
-      sentiment: "BULLISH",
-      score: 15,
-      thai: {
-        short: `เงินไหลเข้า Call (+${diff.toLocaleString()})`,
-        long: `เงินไหลเข้า Call มากกว่า Put (+${diff.toLocaleString()}) = Smart Money คาดราคาขึ้น`,
-        explanation: `Open Interest ของ Call เพิ่มขึ้น ${netCallChange.toLocaleString()} สัญญา ในขณะที่ Put เพิ่มเพียง ${netPutChange.toLocaleString()} สัญญา แสดงว่านักลงทุนสถาบัน (Smart Money) กำลังวางเดิมพันว่าราคาจะขึ้น`,
-      },
-      english: {
-        short: `Call OI Inflow (+${diff.toLocaleString()})`,
-        long: `Call OI Inflow > Put (+${diff.toLocaleString()}) = Smart Money Bullish`,
-        explanation: `Call Open Interest increased by ${netCallChange.toLocaleString()} contracts while Put increased only ${netPutChange.toLocaleString()}. This suggests institutional investors (Smart Money) are betting on upside.`,
-      },
-      values: { callChange: netCallChange, putChange: netPutChange, diff },
-    };
-  } else if (netPutChange > netCallChange && netPutChange > 0) {
-    return {
-      type: "FLOW_PUT",
-      sentiment: "BEARISH",
-      score: -15,
-      thai: {
-        short: `เงินไหลเข้า Put (+${Math.abs(diff).toLocaleString()})`,
-        long: `เงินไหลเข้า Put มากกว่า Call (+${Math.abs(diff).toLocaleString()}) = Smart Money ป้องกัน/ขาลง`,
-        explanation: `Open Interest ของ Put เพิ่มขึ้น ${netPutChange.toLocaleString()} สัญญา มากกว่า Call ที่เพิ่ม ${netCallChange.toLocaleString()} สัญญา แสดงว่านักลงทุนสถาบันกำลังป้องกันความเสี่ยง หรือคาดว่าราคาจะลง`,
-      },
-      english: {
-        short: `Put OI Inflow (+${Math.abs(diff).toLocaleString()})`,
-        long: `Put OI Inflow > Call (+${Math.abs(diff).toLocaleString()}) = Smart Money Hedging/Bearish`,
-        explanation: `Put Open Interest increased by ${netPutChange.toLocaleString()} contracts, more than Call's ${netCallChange.toLocaleString()}. This suggests institutional investors are hedging or betting on downside.`,
-      },
-      values: { callChange: netCallChange, putChange: netPutChange, diff },
-    };
-  }
-
-  return {
-    type: "FLOW_NEUTRAL",
-    sentiment: "NEUTRAL",
-    score: 0,
-    thai: {
-      short: `OI Flow สมดุล`,
-      long: `OI Flow สมดุล = ไม่มีทิศทางชัด`,
-      explanation: `การเปลี่ยนแปลง Open Interest ของ Call และ Put ค่อนข้างสมดุลกัน ไม่มีสัญญาณชัดเจนว่า Smart Money เลือกฝั่งใด`,
-    },
-    english: {
-      short: `Balanced OI Flow`,
-      long: `Balanced OI Flow = No Clear Direction`,
-      explanation: `Changes in Call and Put Open Interest are balanced, no clear signal on which side Smart Money is betting.`,
-    },
-    values: { callChange: netCallChange, putChange: netPutChange, diff: 0 },
-  };
-}
-
-/**
- * Generate Wall Interaction factor
- */
-function generateWallFactor(price: number, walls: LiquidityWalls): Factor | null {
-  const supportDistance = price - walls.support.strike;
-  const resistanceDistance = walls.resistance.strike - price;
-  const priceRange = walls.resistance.strike - walls.support.strike;
-
-  if (priceRange <= 0) return null;
-
-  const supportProximityPct = (supportDistance / priceRange) * 100;
-  const resistanceProximityPct = (resistanceDistance / priceRange) * 100;
-
-  // Breakout above resistance
-  if (price > walls.resistance.strike) {
-    return {
-      type: "WALL_BREAKOUT",
-      sentiment: "BULLISH",
-      score: 25,
-      thai: {
-        short: `Breakout! ทะลุแนวต้าน ${walls.resistance.strike}`,
-        long: `ราคาทะลุแนวต้านหลัก ${walls.resistance.strike} = Breakout ขาขึ้น!`,
-        explanation: `ราคา ${price.toFixed(1)} ทะลุผ่านแนวต้าน (Call Wall) ที่ ${walls.resistance.strike} ไปแล้ว! เป็นสัญญาณ Breakout ที่แข็งแกร่ง เพราะ Short Sellers ต้อง Cover ทำให้แรงซื้อเพิ่มขึ้น`,
-      },
-      english: {
-        short: `Breakout! Above Resistance ${walls.resistance.strike}`,
-        long: `Price Broke Above Key Resistance ${walls.resistance.strike} = Bullish Breakout!`,
-        explanation: `Price ${price.toFixed(1)} has broken above the Call Wall (resistance) at ${walls.resistance.strike}! This is a strong breakout signal as short sellers must cover, adding buying pressure.`,
-      },
-      values: { price, resistance: walls.resistance.strike, support: walls.support.strike },
-    };
-  }
-
-  // Breakdown below support
-  if (price < walls.support.strike) {
-    return {
-      type: "WALL_BREAKDOWN",
-      sentiment: "BEARISH",
-      score: -25,
-      thai: {
-        short: `Breakdown! หลุดแนวรับ ${walls.support.strike}`,
-        long: `ราคาหลุดแนวรับหลัก ${walls.support.strike} = Breakdown ขาลง!`,
-        explanation: `ราคา ${price.toFixed(1)} หลุดต่ำกว่าแนวรับ (Put Wall) ที่ ${walls.support.strike} ไปแล้ว! เป็นสัญญาณ Breakdown ที่รุนแรง เพราะ Stop Loss ถูก Trigger ทำให้แรงขายเพิ่มขึ้น`,
-      },
-      english: {
-        short: `Breakdown! Below Support ${walls.support.strike}`,
-        long: `Price Broke Below Key Support ${walls.support.strike} = Bearish Breakdown!`,
-        explanation: `Price ${price.toFixed(1)} has broken below the Put Wall (support) at ${walls.support.strike}! This is a severe breakdown signal as stop losses are triggered, adding selling pressure.`,
-      },
-      values: { price, resistance: walls.resistance.strike, support: walls.support.strike },
-    };
-  }
-
-  // Near Put Wall (Support) - within 20%
-  if (supportProximityPct >= 0 && supportProximityPct < 20) {
-    return {
-      type: "WALL_SUPPORT",
-      sentiment: "BULLISH",
-      score: 20,
-      thai: {
-        short: `ใกล้แนวรับ ${walls.support.strike} (Bounce Zone)`,
-        long: `ราคาใกล้แนวรับหลัก ${walls.support.strike} = คาดเด้งขึ้น`,
-        explanation: `ราคา ${price.toFixed(1)} อยู่ใกล้แนวรับ (Put Wall) ที่ ${walls.support.strike} ซึ่งมี Put OI สูงถึง ${walls.support.put_oi.toLocaleString()} สัญญา คนขาย Put จะพยายามไม่ให้ราคาหลุด เพราะจะขาดทุน จึงมักมีแรงซื้อเข้ามาดันราคา`,
-      },
-      english: {
-        short: `Near Support ${walls.support.strike} (Bounce Zone)`,
-        long: `Price Near Key Support ${walls.support.strike} = Bounce Expected`,
-        explanation: `Price ${price.toFixed(1)} is near the Put Wall (support) at ${walls.support.strike} with ${walls.support.put_oi.toLocaleString()} Put OI. Put sellers will defend this level to avoid losses, often creating buying pressure for a bounce.`,
-      },
-      values: { price, support: walls.support.strike, putOi: walls.support.put_oi, proximity: supportProximityPct },
-    };
-  }
-
-  // Near Call Wall (Resistance) - within 20%
-  if (resistanceProximityPct >= 0 && resistanceProximityPct < 20) {
-    return {
-      type: "WALL_RESISTANCE",
-      sentiment: "BEARISH",
-      score: -20,
-      thai: {
-        short: `ใกล้แนวต้าน ${walls.resistance.strike} (Rejection Zone)`,
-        long: `ราคาใกล้แนวต้านหลัก ${walls.resistance.strike} = คาดถูกกดลง`,
-        explanation: `ราคา ${price.toFixed(1)} อยู่ใกล้แนวต้าน (Call Wall) ที่ ${walls.resistance.strike} ซึ่งมี Call OI สูงถึง ${walls.resistance.call_oi.toLocaleString()} สัญญา คนขาย Call จะพยายามกดราคาไม่ให้ทะลุ เพราะจะขาดทุน จึงมักมีแรงขายเข้ามากด`,
-      },
-      english: {
-        short: `Near Resistance ${walls.resistance.strike} (Rejection Zone)`,
-        long: `Price Near Key Resistance ${walls.resistance.strike} = Rejection Expected`,
-        explanation: `Price ${price.toFixed(1)} is near the Call Wall (resistance) at ${walls.resistance.strike} with ${walls.resistance.call_oi.toLocaleString()} Call OI. Call sellers will defend this level to avoid losses, often creating selling pressure for rejection.`,
-      },
-      values: { price, resistance: walls.resistance.strike, callOi: walls.resistance.call_oi, proximity: resistanceProximityPct },
-    };
-  }
-
-  return {
-    type: "WALL_NEUTRAL",
-    sentiment: "NEUTRAL",
-    score: 0,
-    thai: {
-      short: `อยู่กลางช่วง ${walls.support.strike}-${walls.resistance.strike}`,
-      long: `ราคาอยู่กลางช่วง ${walls.support.strike}-${walls.resistance.strike} = ไม่มีแรงกดดัน`,
-      explanation: `ราคาปัจจุบันอยู่ตรงกลางระหว่างแนวรับ ${walls.support.strike} และแนวต้าน ${walls.resistance.strike} ไม่มีแรงกดดันจาก Option Wall ที่ชัดเจน`,
-    },
-    english: {
-      short: `Mid-Range ${walls.support.strike}-${walls.resistance.strike}`,
-      long: `Price in Mid-Range ${walls.support.strike}-${walls.resistance.strike} = No Pressure`,
-      explanation: `Current price is in the middle between support ${walls.support.strike} and resistance ${walls.resistance.strike}, no clear Option Wall pressure.`,
-    },
-    values: { price, support: walls.support.strike, resistance: walls.resistance.strike },
-  };
-}
-
-/**
- * Generate Max Pain factor
- */
-function generateMaxPainFactor(price: number, maxPain: MaxPainResult): Factor | null {
-  const distPct = maxPain.distance_percent;
-
-  // Price far below Max Pain (Gravity pulls up)
-  if (distPct > 2) {
-    return {
-      type: "MAXPAIN_BELOW",
-      sentiment: "BULLISH",
-      score: 10,
-      thai: {
-        short: `ราคาต่ำกว่า Max Pain (${distPct.toFixed(1)}%)`,
-        long: `ราคาต่ำกว่า Max Pain ${maxPain.max_pain_strike} อยู่ ${distPct.toFixed(1)}% = แรงดึงขึ้น`,
-        explanation: `Max Pain (จุดที่คนซื้อ Option ขาดทุนมากที่สุด) อยู่ที่ ${maxPain.max_pain_strike} ซึ่งสูงกว่าราคาปัจจุบัน ${distPct.toFixed(1)}% Market Maker มักจะ "ดึง" ราคาเข้าหา Max Pain เหมือนแรงโน้มถ่วง จึงคาดว่าราคาจะถูกดึงขึ้น`,
-      },
-      english: {
-        short: `Price Below Max Pain (${distPct.toFixed(1)}%)`,
-        long: `Price ${distPct.toFixed(1)}% Below Max Pain ${maxPain.max_pain_strike} = Gravity Effect (Upward Pull)`,
-        explanation: `Max Pain (strike where option buyers lose the most) is at ${maxPain.max_pain_strike}, ${distPct.toFixed(1)}% above current price. Market Makers tend to "pull" price toward Max Pain like gravity, expecting upward movement.`,
-      },
-      values: { price, maxPain: maxPain.max_pain_strike, distancePercent: distPct },
-    };
-  }
-
-  // Price far above Max Pain (Gravity pulls down)
-  if (distPct < -2) {
-    return {
-      type: "MAXPAIN_ABOVE",
-      sentiment: "BEARISH",
-      score: -10,
-      thai: {
-        short: `ราคาสูงกว่า Max Pain (${Math.abs(distPct).toFixed(1)}%)`,
-        long: `ราคาสูงกว่า Max Pain ${maxPain.max_pain_strike} อยู่ ${Math.abs(distPct).toFixed(1)}% = แรงดึงลง`,
-        explanation: `Max Pain อยู่ที่ ${maxPain.max_pain_strike} ซึ่งต่ำกว่าราคาปัจจุบัน ${Math.abs(distPct).toFixed(1)}% Market Maker มักจะ "ดึง" ราคาลงมาหา Max Pain จึงคาดว่าราคาจะถูกดึงลง`,
-      },
-      english: {
-        short: `Price Above Max Pain (${Math.abs(distPct).toFixed(1)}%)`,
-        long: `Price ${Math.abs(distPct).toFixed(1)}% Above Max Pain ${maxPain.max_pain_strike} = Gravity Effect (Downward Pull)`,
-        explanation: `Max Pain is at ${maxPain.max_pain_strike}, ${Math.abs(distPct).toFixed(1)}% below current price. Market Makers tend to "pull" price toward Max Pain, expecting downward movement.`,
-      },
-      values: { price, maxPain: maxPain.max_pain_strike, distancePercent: distPct },
-    };
-  }
-
-  return {
-    type: "MAXPAIN_NEUTRAL",
-    sentiment: "NEUTRAL",
-    score: 0,
-    thai: {
-      short: `ราคาใกล้ Max Pain (${distPct.toFixed(1)}%)`,
-      long: `ราคาใกล้ Max Pain ${maxPain.max_pain_strike} = คาด Sideways`,
-      explanation: `ราคาปัจจุบันอยู่ใกล้ Max Pain ที่ ${maxPain.max_pain_strike} (ห่างเพียง ${Math.abs(distPct).toFixed(1)}%) ราคามักจะ Sideways อยู่ใกล้ Max Pain ใกล้วันหมดอายุ`,
-    },
-    english: {
-      short: `Price Near Max Pain (${distPct.toFixed(1)}%)`,
-      long: `Price Near Max Pain ${maxPain.max_pain_strike} = Sideways Expected`,
-      explanation: `Current price is near Max Pain at ${maxPain.max_pain_strike} (only ${Math.abs(distPct).toFixed(1)}% away). Price tends to stay sideways near Max Pain as expiration approaches.`,
-    },
-    values: { price, maxPain: maxPain.max_pain_strike, distancePercent: distPct },
-  };
-}
-
-/**
- * Generate Volume Spikes factor
- */
-function generateVolumeSpikesFactor(spikes: number[], price: number): Factor | null {
-  if (spikes.length === 0) return null;
-
-  const nearSpikes = spikes.filter(s => Math.abs(s - price) / price < 0.02);
-  const aboveSpikes = spikes.filter(s => s > price);
-  const belowSpikes = spikes.filter(s => s < price);
-
-  return {
-    type: "VOLUME_SPIKE",
-    sentiment: nearSpikes.length > 0 ? "NEUTRAL" : aboveSpikes.length > belowSpikes.length ? "BEARISH" : "BULLISH",
-    score: 0,
-    thai: {
-      short: `Volume สูงผิดปกติที่ ${spikes.slice(0, 3).join(", ")}`,
-      long: `พบ Volume สูงผิดปกติที่ Strike ${spikes.slice(0, 5).join(", ")}`,
-      explanation: `มี Strike ที่มีปริมาณการซื้อขายสูงผิดปกติ (มากกว่า 2 เท่าของค่าเฉลี่ย) ได้แก่ ${spikes.join(", ")} ซึ่งมักเป็นจุดที่นักลงทุนสถาบันให้ความสนใจ อาจเป็นแนวรับ/แนวต้านที่สำคัญ`,
-    },
-    english: {
-      short: `Volume Spikes at ${spikes.slice(0, 3).join(", ")}`,
-      long: `Unusual Volume Spikes at Strikes ${spikes.slice(0, 5).join(", ")}`,
-      explanation: `There are strikes with unusually high volume (>2x average): ${spikes.join(", ")}. These often indicate institutional interest and may act as key support/resistance levels.`,
-    },
-    values: { spikes, count: spikes.length },
-  };
-}
-
-/**
- * Get factors as simple string array (for backward compatibility)
- */
-export function getFactorStrings(
-  factors: Factor[], 
-  lang: "thai" | "english" = "thai",
-  format: "short" | "long" | "explanation" = "long"
-): { positive: string[]; negative: string[]; neutral: string[] } {
-  const positive: string[] = [];
-  const negative: string[] = [];
-  const neutral: string[] = [];
-
-  for (const factor of factors) {
-    const text = lang === "thai" ? factor.thai[format] : factor.english[format];
-    
-    if (factor.sentiment === "BULLISH") {
-      positive.push(text);
-    } else if (factor.sentiment === "BEARISH") {
-      negative.push(text);
-    } else {
-      neutral.push(text);
-    }
-  }
-
-  return { positive, negative, neutral };
-}
-
-/**
- * Calculate total score from factors
- */
-export function calculateFactorScore(factors: Factor[]): number {
-  const baseScore = 50;
-  const factorSum = factors.reduce((sum, f) => sum + f.score, 0);
-  return Math.max(0, Math.min(100, baseScore + factorSum));
-}
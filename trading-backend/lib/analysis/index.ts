@@ -1,4 +0,0 @@
-export * from "./put-call-ratio";
-export * from "./max-pain";
-export * from "./oi-analyzer";
-export * from "./signal-generator";
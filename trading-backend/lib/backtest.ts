@@ -0,0 +1,475 @@
+/**
+ * Backtest Engine
+ *
+ * Replays stored snapshots in time order, rebuilds the market state the
+ * same way /api/analysis does, runs generateSignal and simulates
+ * trades against later futures prices.
+ *
+ * Reports win rate, expectancy, max drawdown and per-factor attribution
+ * of every registered factor score.
+ */
+
+import prisma from "./db";
+import {
+  generateSignal,
+  DEFAULT_SCORING_PROFILE,
+  type MarketData,
+  type ScoringProfile,
+  type TradingSignal,
+} from "./analysis";
+import { getMarketStateForSnapshot } from "./market-state";
+import { getFactorScoreKeys } from "./signal-factors";
+import { loadCustomFactors } from "./custom-factors";
+import { loadSnapshotPricePath, type PricePoint } from "./candles";
+import { resolveOptionsProduct, productSnapshotWhere, type ProductSpec } from "./products";
+
+// ============================================
+// Types
+// ============================================
+
+/** factor_scores key, e.g. "pcr_score" */
+export type FactorKey = string;
+
+export interface BacktestOptions {
+  /** Registry key, name or CME code; the default product when left out */
+  product?: string;
+  /** Options series, e.g. "Feb 2026"; see resolveBacktestExpiry */
+  expiry?: string;
+  from?: Date;
+  to?: Date;
+  /** Stop loss distance in points */
+  stopLossPoints?: number;
+  /** Take profit distance in points */
+  takeProfitPoints?: number;
+  /** Close the trade at market after this many minutes */
+  maxHoldMinutes?: number;
+  /** Minimum minutes between evaluated snapshots */
+  stepMinutes?: number;
+  /** Only trade when |score - 50| is at least this */
+  minScoreEdge?: number;
+  /** Safety cap on evaluated snapshots */
+  maxSteps?: number;
+  /** Scoring profile passed to generateSignal */
+  profile?: ScoringProfile;
+}
+
+export interface BacktestTrade {
+  direction: "BUY" | "SELL";
+  entryTime: Date;
+  entryPrice: number;
+  exitTime: Date;
+  exitPrice: number;
+  exitReason: "TP" | "SL" | "TIMEOUT";
+  pnlPoints: number;
+  mfePoints: number;
+  maePoints: number;
+  score: number;
+  factorScores: TradingSignal["factor_scores"];
+  oiSnapshotId: string;
+}
+
+export interface FactorAttribution {
+  factor: FactorKey;
+  /** Average factor score in the trade direction (+ = supported the trade) */
+  avgAlignedScore: number;
+  supportingTrades: number;
+  supportingWinRate: number;
+  opposingTrades: number;
+  opposingWinRate: number;
+  /** Trade P/L attributed in proportion to each factor's aligned contribution */
+  attributedPnl: number;
+  /** Pearson correlation between aligned score and trade P/L */
+  pnlCorrelation: number;
+}
+
+export interface BacktestResult {
+  options: Required<Omit<BacktestOptions, "product" | "expiry" | "from" | "to" | "profile">> & {
+    product: string;
+    expiry: string | null;
+    from: Date | null;
+    to: Date | null;
+    profile: TradingSignal["scoring_profile"];
+  };
+  snapshotsEvaluated: number;
+  signals: { BUY: number; SELL: number; NEUTRAL: number };
+  trades: BacktestTrade[];
+  unresolvedSignals: number;
+  stats: {
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    avgWin: number;
+    avgLoss: number;
+    expectancy: number;
+    profitFactor: number | null;
+    totalPnl: number;
+    maxDrawdown: number;
+    exitReasons: { TP: number; SL: number; TIMEOUT: number };
+  };
+  equityCurve: Array<{ time: Date; equity: number }>;
+  factorAttribution: FactorAttribution[];
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+const DEFAULTS = {
+  stopLossPoints: 10,
+  takeProfitPoints: 20,
+  maxHoldMinutes: 240,
+  stepMinutes: 30,
+  minScoreEdge: 0,
+  maxSteps: 2000,
+};
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+const round = (value: number, decimals = 2) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+// ============================================
+// Data Loading
+// ============================================
+
+function windowWhere(from: Date | undefined, to: Date | undefined) {
+  return from || to ? { extractedAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {};
+}
+
+/**
+ * The series to replay: the requested one, else the product's default, else
+ * the series of the newest OI snapshot in the window (the one the live
+ * signal would be reading). Mixing series would mix futures prices.
+ */
+async function resolveBacktestExpiry(
+  spec: ProductSpec,
+  expiry: string | undefined,
+  from: Date | undefined,
+  to: Date | undefined
+): Promise<string | null> {
+  if (expiry || spec.defaultExpiry) return expiry || spec.defaultExpiry;
+
+  const latest = await prisma.oiSnapshot.findFirst({
+    where: { ...productSnapshotWhere(spec), ...windowWhere(from, to) },
+    select: { expiry: true },
+    orderBy: { extractedAt: "desc" },
+  });
+  return latest?.expiry ?? null;
+}
+
+/**
+ * Pick OI snapshots of one product and series to evaluate, at most one per step
+ */
+async function loadDecisionPoints(
+  spec: ProductSpec,
+  expiry: string,
+  from: Date | undefined,
+  to: Date | undefined,
+  stepMinutes: number,
+  maxSteps: number
+): Promise<Array<{ id: string; extractedAt: Date }>> {
+  const headers = await prisma.oiSnapshot.findMany({
+    where: {
+      ...productSnapshotWhere(spec, expiry),
+      ...windowWhere(from, to),
+    },
+    select: { id: true, extractedAt: true },
+    orderBy: { extractedAt: "asc" },
+  });
+
+  const stepMs = stepMinutes * 60 * 1000;
+  const points: Array<{ id: string; extractedAt: Date }> = [];
+  let lastTime = -Infinity;
+
+  for (const h of headers) {
+    if (h.extractedAt.getTime() - lastTime < stepMs) continue;
+    points.push(h);
+    lastTime = h.extractedAt.getTime();
+    if (points.length >= maxSteps) break;
+  }
+
+  return points;
+}
+
+/**
+ * Rebuild the signal as /api/analysis would have produced it at the time
+ * of the given OI snapshot
+ */
+async function replaySignal(
+  oiSnapshotId: string,
+  at: Date,
+  profile: ScoringProfile
+): Promise<{ signal: TradingSignal; price: number } | null> {
+  const { analytics, futurePrice: price, previousStrikes, skew } = await getMarketStateForSnapshot(oiSnapshotId, { asOf: at });
+  if (analytics.strikes.length === 0 || price <= 0) return null;
+
+  const marketData: MarketData = {
+    current_price: price,
+    vwap: analytics.vwap,
+    strikes: analytics.optionStrikes,
+    previous_strikes: previousStrikes,
+    skew,
+  };
+
+  return { signal: generateSignal(marketData, profile), price };
+}
+
+// ============================================
+// Trade Simulation
+// ============================================
+
+/**
+ * Walk the price path after entry until TP, SL or the holding limit is hit.
+ * Exits fill at the observed snapshot price (gaps through a level are not improved).
+ */
+export function simulateExit(
+  path: PricePoint[],
+  entryTime: Date,
+  entryPrice: number,
+  direction: "BUY" | "SELL",
+  stopLossPoints: number,
+  takeProfitPoints: number,
+  maxHoldMinutes: number
+): Pick<BacktestTrade, "exitTime" | "exitPrice" | "exitReason" | "pnlPoints" | "mfePoints" | "maePoints"> | null {
+  const sign = direction === "BUY" ? 1 : -1;
+  const deadline = entryTime.getTime() + maxHoldMinutes * 60 * 1000;
+  let mfe = 0;
+  let mae = 0;
+
+  for (const point of path) {
+    if (point.at.getTime() <= entryTime.getTime()) continue;
+
+    const move = (point.price - entryPrice) * sign;
+    mfe = Math.max(mfe, move);
+    mae = Math.min(mae, move);
+
+    let exitReason: BacktestTrade["exitReason"] | null = null;
+    if (move <= -stopLossPoints) exitReason = "SL";
+    else if (move >= takeProfitPoints) exitReason = "TP";
+    else if (point.at.getTime() >= deadline) exitReason = "TIMEOUT";
+
+    if (exitReason) {
+      return {
+        exitTime: point.at,
+        exitPrice: point.price,
+        exitReason,
+        pnlPoints: round(move),
+        mfePoints: round(mfe),
+        maePoints: round(mae),
+      };
+    }
+  }
+
+  // Not enough later prices to resolve the trade
+  return null;
+}
+
+// ============================================
+// Statistics
+// ============================================
+
+function pearson(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  if (n < 2) return 0;
+
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : 0;
+}
+
+/**
+ * Per-factor attribution. Each factor score is signed in the trade direction,
+ * so a positive aligned score means the factor argued for the trade.
+ */
+export function attributeFactors(trades: BacktestTrade[]): FactorAttribution[] {
+  const factorKeys = getFactorScoreKeys();
+  const factorScore = (trade: BacktestTrade, key: FactorKey) => trade.factorScores[key] ?? 0;
+  const attributed: Record<FactorKey, number> = Object.fromEntries(factorKeys.map((k) => [k, 0]));
+
+  for (const trade of trades) {
+    const sign = trade.direction === "BUY" ? 1 : -1;
+    const totalAbs = factorKeys.reduce((sum, k) => sum + Math.abs(factorScore(trade, k)), 0);
+    if (totalAbs === 0) continue;
+
+    for (const key of factorKeys) {
+      attributed[key] += trade.pnlPoints * ((factorScore(trade, key) * sign) / totalAbs);
+    }
+  }
+
+  return factorKeys.map((factor) => {
+    const aligned = trades.map((t) => factorScore(t, factor) * (t.direction === "BUY" ? 1 : -1));
+    const supporting = trades.filter((_, i) => aligned[i] > 0);
+    const opposing = trades.filter((_, i) => aligned[i] < 0);
+    const winRate = (list: BacktestTrade[]) =>
+      list.length > 0 ? round((list.filter((t) => t.pnlPoints > 0).length / list.length) * 100, 1) : 0;
+
+    return {
+      factor,
+      avgAlignedScore: aligned.length > 0 ? round(aligned.reduce((a, b) => a + b, 0) / aligned.length) : 0,
+      supportingTrades: supporting.length,
+      supportingWinRate: winRate(supporting),
+      opposingTrades: opposing.length,
+      opposingWinRate: winRate(opposing),
+      attributedPnl: round(attributed[factor]),
+      pnlCorrelation: round(pearson(aligned, trades.map((t) => t.pnlPoints)), 3),
+    };
+  });
+}
+
+function summarizeTrades(trades: BacktestTrade[]): {
+  stats: BacktestResult["stats"];
+  equityCurve: BacktestResult["equityCurve"];
+} {
+  const wins = trades.filter((t) => t.pnlPoints > 0);
+  const losses = trades.filter((t) => t.pnlPoints <= 0);
+  const grossWin = wins.reduce((sum, t) => sum + t.pnlPoints, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnlPoints, 0));
+  const totalPnl = grossWin - grossLoss;
+
+  // Equity curve and max drawdown (points, peak to trough)
+  const equityCurve: BacktestResult["equityCurve"] = [];
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+
+  for (const trade of trades) {
+    equity += trade.pnlPoints;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    equityCurve.push({ time: trade.exitTime, equity: round(equity) });
+  }
+
+  return {
+    stats: {
+      totalTrades: trades.length,
+      wins: wins.length,
+      losses: losses.length,
+      winRate: trades.length > 0 ? round((wins.length / trades.length) * 100, 1) : 0,
+      avgWin: wins.length > 0 ? round(grossWin / wins.length) : 0,
+      avgLoss: losses.length > 0 ? round(-grossLoss / losses.length) : 0,
+      expectancy: trades.length > 0 ? round(totalPnl / trades.length) : 0,
+      profitFactor: grossLoss > 0 ? round(grossWin / grossLoss) : null,
+      totalPnl: round(totalPnl),
+      maxDrawdown: round(maxDrawdown),
+      exitReasons: {
+        TP: trades.filter((t) => t.exitReason === "TP").length,
+        SL: trades.filter((t) => t.exitReason === "SL").length,
+        TIMEOUT: trades.filter((t) => t.exitReason === "TIMEOUT").length,
+      },
+    },
+    equityCurve,
+  };
+}
+
+// ============================================
+// Main Backtest
+// ============================================
+
+/**
+ * Run a backtest of generateSignal over stored snapshots of one product and
+ * options series. One position at a time; a new signal is only taken after
+ * the previous trade exits.
+ */
+export async function runBacktest(options: BacktestOptions = {}): Promise<BacktestResult> {
+  const { from, to, profile = DEFAULT_SCORING_PROFILE } = options;
+  const spec = resolveOptionsProduct(options.product);
+  const config = { ...DEFAULTS, ...stripUndefined(options) };
+  const { stopLossPoints, takeProfitPoints, maxHoldMinutes, stepMinutes, minScoreEdge, maxSteps } = config;
+
+  const expiry = await resolveBacktestExpiry(spec, options.expiry, from, to);
+
+  // Prices up to maxHold past the window so late trades can resolve
+  const pathEnd = to ? new Date(to.getTime() + maxHoldMinutes * 60 * 1000) : undefined;
+  const [path, decisionPoints] = expiry
+    ? await Promise.all([
+        loadSnapshotPricePath(spec.key, from, pathEnd, expiry),
+        loadDecisionPoints(spec, expiry, from, to, stepMinutes, maxSteps),
+        loadCustomFactors(),
+      ])
+    : [[], []];
+
+  const signals = { BUY: 0, SELL: 0, NEUTRAL: 0 };
+  const trades: BacktestTrade[] = [];
+  let unresolvedSignals = 0;
+  let busyUntil = 0;
+
+  for (const point of decisionPoints) {
+    const replayed = await replaySignal(point.id, point.extractedAt, profile);
+    if (!replayed) continue;
+
+    const { signal, price } = replayed;
+    signals[signal.signal]++;
+
+    if (signal.signal === "NEUTRAL") continue;
+    if (Math.abs(signal.score - 50) < minScoreEdge) continue;
+    if (point.extractedAt.getTime() < busyUntil) continue;
+
+    const exit = simulateExit(
+      path,
+      point.extractedAt,
+      price,
+      signal.signal,
+      stopLossPoints,
+      takeProfitPoints,
+      maxHoldMinutes
+    );
+
+    if (!exit) {
+      unresolvedSignals++;
+      continue;
+    }
+
+    trades.push({
+      direction: signal.signal,
+      entryTime: point.extractedAt,
+      entryPrice: price,
+      ...exit,
+      score: signal.score,
+      factorScores: signal.factor_scores,
+      oiSnapshotId: point.id,
+    });
+    busyUntil = exit.exitTime.getTime();
+  }
+
+  const { stats, equityCurve } = summarizeTrades(trades);
+
+  return {
+    options: {
+      product: spec.key,
+      expiry,
+      from: from || null,
+      to: to || null,
+      stopLossPoints,
+      takeProfitPoints,
+      maxHoldMinutes,
+      stepMinutes,
+      minScoreEdge,
+      maxSteps,
+      profile: { name: profile.name, version: profile.version },
+    },
+    snapshotsEvaluated: decisionPoints.length,
+    signals,
+    trades,
+    unresolvedSignals,
+    stats,
+    equityCurve,
+    factorAttribution: attributeFactors(trades),
+  };
+}
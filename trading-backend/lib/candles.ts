@@ -0,0 +1,459 @@
+/**
+ * Price Candle Store
+ *
+ * Persists OHLC candles per symbol and timeframe so technical indicators
+ * are computed from real price history:
+ * - Built from futures prices ingested with each snapshot
+ * - Rebuilt (backfilled) from stored IntradayVolume / OI snapshots
+ * - Imported from CSV exports
+ */
+
+import prisma from "./db";
+import { generateEstimatedOHLC, type OHLC } from "./technical-indicators";
+import { productWhere } from "./products";
+
+// ============================================
+// Types
+// ============================================
+
+export type CandleTimeframe = "15m" | "1h" | "4h" | "1d";
+
+export interface CandleInput {
+  openTime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number | null;
+}
+
+export interface CsvParseResult {
+  candles: CandleInput[];
+  errors: string[];
+}
+
+export interface PricePoint {
+  at: Date;
+  price: number;
+}
+
+export interface TechnicalsSource {
+  source: "candles" | "estimated";
+  isEstimated: boolean;
+  symbol: string | null;
+  timeframe: CandleTimeframe;
+  candleCount: number;
+  reason?: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const TIMEFRAME_MS: Record<CandleTimeframe, number> = {
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+
+export const CANDLE_TIMEFRAMES = Object.keys(TIMEFRAME_MS) as CandleTimeframe[];
+
+/** Timeframe used for technical indicators in enhanced analysis */
+export const TECHNICALS_TIMEFRAME: CandleTimeframe = "1h";
+
+/** Minimum real candles before falling back to the estimator (RSI/ATR 14 + MA50) */
+export const MIN_CANDLES_FOR_TECHNICALS = 50;
+
+/** Candles loaded for technicals (MA200 needs 200 and is null with fewer) */
+const TECHNICALS_LOOKBACK = 200;
+
+export function isCandleTimeframe(value: string): value is CandleTimeframe {
+  return value in TIMEFRAME_MS;
+}
+
+/**
+ * Floor a timestamp to the start of its candle bucket (UTC)
+ */
+export function getCandleOpenTime(at: Date, timeframe: CandleTimeframe): Date {
+  const size = TIMEFRAME_MS[timeframe];
+  return new Date(Math.floor(at.getTime() / size) * size);
+}
+
+// ============================================
+// Record Prices from Snapshots
+// ============================================
+
+/**
+ * Add one futures price sample to the candles of every timeframe.
+ * Imported candles are treated as authoritative and left untouched.
+ */
+export async function recordPriceTick(
+  symbol: string,
+  price: number,
+  at: Date
+): Promise<void> {
+  if (!symbol || !(price > 0)) return;
+
+  for (const timeframe of CANDLE_TIMEFRAMES) {
+    const openTime = getCandleOpenTime(at, timeframe);
+
+    // Upsert, so concurrent ticks opening the same candle can't both create
+    // it. A new candle starts at 0 ticks; the increment below counts this one.
+    await prisma.priceCandle.upsert({
+      where: { symbol_timeframe_openTime: { symbol, timeframe, openTime } },
+      create: { symbol, timeframe, openTime, open: price, high: price, low: price, close: price, lastTickAt: at, ticks: 0 },
+      update: {},
+    });
+
+    // Each update is conditional and atomic, so concurrent ticks can't
+    // overwrite each other's high / low. Imported candles are left alone.
+    const candle = { symbol, timeframe, openTime, source: "snapshot" };
+    await prisma.priceCandle.updateMany({ where: candle, data: { ticks: { increment: 1 } } });
+    await prisma.priceCandle.updateMany({ where: { ...candle, high: { lt: price } }, data: { high: price } });
+    await prisma.priceCandle.updateMany({ where: { ...candle, low: { gt: price } }, data: { low: price } });
+
+    // Samples can arrive out of order (snapshot updates), so only a newer
+    // sample moves the close
+    await prisma.priceCandle.updateMany({
+      where: { ...candle, OR: [{ lastTickAt: null }, { lastTickAt: { lte: at } }] },
+      data: { close: price, lastTickAt: at },
+    });
+  }
+}
+
+/**
+ * Aggregate price samples into candles for one timeframe
+ */
+export function aggregateCandles(
+  samples: Array<{ price: number; at: Date }>,
+  timeframe: CandleTimeframe
+): Array<CandleInput & { ticks: number; lastTickAt: Date }> {
+  const sorted = [...samples]
+    .filter((s) => s.price > 0)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const buckets = new Map<number, CandleInput & { ticks: number; lastTickAt: Date }>();
+
+  for (const { price, at } of sorted) {
+    const openTime = getCandleOpenTime(at, timeframe);
+    const candle = buckets.get(openTime.getTime());
+
+    if (!candle) {
+      buckets.set(openTime.getTime(), {
+        openTime,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        ticks: 1,
+        lastTickAt: at,
+      });
+    } else {
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.ticks++;
+      candle.lastTickAt = at;
+    }
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * Rebuild snapshot-derived candles for a symbol from stored
+ * IntradayVolumeSnapshot and OiSnapshot futures prices
+ */
+export async function rebuildCandlesFromSnapshots(
+  symbol: string,
+  since?: Date
+): Promise<{ samples: number; candles: number; skippedImported: number }> {
+  const where = {
+    product: symbol,
+    futurePrice: { not: null },
+    ...(since ? { extractedAt: { gte: since } } : {}),
+  };
+  const select = { futurePrice: true, extractedAt: true };
+
+  const [volumeSnapshots, oiSnapshots] = await Promise.all([
+    prisma.intradayVolumeSnapshot.findMany({ where, select }),
+    prisma.oiSnapshot.findMany({ where, select }),
+  ]);
+
+  const samples = [...volumeSnapshots, ...oiSnapshots].map((s) => ({
+    price: s.futurePrice || 0,
+    at: s.extractedAt,
+  }));
+
+  let candles = 0;
+  let skippedImported = 0;
+
+  for (const timeframe of CANDLE_TIMEFRAMES) {
+    for (const candle of aggregateCandles(samples, timeframe)) {
+      const key = { symbol, timeframe, openTime: candle.openTime };
+      const existing = await prisma.priceCandle.findUnique({
+        where: { symbol_timeframe_openTime: key },
+        select: { source: true },
+      });
+
+      if (existing?.source === "import") {
+        skippedImported++;
+        continue;
+      }
+
+      const values = {
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        ticks: candle.ticks,
+        lastTickAt: candle.lastTickAt,
+      };
+
+      await prisma.priceCandle.upsert({
+        where: { symbol_timeframe_openTime: key },
+        create: { ...key, ...values, source: "snapshot" },
+        update: values,
+      });
+      candles++;
+    }
+  }
+
+  return { samples: samples.length, candles, skippedImported };
+}
+
+// ============================================
+// CSV Import
+// ============================================
+
+const TIME_COLUMNS = ["time", "timestamp", "date", "datetime", "opentime", "open_time"];
+const VOLUME_COLUMNS = ["volume", "vol", "tickvol", "tick_volume"];
+
+function parseCsvTime(value: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  // Unix epoch (seconds or milliseconds)
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const num = parseFloat(trimmed);
+    return new Date(num < 1e12 ? num * 1000 : num);
+  }
+
+  // MT5 exports use "2024.01.15 13:00"
+  const normalized = trimmed.replace(/^(\d{4})\.(\d{2})\.(\d{2})/, "$1-$2-$3");
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse candles from CSV text.
+ * Requires a header row with time, open, high, low, close (volume optional);
+ * comma, semicolon and tab separators are accepted.
+ */
+export function parseCandleCsv(csv: string): CsvParseResult {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== "");
+  const candles: CandleInput[] = [];
+  const errors: string[] = [];
+
+  if (lines.length < 2) {
+    return { candles, errors: ["CSV must contain a header row and at least one candle"] };
+  }
+
+  const delimiter = lines[0].includes("\t") ? "\t" : lines[0].includes(";") ? ";" : ",";
+  const header = lines[0]
+    .split(delimiter)
+    .map((h) => h.trim().replace(/^["'<]+|[>"']+$/g, "").toLowerCase());
+
+  const timeIdx = header.findIndex((h) => TIME_COLUMNS.includes(h));
+  const openIdx = header.indexOf("open");
+  const highIdx = header.indexOf("high");
+  const lowIdx = header.indexOf("low");
+  const closeIdx = header.indexOf("close");
+  const volumeIdx = header.findIndex((h) => VOLUME_COLUMNS.includes(h));
+
+  if ([timeIdx, openIdx, highIdx, lowIdx, closeIdx].some((idx) => idx === -1)) {
+    return {
+      candles,
+      errors: [`Missing required columns (time, open, high, low, close). Found: ${header.join(", ")}`],
+    };
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const cols = lines[i].split(delimiter).map((c) => c.trim().replace(/^"|"$/g, ""));
+    const openTime = parseCsvTime(cols[timeIdx] || "");
+    const open = parseFloat(cols[openIdx]);
+    const high = parseFloat(cols[highIdx]);
+    const low = parseFloat(cols[lowIdx]);
+    const close = parseFloat(cols[closeIdx]);
+    const volume = volumeIdx !== -1 ? parseFloat(cols[volumeIdx]) : NaN;
+
+    if (!openTime) {
+      errors.push(`Line ${i + 1}: invalid time "${cols[timeIdx]}"`);
+      continue;
+    }
+    if ([open, high, low, close].some((v) => !isFinite(v) || v <= 0)) {
+      errors.push(`Line ${i + 1}: invalid OHLC values`);
+      continue;
+    }
+    if (high < Math.max(open, close) || low > Math.min(open, close)) {
+      errors.push(`Line ${i + 1}: high/low do not contain open/close`);
+      continue;
+    }
+
+    candles.push({
+      openTime,
+      open,
+      high,
+      low,
+      close,
+      volume: isFinite(volume) ? volume : null,
+    });
+  }
+
+  return { candles, errors };
+}
+
+/**
+ * Store imported candles. Imported data overrides snapshot-derived candles.
+ */
+export async function importCandles(
+  symbol: string,
+  timeframe: CandleTimeframe,
+  candles: CandleInput[]
+): Promise<number> {
+  let imported = 0;
+
+  for (const candle of candles) {
+    const openTime = getCandleOpenTime(candle.openTime, timeframe);
+    const values = {
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume ?? null,
+      ticks: 1,
+      lastTickAt: null,
+      source: "import",
+    };
+
+    await prisma.priceCandle.upsert({
+      where: { symbol_timeframe_openTime: { symbol, timeframe, openTime } },
+      create: { symbol, timeframe, openTime, ...values },
+      update: values,
+    });
+    imported++;
+  }
+
+  return imported;
+}
+
+// ============================================
+// Price Path
+// ============================================
+
+/**
+ * Load every stored futures price in the window, from all snapshot types,
+ * in chronological order. Used to replay what price did tick by tick.
+ * expiry narrows it to one futures series (series trade at different prices).
+ */
+export async function loadSnapshotPricePath(
+  product: string | null | undefined,
+  from?: Date,
+  to?: Date,
+  expiry?: string | null
+): Promise<PricePoint[]> {
+  // Predictions store the registry name ("Gold"), snapshots the CME code ("OG")
+  const where = {
+    ...productWhere(product),
+    ...(expiry ? { expiry } : {}),
+    futurePrice: { gt: 0 },
+    ...(from || to ? { extractedAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+  };
+  const select = { futurePrice: true, extractedAt: true };
+
+  const [volume, oi, oiChange] = await Promise.all([
+    prisma.intradayVolumeSnapshot.findMany({ where, select }),
+    prisma.oiSnapshot.findMany({ where, select }),
+    prisma.oiChangeSnapshot.findMany({ where, select }),
+  ]);
+
+  return [...volume, ...oi, ...oiChange]
+    .map((s) => ({ at: s.extractedAt, price: s.futurePrice || 0 }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// ============================================
+// Read Candles
+// ============================================
+
+/**
+ * Get the most recent candles in chronological order
+ */
+export async function getRecentCandles(
+  symbol: string,
+  timeframe: CandleTimeframe,
+  limit = TECHNICALS_LOOKBACK
+): Promise<OHLC[]> {
+  const rows = await prisma.priceCandle.findMany({
+    where: { symbol, timeframe },
+    orderBy: { openTime: "desc" },
+    take: limit,
+  });
+
+  return rows.reverse().map((c) => ({
+    open: c.open,
+    high: c.high,
+    low: c.low,
+    close: c.close,
+    timestamp: c.openTime,
+  }));
+}
+
+/**
+ * Load OHLC history for technical indicators.
+ * Falls back to generateEstimatedOHLC when stored history is insufficient,
+ * and reports which source was used.
+ */
+export async function loadTechnicalsOHLC(
+  symbol: string | null | undefined,
+  currentPrice: number,
+  timeframe: CandleTimeframe = TECHNICALS_TIMEFRAME
+): Promise<{ ohlc: OHLC[]; source: TechnicalsSource }> {
+  let candles: OHLC[] = [];
+
+  if (symbol) {
+    try {
+      candles = await getRecentCandles(symbol, timeframe, TECHNICALS_LOOKBACK);
+    } catch (error) {
+      console.error("[Candles] Failed to load candles:", error);
+    }
+  }
+
+  if (symbol && candles.length >= MIN_CANDLES_FOR_TECHNICALS) {
+    return {
+      ohlc: candles,
+      source: {
+        source: "candles",
+        isEstimated: false,
+        symbol,
+        timeframe,
+        candleCount: candles.length,
+      },
+    };
+  }
+
+  return {
+    ohlc: generateEstimatedOHLC(currentPrice, TECHNICALS_LOOKBACK),
+    source: {
+      source: "estimated",
+      isEstimated: true,
+      symbol: symbol || null,
+      timeframe,
+      candleCount: candles.length,
+      reason: symbol
+        ? `Only ${candles.length}/${MIN_CANDLES_FOR_TECHNICALS} ${timeframe} candles stored for ${symbol}`
+        : "No product specified for candle lookup",
+    },
+  };
+}
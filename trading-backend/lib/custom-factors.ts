@@ -0,0 +1,192 @@
+/**
+ * Custom Factors
+ *
+ * Team-defined signal factors stored in the database (CustomFactor).
+ * Enabled definitions are registered into the signal factor pipeline by
+ * loadCustomFactors(), which routes call before generateSignal; the
+ * definitions are cached briefly and reloaded after every write.
+ */
+
+import type { CustomFactor } from "@prisma/client";
+import prisma from "./db";
+import { NotFoundError, ValidationError } from "./errors";
+import {
+  compileMetricExpression,
+  customSignalFactor,
+  getSignalFactors,
+  registerSignalFactor,
+  unregisterSignalFactor,
+  type CustomFactorDirection,
+} from "./signal-factors";
+
+// ============================================
+// Types
+// ============================================
+
+export interface CustomFactorInput {
+  key: string;
+  name: string;
+  expression: string;
+  direction?: CustomFactorDirection;
+  bullishThreshold?: number | null;
+  bearishThreshold?: number | null;
+  score: number;
+  order?: number;
+  bullishTh: string;
+  bearishTh: string;
+  bullishEn: string;
+  bearishEn: string;
+  explanationTh?: string | null;
+  explanationEn?: string | null;
+  enabled?: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const CUSTOM_FACTOR_DIRECTIONS: CustomFactorDirection[] = ["HIGHER_BULLISH", "HIGHER_BEARISH"];
+
+const CACHE_TTL_MS = 60 * 1000;
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate a definition. Returns field -> message for every problem.
+ */
+export function validateCustomFactor(input: CustomFactorInput): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!input.key || !/^[a-z][a-z0-9_]*$/.test(input.key)) {
+    errors.key = "ต้องขึ้นต้นด้วย a-z และมีได้เฉพาะ a-z 0-9 _";
+  }
+  if (!input.name?.trim()) {
+    errors.name = "ต้องระบุชื่อ";
+  }
+
+  try {
+    compileMetricExpression(input.expression ?? "");
+  } catch (error) {
+    errors.expression = error instanceof Error ? error.message : String(error);
+  }
+
+  const direction = input.direction ?? "HIGHER_BULLISH";
+  if (!CUSTOM_FACTOR_DIRECTIONS.includes(direction)) {
+    errors.direction = CUSTOM_FACTOR_DIRECTIONS.join(" | ");
+  }
+
+  const bullish = input.bullishThreshold ?? null;
+  const bearish = input.bearishThreshold ?? null;
+  if (bullish === null && bearish === null) {
+    errors.thresholds = "ต้องระบุ bullishThreshold หรือ bearishThreshold อย่างน้อยหนึ่งค่า";
+  } else if ([bullish, bearish].some((t) => t !== null && (typeof t !== "number" || !isFinite(t)))) {
+    errors.thresholds = "ต้องเป็นตัวเลข";
+  } else if (bullish !== null && bearish !== null) {
+    const ordered = direction === "HIGHER_BULLISH" ? bearish < bullish : bullish < bearish;
+    if (!ordered) {
+      errors.thresholds =
+        direction === "HIGHER_BULLISH"
+          ? "HIGHER_BULLISH ต้องมี bearishThreshold < bullishThreshold"
+          : "HIGHER_BEARISH ต้องมี bullishThreshold < bearishThreshold";
+    }
+  }
+
+  if (typeof input.score !== "number" || !isFinite(input.score) || input.score < 0 || input.score > 50) {
+    errors.score = "ต้องเป็นตัวเลข 0-50";
+  }
+  if (input.order !== undefined && !Number.isInteger(input.order)) {
+    errors.order = "ต้องเป็นจำนวนเต็ม";
+  }
+
+  for (const field of ["bullishTh", "bearishTh", "bullishEn", "bearishEn"] as const) {
+    if (!input[field]?.trim()) errors[field] = "ต้องระบุข้อความ";
+  }
+
+  return errors;
+}
+
+// ============================================
+// Registry Sync
+// ============================================
+
+let cache: { loadedAt: number; factors: CustomFactor[] } | null = null;
+
+/**
+ * Register the enabled definitions as signal factors, replacing the ones
+ * registered by the previous load. Cheap when the cache is fresh.
+ */
+export async function loadCustomFactors(): Promise<CustomFactor[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.factors;
+
+  const factors = await prisma.customFactor.findMany({
+    where: { enabled: true },
+    orderBy: [{ order: "asc" }, { key: "asc" }],
+  });
+
+  for (const factor of getSignalFactors()) {
+    if (factor.key.startsWith("custom_")) unregisterSignalFactor(factor.key);
+  }
+  for (const definition of factors) {
+    registerSignalFactor(customSignalFactor(definition));
+  }
+
+  cache = { loadedAt: Date.now(), factors };
+  return factors;
+}
+
+// ============================================
+// Read / Write
+// ============================================
+
+export async function listCustomFactors(): Promise<CustomFactor[]> {
+  return prisma.customFactor.findMany({ orderBy: [{ order: "asc" }, { key: "asc" }] });
+}
+
+/**
+ * Create or replace the definition with the given key
+ */
+export async function saveCustomFactor(input: CustomFactorInput): Promise<CustomFactor> {
+  const errors = validateCustomFactor(input);
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError("Custom factor ไม่ถูกต้อง", errors);
+  }
+
+  const data = {
+    name: input.name.trim(),
+    expression: input.expression.trim(),
+    direction: input.direction ?? "HIGHER_BULLISH",
+    bullishThreshold: input.bullishThreshold ?? null,
+    bearishThreshold: input.bearishThreshold ?? null,
+    score: input.score,
+    order: input.order,
+    bullishTh: input.bullishTh,
+    bearishTh: input.bearishTh,
+    bullishEn: input.bullishEn,
+    bearishEn: input.bearishEn,
+    explanationTh: input.explanationTh ?? null,
+    explanationEn: input.explanationEn ?? null,
+    enabled: input.enabled,
+  };
+
+  const factor = await prisma.customFactor.upsert({
+    where: { key: input.key },
+    update: data,
+    create: { key: input.key, ...data },
+  });
+
+  cache = null;
+  await loadCustomFactors();
+  return factor;
+}
+
+export async function deleteCustomFactor(key: string): Promise<void> {
+  const existing = await prisma.customFactor.findUnique({ where: { key } });
+  if (!existing) throw new NotFoundError("Custom factor", { key });
+
+  await prisma.customFactor.delete({ where: { key } });
+
+  cache = null;
+  await loadCustomFactors();
+}
@@ -0,0 +1,304 @@
+/**
+ * Data Quality
+ *
+ * Checks a market state before it is analyzed: each source against its
+ * freshness rule, and the three sources against each other (futures price).
+ * A source missing from the OI group is checked through the newest snapshot
+ * of its type: another product or expiry is a mismatch, the same contract
+ * outside the grouping window is stale. The result is a 0-100 score with explicit warnings.
+ * Under the REJECT policy a stale OI snapshot refuses the analysis with a
+ * StaleDataError; under WARN it degrades with the warnings attached.
+ *
+ * Rules live in Settings so they can be tuned without a deploy.
+ */
+
+import prisma from "./db";
+import { StaleDataError, ValidationError } from "./errors";
+import type { MarketState, SourceStatus } from "./market-state";
+import { findProduct } from "./products";
+import type { DataType } from "./types";
+
+// ============================================
+// Types
+// ============================================
+
+export type StaleDataPolicy = "WARN" | "REJECT";
+
+export interface FreshnessRules {
+  /** Oldest each source may be, in minutes */
+  maxAgeMinutes: Record<DataType, number>;
+  /** Largest futures price gap between sources, % of the OI price */
+  maxPriceDivergencePercent: number;
+  policy: StaleDataPolicy;
+}
+
+export type DataQualityIssueCode =
+  | "STALE"
+  | "MISSING"
+  | "PRODUCT_MISMATCH"
+  | "EXPIRY_MISMATCH"
+  | "PRICE_DIVERGENCE";
+
+export interface DataQualityIssue {
+  code: DataQualityIssueCode;
+  source: DataType;
+  severity: "warning" | "critical";
+  /** Points taken off the score */
+  penalty: number;
+  message: string;
+}
+
+export interface DataQuality {
+  /** 100 = every source present, fresh and consistent */
+  score: number;
+  grade: "GOOD" | "DEGRADED" | "POOR";
+  /** Any source older than its rule, or only found outside the OI window */
+  stale: boolean;
+  freshnessChecked: boolean;
+  policy: StaleDataPolicy;
+  issues: DataQualityIssue[];
+  /** Issue messages, for responses and the AI prompt */
+  warnings: string[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_FRESHNESS_RULES: FreshnessRules = {
+  maxAgeMinutes: { oi: 60, volume: 30, oichange: 60 },
+  maxPriceDivergencePercent: 0.3,
+  policy: "WARN",
+};
+
+export const STALE_DATA_POLICIES: StaleDataPolicy[] = ["WARN", "REJECT"];
+
+const SOURCE_LABELS: Record<DataType, string> = {
+  oi: "OI",
+  volume: "Volume",
+  oichange: "OI Change",
+};
+
+/** Score penalties; OI is the primary source so it weighs most */
+const STALE_PENALTY: Record<DataType, number> = { oi: 40, volume: 20, oichange: 15 };
+const MISSING_PENALTY: Record<DataType, number> = { oi: 100, volume: 15, oichange: 10 };
+const MISMATCH_PENALTY = 30;
+const PRICE_DIVERGENCE_PENALTY = 20;
+
+const GOOD_SCORE = 80;
+const DEGRADED_SCORE = 50;
+
+// ============================================
+// Rules
+// ============================================
+
+export async function getFreshnessRules(): Promise<FreshnessRules> {
+  const settings = await prisma.settings.findFirst({ where: { id: "default" } });
+  if (!settings) return DEFAULT_FRESHNESS_RULES;
+
+  return {
+    maxAgeMinutes: {
+      oi: settings.maxOiAgeMinutes,
+      volume: settings.maxVolumeAgeMinutes,
+      oichange: settings.maxOiChangeAgeMinutes,
+    },
+    maxPriceDivergencePercent: settings.maxPriceDivergencePct,
+    policy: resolveStaleDataPolicy(settings.staleDataPolicy),
+  };
+}
+
+/**
+ * Parse a policy value (case-insensitive); empty falls back to WARN
+ */
+export function resolveStaleDataPolicy(value: string | null | undefined): StaleDataPolicy {
+  if (!value) return DEFAULT_FRESHNESS_RULES.policy;
+
+  const policy = value.toUpperCase() as StaleDataPolicy;
+  if (!STALE_DATA_POLICIES.includes(policy)) {
+    throw new ValidationError(`staleDataPolicy ไม่ถูกต้อง: ${value}`, {
+      staleDataPolicy: STALE_DATA_POLICIES.join(" | "),
+    });
+  }
+  return policy;
+}
+
+// ============================================
+// Assessment
+// ============================================
+
+/**
+ * Score a market state against the rules. Freshness is skipped when
+ * checkFreshness is false, e.g. when viewing a past date.
+ */
+export function assessDataQuality(
+  state: MarketState,
+  rules: FreshnessRules,
+  options: { checkFreshness?: boolean } = {}
+): DataQuality {
+  const checkFreshness = options.checkFreshness !== false;
+  const issues: DataQualityIssue[] = [];
+  const oi = state.snapshots.oi;
+
+  for (const source of state.sources) {
+    const label = SOURCE_LABELS[source.type];
+
+    if (!source.present) {
+      const latest = state.latestSources.find((s) => s.type === source.type);
+      if (latest) {
+        issues.push(...checkOutOfGroup(latest, oi, state.maxSkewMs));
+        continue;
+      }
+
+      issues.push({
+        code: "MISSING",
+        source: source.type,
+        severity: source.type === "oi" ? "critical" : "warning",
+        penalty: MISSING_PENALTY[source.type],
+        message: `ไม่มีข้อมูล ${label} ที่ตรงกับ OI (ห่างไม่เกิน ${Math.round(state.maxSkewMs / 60000)} นาที)`,
+      });
+      continue;
+    }
+
+    const ageMinutes = (source.ageSeconds ?? 0) / 60;
+    const maxAge = rules.maxAgeMinutes[source.type];
+    if (checkFreshness && ageMinutes > maxAge) {
+      issues.push({
+        code: "STALE",
+        source: source.type,
+        severity: source.type === "oi" ? "critical" : "warning",
+        penalty: STALE_PENALTY[source.type],
+        message: `ข้อมูล ${label} เก่า ${Math.round(ageMinutes)} นาที (เกณฑ์ ${maxAge} นาที)`,
+      });
+    }
+
+    if (source.type === "oi") continue;
+    issues.push(...crossCheck(source, oi, rules));
+  }
+
+  const score = Math.max(0, 100 - issues.reduce((sum, issue) => sum + issue.penalty, 0));
+
+  return {
+    score,
+    grade: score >= GOOD_SCORE ? "GOOD" : score >= DEGRADED_SCORE ? "DEGRADED" : "POOR",
+    stale: issues.some((issue) => issue.code === "STALE"),
+    freshnessChecked: checkFreshness,
+    policy: rules.policy,
+    issues,
+    warnings: issues.map((issue) => issue.message),
+  };
+}
+
+/**
+ * Product and expiry of a volume / OI change source against OI
+ */
+function checkContract(source: SourceStatus, oi: MarketState["snapshots"]["oi"]): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  const label = SOURCE_LABELS[source.type];
+
+  // Codes like "OG" and "Gold" name the same registry product
+  const productKey = (value: string) => findProduct(value)?.key ?? value;
+  if (source.product !== null && productKey(source.product) !== productKey(oi.product)) {
+    issues.push({
+      code: "PRODUCT_MISMATCH",
+      source: source.type,
+      severity: "critical",
+      penalty: MISMATCH_PENALTY,
+      message: `${label} เป็นสินค้า ${source.product} แต่ OI เป็น ${oi.product}`,
+    });
+  }
+
+  if (source.expiry !== null && source.expiry !== oi.expiry) {
+    issues.push({
+      code: "EXPIRY_MISMATCH",
+      source: source.type,
+      severity: "critical",
+      penalty: MISMATCH_PENALTY,
+      message: `${label} เป็นสัญญา ${source.expiry} แต่ OI เป็น ${oi.expiry}`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * A source that is not in the OI group: the newest snapshot of its type is
+ * another contract (mismatch) or the same contract extracted outside the
+ * grouping window (stale)
+ */
+function checkOutOfGroup(
+  latest: SourceStatus,
+  oi: MarketState["snapshots"]["oi"],
+  maxSkewMs: number
+): DataQualityIssue[] {
+  const mismatches = checkContract(latest, oi);
+  if (mismatches.length > 0) return mismatches;
+
+  const skewMinutes = Math.round(Math.abs(latest.skewSeconds ?? 0) / 60);
+  return [
+    {
+      code: "STALE",
+      source: latest.type,
+      severity: "warning",
+      penalty: STALE_PENALTY[latest.type],
+      message: `ข้อมูล ${SOURCE_LABELS[latest.type]} ล่าสุดห่างจาก OI ${skewMinutes} นาที (เกณฑ์ ${Math.round(maxSkewMs / 60000)} นาที)`,
+    },
+  ];
+}
+
+/**
+ * Futures price of a volume / OI change source in the OI group against OI
+ */
+function crossCheck(
+  source: SourceStatus,
+  oi: MarketState["snapshots"]["oi"],
+  rules: FreshnessRules
+): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  const label = SOURCE_LABELS[source.type];
+
+  if (source.futurePrice && oi.futurePrice) {
+    const divergence = (Math.abs(source.futurePrice - oi.futurePrice) / oi.futurePrice) * 100;
+    if (divergence > rules.maxPriceDivergencePercent) {
+      issues.push({
+        code: "PRICE_DIVERGENCE",
+        source: source.type,
+        severity: "warning",
+        penalty: PRICE_DIVERGENCE_PENALTY,
+        message: `ราคา Futures ของ ${label} (${source.futurePrice}) ต่างจาก OI (${oi.futurePrice}) ${divergence.toFixed(2)}%`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Refuse stale data under the REJECT policy. The primary OI snapshot
+ * being stale is what refuses; other issues only degrade the score.
+ */
+export function enforceDataQuality(state: MarketState, quality: DataQuality): void {
+  if (quality.policy !== "REJECT") return;
+
+  const staleOi = quality.issues.find((issue) => issue.code === "STALE" && issue.source === "oi");
+  if (!staleOi) return;
+
+  const oiSource = state.sources.find((s) => s.type === "oi");
+  throw new StaleDataError(
+    state.snapshots.oi.extractedAt,
+    Math.round((oiSource?.ageSeconds ?? 0) / 60),
+    { product: state.product, expiry: state.expiry, issues: quality.issues }
+  );
+}
+
+/**
+ * Assess and enforce in one step
+ */
+export async function checkDataQuality(
+  state: MarketState,
+  options: { checkFreshness?: boolean } = {}
+): Promise<DataQuality> {
+  const rules = await getFreshnessRules();
+  const quality = assessDataQuality(state, rules, options);
+  enforceDataQuality(state, quality);
+  return quality;
+}
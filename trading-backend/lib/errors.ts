@@ -88,6 +88,15 @@ export class ValidationError extends ApiError {
   }
 }
 
+export class UnauthorizedError extends ApiError {
+  constructor(
+    message: string = "ไม่ได้รับอนุญาต",
+    context?: Record<string, unknown>
+  ) {
+    super(message, "UNAUTHORIZED", 401, context);
+  }
+}
+
 export class DatabaseError extends ApiError {
   constructor(
     operation: string = "database",
@@ -258,6 +267,27 @@ export class ExternalApiError extends AppError {
   }
 }
 
+export class InvalidAIResponseError extends AppError {
+  public readonly provider: string;
+  public readonly errors: string[];
+
+  constructor(
+    provider: string,
+    errors: string[],
+    context?: Record<string, unknown>
+  ) {
+    super(
+      `คำตอบจาก ${provider} ไม่ผ่านการตรวจสอบหลังแก้ไขแล้ว: ${errors.slice(0, 3).join("; ")}`,
+      "INVALID_AI_RESPONSE",
+      502,
+      true,
+      { ...context, errors }
+    );
+    this.provider = provider;
+    this.errors = errors;
+  }
+}
+
 // ============================================
 // Utility Functions
 // ============================================
@@ -0,0 +1,155 @@
+/**
+ * Expected-Move Bands
+ *
+ * QuikStrike's Vol2Vol expected range chart shades nested bands around the
+ * futures price; the extension stores each band's label on the strikes it
+ * covers (the `range` column). This module parses those labels into numeric
+ * values and rebuilds the bands as price intervals. When a snapshot has no
+ * usable ranges, a one- and two-standard-deviation band is computed from
+ * ATM IV and days to expiry instead.
+ */
+
+import { buildSmile, calculateSkew } from "./volatility";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExpectedMoveBand {
+  /** Band label as stored (range) or "1σ" / "2σ" for the IV fallback */
+  label: string;
+  /** Numeric label value (standard deviations for the IV fallback) */
+  value: number | null;
+  low: number;
+  high: number;
+}
+
+export interface ExpectedMove {
+  source: "RANGE" | "ATM_IV";
+  futurePrice: number;
+  /** Primary band around the futures price, used as the expected move */
+  low: number;
+  high: number;
+  /** Half-width of the primary band in points */
+  move: number;
+  /** Every band, narrowest first */
+  bands: ExpectedMoveBand[];
+  atmIv: number | null;
+  daysToExpiry: number;
+}
+
+interface RangeStrike {
+  strike: number;
+  range: string | null;
+  /** Parsed range value stored at ingest; parsed from range when missing */
+  rangeValue?: number | null;
+  volSettle: number | null;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Numeric value of a range label ("1.5", "±1.5σ", "68.2%", "1,234.5").
+ * Returns null when the label has no number.
+ */
+export function parseRangeValue(label: string | number | null | undefined): number | null {
+  if (label === null || label === undefined) return null;
+  if (typeof label === "number") return Number.isFinite(label) ? label : null;
+
+  const match = label.replace(/,/g, "").match(/-?\d+(?:\.\d+)?/);
+  if (!match) return null;
+
+  const value = parseFloat(match[0]);
+  return Number.isFinite(value) ? Math.abs(value) : null;
+}
+
+// ============================================
+// Bands
+// ============================================
+
+/**
+ * Bands from the stored range labels: each distinct label spans from the
+ * lowest to the highest strike carrying it
+ */
+export function extractRangeBands(strikes: RangeStrike[]): ExpectedMoveBand[] {
+  const byLabel = new Map<string, { value: number | null; low: number; high: number }>();
+
+  for (const s of strikes) {
+    if (s.range === null || s.range === undefined || s.range.trim() === "") continue;
+    const label = s.range.trim();
+    const band = byLabel.get(label);
+    if (band) {
+      band.low = Math.min(band.low, s.strike);
+      band.high = Math.max(band.high, s.strike);
+    } else {
+      byLabel.set(label, {
+        value: s.rangeValue ?? parseRangeValue(label),
+        low: s.strike,
+        high: s.strike,
+      });
+    }
+  }
+
+  return Array.from(byLabel.entries())
+    .map(([label, band]) => ({ label, ...band }))
+    .filter((band) => band.high > band.low)
+    .sort((a, b) => a.high - a.low - (b.high - b.low));
+}
+
+/**
+ * One- and two-standard-deviation bands from ATM IV:
+ * move = F * IV * sqrt(DTE / 365)
+ */
+export function ivBands(futuresPrice: number, atmIv: number, daysToExpiry: number): ExpectedMoveBand[] {
+  const move = futuresPrice * (atmIv / 100) * Math.sqrt(Math.max(daysToExpiry, 0) / 365);
+  if (!(move > 0)) return [];
+
+  return [1, 2].map((sd) => ({
+    label: `${sd}σ`,
+    value: sd,
+    low: Math.round((futuresPrice - sd * move) * 100) / 100,
+    high: Math.round((futuresPrice + sd * move) * 100) / 100,
+  }));
+}
+
+/**
+ * Expected move for a snapshot: the stored range bands when one contains
+ * the futures price (the band labelled 1 if any, else the narrowest), else
+ * the ATM IV one-sigma band. Null when neither is available.
+ */
+export function buildExpectedMove(
+  strikes: RangeStrike[],
+  futuresPrice: number,
+  daysToExpiry: number
+): ExpectedMove | null {
+  if (futuresPrice <= 0) return null;
+
+  const smile = buildSmile(strikes, futuresPrice, daysToExpiry);
+  const atmIv = smile.length > 0 ? calculateSkew(smile, futuresPrice).atmIv : null;
+
+  let source: ExpectedMove["source"] = "RANGE";
+  let bands = extractRangeBands(strikes);
+  const containing = bands.filter((b) => futuresPrice >= b.low && futuresPrice <= b.high);
+  let primary = containing.find((b) => b.value === 1) ?? containing[0];
+
+  if (!primary) {
+    source = "ATM_IV";
+    bands = atmIv !== null ? ivBands(futuresPrice, atmIv, daysToExpiry) : [];
+    primary = bands[0];
+  }
+
+  if (!primary) return null;
+
+  return {
+    source,
+    futurePrice: futuresPrice,
+    low: primary.low,
+    high: primary.high,
+    move: Math.round(((primary.high - primary.low) / 2) * 100) / 100,
+    bands,
+    atmIv,
+    daysToExpiry,
+  };
+}
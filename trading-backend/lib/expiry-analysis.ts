@@ -0,0 +1,198 @@
+/**
+ * Multi-Expiry Analysis
+ *
+ * Runs walls, PCR, max pain and GEX on the latest snapshot of every live
+ * expiry of a product, then combines them into one view. Nearer expiries
+ * weigh more: open interest is scaled by 1/sqrt(DTE), the same rate at
+ * which gamma grows into expiry.
+ */
+
+import prisma from "./db";
+import {
+  getLiquidityWalls,
+  calculatePCR,
+  calculateMaxPain,
+  type OptionStrike,
+  type LiquidityWalls,
+  type PCRResult,
+} from "./analysis";
+import { calculateGEX } from "./greeks";
+import { getExpiryContext } from "./expiry-calendar";
+import { mergeSnapshotStrikes, toOptionStrikes } from "./strike-merge";
+import { productSnapshotKeys, type ProductSpec } from "./products";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExpiryView {
+  expiry: string;
+  expiresAt: string | null;
+  daysToExpiry: number;
+  /** DTE could not be resolved and the default was used */
+  isEstimated: boolean;
+  /** Share of the combined view (weights sum to 1) */
+  weight: number;
+  futurePrice: number;
+  extractedAt: string;
+  strikesCount: number;
+  walls: { support: number; resistance: number };
+  pcr: { oiPcr: number; volumePcr: number };
+  maxPain: number;
+  gex: { totalGex: number; zeroGammaLevel: number | null };
+}
+
+export interface MultiExpiryAnalysis {
+  product: string;
+  asOf: string;
+  /** Front expiry's futures price, used for the combined view */
+  referencePrice: number;
+  expiries: ExpiryView[];
+  combined: {
+    walls: LiquidityWalls;
+    pcr: Pick<PCRResult, "oi_pcr" | "volume_pcr" | "signal" | "description">;
+    maxPain: number;
+    /** Sum of per-expiry GEX; each is already scaled by its own gamma */
+    totalGex: number;
+    interpretation: string;
+  } | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Snapshots older than this are not considered current for an expiry */
+const LOOKBACK_DAYS = 7;
+
+/** Floor for the weight so a same-day expiry doesn't swamp the rest */
+const MIN_WEIGHT_DAYS = 1;
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Analyze every unexpired series of a product and combine them
+ */
+export async function analyzeExpiries(
+  product: ProductSpec,
+  asOf: Date = new Date()
+): Promise<MultiExpiryAnalysis> {
+  const since = new Date(asOf.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  // Every expiry of the product, not just its default series
+  const where = { product: { in: productSnapshotKeys(product) }, extractedAt: { gte: since, lte: asOf } };
+
+  // Latest snapshot per expiry
+  const [oiSnapshots, volumeSnapshots] = await Promise.all([
+    prisma.oiSnapshot.findMany({
+      where,
+      distinct: ["expiry"],
+      orderBy: { extractedAt: "desc" },
+      include: { strikes: { orderBy: { strike: "asc" } } },
+    }),
+    prisma.intradayVolumeSnapshot.findMany({
+      where,
+      distinct: ["expiry"],
+      orderBy: { extractedAt: "desc" },
+      include: { strikes: { orderBy: { strike: "asc" } } },
+    }),
+  ]);
+
+  const volumeByExpiry = new Map(volumeSnapshots.map((v) => [v.expiry, v]));
+
+  const series = oiSnapshots
+    .map((oi) => {
+      const context = getExpiryContext(oi.expiry, asOf);
+      return { oi, context };
+    })
+    // Keep unexpired series; unparseable ones stay in with the default DTE
+    .filter(({ context }) => context.isEstimated || context.daysToExpiry > 0)
+    .filter(({ oi }) => (oi.futurePrice || 0) > 0)
+    .sort((a, b) => a.context.daysToExpiry - b.context.daysToExpiry);
+
+  if (series.length === 0) {
+    return {
+      product: product.key,
+      asOf: asOf.toISOString(),
+      referencePrice: 0,
+      expiries: [],
+      combined: null,
+    };
+  }
+
+  const rawWeights = series.map(({ context }) => 1 / Math.sqrt(Math.max(context.daysToExpiry, MIN_WEIGHT_DAYS)));
+  const weightSum = rawWeights.reduce((sum, w) => sum + w, 0);
+
+  const combinedStrikes = new Map<number, OptionStrike>();
+  let totalGex = 0;
+
+  const expiries: ExpiryView[] = series.map(({ oi, context }, i) => {
+    const weight = rawWeights[i] / weightSum;
+    const price = oi.futurePrice || 0;
+    const strikes = toOptionStrikes(mergeSnapshotStrikes(oi, volumeByExpiry.get(oi.expiry)));
+
+    const walls = getLiquidityWalls(strikes);
+    const pcr = calculatePCR(strikes, price);
+    const maxPain = calculateMaxPain(strikes, price, context.daysToExpiry);
+    const gex = calculateGEX(strikes, price, context.daysToExpiry, undefined, product.contractMultiplier);
+    totalGex += gex.totalGex;
+
+    for (const s of strikes) {
+      const entry = combinedStrikes.get(s.strike_price) ?? {
+        strike_price: s.strike_price,
+        call_oi: 0,
+        put_oi: 0,
+        call_volume: 0,
+        put_volume: 0,
+        call_oi_change: 0,
+        put_oi_change: 0,
+      };
+      entry.call_oi += s.call_oi * weight;
+      entry.put_oi += s.put_oi * weight;
+      entry.call_volume += s.call_volume * weight;
+      entry.put_volume += s.put_volume * weight;
+      combinedStrikes.set(s.strike_price, entry);
+    }
+
+    return {
+      expiry: oi.expiry,
+      expiresAt: context.expiresAt?.toISOString() ?? null,
+      daysToExpiry: context.daysToExpiry,
+      isEstimated: context.isEstimated,
+      weight: Math.round(weight * 1000) / 1000,
+      futurePrice: price,
+      extractedAt: oi.extractedAt.toISOString(),
+      strikesCount: strikes.length,
+      walls: { support: walls.support.strike, resistance: walls.resistance.strike },
+      pcr: { oiPcr: pcr.oi_pcr, volumePcr: pcr.volume_pcr },
+      maxPain: maxPain.max_pain_strike,
+      gex: { totalGex: gex.totalGex, zeroGammaLevel: gex.zeroGammaLevel },
+    };
+  });
+
+  const referencePrice = expiries[0].futurePrice;
+  const strikes = Array.from(combinedStrikes.values()).sort((a, b) => a.strike_price - b.strike_price);
+  const pcr = calculatePCR(strikes, referencePrice);
+
+  return {
+    product: product.key,
+    asOf: asOf.toISOString(),
+    referencePrice,
+    expiries,
+    combined: {
+      walls: getLiquidityWalls(strikes),
+      pcr: {
+        oi_pcr: pcr.oi_pcr,
+        volume_pcr: pcr.volume_pcr,
+        signal: pcr.signal,
+        description: pcr.description,
+      },
+      maxPain: calculateMaxPain(strikes, referencePrice).max_pain_strike,
+      totalGex,
+      interpretation: totalGex > 0
+        ? "Positive GEX รวมทุก Expiry: ราคามีแนวโน้มแกว่งในกรอบ"
+        : "Negative GEX รวมทุก Expiry: ราคามีแนวโน้มวิ่งแรงตามเทรนด์",
+    },
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Expiry Calendar
+ *
+ * Resolves the expiry string stored on a snapshot ("Feb 2026" for a
+ * monthly series, "OG4F6" for a QuikStrike weekly) to the exact time the
+ * options stop trading, so analytics can use real days-to-expiry.
+ *
+ * COMEX metals options (OG, SO) rules:
+ * - Monthly: last trade 12:30 CT on the 4th last business day of the month
+ *   before the contract month, moved to the prior business day when that
+ *   falls on a Friday.
+ * - Weekly (Friday): 12:30 CT on the Nth Friday of the month.
+ *
+ * Exchange holidays are not modelled; only weekends are skipped.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExpiryInfo {
+  expiry: string;
+  kind: "MONTHLY" | "WEEKLY";
+  /** Options contract month, e.g. "2026-02" */
+  contractMonth: string;
+  expiresAt: Date;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Used when an expiry string can't be resolved */
+export const DEFAULT_DAYS_TO_EXPIRY = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Last trade time, Chicago local */
+const CUTOFF_HOUR_CT = 12;
+const CUTOFF_MINUTE_CT = 30;
+
+/** Business days counted back from month end for the monthly expiry */
+const MONTHLY_BUSINESS_DAYS_BEFORE_END = 4;
+
+const FUTURES_MONTH_CODES = "FGHJKMNQUVXZ";
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// ============================================
+// Date Helpers
+// ============================================
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/** nth Sunday of a month (UTC date) */
+function nthSunday(year: number, month: number, n: number): number {
+  const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return 1 + ((7 - first) % 7) + (n - 1) * 7;
+}
+
+/** US daylight saving: second Sunday of March to first Sunday of November */
+function isUsDst(year: number, month: number, day: number): boolean {
+  if (month < 2 || month > 10) return false;
+  if (month > 2 && month < 10) return true;
+  if (month === 2) return day >= nthSunday(year, 2, 2);
+  return day < nthSunday(year, 10, 1);
+}
+
+/** 12:30 Chicago time on the given calendar day, as a UTC instant */
+function atCutoff(year: number, month: number, day: number): Date {
+  const offsetHours = isUsDst(year, month, day) ? 5 : 6;
+  return new Date(Date.UTC(year, month, day, CUTOFF_HOUR_CT + offsetHours, CUTOFF_MINUTE_CT));
+}
+
+/** Single-digit contract year to the nearest full year not far behind asOf */
+function expandYear(digit: number, asOf: Date): number {
+  const ref = asOf.getUTCFullYear();
+  let year = Math.floor(ref / 10) * 10 + digit;
+  if (year < ref - 1) year += 10;
+  return year;
+}
+
+// ============================================
+// Expiry Rules
+// ============================================
+
+/**
+ * Monthly options on contract month (year, month): 4th last business day
+ * of the previous month, rolled back a day when it is a Friday
+ */
+export function monthlyExpiry(year: number, month: number): Date {
+  // Day 0 of the contract month is the last day of the month before
+  const date = new Date(Date.UTC(year, month, 0));
+  let counted = 0;
+
+  for (;;) {
+    if (!isWeekend(date)) {
+      counted++;
+      if (counted === MONTHLY_BUSINESS_DAYS_BEFORE_END) break;
+    }
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+
+  if (date.getUTCDay() === 5) {
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+
+  return atCutoff(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Friday weekly options: the nth Friday of the month
+ */
+export function weeklyExpiry(year: number, month: number, week: number): Date | null {
+  const firstDay = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const firstFriday = 1 + ((5 - firstDay + 7) % 7);
+  const day = firstFriday + (week - 1) * 7;
+
+  // Week 5 doesn't exist in every month
+  if (new Date(Date.UTC(year, month, day)).getUTCMonth() !== month) return null;
+
+  return atCutoff(year, month, day);
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+function contractMonthLabel(year: number, month: number): string {
+  return `${year}-${String(month + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Resolve a snapshot expiry string. asOf anchors single-digit contract
+ * years (use the snapshot's extractedAt). Returns null when unrecognised.
+ */
+export function resolveExpiry(expiry: string | null | undefined, asOf: Date = new Date()): ExpiryInfo | null {
+  if (!expiry) return null;
+  const value = expiry.trim();
+
+  // QuikStrike weekly code: product + week + month code + year digit (OG4F6)
+  const weekly = value.match(/^[A-Z]{2,3}([1-5])([FGHJKMNQUVXZ])(\d)$/i);
+  if (weekly) {
+    const month = FUTURES_MONTH_CODES.indexOf(weekly[2].toUpperCase());
+    const year = expandYear(parseInt(weekly[3]), asOf);
+    const expiresAt = weeklyExpiry(year, month, parseInt(weekly[1]));
+    return expiresAt
+      ? { expiry: value, kind: "WEEKLY", contractMonth: contractMonthLabel(year, month), expiresAt }
+      : null;
+  }
+
+  // Monthly Globex code: product + month code + year digit (OGG6)
+  const monthlyCode = value.match(/^[A-Z]{2,3}([FGHJKMNQUVXZ])(\d)$/i);
+  if (monthlyCode) {
+    const month = FUTURES_MONTH_CODES.indexOf(monthlyCode[1].toUpperCase());
+    const year = expandYear(parseInt(monthlyCode[2]), asOf);
+    return {
+      expiry: value,
+      kind: "MONTHLY",
+      contractMonth: contractMonthLabel(year, month),
+      expiresAt: monthlyExpiry(year, month),
+    };
+  }
+
+  // Month name and year (Feb 2026, February 2026)
+  const named = value.match(/^([A-Za-z]{3})[A-Za-z]*\.?\s+(\d{4})$/);
+  if (named) {
+    const month = MONTH_NAMES.indexOf(named[1].toLowerCase());
+    if (month === -1) return null;
+    const year = parseInt(named[2]);
+    return {
+      expiry: value,
+      kind: "MONTHLY",
+      contractMonth: contractMonthLabel(year, month),
+      expiresAt: monthlyExpiry(year, month),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Days from asOf to the expiry (0 once expired) for analytics, falling
+ * back to DEFAULT_DAYS_TO_EXPIRY when the expiry can't be resolved
+ */
+export function getExpiryContext(
+  expiry: string | null | undefined,
+  asOf: Date = new Date()
+): { daysToExpiry: number; expiresAt: Date | null; isEstimated: boolean } {
+  const info = resolveExpiry(expiry, asOf);
+  if (!info) {
+    return { daysToExpiry: DEFAULT_DAYS_TO_EXPIRY, expiresAt: null, isEstimated: true };
+  }
+
+  return {
+    daysToExpiry: Math.round(Math.max(0, (info.expiresAt.getTime() - asOf.getTime()) / MS_PER_DAY) * 100) / 100,
+    expiresAt: info.expiresAt,
+    isEstimated: false,
+  };
+}
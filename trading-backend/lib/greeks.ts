@@ -11,9 +11,18 @@
  * - Positive GEX: MM buys when price drops, sells when price rises -> Stabilizes market (Mean Reversion).
  * - Negative GEX: MM sells when price drops, buys when price rises -> Accelerates moves (Trend Following).
  * - Zero Gamma Level: The flip point, often acts as a magnet.
+ *
+ * Options on futures are priced with Black-76, each strike at its own
+ * settlement implied volatility (volSettle) when one is stored.
  */
 
 import { OptionStrike } from "./analysis";
+import { ValidationError } from "./errors";
+
+export const RISK_FREE_RATE = 0.05;
+
+/** Floor on time to expiry so expiry-day Greeks stay finite (~9 hours) */
+const MIN_TIME_YEARS = 0.001;
 
 // Standard Normal Cumulative Distribution Function
 function cdf(x: number): number {
@@ -38,23 +47,152 @@ function pdf(x: number): number {
     return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
 }
 
-// Calculate d1 for Black-Scholes
-function calculateD1(S: number, K: number, T: number, r: number, sigma: number): number {
-    return (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
+// ============================================
+// Black-76
+// ============================================
+
+export interface OptionGreeks {
+    /** Per 1.00 move in the futures price */
+    callDelta: number;
+    putDelta: number;
+    /** Per 1.00 move, same for calls and puts */
+    gamma: number;
+    /** Per 1 vol point (1%) */
+    vega: number;
+    /** Per calendar day */
+    callTheta: number;
+    putTheta: number;
+    /** Change in delta per 1 vol point, same for calls and puts */
+    vanna: number;
+    /** Change in delta per calendar day */
+    callCharm: number;
+    putCharm: number;
 }
 
-// Calculate Gamma
-function calculateGamma(S: number, K: number, T: number, r: number, sigma: number): number {
-    if (T <= 0 || sigma <= 0) return 0;
-    const d1 = calculateD1(S, K, T, r, sigma);
-    return pdf(d1) / (S * sigma * Math.sqrt(T));
+const ZERO_GREEKS: OptionGreeks = {
+    callDelta: 0,
+    putDelta: 0,
+    gamma: 0,
+    vega: 0,
+    callTheta: 0,
+    putTheta: 0,
+    vanna: 0,
+    callCharm: 0,
+    putCharm: 0,
+};
+
+/**
+ * Black-76 Greeks for a European option on a futures price
+ *
+ * @param F Futures price
+ * @param K Strike
+ * @param T Time to expiry in years
+ * @param r Risk-free rate
+ * @param sigma Implied volatility (0.15 = 15%)
+ */
+export function black76Greeks(F: number, K: number, T: number, r: number, sigma: number): OptionGreeks {
+    if (F <= 0 || K <= 0 || T <= 0 || sigma <= 0) return ZERO_GREEKS;
+
+    const sqrtT = Math.sqrt(T);
+    const d1 = (Math.log(F / K) + 0.5 * sigma * sigma * T) / (sigma * sqrtT);
+    const d2 = d1 - sigma * sqrtT;
+    const df = Math.exp(-r * T);
+    const nd1 = pdf(d1);
+
+    const callPrice = df * (F * cdf(d1) - K * cdf(d2));
+    const putPrice = df * (K * cdf(-d2) - F * cdf(-d1));
+    const decay = -(F * df * nd1 * sigma) / (2 * sqrtT);
+    // Delta drift as time passes from d1 moving toward the money
+    const charmDrift = (df * nd1 * d2) / (2 * T);
+
+    return {
+        callDelta: df * cdf(d1),
+        putDelta: -df * cdf(-d1),
+        gamma: (df * nd1) / (F * sigma * sqrtT),
+        vega: (F * df * nd1 * sqrtT) / 100,
+        callTheta: (decay + r * callPrice) / 365,
+        putTheta: (decay + r * putPrice) / 365,
+        vanna: (-df * nd1 * d2) / sigma / 100,
+        callCharm: (r * df * cdf(d1) + charmDrift) / 365,
+        putCharm: (-r * df * cdf(-d1) + charmDrift) / 365,
+    };
 }
 
+/**
+ * Implied volatility for a strike: its own volSettle, else the nearest
+ * strike that has one, else the fallback
+ */
+export function strikeVolatility(
+    strike: OptionStrike,
+    strikes: OptionStrike[],
+    fallbackIv: number
+): number {
+    if (strike.vol_settle && strike.vol_settle > 0) return strike.vol_settle / 100;
+
+    let nearest: OptionStrike | null = null;
+    for (const s of strikes) {
+        if (!s.vol_settle || s.vol_settle <= 0) continue;
+        if (!nearest || Math.abs(s.strike_price - strike.strike_price) < Math.abs(nearest.strike_price - strike.strike_price)) {
+            nearest = s;
+        }
+    }
+
+    return nearest?.vol_settle ? nearest.vol_settle / 100 : fallbackIv;
+}
+
+// Calculate Gamma (Black-76)
+function calculateGamma(F: number, K: number, T: number, r: number, sigma: number): number {
+    return black76Greeks(F, K, T, r, sigma).gamma;
+}
+
+// ============================================
+// Dealer Positioning
+// ============================================
+
+/**
+ * Which side of the open interest dealers are assumed to hold
+ * - CALLS_LONG_PUTS_SHORT: customers sell calls (overwriting) and buy puts (hedging)
+ * - ALL_SHORT: customers buy every option, dealers are short both sides
+ * - OI_CHANGE: inferred per strike and side from the session's OI change.
+ *   Rising OI is read as customers opening longs (dealers short), falling OI
+ *   as customers writing (dealers long); unchanged OI keeps CALLS_LONG_PUTS_SHORT
+ */
+export type DealerPositioning = "CALLS_LONG_PUTS_SHORT" | "ALL_SHORT" | "OI_CHANGE";
+
+export const DEALER_POSITIONINGS: DealerPositioning[] = ["CALLS_LONG_PUTS_SHORT", "ALL_SHORT", "OI_CHANGE"];
+
+export const DEFAULT_DEALER_POSITIONING: DealerPositioning = "CALLS_LONG_PUTS_SHORT";
+
+/**
+ * Dealer contracts held at a strike under a positioning model (long > 0, short < 0)
+ */
+export function dealerPositions(
+    strike: OptionStrike,
+    positioning: DealerPositioning = DEFAULT_DEALER_POSITIONING
+): { calls: number; puts: number } {
+    switch (positioning) {
+        case "ALL_SHORT":
+            return { calls: -strike.call_oi, puts: -strike.put_oi };
+        case "OI_CHANGE": {
+            const side = (change: number, fallback: number) => (change > 0 ? -1 : change < 0 ? 1 : fallback);
+            return {
+                calls: side(strike.call_oi_change, 1) * strike.call_oi,
+                puts: side(strike.put_oi_change, -1) * strike.put_oi,
+            };
+        }
+        default:
+            return { calls: strike.call_oi, puts: -strike.put_oi };
+    }
+}
 export interface GEXResult {
+    positioning: DealerPositioning;
     totalGex: number;
     totalCallGex: number;
     totalPutGex: number;
+    /** Flip level nearest the current price, null when GEX never changes sign */
     zeroGammaLevel: number | null;
+    /** Every price in the search range where net GEX crosses zero, ascending */
+    zeroGammaLevels: number[];
     gexProfile: Array<{
         strike: number;
         gex: number;
@@ -64,23 +202,90 @@ export interface GEXResult {
     interpretation: string;
 }
 
+/** Zero-gamma search range around the current price */
+const ZERO_GAMMA_RANGE = 0.15;
+/** Grid points scanned for sign changes before refining each one */
+const ZERO_GAMMA_GRID_STEPS = 300;
+const ZERO_GAMMA_MAX_ITERATIONS = 60;
+
+/**
+ * Every root of f in [low, high]: scan a grid for sign changes, then bisect
+ * each bracket. Roots closer together than one grid step can be missed.
+ */
+export function findRoots(
+    f: (x: number) => number,
+    low: number,
+    high: number,
+    steps: number = ZERO_GAMMA_GRID_STEPS,
+    tolerance: number = 0.01
+): number[] {
+    if (!(high > low) || steps < 1) return [];
+
+    const roots: number[] = [];
+    const stepSize = (high - low) / steps;
+    let x0 = low;
+    let f0 = f(x0);
+
+    for (let i = 1; i <= steps; i++) {
+        const x1 = low + i * stepSize;
+        const f1 = f(x1);
+
+        if (f0 === 0) {
+            roots.push(x0);
+        } else if (f0 * f1 < 0) {
+            let a = x0;
+            let b = x1;
+            let fa = f0;
+            for (let iter = 0; iter < ZERO_GAMMA_MAX_ITERATIONS && b - a > tolerance; iter++) {
+                const mid = (a + b) / 2;
+                const fm = f(mid);
+                if (fm === 0) {
+                    a = b = mid;
+                    break;
+                }
+                if (fa * fm < 0) {
+                    b = mid;
+                } else {
+                    a = mid;
+                    fa = fm;
+                }
+            }
+            roots.push((a + b) / 2);
+        }
+
+        x0 = x1;
+        f0 = f1;
+    }
+
+    if (f0 === 0) roots.push(x0);
+    return roots;
+}
+
 /**
  * Calculate Gamma Exposure (GEX)
- * 
+ *
+ * GEX per strike = Gamma * dealer contracts * Price * contractMultiplier,
+ * with the dealer side of the OI taken from the positioning model
+ *
  * @param strikes Option strikes data
  * @param currentPrice Current underlying price
- * @param daysToExpiry Days until expiration (default 30 if unknown)
- * @param iv Implied Volatility (default 0.15 or 15% if unknown)
+ * @param daysToExpiry Days until expiration (default 30 if unknown; see lib/expiry-calendar)
+ * @param iv Implied Volatility for strikes without volSettle (default 0.15 or 15%)
+ * @param contractMultiplier Units per contract (100 oz for gold)
+ * @param positioning Dealer positioning model (default calls long / puts short)
  */
 export function calculateGEX(
     strikes: OptionStrike[],
     currentPrice: number,
     daysToExpiry: number = 30,
-    iv: number = 0.15
+    iv: number = 0.15,
+    contractMultiplier: number = 100,
+    positioning: DealerPositioning = DEFAULT_DEALER_POSITIONING
 ): GEXResult {
-    const r = 0.05; // Risk-free rate (5%)
-    const T = Math.max(daysToExpiry / 365, 0.001); // Time in years
-    const sigma = iv;
+    const r = RISK_FREE_RATE;
+    const T = Math.max(daysToExpiry / 365, MIN_TIME_YEARS); // Time in years
+    const sigmas = strikes.map((s) => strikeVolatility(s, strikes, iv));
+    const positions = strikes.map((s) => dealerPositions(s, positioning));
 
     let totalGex = 0;
     let totalCallGex = 0;
@@ -88,45 +293,12 @@ export function calculateGEX(
     const gexProfile = [];
 
     // 1. Calculate GEX for each strike
-    for (const s of strikes) {
+    for (const [i, s] of strikes.entries()) {
         const K = s.strike_price;
-        const gamma = calculateGamma(currentPrice, K, T, r, sigma);
-
-        // Call GEX = Gamma * Call OI * SpotPrice * 100 (Contract Size)
-        // We assume MM is Short Call -> Long Gamma (Wait, usually MM is Short Option -> Short Gamma?)
-        // Convention:
-        // - Call OI contributes POSITIVE GEX (MM Long Call / Short Future or MM Short Call / Long Future?)
-        // Standard GEX Model:
-        // - Calls: MM is Short Call -> MM is Short Gamma? NO.
-        // - Standard assumption: Dealers are Long Calls and Short Puts? OR Dealers are Short Everything?
-
-        // Let's use the standard SqueezeMetrics / SpotGamma convention:
-        // - Dealer Long Call -> Positive Gamma
-        // - Dealer Short Put -> Positive Gamma
-        // BUT usually customers buy calls (Dealer Short Call -> Negative Gamma)
-        // and customers buy puts (Dealer Short Put -> Positive Gamma? No, Dealer Short Put -> Positive Delta, Negative Gamma?)
-
-        // Let's stick to the most common interpretation for "GEX Charts":
-        // Call OI -> Positive GEX contribution (Dealers Long Calls to hedge?)
-        // Put OI -> Negative GEX contribution (Dealers Short Puts?)
-
-        // Actually, the widely accepted formula is:
-        // GEX = Gamma * (Call OI - Put OI) * ContractSize * SpotPrice * 0.01
-
-        // Let's refine:
-        // If Customer Buys Call -> Dealer Shorts Call -> Dealer is Short Gamma (Negative GEX)
-        // If Customer Buys Put -> Dealer Shorts Put -> Dealer is Short Gamma (Negative GEX)
-        // Wait, this implies ALL OI is negative gamma? That's not right.
-
-        // Re-evaluating standard convention (e.g. Tier1Alpha):
-        // Call OI is treated as Positive Gamma (Dealers Long)
-        // Put OI is treated as Negative Gamma (Dealers Short)
-        // This is a simplification but works for identifying "Sticky" vs "Volatile" zones.
-
-        // Formula: GEX = Gamma * (CallOI - PutOI) * Spot * 100
+        const gamma = calculateGamma(currentPrice, K, T, r, sigmas[i]);
 
-        const callGex = gamma * s.call_oi * currentPrice * 100;
-        const putGex = gamma * s.put_oi * currentPrice * 100 * -1; // Put is negative
+        const callGex = gamma * positions[i].calls * currentPrice * contractMultiplier;
+        const putGex = gamma * positions[i].puts * currentPrice * contractMultiplier;
 
         const netGex = callGex + putGex;
 
@@ -142,41 +314,34 @@ export function calculateGEX(
         });
     }
 
-    // 2. Find Zero Gamma Level (Flip Point)
-    // Simple interpolation where GEX crosses 0
+    gexProfile.sort((a, b) => a.strike - b.strike);
+
+    // 2. Zero Gamma Levels: prices where net GEX, recomputed at that price, crosses zero
+    let zeroGammaLevels: number[] = [];
     let zeroGammaLevel: number | null = null;
 
-    if (currentPrice > 0) {
-        // Sort by strike just in case
-        gexProfile.sort((a, b) => a.strike - b.strike);
-
-        // Let's do a quick search around current price (+/- 10%)
-        const searchRange = currentPrice * 0.1;
-        const startPrice = currentPrice - searchRange;
-        const endPrice = currentPrice + searchRange;
-        const steps = 20;
-        const stepSize = Math.max((endPrice - startPrice) / steps, 0.01); // Ensure stepSize is positive
-
-        let minGexAbs = Infinity;
-        let bestPrice = currentPrice;
-
-        // Safety break to prevent infinite loops
-        let iterations = 0;
-        for (let p = startPrice; p <= endPrice; p += stepSize) {
-            if (iterations++ > 100) break;
-
-            let tempGex = 0;
-            for (const s of strikes) {
-                const g = calculateGamma(p, s.strike_price, T, r, sigma);
-                tempGex += g * (s.call_oi - s.put_oi) * p * 100;
+    if (currentPrice > 0 && strikes.length > 0) {
+        const gexAt = (price: number) => {
+            let total = 0;
+            for (const [i, s] of strikes.entries()) {
+                const net = positions[i].calls + positions[i].puts;
+                if (net === 0) continue;
+                total += calculateGamma(price, s.strike_price, T, r, sigmas[i]) * net * price * contractMultiplier;
             }
-
-            if (Math.abs(tempGex) < minGexAbs) {
-                minGexAbs = Math.abs(tempGex);
-                bestPrice = p;
+            return total;
+        };
+
+        zeroGammaLevels = findRoots(
+            gexAt,
+            currentPrice * (1 - ZERO_GAMMA_RANGE),
+            currentPrice * (1 + ZERO_GAMMA_RANGE)
+        ).map((level) => Math.round(level * 100) / 100);
+
+        for (const level of zeroGammaLevels) {
+            if (zeroGammaLevel === null || Math.abs(level - currentPrice) < Math.abs(zeroGammaLevel - currentPrice)) {
+                zeroGammaLevel = level;
             }
         }
-        zeroGammaLevel = bestPrice;
     }
 
     // 3. Interpretation
@@ -186,13 +351,159 @@ export function calculateGEX(
     } else {
         interpretation = "Negative GEX: ตลาดมีความผันผวนสูง ราคาอาจวิ่งแรงตามเทรนด์ (Trend Following)";
     }
+    if (zeroGammaLevel === null) {
+        interpretation += " | ไม่มีจุด Zero Gamma ในช่วง ±15% ของราคา";
+    }
 
     return {
+        positioning,
         totalGex,
         totalCallGex,
         totalPutGex,
         zeroGammaLevel,
+        zeroGammaLevels,
         gexProfile,
         interpretation
     };
 }
+
+/**
+ * GEX under every positioning model, to compare interpretations side by side
+ */
+export function compareGEXModels(
+    strikes: OptionStrike[],
+    currentPrice: number,
+    daysToExpiry: number = 30,
+    iv: number = 0.15,
+    contractMultiplier: number = 100
+): Array<Omit<GEXResult, "gexProfile">> {
+    return DEALER_POSITIONINGS.map((positioning) => {
+        const { gexProfile: _profile, ...result } = calculateGEX(
+            strikes,
+            currentPrice,
+            daysToExpiry,
+            iv,
+            contractMultiplier,
+            positioning
+        );
+        return result;
+    });
+}
+
+/**
+ * Parse a positioning parameter; missing means the default model
+ */
+export function resolveDealerPositioning(value: string | null | undefined): DealerPositioning {
+    if (!value) return DEFAULT_DEALER_POSITIONING;
+
+    const normalized = value.trim().toUpperCase().replace(/[-\s]/g, "_");
+    const match = DEALER_POSITIONINGS.find((p) => p === normalized);
+    if (!match) {
+        throw new ValidationError(`ไม่รู้จัก positioning: ${value}`, {
+            positioning: DEALER_POSITIONINGS.join(" | "),
+        });
+    }
+    return match;
+}
+
+// ============================================
+// Dealer Exposure (Delta / Gamma / Vanna / Charm)
+// ============================================
+
+export interface StrikeExposure {
+    strike: number;
+    /** Volatility used for this strike (0.15 = 15%) */
+    iv: number;
+    greeks: OptionGreeks;
+    /** Dealer delta in underlying dollars */
+    deltaExposure: number;
+    /** Dollar delta dealers must trade per 1% move in the futures */
+    gammaExposure: number;
+    /** Dollar delta change per 1 vol point */
+    vannaExposure: number;
+    /** Dollar delta change per day */
+    charmExposure: number;
+}
+
+export interface DealerExposure {
+    positioning: DealerPositioning;
+    daysToExpiry: number;
+    contractMultiplier: number;
+    totals: {
+        deltaExposure: number;
+        gammaExposure: number;
+        vannaExposure: number;
+        charmExposure: number;
+    };
+    profile: StrikeExposure[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Per-strike Black-76 Greeks and dealer exposure under a positioning model
+ * (default long call OI, short put OI)
+ */
+export function calculateDealerExposure(
+    strikes: OptionStrike[],
+    futuresPrice: number,
+    options: {
+        daysToExpiry?: number;
+        fallbackIv?: number;
+        contractMultiplier?: number;
+        positioning?: DealerPositioning;
+    } = {}
+): DealerExposure {
+    const {
+        daysToExpiry = 30,
+        fallbackIv = 0.15,
+        contractMultiplier = 100,
+        positioning = DEFAULT_DEALER_POSITIONING,
+    } = options;
+    const T = Math.max(daysToExpiry / 365, MIN_TIME_YEARS);
+    const notional = contractMultiplier * futuresPrice;
+
+    const totals = { deltaExposure: 0, gammaExposure: 0, vannaExposure: 0, charmExposure: 0 };
+
+    const profile = strikes.map((s): StrikeExposure => {
+        const iv = strikeVolatility(s, strikes, fallbackIv);
+        const greeks = black76Greeks(futuresPrice, s.strike_price, T, RISK_FREE_RATE, iv);
+        const { calls, puts } = dealerPositions(s, positioning);
+        const net = calls + puts;
+
+        const exposure = {
+            deltaExposure: (calls * greeks.callDelta + puts * greeks.putDelta) * notional,
+            gammaExposure: net * greeks.gamma * notional * futuresPrice * 0.01,
+            vannaExposure: net * greeks.vanna * notional,
+            charmExposure: (calls * greeks.callCharm + puts * greeks.putCharm) * notional,
+        };
+
+        totals.deltaExposure += exposure.deltaExposure;
+        totals.gammaExposure += exposure.gammaExposure;
+        totals.vannaExposure += exposure.vannaExposure;
+        totals.charmExposure += exposure.charmExposure;
+
+        return {
+            strike: s.strike_price,
+            iv: Math.round(iv * 10000) / 10000,
+            greeks,
+            deltaExposure: round2(exposure.deltaExposure),
+            gammaExposure: round2(exposure.gammaExposure),
+            vannaExposure: round2(exposure.vannaExposure),
+            charmExposure: round2(exposure.charmExposure),
+        };
+    });
+
+    return {
+        positioning,
+        daysToExpiry,
+        contractMultiplier,
+        totals: {
+            deltaExposure: round2(totals.deltaExposure),
+            gammaExposure: round2(totals.gammaExposure),
+            vannaExposure: round2(totals.vannaExposure),
+            charmExposure: round2(totals.charmExposure),
+        },
+        profile,
+    };
+}
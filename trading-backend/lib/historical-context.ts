@@ -6,6 +6,7 @@
  */
 
 import prisma from "./db";
+import { productWhere } from "./products";
 
 // ============================================
 // Types
@@ -79,12 +80,14 @@ export interface MarketConditionHistory {
  */
 export async function getRecentSignals(
   days = 7,
-  limit = 20
+  limit = 20,
+  product?: string | null
 ): Promise<HistoricalSignal[]> {
   const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
   const signals = await prisma.signal.findMany({
     where: {
+      ...productWhere(product),
       createdAt: { gte: since },
     },
     orderBy: { createdAt: "desc" },
@@ -110,7 +113,7 @@ export async function getRecentSignals(
 /**
  * Get signal distribution over time period
  */
-export async function getSignalDistribution(days = 7): Promise<{
+export async function getSignalDistribution(days = 7, product?: string | null): Promise<{
   buy: number;
   sell: number;
   neutral: number;
@@ -119,7 +122,7 @@ export async function getSignalDistribution(days = 7): Promise<{
   const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
   const signals = await prisma.signal.findMany({
-    where: { createdAt: { gte: since } },
+    where: { ...productWhere(product), createdAt: { gte: since } },
     select: { type: true },
   });
 
@@ -146,7 +149,7 @@ export async function getSignalDistribution(days = 7): Promise<{
 /**
  * Get PCR history and trends
  */
-export async function getPCRHistory(): Promise<{
+export async function getPCRHistory(product?: string | null): Promise<{
   current: number;
   avg7Days: number;
   avg30Days: number;
@@ -155,6 +158,7 @@ export async function getPCRHistory(): Promise<{
 }> {
   const signals = await prisma.signal.findMany({
     where: {
+      ...productWhere(product),
       putCallRatio: { not: null },
     },
     orderBy: { createdAt: "desc" },
@@ -219,13 +223,14 @@ export async function getPCRHistory(): Promise<{
 /**
  * Get Max Pain strike history
  */
-export async function getMaxPainHistory(): Promise<{
+export async function getMaxPainHistory(product?: string | null): Promise<{
   current: number;
   changes: { strike: number; date: Date }[];
   trend: "MOVING_UP" | "MOVING_DOWN" | "STABLE";
 }> {
   const signals = await prisma.signal.findMany({
     where: {
+      ...productWhere(product),
       maxPainStrike: { not: null },
     },
     orderBy: { createdAt: "desc" },
@@ -291,7 +296,8 @@ export async function getMaxPainHistory(): Promise<{
 export async function findSimilarConditions(
   currentPCR: number,
   currentMaxPain: number,
-  currentPrice: number
+  currentPrice: number,
+  product?: string | null
 ): Promise<{
   found: number;
   avgPriceChange: number;
@@ -304,6 +310,7 @@ export async function findSimilarConditions(
   
   const signals = await prisma.signal.findMany({
     where: {
+      ...productWhere(product),
       putCallRatio: { gte: pcrMin, lte: pcrMax },
     },
     orderBy: { createdAt: "desc" },
@@ -354,12 +361,14 @@ export async function findSimilarConditions(
 // ============================================
 
 /**
- * Build complete historical context for AI analysis
+ * Build complete historical context for AI analysis, from signals of the
+ * given product only (all products when omitted)
  */
 export async function buildHistoricalContext(
   currentPCR: number,
   currentMaxPain: number,
-  currentPrice: number
+  currentPrice: number,
+  product?: string | null
 ): Promise<MarketConditionHistory> {
   // Fetch all data in parallel
   const [
@@ -369,11 +378,11 @@ export async function buildHistoricalContext(
     maxPainHistory,
     similarConditions,
   ] = await Promise.all([
-    getRecentSignals(7, 10),
-    getSignalDistribution(7),
-    getPCRHistory(),
-    getMaxPainHistory(),
-    findSimilarConditions(currentPCR, currentMaxPain, currentPrice),
+    getRecentSignals(7, 10, product),
+    getSignalDistribution(7, product),
+    getPCRHistory(product),
+    getMaxPainHistory(product),
+    findSimilarConditions(currentPCR, currentMaxPain, currentPrice, product),
   ]);
 
   // Determine signal trend
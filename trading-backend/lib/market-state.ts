@@ -0,0 +1,245 @@
+/**
+ * Market State
+ *
+ * The one place that decides which snapshots describe the market: the
+ * newest OI snapshot (primary) plus the newest volume and OI change
+ * snapshots of the same product and expiry extracted within a maximum skew
+ * of it. The trio is merged through SnapshotAnalytics, the price comes from
+ * the most recently extracted snapshot that has one, and every source is
+ * reported with its age and skew so callers can see what they are using.
+ * For a source missing from the trio, the newest snapshot of that type of
+ * any product and expiry is described too, so the data quality check can
+ * tell a wrong contract or an out-of-window upload from no upload at all.
+ * The previous OI snapshot of the expiry is loaded too, for the
+ * snapshot-to-snapshot OI diff factors and the skew change.
+ */
+
+import type { Prisma, OiSnapshot, IntradayVolumeSnapshot, OiChangeSnapshot } from "@prisma/client";
+import prisma from "./db";
+import {
+  DEFAULT_MAX_SKEW_MS,
+  findGroupPartners,
+  getSnapshotAnalytics,
+  type SnapshotAnalytics,
+} from "./snapshot-analytics";
+import { NotFoundError } from "./errors";
+import { toOptionStrike, type MarketSkew, type OptionStrike } from "./analysis";
+import { analyzeSnapshotVolatility } from "./volatility";
+import { productWhere } from "./products";
+import type { DataType } from "./types";
+
+// ============================================
+// Types
+// ============================================
+
+export interface SourceStatus {
+  type: DataType;
+  present: boolean;
+  snapshotId: string | null;
+  product: string | null;
+  expiry: string | null;
+  extractedAt: string | null;
+  futurePrice: number | null;
+  /** Seconds from extraction to asOf */
+  ageSeconds: number | null;
+  /** Seconds from the OI snapshot's extraction (negative = earlier) */
+  skewSeconds: number | null;
+}
+
+export interface MarketState {
+  product: string;
+  expiry: string;
+  asOf: Date;
+  /** Newest extraction in the trio */
+  extractedAt: Date;
+  futurePrice: number;
+  /** Source the price was taken from */
+  priceSource: DataType | null;
+  maxSkewMs: number;
+  /** Snapshot rows without strikes */
+  snapshots: {
+    oi: OiSnapshot;
+    volume: IntradayVolumeSnapshot | null;
+    oiChange: OiChangeSnapshot | null;
+  };
+  sources: SourceStatus[];
+  /**
+   * Newest volume / OI change snapshot of any product and expiry, up to the
+   * end of the OI window, for each source missing from the trio
+   */
+  latestSources: SourceStatus[];
+  /** Merged strikes, walls, PCR, max pain, VWAP, GEX and expected move */
+  analytics: SnapshotAnalytics;
+  /** OI strikes of the OI snapshot before this one (same expiry), if any */
+  previousStrikes: OptionStrike[] | null;
+  /** Risk reversal of the OI snapshot and its change since the previous one */
+  skew: MarketSkew;
+}
+
+export interface MarketStateOptions {
+  /** Widest extraction gap allowed between OI and the other sources */
+  maxSkewMs?: number;
+  /** Reference time for source ages (default now); no source extracted after it is used */
+  asOf?: Date;
+}
+
+// ============================================
+// Sources
+// ============================================
+
+function describeSource(
+  type: DataType,
+  snapshot: { id: string; product: string; expiry: string; extractedAt: Date; futurePrice: number | null } | null,
+  anchor: Date,
+  asOf: Date
+): SourceStatus {
+  if (!snapshot) {
+    return {
+      type,
+      present: false,
+      snapshotId: null,
+      product: null,
+      expiry: null,
+      extractedAt: null,
+      futurePrice: null,
+      ageSeconds: null,
+      skewSeconds: null,
+    };
+  }
+
+  return {
+    type,
+    present: true,
+    snapshotId: snapshot.id,
+    product: snapshot.product,
+    expiry: snapshot.expiry,
+    extractedAt: snapshot.extractedAt.toISOString(),
+    futurePrice: snapshot.futurePrice,
+    ageSeconds: Math.round((asOf.getTime() - snapshot.extractedAt.getTime()) / 1000),
+    skewSeconds: Math.round((snapshot.extractedAt.getTime() - anchor.getTime()) / 1000),
+  };
+}
+
+/**
+ * Newest OI snapshot of the same product and expiry extracted before the
+ * given one, with its strikes
+ */
+async function loadPreviousOi(oi: OiSnapshot) {
+  return prisma.oiSnapshot.findFirst({
+    where: {
+      ...productWhere(oi.product),
+      expiry: oi.expiry,
+      extractedAt: { lt: oi.extractedAt },
+    },
+    orderBy: { extractedAt: "desc" },
+    include: { strikes: true },
+  });
+}
+
+/**
+ * Newest snapshot of a type extracted at or before the given time,
+ * regardless of product and expiry (no strikes)
+ */
+async function loadLatestSnapshot(type: DataType, before: Date) {
+  const args = { where: { extractedAt: { lte: before } }, orderBy: { extractedAt: "desc" as const } };
+  if (type === "volume") return prisma.intradayVolumeSnapshot.findFirst(args);
+  if (type === "oichange") return prisma.oiChangeSnapshot.findFirst(args);
+  return prisma.oiSnapshot.findFirst(args);
+}
+
+// ============================================
+// Market State
+// ============================================
+
+async function buildMarketState(oi: OiSnapshot, options: MarketStateOptions): Promise<MarketState> {
+  const maxSkewMs = options.maxSkewMs ?? DEFAULT_MAX_SKEW_MS;
+  const asOf = options.asOf ?? new Date();
+
+  // Live state may take partners extracted just after OI; a replay as of a
+  // past time must not
+  const { volume, oiChange } = await findGroupPartners(oi, maxSkewMs, options.asOf);
+  const [analytics, previous] = await Promise.all([
+    getSnapshotAnalytics(oi, { volume, oiChange }),
+    loadPreviousOi(oi),
+  ]);
+  const previousStrikes = previous && previous.strikes.length > 0 ? previous.strikes.map(toOptionStrike) : null;
+
+  // Smile from the merged strikes (volSettle of the OI snapshot where it lists the strike)
+  const volatility = analyzeSnapshotVolatility(
+    "oi",
+    { ...oi, futurePrice: oi.futurePrice || analytics.futurePrice, strikes: analytics.strikes },
+    previous
+  );
+
+  const sources = [
+    describeSource("oi", oi, oi.extractedAt, asOf),
+    describeSource("volume", volume, oi.extractedAt, asOf),
+    describeSource("oichange", oiChange, oi.extractedAt, asOf),
+  ];
+
+  const windowEnd = new Date(Math.min(oi.extractedAt.getTime() + maxSkewMs, asOf.getTime()));
+  const latestSources = await Promise.all(
+    sources
+      .filter((s) => !s.present)
+      .map(async (s) => describeSource(s.type, await loadLatestSnapshot(s.type, windowEnd), oi.extractedAt, asOf))
+  ).then((described) => described.filter((s) => s.present));
+
+  // Same rule SnapshotAnalytics prices with: newest snapshot that has a price
+  const priced = sources
+    .filter((s) => s.present && s.futurePrice && s.futurePrice > 0)
+    .sort((a, b) => (b.extractedAt as string).localeCompare(a.extractedAt as string))[0];
+
+  const newest = [oi, volume, oiChange]
+    .filter((s): s is NonNullable<typeof s> => !!s)
+    .reduce((latest, s) => (s.extractedAt > latest ? s.extractedAt : latest), oi.extractedAt);
+
+  return {
+    product: oi.product,
+    expiry: oi.expiry,
+    asOf,
+    extractedAt: newest,
+    futurePrice: analytics.futurePrice,
+    priceSource: priced?.type ?? null,
+    maxSkewMs,
+    snapshots: { oi, volume, oiChange },
+    sources,
+    latestSources,
+    analytics,
+    previousStrikes,
+    skew: {
+      riskReversal: volatility.skew.riskReversal,
+      riskReversalChange: volatility.change?.riskReversal ?? null,
+    },
+  };
+}
+
+/**
+ * Market state from the newest OI snapshot matching where, or null when
+ * there is none
+ */
+export async function getMarketState(
+  where: Prisma.OiSnapshotWhereInput,
+  options: MarketStateOptions = {}
+): Promise<MarketState | null> {
+  const oi = await prisma.oiSnapshot.findFirst({
+    where,
+    orderBy: { extractedAt: "desc" },
+  });
+
+  return oi ? buildMarketState(oi, options) : null;
+}
+
+/**
+ * Market state anchored on a given OI snapshot (e.g. to replay the past)
+ */
+export async function getMarketStateForSnapshot(
+  oiSnapshotId: string,
+  options: MarketStateOptions = {}
+): Promise<MarketState> {
+  const oi = await prisma.oiSnapshot.findUnique({ where: { id: oiSnapshotId } });
+  if (!oi) {
+    throw new NotFoundError("OI Snapshot", { oiSnapshotId });
+  }
+
+  return buildMarketState(oi, options);
+}
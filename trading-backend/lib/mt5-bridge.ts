@@ -0,0 +1,454 @@
+/**
+ * MT5 Bridge
+ *
+ * Command queue and execution reports between the journal (MT5Order) and
+ * an MT5 Expert Advisor. The EA polls for commands (place, modify, cancel,
+ * close) and reports fills and closes back, which are mapped onto the
+ * matching MT5Order so the journal reflects real execution.
+ */
+
+import { timingSafeEqual } from "crypto";
+import prisma from "./db";
+import { calculateProfitLoss, type OrderEvent } from "./order-monitor";
+import { NotFoundError, UnauthorizedError, ValidationError } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+export type BridgeCommandType = "PLACE" | "MODIFY" | "CANCEL" | "CLOSE";
+
+export type BridgeReportType = "FILLED" | "REJECTED" | "MODIFIED" | "CANCELLED" | "CLOSED";
+
+export interface BridgeCommandPayload {
+  symbol: string;
+  orderType: "BUY" | "SELL";
+  volume: number;
+  price?: number;
+  sl?: number;
+  tp?: number;
+  /** Price at which the EA should move SL to the entry price (TP1) */
+  breakevenAt?: number;
+  ticket?: string | null;
+  comment: string;
+}
+
+export interface BridgeCommand {
+  id: string;
+  orderId: string;
+  type: BridgeCommandType;
+  attempt: number;
+  payload: BridgeCommandPayload;
+}
+
+export interface BridgeReport {
+  type: BridgeReportType;
+  /** MT5Order id (the EA sends back the command comment) */
+  orderId?: string;
+  commandId?: string;
+  ticket?: string | number;
+  price?: number;
+  sl?: number;
+  tp?: number;
+  /** Profit in account currency as reported by the terminal */
+  profit?: number;
+  /** Why a position closed */
+  reason?: "SL" | "TP" | "MANUAL";
+  /** ISO string or unix seconds */
+  time?: string | number;
+  error?: string;
+}
+
+export type BridgeOrder = {
+  id: string;
+  symbol: string;
+  orderType: string;
+  lotSize: number;
+  entryPrice: number;
+  stopLoss: number;
+  takeProfit1: number;
+  takeProfit2: number | null;
+  takeProfit3: number | null;
+  moveSlToBreakeven: boolean;
+  ticket: string | null;
+};
+
+// ============================================
+// Constants
+// ============================================
+
+/**
+ * A SENT command without a report is handed out again after this long.
+ * PLACE is never redelivered: the EA may have opened the position and lost
+ * the report, and a second delivery would open another one.
+ */
+const REDELIVER_AFTER_MS = 60 * 1000;
+
+/** Give up on a command after this many deliveries */
+const MAX_ATTEMPTS = 5;
+
+/** Commands that are safe to deliver more than once */
+const REDELIVERABLE: BridgeCommandType[] = ["MODIFY", "CANCEL", "CLOSE"];
+
+const REPORT_ACKS: Record<BridgeReportType, BridgeCommandType> = {
+  FILLED: "PLACE",
+  REJECTED: "PLACE",
+  MODIFIED: "MODIFY",
+  CANCELLED: "CANCEL",
+  CLOSED: "CLOSE",
+};
+
+// ============================================
+// Authentication
+// ============================================
+
+/**
+ * Check the EA's bearer token against MT5_BRIDGE_TOKEN.
+ * The bridge is disabled when the token is not configured.
+ */
+export function assertBridgeAuthorized(request: Request): void {
+  const expected = process.env.MT5_BRIDGE_TOKEN;
+  if (!expected) {
+    throw new UnauthorizedError("MT5 Bridge ยังไม่ได้ตั้งค่า MT5_BRIDGE_TOKEN");
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const token = header.replace(/^Bearer\s+/i, "").trim();
+
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    throw new UnauthorizedError("MT5 Bridge token ไม่ถูกต้อง");
+  }
+}
+
+// ============================================
+// Command Queue
+// ============================================
+
+/** Last take-profit level the order has; the terminal position carries only one */
+function finalTakeProfit(order: BridgeOrder): number {
+  return order.takeProfit3 ?? order.takeProfit2 ?? order.takeProfit1;
+}
+
+function basePayload(order: BridgeOrder): BridgeCommandPayload {
+  return {
+    symbol: order.symbol,
+    orderType: order.orderType as "BUY" | "SELL",
+    volume: order.lotSize,
+    ticket: order.ticket,
+    comment: order.id,
+  };
+}
+
+/**
+ * Queue a command for the EA
+ */
+export async function queueBridgeCommand(
+  order: BridgeOrder,
+  type: BridgeCommandType,
+  overrides: Partial<BridgeCommandPayload> = {}
+): Promise<string> {
+  const payload: BridgeCommandPayload = { ...basePayload(order), ...overrides };
+
+  if (type === "PLACE") {
+    payload.price = order.entryPrice;
+    payload.sl = order.stopLoss;
+    payload.tp = finalTakeProfit(order);
+    if (order.moveSlToBreakeven) payload.breakevenAt = order.takeProfit1;
+  } else if (type === "MODIFY") {
+    payload.sl = overrides.sl ?? order.stopLoss;
+    payload.tp = overrides.tp ?? finalTakeProfit(order);
+  }
+
+  const command = await prisma.mT5BridgeCommand.create({
+    data: {
+      orderId: order.id,
+      type,
+      payload: payload as unknown as object,
+    },
+  });
+
+  if (type === "PLACE") {
+    await prisma.mT5Order.update({
+      where: { id: order.id },
+      data: { bridgeStatus: "QUEUED", requestedPrice: order.entryPrice },
+    });
+  }
+
+  return command.id;
+}
+
+/**
+ * Copy a command failure onto its order, so the journal doesn't keep
+ * showing a command that will never be executed as QUEUED
+ */
+async function recordCommandFailure(orderId: string, type: string, error: string): Promise<void> {
+  const order = await prisma.mT5Order.findUnique({ where: { id: orderId }, select: { notes: true } });
+  if (!order) return;
+
+  await prisma.mT5Order.update({
+    where: { id: orderId },
+    data: {
+      bridgeStatus: "FAILED",
+      notes: [order.notes, `MT5 ${type} failed: ${error}`].filter(Boolean).join(" | "),
+    },
+  });
+}
+
+/**
+ * Hand out queued commands (oldest first) and mark them SENT.
+ * Unacknowledged commands are redelivered, then FAILED after MAX_ATTEMPTS;
+ * an unacknowledged PLACE fails without being redelivered.
+ */
+export async function pollBridgeCommands(limit = 20): Promise<BridgeCommand[]> {
+  const redeliverBefore = new Date(Date.now() - REDELIVER_AFTER_MS);
+
+  const expired = await prisma.mT5BridgeCommand.findMany({
+    where: {
+      status: "SENT",
+      sentAt: { lt: redeliverBefore },
+      OR: [
+        { type: { notIn: REDELIVERABLE } },
+        { attempts: { gte: MAX_ATTEMPTS } },
+      ],
+    },
+  });
+
+  for (const command of expired) {
+    const error = command.type === "PLACE"
+      ? "EA did not report back (PLACE is not redelivered, check the terminal)"
+      : "EA did not report back";
+    await prisma.mT5BridgeCommand.update({
+      where: { id: command.id },
+      data: { status: "FAILED", error },
+    });
+    await recordCommandFailure(command.orderId, command.type, error);
+  }
+
+  const rows = await prisma.mT5BridgeCommand.findMany({
+    where: {
+      OR: [
+        { status: "QUEUED" },
+        { status: "SENT", type: { in: REDELIVERABLE }, sentAt: { lt: redeliverBefore } },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  const now = new Date();
+  const commands: BridgeCommand[] = [];
+
+  for (const row of rows) {
+    await prisma.mT5BridgeCommand.update({
+      where: { id: row.id },
+      data: { status: "SENT", sentAt: now, attempts: { increment: 1 } },
+    });
+
+    commands.push({
+      id: row.id,
+      orderId: row.orderId,
+      type: row.type as BridgeCommandType,
+      attempt: row.attempts + 1,
+      payload: row.payload as unknown as BridgeCommandPayload,
+    });
+  }
+
+  return commands;
+}
+
+// ============================================
+// Execution Reports
+// ============================================
+
+function parseReportTime(time: BridgeReport["time"]): Date {
+  if (time === undefined || time === null || time === "") return new Date();
+  const date = typeof time === "number" ? new Date(time * 1000) : new Date(time);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+async function findReportOrder(report: BridgeReport) {
+  if (report.orderId) {
+    return prisma.mT5Order.findUnique({ where: { id: report.orderId } });
+  }
+
+  if (report.commandId) {
+    const command = await prisma.mT5BridgeCommand.findUnique({ where: { id: report.commandId } });
+    if (command) return prisma.mT5Order.findUnique({ where: { id: command.orderId } });
+  }
+
+  if (report.ticket !== undefined) {
+    return prisma.mT5Order.findFirst({
+      where: { ticket: String(report.ticket), executionMode: "BRIDGE" },
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Mark the command(s) this report answers as ACKED (or FAILED on rejection)
+ */
+async function acknowledgeCommands(orderId: string, report: BridgeReport, at: Date): Promise<void> {
+  const data = {
+    status: report.type === "REJECTED" ? "FAILED" : "ACKED",
+    ackedAt: at,
+    error: report.error || null,
+  };
+
+  if (report.commandId) {
+    await prisma.mT5BridgeCommand.updateMany({ where: { id: report.commandId }, data });
+    return;
+  }
+
+  await prisma.mT5BridgeCommand.updateMany({
+    where: { orderId, type: REPORT_ACKS[report.type], status: { in: ["QUEUED", "SENT"] } },
+    data,
+  });
+}
+
+/**
+ * Apply one EA report to its MT5Order. Returns events to notify on.
+ */
+export async function applyBridgeReport(report: BridgeReport): Promise<OrderEvent[]> {
+  if (!report || !REPORT_ACKS[report.type]) {
+    throw new ValidationError("ประเภท report ไม่ถูกต้อง", {
+      type: "FILLED | REJECTED | MODIFIED | CANCELLED | CLOSED",
+    });
+  }
+
+  const order = await findReportOrder(report);
+  if (!order) {
+    throw new NotFoundError("ออเดอร์", {
+      orderId: report.orderId,
+      commandId: report.commandId,
+      ticket: report.ticket,
+    });
+  }
+
+  const at = parseReportTime(report.time);
+
+  // A rejected MODIFY / CANCEL / CLOSE leaves the order as it was
+  const command = report.commandId
+    ? await prisma.mT5BridgeCommand.findUnique({ where: { id: report.commandId } })
+    : null;
+  if (report.type === "REJECTED" && command && command.type !== "PLACE") {
+    await recordCommandFailure(order.id, command.type, report.error || "unknown");
+    await acknowledgeCommands(order.id, report, at);
+    return [];
+  }
+
+  const sign = order.orderType === "BUY" ? 1 : -1;
+  const ticket = report.ticket !== undefined ? String(report.ticket) : order.ticket;
+
+  const base = {
+    orderId: order.id,
+    symbol: order.symbol,
+    orderType: order.orderType as "BUY" | "SELL",
+    lotSize: order.lotSize,
+    entryPrice: order.entryPrice,
+    price: report.price ?? order.lastPrice ?? order.entryPrice,
+    at,
+  };
+
+  let data: Record<string, unknown> = {};
+  const events: OrderEvent[] = [];
+
+  switch (report.type) {
+    case "FILLED": {
+      if (!(report.price && report.price > 0)) {
+        throw new ValidationError("FILLED ต้องมีราคา", { price: String(report.price) });
+      }
+      // A second fill would replace the tracked position with an untracked one
+      if (order.ticket) {
+        throw new ValidationError("ออเดอร์นี้ fill แล้ว", {
+          ticket: `existing ${order.ticket}, reported ${report.ticket ?? "-"}`,
+        });
+      }
+      const requested = order.requestedPrice ?? order.entryPrice;
+      data = {
+        status: "OPEN",
+        bridgeStatus: "FILLED",
+        ticket,
+        requestedPrice: requested,
+        fillPrice: report.price,
+        entryPrice: report.price,
+        entryTime: at,
+        slippage: Math.round((report.price - requested) * sign * 100) / 100,
+      };
+      events.push({ ...base, entryPrice: report.price, type: "FILLED" });
+      break;
+    }
+
+    case "REJECTED": {
+      data = {
+        status: "CANCELLED",
+        bridgeStatus: "REJECTED",
+        notes: [order.notes, `MT5 rejected: ${report.error || "unknown"}`].filter(Boolean).join(" | "),
+      };
+      events.push({ ...base, type: "REJECTED", result: report.error });
+      break;
+    }
+
+    case "MODIFIED": {
+      data = { ticket };
+      if (report.sl !== undefined && report.sl !== order.stopLoss) {
+        data.stopLoss = report.sl;
+        if (report.sl === order.entryPrice) {
+          data.originalStopLoss = order.originalStopLoss ?? order.stopLoss;
+          events.push({ ...base, type: "SL_MOVED_TO_BREAKEVEN" });
+        }
+      }
+      break;
+    }
+
+    case "CANCELLED": {
+      data = { status: "CANCELLED", bridgeStatus: "CANCELLED" };
+      events.push({ ...base, type: "CANCELLED" });
+      break;
+    }
+
+    case "CLOSED": {
+      if (!(report.price && report.price > 0)) {
+        throw new ValidationError("CLOSED ต้องมีราคา", { price: String(report.price) });
+      }
+
+      const hits = { tp1Hit: order.tp1Hit, tp2Hit: order.tp2Hit, tp3Hit: order.tp3Hit, slHit: false };
+      if (report.reason === "TP") {
+        // The terminal holds the final TP, so every level up to it was reached
+        hits.tp1Hit = true;
+        hits.tp2Hit = order.takeProfit2 !== null;
+        hits.tp3Hit = order.takeProfit3 !== null;
+      } else if (report.reason === "SL") {
+        hits.slHit = true;
+      }
+
+      const bestTp = hits.tp3Hit ? "TP3_HIT" : hits.tp2Hit ? "TP2_HIT" : hits.tp1Hit ? "TP1_HIT" : null;
+      const result =
+        report.reason === "TP" ? bestTp :
+        report.reason === "SL" ? bestTp || "SL_HIT" :
+        "MANUAL_CLOSE";
+
+      const pnl = calculateProfitLoss(order, report.price);
+      data = {
+        ...hits,
+        status: "CLOSED",
+        bridgeStatus: "CLOSED",
+        ticket,
+        result,
+        closePrice: report.price,
+        closeTime: at,
+        brokerProfit: report.profit ?? null,
+        ...pnl,
+      };
+      events.push({ ...base, type: "CLOSED", result: result || undefined, ...pnl });
+      break;
+    }
+  }
+
+  await prisma.mT5Order.update({ where: { id: order.id }, data });
+  await acknowledgeCommands(order.id, report, at);
+
+  return events;
+}
@@ -0,0 +1,240 @@
+/**
+ * MT5 Order Monitor
+ *
+ * Moves open MT5Order rows through their lifecycle as prices arrive:
+ * marks TP levels, optionally moves SL to breakeven after TP1, and closes
+ * on SL or the final TP. Each change is returned as an OrderEvent so the
+ * caller can notify on it.
+ */
+
+import prisma from "./db";
+import { getContractSpec } from "./risk";
+import { DEFAULT_PRODUCT, findProduct } from "./products";
+
+// ============================================
+// Types
+// ============================================
+
+export type OrderEventType =
+  | "TP1_HIT"
+  | "TP2_HIT"
+  | "TP3_HIT"
+  | "SL_MOVED_TO_BREAKEVEN"
+  | "CLOSED"
+  // Reported by the MT5 bridge
+  | "FILLED"
+  | "REJECTED"
+  | "CANCELLED";
+
+export interface OrderEvent {
+  type: OrderEventType;
+  orderId: string;
+  symbol: string;
+  orderType: "BUY" | "SELL";
+  lotSize: number;
+  entryPrice: number;
+  price: number;
+  at: Date;
+  result?: string;
+  profitLoss?: number;
+  profitLossUsd?: number;
+}
+
+export interface PriceUpdate {
+  symbol: string;
+  priceBasis: "SPOT" | "FUTURES";
+  price: number;
+  at?: Date;
+}
+
+type MonitoredOrder = {
+  id: string;
+  symbol: string;
+  orderType: string;
+  lotSize: number;
+  entryPrice: number;
+  stopLoss: number;
+  takeProfit1: number;
+  takeProfit2: number | null;
+  takeProfit3: number | null;
+  moveSlToBreakeven: boolean;
+  tp1Hit: boolean;
+  tp2Hit: boolean;
+  tp3Hit: boolean;
+};
+
+// ============================================
+// Profit / Loss
+// ============================================
+
+/**
+ * P/L of closing an order at closePrice, in points and in USD for its lot size
+ */
+export function calculateProfitLoss(
+  order: { symbol: string; orderType: string; lotSize: number; entryPrice: number },
+  closePrice: number
+): { profitLoss: number; profitLossUsd: number } {
+  const sign = order.orderType === "BUY" ? 1 : -1;
+  const points = (closePrice - order.entryPrice) * sign;
+
+  return {
+    profitLoss: Math.round(points * 100) / 100,
+    profitLossUsd: Math.round(points * order.lotSize * getContractSpec(order.symbol).contractSize * 100) / 100,
+  };
+}
+
+// ============================================
+// Lifecycle
+// ============================================
+
+/**
+ * Apply one price to one order. Returns the row update and events, or null
+ * when nothing but the last seen price changed.
+ *
+ * With manageExits off (orders executed through the MT5 bridge) only TP
+ * levels are marked; the terminal owns the stop, breakeven and close.
+ */
+export function applyPriceToOrder(
+  order: MonitoredOrder,
+  price: number,
+  at: Date,
+  manageExits = true
+): { data: Record<string, unknown>; events: OrderEvent[] } | null {
+  const sign = order.orderType === "BUY" ? 1 : -1;
+  const reached = (level: number | null) => level !== null && (price - level) * sign >= 0;
+
+  const base = {
+    orderId: order.id,
+    symbol: order.symbol,
+    orderType: order.orderType as "BUY" | "SELL",
+    lotSize: order.lotSize,
+    entryPrice: order.entryPrice,
+    price,
+    at,
+  };
+
+  const data: Record<string, unknown> = {};
+  const events: OrderEvent[] = [];
+  const hits = { tp1: order.tp1Hit, tp2: order.tp2Hit, tp3: order.tp3Hit };
+
+  const close = (result: string) => {
+    const pnl = calculateProfitLoss(order, price);
+    Object.assign(data, {
+      status: "CLOSED",
+      result,
+      closePrice: price,
+      closeTime: at,
+      ...pnl,
+    });
+    events.push({ ...base, type: "CLOSED", result, ...pnl });
+  };
+
+  // Stop first: a gap through SL closes the order even if a TP was touched earlier
+  if (manageExits && (price - order.stopLoss) * sign <= 0) {
+    data.slHit = true;
+    // Best TP reached decides the result; SL_HIT only when no TP was touched
+    close(hits.tp3 ? "TP3_HIT" : hits.tp2 ? "TP2_HIT" : hits.tp1 ? "TP1_HIT" : "SL_HIT");
+    return { data, events };
+  }
+
+  if (!hits.tp1 && reached(order.takeProfit1)) {
+    hits.tp1 = true;
+    data.tp1Hit = true;
+    events.push({ ...base, type: "TP1_HIT" });
+
+    if (manageExits && order.moveSlToBreakeven && (order.entryPrice - order.stopLoss) * sign > 0) {
+      data.originalStopLoss = order.stopLoss;
+      data.stopLoss = order.entryPrice;
+      events.push({ ...base, type: "SL_MOVED_TO_BREAKEVEN" });
+    }
+  }
+
+  if (hits.tp1 && !hits.tp2 && reached(order.takeProfit2)) {
+    hits.tp2 = true;
+    data.tp2Hit = true;
+    events.push({ ...base, type: "TP2_HIT" });
+  }
+
+  if (hits.tp2 && !hits.tp3 && reached(order.takeProfit3)) {
+    hits.tp3 = true;
+    data.tp3Hit = true;
+    events.push({ ...base, type: "TP3_HIT" });
+  }
+
+  // Close on the last level the order has
+  const finalHit =
+    order.takeProfit3 !== null ? hits.tp3 :
+    order.takeProfit2 !== null ? hits.tp2 :
+    hits.tp1;
+
+  if (manageExits && finalHit) {
+    close(hits.tp3 ? "TP3_HIT" : hits.tp2 ? "TP2_HIT" : "TP1_HIT");
+  }
+
+  return events.length > 0 ? { data, events } : null;
+}
+
+/**
+ * Update every OPEN order for the symbol whose levels are quoted in the same feed
+ */
+export async function processPriceUpdate(update: PriceUpdate): Promise<OrderEvent[]> {
+  const at = update.at || new Date();
+  if (!update.symbol || !(update.price > 0)) return [];
+
+  const orders = await prisma.mT5Order.findMany({
+    where: { symbol: update.symbol, priceBasis: update.priceBasis, status: "OPEN" },
+  });
+
+  const events: OrderEvent[] = [];
+
+  for (const order of orders) {
+    const change = applyPriceToOrder(order, update.price, at, order.executionMode !== "BRIDGE");
+
+    // Only if the order is still as read: a concurrent update (another feed
+    // or a bridge report) may have hit a level or closed it in between
+    const { count } = await prisma.mT5Order.updateMany({
+      where: {
+        id: order.id,
+        status: "OPEN",
+        tp1Hit: order.tp1Hit,
+        tp2Hit: order.tp2Hit,
+        tp3Hit: order.tp3Hit,
+        slHit: order.slHit,
+        stopLoss: order.stopLoss,
+      },
+      data: {
+        ...(change?.data || {}),
+        lastPrice: update.price,
+        lastPriceAt: at,
+      },
+    });
+
+    if (change && count > 0) events.push(...change.events);
+  }
+
+  return events;
+}
+
+/**
+ * Update FUTURES-quoted orders from a CME futures price
+ */
+export async function processFuturesPrice(
+  product: string,
+  futuresPrice: number,
+  at = new Date()
+): Promise<OrderEvent[]> {
+  // Orders carry the spot symbol even when their levels are quoted in futures
+  const symbol = findProduct(product)?.spotSymbol ?? product;
+  return processPriceUpdate({ symbol, priceBasis: "FUTURES", price: futuresPrice, at });
+}
+
+/**
+ * Update SPOT-quoted orders from a spot price (XAUUSD unless another symbol is given)
+ */
+export async function processSpotPrice(
+  spotPrice: number,
+  at = new Date(),
+  symbol = DEFAULT_PRODUCT.spotSymbol
+): Promise<OrderEvent[]> {
+  return processPriceUpdate({ symbol, priceBasis: "SPOT", price: spotPrice, at });
+}
@@ -5,6 +5,8 @@
  * for spread calculation and level conversion
  */
 
+import { DEFAULT_PRODUCT, productSnapshotWhere, type ProductSpec } from "./products";
+
 // ============================================
 // Types
 // ============================================
@@ -68,7 +70,7 @@ export interface ConvertedLevels {
  * Register at: https://www.oanda.com/demo-account/
  * Get API key from: https://www.oanda.com/demo-account/tpa/personal_token
  */
-async function fetchFromOanda(): Promise<SpotPrice> {
+async function fetchFromOanda(instrument = "XAU_USD"): Promise<SpotPrice> {
   const apiKey = process.env.OANDA_API_KEY;
   const accountId = process.env.OANDA_ACCOUNT_ID;
 
@@ -81,7 +83,7 @@ async function fetchFromOanda(): Promise<SpotPrice> {
     ? "https://api-fxtrade.oanda.com"
     : "https://api-fxpractice.oanda.com";
 
-  const url = `${baseUrl}/v3/accounts/${accountId}/pricing?instruments=XAU_USD`;
+  const url = `${baseUrl}/v3/accounts/${accountId}/pricing?instruments=${instrument}`;
 
   const response = await fetch(url, {
     cache: "no-store",
@@ -99,7 +101,7 @@ async function fetchFromOanda(): Promise<SpotPrice> {
   const data = await response.json();
 
   if (!data.prices || data.prices.length === 0) {
-    throw new Error("No XAU/USD price from OANDA");
+    throw new Error(`No ${instrument} price from OANDA`);
   }
 
   const priceData = data.prices[0];
@@ -113,7 +115,7 @@ async function fetchFromOanda(): Promise<SpotPrice> {
   }
 
   return {
-    symbol: "XAU/USD",
+    symbol: instrument.replace("_", "/"),
     price: Math.round(midPrice * 100) / 100,
     change: 0,
     changePercent: 0,
@@ -164,14 +166,14 @@ async function fetchFromMetalsLive(): Promise<SpotPrice> {
 /**
  * Secondary: Fetch from Twelve Data (FREE tier: 800 calls/day)
  */
-async function fetchFromTwelveData(): Promise<SpotPrice> {
+async function fetchFromTwelveData(symbol = "XAU/USD"): Promise<SpotPrice> {
   const apiKey = process.env.TWELVEDATA_API_KEY;
 
   if (!apiKey) {
     throw new Error("Twelve Data API key not configured");
   }
 
-  const url = `https://api.twelvedata.com/price?symbol=XAU/USD&apikey=${apiKey}`;
+  const url = `https://api.twelvedata.com/price?symbol=${symbol}&apikey=${apiKey}`;
 
   const response = await fetch(url, {
     cache: "no-store",
@@ -190,7 +192,7 @@ async function fetchFromTwelveData(): Promise<SpotPrice> {
   const price = parseFloat(data.price);
 
   return {
-    symbol: "XAU/USD",
+    symbol,
     price: Math.round(price * 100) / 100,
     change: 0,
     changePercent: 0,
@@ -204,8 +206,7 @@ async function fetchFromTwelveData(): Promise<SpotPrice> {
  * Tertiary: Fetch from Yahoo Finance GC=F (Gold Futures)
  * Note: This is futures price, may differ from spot by ~10-20 points
  */
-async function fetchFromYahooFinance(): Promise<SpotPrice> {
-  const symbol = "GC=F";
+async function fetchFromYahooFinance(symbol = "GC=F", label = "XAU/USD"): Promise<SpotPrice> {
   const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1m&range=1d`;
 
   const response = await fetch(url, {
@@ -234,7 +235,7 @@ async function fetchFromYahooFinance(): Promise<SpotPrice> {
   const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
 
   return {
-    symbol: "XAU/USD",
+    symbol: label,
     price: Math.round(price * 100) / 100,
     change: Math.round(change * 100) / 100,
     changePercent: Math.round(changePercent * 100) / 100,
@@ -369,7 +370,9 @@ async function calculateFromCmeFutures(): Promise<SpotPrice> {
     // Import prisma dynamically to avoid circular deps
     const { default: prisma } = await import("@/lib/db");
     
+    // Gold snapshots only; a silver futures price would make a nonsense XAU estimate
     const oiSnapshot = await prisma.oiSnapshot.findFirst({
+      where: productSnapshotWhere(DEFAULT_PRODUCT),
       orderBy: { extractedAt: "desc" },
       select: { futurePrice: true, extractedAt: true },
     });
@@ -403,9 +406,9 @@ async function calculateFromCmeFutures(): Promise<SpotPrice> {
  * Last resort: Return null/placeholder
  * Used when market is closed and no data available
  */
-function getMarketClosedPlaceholder(): SpotPrice {
+function getMarketClosedPlaceholder(symbol = "XAU/USD"): SpotPrice {
   return {
-    symbol: "XAU/USD",
+    symbol,
     price: 0,
     change: 0,
     changePercent: 0,
@@ -453,6 +456,34 @@ export async function fetchXauSpotPrice(): Promise<SpotPrice> {
   return getMarketClosedPlaceholder();
 }
 
+/**
+ * Spot price for a registry product. Gold uses the full XAU source chain;
+ * other metals try the feeds that quote them by symbol.
+ */
+export async function fetchSpotPrice(product: ProductSpec = DEFAULT_PRODUCT): Promise<SpotPrice> {
+  if (product.spotSymbol === "XAUUSD") return fetchXauSpotPrice();
+
+  const label = product.feeds.twelveData;
+  const sources = [
+    { name: "OANDA", fn: () => fetchFromOanda(product.feeds.oanda) },
+    { name: "Twelve Data", fn: () => fetchFromTwelveData(product.feeds.twelveData) },
+    { name: "Yahoo Finance", fn: () => fetchFromYahooFinance(product.feeds.yahoo, label) },
+  ];
+
+  for (const source of sources) {
+    try {
+      const result = await source.fn();
+      console.log(`[${product.spotSymbol}] ${source.name} succeeded: $${result.price}`);
+      return result;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`[${product.spotSymbol}] ${source.name} failed:`, msg);
+    }
+  }
+
+  return getMarketClosedPlaceholder(label);
+}
+
 /**
  * Alias for backward compatibility
  */
@@ -527,7 +558,8 @@ export function convertLevelsToXau(
  */
 export function getTradingZones(
   convertedLevels: ConvertedLevels,
-  currentXauPrice: number
+  currentXauPrice: number,
+  zoneUnit = 5
 ): {
   buy_zone: { start: number; end: number; description: string };
   sell_zone: { start: number; end: number; description: string };
@@ -538,12 +570,12 @@ export function getTradingZones(
   const xau = convertedLevels.xau;
   
   // Buy zone: near put wall (support)
-  const buyZoneStart = xau.put_wall - 5; // 5 points below
-  const buyZoneEnd = xau.put_wall + 10;   // 10 points above
+  const buyZoneStart = xau.put_wall - zoneUnit;    // 5 points below (gold)
+  const buyZoneEnd = xau.put_wall + zoneUnit * 2;  // 10 points above
   
   // Sell zone: near call wall (resistance)
-  const sellZoneStart = xau.call_wall - 10; // 10 points below
-  const sellZoneEnd = xau.call_wall + 5;    // 5 points above
+  const sellZoneStart = xau.call_wall - zoneUnit * 2; // 10 points below
+  const sellZoneEnd = xau.call_wall + zoneUnit;       // 5 points above
   
   // Determine current position
   let currentPosition: "BUY_ZONE" | "SELL_ZONE" | "NEUTRAL_ZONE";
@@ -595,22 +627,25 @@ export function formatSpread(spread: SpreadInfo): string {
 /**
  * Get spread status description
  */
-export function getSpreadStatus(spread: number): {
+export function getSpreadStatus(
+  spread: number,
+  [low, high]: [number, number] = [10, 25]
+): {
   status: "NORMAL" | "HIGH" | "LOW";
   description: string;
 } {
   // Normal futures premium for gold is typically 10-20 points
-  if (spread >= 10 && spread <= 25) {
+  if (spread >= low && spread <= high) {
     return {
       status: "NORMAL",
       description: `Spread ปกติ (${spread.toFixed(2)} points)`,
     };
-  } else if (spread > 25) {
+  } else if (spread > high) {
     return {
       status: "HIGH",
       description: `Spread สูงผิดปกติ (${spread.toFixed(2)} points) - อาจมี Contango`,
     };
-  } else if (spread < 10) {
+  } else if (spread < low) {
     return {
       status: "LOW",
       description: `Spread ต่ำ (${spread.toFixed(2)} points) - Futures ใกล้ Spot`,
@@ -0,0 +1,190 @@
+/**
+ * Product Registry
+ *
+ * CME products the pipeline can run on, with the contract details and
+ * spot symbol mapping the analysis, AI, XAU conversion and MT5 code
+ * needs. Snapshot rows store whatever product code the QuikStrike title
+ * carried ("OG", "Gold", ...); the registry ties those back to one product.
+ */
+
+import { ValidationError } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ProductSpec {
+  /** Registry key, e.g. "GOLD" */
+  key: string;
+  name: string;
+  nameTh: string;
+  /**
+   * Options product codes as they appear in QuikStrike titles (OG4F6 -> OG).
+   * Empty for a futures-only product: option endpoints reject it.
+   */
+  optionCodes: string[];
+  /** Underlying futures codes */
+  futuresCodes: string[];
+  /** Other product names parsed from snapshot titles */
+  aliases: string[];
+  /** Units per futures contract (troy ounces) */
+  contractMultiplier: number;
+  /** Minimum futures price increment */
+  tickSize: number;
+  /** Symbol orders on this product are placed on in MT5 */
+  spotSymbol: string;
+  /** Units per 1.0 lot of the spot symbol */
+  spotContractSize: number;
+  /** Quote symbols for the spot price feeds */
+  feeds: {
+    oanda: string;
+    twelveData: string;
+    /** Yahoo futures fallback */
+    yahoo: string;
+  };
+  /** Futures - spot premium considered normal, in points */
+  normalSpread: [number, number];
+  /** Trading zone width unit around the walls, in points */
+  zoneUnit: number;
+  /** Expiry used when a request names none; null takes the newest snapshot's */
+  defaultExpiry: string | null;
+}
+
+// ============================================
+// Registry
+// ============================================
+
+export const PRODUCTS: ProductSpec[] = [
+  {
+    key: "GOLD",
+    name: "Gold",
+    nameTh: "ทองคำ",
+    optionCodes: ["OG"],
+    futuresCodes: ["GC"],
+    aliases: ["Gold (OG|GC)"],
+    contractMultiplier: 100,
+    tickSize: 0.1,
+    spotSymbol: "XAUUSD",
+    spotContractSize: 100,
+    feeds: { oanda: "XAU_USD", twelveData: "XAU/USD", yahoo: "GC=F" },
+    normalSpread: [10, 25],
+    zoneUnit: 5,
+    defaultExpiry: null,
+  },
+  {
+    key: "SILVER",
+    name: "Silver",
+    nameTh: "เงิน",
+    optionCodes: ["SO"],
+    futuresCodes: ["SI"],
+    aliases: ["Silver (SO|SI)"],
+    contractMultiplier: 5000,
+    tickSize: 0.005,
+    spotSymbol: "XAGUSD",
+    spotContractSize: 5000,
+    feeds: { oanda: "XAG_USD", twelveData: "XAG/USD", yahoo: "SI=F" },
+    normalSpread: [0.1, 0.6],
+    zoneUnit: 0.1,
+    defaultExpiry: null,
+  },
+  {
+    key: "MICRO_GOLD",
+    name: "Micro Gold",
+    nameTh: "ทองคำ (Micro)",
+    // Futures-only: sized and quoted like Gold, but no option snapshots
+    optionCodes: [],
+    futuresCodes: ["MGC"],
+    aliases: [],
+    contractMultiplier: 10,
+    tickSize: 0.1,
+    spotSymbol: "XAUUSD",
+    spotContractSize: 100,
+    feeds: { oanda: "XAU_USD", twelveData: "XAU/USD", yahoo: "MGC=F" },
+    normalSpread: [10, 25],
+    zoneUnit: 5,
+    defaultExpiry: null,
+  },
+];
+
+export const DEFAULT_PRODUCT: ProductSpec = PRODUCTS[0];
+
+// ============================================
+// Lookup
+// ============================================
+
+/** Every product value a snapshot of this product may be stored under */
+export function productSnapshotKeys(spec: ProductSpec): string[] {
+  return [...spec.optionCodes, ...spec.futuresCodes, spec.name, ...spec.aliases];
+}
+
+/**
+ * Find a product by registry key, name, CME code or alias (case-insensitive)
+ */
+export function findProduct(value: string | null | undefined): ProductSpec | null {
+  if (!value) return null;
+  const needle = value.trim().toUpperCase();
+
+  return (
+    PRODUCTS.find(
+      (p) => p.key === needle || productSnapshotKeys(p).some((k) => k.toUpperCase() === needle)
+    ) ?? null
+  );
+}
+
+/**
+ * Resolve a request's product parameter. Missing means the default product;
+ * an unknown value is a validation error.
+ */
+export function resolveProduct(value: string | null | undefined): ProductSpec {
+  if (!value) return DEFAULT_PRODUCT;
+
+  const spec = findProduct(value);
+  if (!spec) {
+    throw new ValidationError(`ไม่รู้จัก product: ${value}`, {
+      product: PRODUCTS.map((p) => p.key).join(" | "),
+    });
+  }
+  return spec;
+}
+
+/** Whether option snapshots can exist for the product */
+export function hasOptions(spec: ProductSpec): boolean {
+  return spec.optionCodes.length > 0;
+}
+
+/**
+ * resolveProduct for option-based endpoints. A futures-only product has
+ * no option snapshots, so it is a validation error instead of empty data.
+ */
+export function resolveOptionsProduct(value: string | null | undefined): ProductSpec {
+  const spec = resolveProduct(value);
+  if (!hasOptions(spec)) {
+    throw new ValidationError(`${spec.key} ไม่มีข้อมูล Options (Futures เท่านั้น)`, {
+      product: PRODUCTS.filter(hasOptions).map((p) => p.key).join(" | "),
+    });
+  }
+  return spec;
+}
+
+/**
+ * Prisma where clause matching a product on snapshot tables. Known products
+ * match every code they are stored under; unknown values match exactly.
+ */
+export function productWhere(
+  value: string | null | undefined
+): { product?: string | { in: string[] } } {
+  if (!value) return {};
+  const spec = findProduct(value);
+  return spec ? { product: { in: productSnapshotKeys(spec) } } : { product: value };
+}
+
+/**
+ * Snapshot filter for a resolved product, narrowed to its default expiry
+ */
+export function productSnapshotWhere(spec: ProductSpec, expiry?: string | null) {
+  const series = expiry || spec.defaultExpiry;
+  return {
+    product: { in: productSnapshotKeys(spec) },
+    ...(series ? { expiry: series } : {}),
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Position Sizing & Risk Engine
+ *
+ * Sizes orders from account balance, risk per trade and stop distance,
+ * and enforces daily loss and open exposure limits. Every check is
+ * recorded as a RiskDecision so blocked orders keep their reason.
+ */
+
+import prisma from "./db";
+import { PRODUCTS, DEFAULT_PRODUCT } from "./products";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ContractSpec {
+  /** Units per 1.0 lot (ounces for gold) */
+  contractSize: number;
+  minLot: number;
+  maxLot: number;
+  lotStep: number;
+}
+
+export interface RiskSettings {
+  accountBalance: number;
+  riskPercent: number;
+  maxDailyLossPercent: number;
+  maxOpenOrders: number;
+  maxOpenLots: number;
+}
+
+export interface PositionSize {
+  lotSize: number;
+  riskAmount: number;
+  stopDistance: number;
+  /** USD lost per 1.0 lot if the stop is hit */
+  riskPerLot: number;
+}
+
+export interface RiskExposure {
+  openOrders: number;
+  openLots: number;
+  /** Realized loss today in USD (positive number) */
+  dailyLoss: number;
+  dailyLossLimit: number;
+}
+
+export interface RiskCheckInput {
+  symbol: string;
+  orderType: "BUY" | "SELL";
+  entryPrice: number;
+  stopLoss: number;
+  aiPredictionId?: string | null;
+  source?: "AUTO" | "MANUAL";
+}
+
+export interface RiskDecisionResult extends PositionSize {
+  id: string;
+  approved: boolean;
+  reasons: string[];
+  exposure: RiskExposure;
+}
+
+// ============================================
+// Contract Specs
+// ============================================
+
+/** Spot symbols trade in 0.01 lots, futures codes in whole contracts */
+export const CONTRACT_SPECS: Record<string, ContractSpec> = Object.fromEntries(
+  PRODUCTS.flatMap((p) => [
+    [p.spotSymbol, { contractSize: p.spotContractSize, minLot: 0.01, maxLot: 50, lotStep: 0.01 }],
+    ...p.futuresCodes.map((code) => [
+      code,
+      { contractSize: p.contractMultiplier, minLot: 1, maxLot: 50, lotStep: 1 },
+    ]),
+  ])
+);
+
+const DEFAULT_SPEC: ContractSpec = CONTRACT_SPECS[DEFAULT_PRODUCT.spotSymbol];
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  accountBalance: 10000,
+  riskPercent: 1,
+  maxDailyLossPercent: 3,
+  maxOpenOrders: 1,
+  maxOpenLots: 1,
+};
+
+export function getContractSpec(symbol: string): ContractSpec {
+  return CONTRACT_SPECS[symbol.toUpperCase()] ?? DEFAULT_SPEC;
+}
+
+// ============================================
+// Sizing
+// ============================================
+
+/**
+ * Lot size that loses riskPercent of the balance if the stop is hit,
+ * rounded down to the lot step and capped at maxLot. Returns lotSize 0
+ * when even the minimum lot would risk more than allowed.
+ */
+export function calculatePositionSize(
+  settings: Pick<RiskSettings, "accountBalance" | "riskPercent">,
+  entryPrice: number,
+  stopLoss: number,
+  spec: ContractSpec = DEFAULT_SPEC
+): PositionSize {
+  const stopDistance = Math.abs(entryPrice - stopLoss);
+  const riskPerLot = stopDistance * spec.contractSize;
+  const riskBudget = settings.accountBalance * (settings.riskPercent / 100);
+
+  if (riskPerLot <= 0 || riskBudget <= 0) {
+    return { lotSize: 0, riskAmount: 0, stopDistance, riskPerLot };
+  }
+
+  // Round down on the step grid; the epsilon keeps 0.3 / 0.01 from landing on 29.999
+  const steps = Math.floor(riskBudget / riskPerLot / spec.lotStep + 1e-9);
+  let lotSize = Math.round(Math.min(steps * spec.lotStep, spec.maxLot) * 100) / 100;
+
+  if (lotSize < spec.minLot) lotSize = 0;
+
+  return {
+    lotSize,
+    riskAmount: Math.round(lotSize * riskPerLot * 100) / 100,
+    stopDistance: Math.round(stopDistance * 100) / 100,
+    riskPerLot: Math.round(riskPerLot * 100) / 100,
+  };
+}
+
+// ============================================
+// Settings & Exposure
+// ============================================
+
+export async function getRiskSettings(): Promise<RiskSettings> {
+  const settings = await prisma.settings.findFirst({ where: { id: "default" } });
+  if (!settings) return DEFAULT_RISK_SETTINGS;
+
+  return {
+    accountBalance: settings.accountBalance,
+    riskPercent: settings.riskPercent,
+    maxDailyLossPercent: settings.maxDailyLossPercent,
+    maxOpenOrders: settings.maxOpenOrders,
+    maxOpenLots: settings.maxOpenLots,
+  };
+}
+
+/**
+ * Open orders and lots for the symbol, and realized loss since midnight (Bangkok)
+ */
+export async function getRiskExposure(symbol: string, settings: RiskSettings): Promise<RiskExposure> {
+  const now = new Date();
+  const bangkokOffsetMs = 7 * 60 * 60 * 1000;
+  const startOfDay = new Date(
+    Math.floor((now.getTime() + bangkokOffsetMs) / 86400000) * 86400000 - bangkokOffsetMs
+  );
+
+  const [open, closedToday] = await Promise.all([
+    prisma.mT5Order.findMany({
+      where: { symbol, status: { in: ["PENDING", "OPEN"] } },
+      select: { lotSize: true },
+    }),
+    prisma.mT5Order.findMany({
+      where: { status: "CLOSED", closeTime: { gte: startOfDay } },
+      select: { profitLossUsd: true },
+    }),
+  ]);
+
+  const realized = closedToday.reduce((sum, o) => sum + (o.profitLossUsd || 0), 0);
+
+  return {
+    openOrders: open.length,
+    openLots: Math.round(open.reduce((sum, o) => sum + o.lotSize, 0) * 100) / 100,
+    dailyLoss: Math.max(0, -Math.round(realized * 100) / 100),
+    dailyLossLimit: Math.round(settings.accountBalance * (settings.maxDailyLossPercent / 100) * 100) / 100,
+  };
+}
+
+// ============================================
+// Risk Check
+// ============================================
+
+/**
+ * Size an order and check it against the limits. The decision is recorded
+ * either way; link it to the created order with attachRiskDecision.
+ */
+export async function evaluateOrderRisk(input: RiskCheckInput): Promise<RiskDecisionResult> {
+  const settings = await getRiskSettings();
+  const spec = getContractSpec(input.symbol);
+  const size = calculatePositionSize(settings, input.entryPrice, input.stopLoss, spec);
+  const exposure = await getRiskExposure(input.symbol, settings);
+
+  const reasons: string[] = [];
+  const sign = input.orderType === "BUY" ? 1 : -1;
+
+  if ((input.entryPrice - input.stopLoss) * sign <= 0) {
+    reasons.push("SL อยู่ผิดฝั่งของราคาเข้า");
+  } else if (size.lotSize === 0) {
+    reasons.push(
+      `SL ห่าง ${size.stopDistance} จุด ความเสี่ยงขั้นต่ำ ${(size.riskPerLot * spec.minLot).toFixed(2)} USD เกิน ${settings.riskPercent}% ของพอร์ต`
+    );
+  }
+
+  if (exposure.openOrders >= settings.maxOpenOrders) {
+    reasons.push(`มีออเดอร์เปิดอยู่ ${exposure.openOrders} รายการ (สูงสุด ${settings.maxOpenOrders})`);
+  }
+
+  if (size.lotSize > 0 && exposure.openLots + size.lotSize > settings.maxOpenLots + 1e-9) {
+    reasons.push(`Lot รวม ${(exposure.openLots + size.lotSize).toFixed(2)} เกินขีดจำกัด ${settings.maxOpenLots}`);
+  }
+
+  if (exposure.dailyLoss + size.riskAmount > exposure.dailyLossLimit) {
+    reasons.push(
+      `ขาดทุนวันนี้ ${exposure.dailyLoss.toFixed(2)} USD + ความเสี่ยงออเดอร์นี้ ${size.riskAmount.toFixed(2)} USD เกินขีดจำกัด ${exposure.dailyLossLimit.toFixed(2)} USD`
+    );
+  }
+
+  const approved = reasons.length === 0;
+
+  const decision = await prisma.riskDecision.create({
+    data: {
+      symbol: input.symbol,
+      orderType: input.orderType,
+      entryPrice: input.entryPrice,
+      stopLoss: input.stopLoss,
+      lotSize: size.lotSize,
+      riskAmount: size.riskAmount,
+      stopDistance: size.stopDistance,
+      approved,
+      reasons,
+      aiPredictionId: input.aiPredictionId || null,
+      source: input.source || "AUTO",
+    },
+  });
+
+  return { id: decision.id, approved, reasons, exposure, ...size };
+}
+
+/**
+ * Link a recorded decision to the order it allowed
+ */
+export async function attachRiskDecision(decisionId: string, orderId: string): Promise<void> {
+  await prisma.riskDecision.update({
+    where: { id: decisionId },
+    data: { orderId },
+  });
+}
+
+/**
+ * Recent decisions, newest first
+ */
+export async function getRecentRiskDecisions(limit = 20) {
+  return prisma.riskDecision.findMany({
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Scoring Profiles
+ *
+ * Versioned point values and cut-offs for generateSignal, stored in the
+ * database. Every edit creates a new version; one version is active for
+ * live signals, and any version can be requested with ?profile=name@version.
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "./db";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./analysis";
+import { DatabaseError, NotFoundError, ValidationError } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+export interface StoredScoringProfile extends ScoringProfile {
+  id: string | null;
+  isActive: boolean;
+  notes: string | null;
+  createdAt: Date | null;
+}
+
+export interface ScoringProfileInput {
+  name: string;
+  weights: Partial<ScoringProfile["weights"]>;
+  thresholds: Partial<ScoringProfile["thresholds"]>;
+  notes?: string;
+  activate?: boolean;
+}
+
+/** Saves that lose the race for a version number are retried on the new latest */
+const MAX_SAVE_ATTEMPTS = 3;
+
+const BUILT_IN: StoredScoringProfile = {
+  ...DEFAULT_SCORING_PROFILE,
+  id: null,
+  isActive: false,
+  notes: "Built-in profile",
+  createdAt: null,
+};
+
+// ============================================
+// Conversion & Validation
+// ============================================
+
+function toStoredProfile(row: {
+  id: string;
+  name: string;
+  version: number;
+  weights: unknown;
+  thresholds: unknown;
+  notes: string | null;
+  isActive: boolean;
+  createdAt: Date;
+}): StoredScoringProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    // Fill keys added after the row was saved from the built-in profile
+    weights: { ...DEFAULT_SCORING_PROFILE.weights, ...(row.weights as object) },
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, ...(row.thresholds as object) },
+    notes: row.notes,
+    isActive: row.isActive,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Validate a complete profile. Returns field -> message for every problem.
+ */
+export function validateScoringProfile(profile: ScoringProfile): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const { weights: w, thresholds: t } = profile;
+
+  for (const [key, value] of Object.entries(w)) {
+    if (typeof value !== "number" || !isFinite(value) || value < 0 || value > 50) {
+      errors[`weights.${key}`] = "ต้องเป็นตัวเลข 0-50";
+    }
+  }
+
+  for (const [key, value] of Object.entries(t)) {
+    if (typeof value !== "number" || !isFinite(value)) {
+      errors[`thresholds.${key}`] = "ต้องเป็นตัวเลข";
+    }
+  }
+
+  if (!(t.pcr_strong_bullish <= t.pcr_mild_bullish && t.pcr_mild_bullish <= t.pcr_mild_bearish && t.pcr_mild_bearish <= t.pcr_strong_bearish)) {
+    errors["thresholds.pcr"] = "PCR cut-offs ต้องเรียง strong bullish ≤ mild bullish ≤ mild bearish ≤ strong bearish";
+  }
+
+  if (!(t.sell_strong <= t.sell_moderate && t.sell_moderate <= t.sell && t.sell < t.buy && t.buy <= t.buy_moderate && t.buy_moderate <= t.buy_strong)) {
+    errors["thresholds.signal"] = "เกณฑ์สัญญาณต้องเรียง sell strong ≤ sell moderate ≤ sell < buy ≤ buy moderate ≤ buy strong";
+  }
+
+  if (t.wall_proximity_pct < 0 || t.wall_proximity_pct > 50) {
+    errors["thresholds.wall_proximity_pct"] = "ต้องอยู่ระหว่าง 0-50";
+  }
+
+  if (t.max_pain_distance_pct < 0) {
+    errors["thresholds.max_pain_distance_pct"] = "ต้องไม่ติดลบ";
+  }
+
+  return errors;
+}
+
+// ============================================
+// Read
+// ============================================
+
+/**
+ * Profile used for live signals (built-in default when none is active)
+ */
+export async function getActiveScoringProfile(): Promise<StoredScoringProfile> {
+  const row = await prisma.scoringProfile.findFirst({
+    where: { isActive: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return row ? toStoredProfile(row) : BUILT_IN;
+}
+
+/**
+ * Resolve a profile reference: "name" (latest version), "name@3" / "name@v3",
+ * or "active". Empty resolves to the active profile.
+ */
+export async function resolveScoringProfile(ref?: string | null): Promise<StoredScoringProfile> {
+  const trimmed = ref?.trim();
+  if (!trimmed || trimmed === "active") return getActiveScoringProfile();
+
+  const match = trimmed.match(/^(.+?)(?:@v?(\d+))?$/);
+  const name = match?.[1] || trimmed;
+  const version = match?.[2] !== undefined ? parseInt(match[2]) : undefined;
+
+  if (name === BUILT_IN.name && version === BUILT_IN.version) return BUILT_IN;
+
+  const row = await prisma.scoringProfile.findFirst({
+    where: { name, ...(version !== undefined ? { version } : {}) },
+    orderBy: { version: "desc" },
+  });
+
+  if (row) return toStoredProfile(row);
+  if (name === BUILT_IN.name && version === undefined) return BUILT_IN;
+
+  throw new NotFoundError(`Scoring profile "${trimmed}"`, { profile: trimmed });
+}
+
+/**
+ * Resolve a comma-separated list of profile references (for side-by-side comparison)
+ */
+export async function resolveScoringProfiles(refs: string): Promise<StoredScoringProfile[]> {
+  const list = refs.split(",").map((r) => r.trim()).filter(Boolean);
+  return Promise.all(list.map((ref) => resolveScoringProfile(ref)));
+}
+
+/**
+ * All stored versions, newest first, plus the built-in profile
+ */
+export async function listScoringProfiles(): Promise<StoredScoringProfile[]> {
+  const rows = await prisma.scoringProfile.findMany({
+    orderBy: [{ name: "asc" }, { version: "desc" }],
+  });
+
+  const profiles = rows.map(toStoredProfile);
+  const hasActive = profiles.some((p) => p.isActive);
+
+  return [...profiles, { ...BUILT_IN, isActive: !hasActive }];
+}
+
+// ============================================
+// Write
+// ============================================
+
+/**
+ * Save a new version of a profile. Missing fields are taken from the
+ * latest version of the same name (or the built-in profile). Two saves
+ * racing for the same version collide on (name, version); the loser is
+ * rebuilt on the winner's version and retried.
+ */
+export async function saveScoringProfileVersion(input: ScoringProfileInput): Promise<StoredScoringProfile> {
+  const name = input.name?.trim();
+  if (!name || !/^[\w-]+$/.test(name)) {
+    throw new ValidationError("ชื่อ profile ต้องเป็นตัวอักษร ตัวเลข - หรือ _", { name: input.name });
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await createNextVersion(name, input);
+    } catch (error) {
+      const versionTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      if (!versionTaken) throw error;
+      if (attempt >= MAX_SAVE_ATTEMPTS) {
+        throw new DatabaseError("บันทึก scoring profile", error, { name, attempts: attempt });
+      }
+    }
+  }
+}
+
+async function createNextVersion(name: string, input: ScoringProfileInput): Promise<StoredScoringProfile> {
+  const latest = await prisma.scoringProfile.findFirst({
+    where: { name },
+    orderBy: { version: "desc" },
+  });
+  const base = latest ? toStoredProfile(latest) : BUILT_IN;
+
+  const profile: ScoringProfile = {
+    name,
+    version: (latest?.version ?? BUILT_IN.version) + 1,
+    weights: { ...base.weights, ...input.weights },
+    thresholds: { ...base.thresholds, ...input.thresholds },
+  };
+
+  const errors = validateScoringProfile(profile);
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError("Scoring profile ไม่ถูกต้อง", errors);
+  }
+
+  const row = await prisma.$transaction(async (tx) => {
+    if (input.activate) {
+      await tx.scoringProfile.updateMany({
+        where: { isActive: true },
+        data: { isActive: false },
+      });
+    }
+
+    return tx.scoringProfile.create({
+      data: {
+        name: profile.name,
+        version: profile.version,
+        weights: profile.weights,
+        thresholds: profile.thresholds,
+        notes: input.notes || null,
+        isActive: !!input.activate,
+      },
+    });
+  });
+
+  return toStoredProfile(row);
+}
+
+/**
+ * Make a stored version the active profile. Passing null reverts to built-in.
+ */
+export async function activateScoringProfile(id: string | null): Promise<StoredScoringProfile> {
+  if (id) {
+    const exists = await prisma.scoringProfile.findUnique({ where: { id } });
+    if (!exists) throw new NotFoundError("Scoring profile", { id });
+  }
+
+  await prisma.$transaction([
+    prisma.scoringProfile.updateMany({
+      where: { isActive: true },
+      data: { isActive: false },
+    }),
+    ...(id
+      ? [prisma.scoringProfile.update({ where: { id }, data: { isActive: true } })]
+      : []),
+  ]);
+
+  return getActiveScoringProfile();
+}
@@ -0,0 +1,52 @@
+import { analyzeOiDiff } from "./oi-diff";
+import type { SignalFactor } from "./types";
+
+/** Strikes within this % of price count as ATM */
+const ATM_RANGE_PERCENT = 3;
+/** One side must build at least this multiple of the other */
+const DOMINANCE_RATIO = 1.5;
+
+/**
+ * Where new OI lands near the money since the previous snapshot:
+ * call buildup around price = bullish, put buildup = bearish
+ */
+export const atmBuildupFactor: SignalFactor = {
+  key: "atm_buildup",
+  name: "ATM OI Buildup",
+  order: 70,
+  evaluate({ market, profile }) {
+    const { current_price, strikes, previous_strikes } = market;
+    if (!previous_strikes?.length || !(current_price > 0)) return null;
+
+    const lower = current_price * (1 - ATM_RANGE_PERCENT / 100);
+    const upper = current_price * (1 + ATM_RANGE_PERCENT / 100);
+    const nearPrice = analyzeOiDiff(strikes, previous_strikes).changes.filter(
+      (c) => c.strike >= lower && c.strike <= upper
+    );
+    if (nearPrice.length === 0) return null;
+
+    const w = profile.weights;
+    const callBuild = nearPrice.reduce((sum, c) => sum + c.callChange, 0);
+    const putBuild = nearPrice.reduce((sum, c) => sum + c.putChange, 0);
+    const range = `±${ATM_RANGE_PERCENT}%`;
+
+    if (callBuild > 0 && callBuild > putBuild * DOMINANCE_RATIO) {
+      return {
+        score: w.atm_buildup,
+        message: `Call OI สะสมรอบราคาปัจจุบัน (+${callBuild.toLocaleString()} vs Put ${putBuild.toLocaleString()}) = แรงซื้อใกล้ ATM`,
+        breakdown: [`[+${w.atm_buildup}] ATM (${range}) buildup: Call +${callBuild.toLocaleString()} > Put ${putBuild.toLocaleString()} × ${DOMINANCE_RATIO} → Bullish`],
+      };
+    }
+    if (putBuild > 0 && putBuild > callBuild * DOMINANCE_RATIO) {
+      return {
+        score: -w.atm_buildup,
+        message: `Put OI สะสมรอบราคาปัจจุบัน (+${putBuild.toLocaleString()} vs Call ${callBuild.toLocaleString()}) = แรงป้องกันขาลงใกล้ ATM`,
+        breakdown: [`[-${w.atm_buildup}] ATM (${range}) buildup: Put +${putBuild.toLocaleString()} > Call ${callBuild.toLocaleString()} × ${DOMINANCE_RATIO} → Bearish`],
+      };
+    }
+    return {
+      score: 0,
+      breakdown: [`[0] ATM (${range}) buildup mixed: Call ${callBuild.toLocaleString()} / Put ${putBuild.toLocaleString()}`],
+    };
+  },
+};
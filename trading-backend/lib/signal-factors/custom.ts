@@ -0,0 +1,309 @@
+/**
+ * Custom Signal Factors
+ *
+ * Factors defined as data (CustomFactor rows, see lib/custom-factors.ts):
+ * a metric expression such as "volume_pcr - oi_pcr", bullish / bearish
+ * thresholds, a score and Thai/English messages. Expressions are parsed
+ * here (numbers, metrics, + - * /, parentheses, abs/min/max); nothing is
+ * passed to eval.
+ */
+
+import { ValidationError } from "../errors";
+import type { Factor, LiquidityWalls, MaxPainResult, PCRResult } from "../analysis";
+import type { SignalFactor } from "./types";
+
+// ============================================
+// Types
+// ============================================
+
+export type CustomFactorDirection = "HIGHER_BULLISH" | "HIGHER_BEARISH";
+
+export interface CustomFactorDefinition {
+  key: string;
+  name: string;
+  expression: string;
+  direction: string;
+  bullishThreshold: number | null;
+  bearishThreshold: number | null;
+  score: number;
+  order: number;
+  bullishTh: string;
+  bearishTh: string;
+  bullishEn: string;
+  bearishEn: string;
+  explanationTh: string | null;
+  explanationEn: string | null;
+}
+
+/** What a metric is computed from (the signal factor context carries all of it) */
+export interface FactorMetricsInput {
+  current_price: number;
+  vwap: number;
+  pcr: PCRResult;
+  maxPain: MaxPainResult;
+  walls: LiquidityWalls;
+  netCallOiChange: number;
+  netPutOiChange: number;
+}
+
+type Metrics = Record<string, number>;
+type Compiled = (metrics: Metrics) => number;
+
+// ============================================
+// Metrics
+// ============================================
+
+const pctFromPrice = (level: number, price: number) => (price > 0 ? ((level - price) / price) * 100 : 0);
+
+/**
+ * Metrics an expression may use, with a description for the editor
+ */
+export const FACTOR_METRICS: Record<string, { description: string; get: (m: FactorMetricsInput) => number }> = {
+  price: { description: "ราคา Futures", get: (m) => m.current_price },
+  vwap: { description: "VWAP", get: (m) => m.vwap },
+  vwap_distance_pct: { description: "ราคาห่าง VWAP (%)", get: (m) => (m.vwap > 0 ? ((m.current_price - m.vwap) / m.vwap) * 100 : 0) },
+  oi_pcr: { description: "PCR จาก OI", get: (m) => m.pcr.oi_pcr },
+  volume_pcr: { description: "PCR จาก Volume", get: (m) => m.pcr.volume_pcr },
+  atm_pcr: { description: "PCR ของ Strike ใกล้ราคา", get: (m) => m.pcr.atm_pcr },
+  total_call_oi: { description: "Call OI รวม", get: (m) => m.pcr.totals.total_call_oi },
+  total_put_oi: { description: "Put OI รวม", get: (m) => m.pcr.totals.total_put_oi },
+  total_call_volume: { description: "Call Volume รวม", get: (m) => m.pcr.totals.total_call_volume },
+  total_put_volume: { description: "Put Volume รวม", get: (m) => m.pcr.totals.total_put_volume },
+  max_pain: { description: "Max Pain Strike", get: (m) => m.maxPain.max_pain_strike },
+  max_pain_distance_pct: { description: "Max Pain ห่างจากราคา (%, + = เหนือราคา)", get: (m) => m.maxPain.distance_percent },
+  call_wall: { description: "Call Wall (แนวต้าน)", get: (m) => m.walls.resistance.strike },
+  put_wall: { description: "Put Wall (แนวรับ)", get: (m) => m.walls.support.strike },
+  call_wall_distance_pct: { description: "Call Wall ห่างจากราคา (%)", get: (m) => pctFromPrice(m.walls.resistance.strike, m.current_price) },
+  put_wall_distance_pct: { description: "Put Wall ห่างจากราคา (%)", get: (m) => pctFromPrice(m.walls.support.strike, m.current_price) },
+  net_call_oi_change: { description: "Call OI Change สุทธิ", get: (m) => m.netCallOiChange },
+  net_put_oi_change: { description: "Put OI Change สุทธิ", get: (m) => m.netPutOiChange },
+  net_oi_flow: { description: "Call OI Change - Put OI Change", get: (m) => m.netCallOiChange - m.netPutOiChange },
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: (x) => Math.abs(x),
+  min: (...xs) => Math.min(...xs),
+  max: (...xs) => Math.max(...xs),
+};
+
+/** Every metric set to 1, to trial-run a compiled expression */
+const SAMPLE_METRICS: Metrics = Object.fromEntries(Object.keys(FACTOR_METRICS).map((name) => [name, 1]));
+
+export function buildFactorMetrics(input: FactorMetricsInput): Metrics {
+  const metrics: Metrics = {};
+  for (const [name, metric] of Object.entries(FACTOR_METRICS)) {
+    metrics[name] = metric.get(input);
+  }
+  return metrics;
+}
+
+// ============================================
+// Expression Parser
+// ============================================
+
+function invalid(expression: string, reason: string): ValidationError {
+  return new ValidationError(`Expression ไม่ถูกต้อง: ${reason}`, { expression });
+}
+
+function tokenize(expression: string): string[] {
+  const tokens = expression.match(/\d+(?:\.\d+)?|[A-Za-z_]\w*|[-+*/(),]|\S/g) ?? [];
+  const bad = tokens.find((t) => !/^(\d+(\.\d+)?|[A-Za-z_]\w*|[-+*/(),])$/.test(t));
+  if (bad) throw invalid(expression, `ไม่รู้จักอักขระ "${bad}"`);
+  return tokens;
+}
+
+/**
+ * Compile an expression into a function of the metrics. Throws
+ * ValidationError on syntax errors, unknown metrics or functions (own keys
+ * only, so "constructor" or "toString" are unknown) and expressions that
+ * don't evaluate to a number on sample metrics.
+ *
+ * Grammar: expr = term (("+" | "-") term)*, term = unary (("*" | "/") unary)*,
+ * unary = "-" unary | primary, primary = number | metric | fn "(" expr ("," expr)* ")" | "(" expr ")"
+ */
+export function compileMetricExpression(expression: string): Compiled {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw invalid(expression, "ว่างเปล่า");
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) throw invalid(expression, `ต้องการ "${token}" ที่ตำแหน่ง ${pos + 1}`);
+    pos++;
+  };
+
+  function parseExpr(): Compiled {
+    let left = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      const op = tokens[pos++];
+      const l = left;
+      const r = parseTerm();
+      left = op === "+" ? (m) => l(m) + r(m) : (m) => l(m) - r(m);
+    }
+    return left;
+  }
+
+  function parseTerm(): Compiled {
+    let left = parseUnary();
+    while (peek() === "*" || peek() === "/") {
+      const op = tokens[pos++];
+      const l = left;
+      const r = parseUnary();
+      left = op === "*" ? (m) => l(m) * r(m) : (m) => l(m) / r(m);
+    }
+    return left;
+  }
+
+  function parseUnary(): Compiled {
+    if (peek() === "-") {
+      pos++;
+      const inner = parseUnary();
+      return (m) => -inner(m);
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): Compiled {
+    const token = tokens[pos++];
+    if (token === undefined) throw invalid(expression, "จบไม่สมบูรณ์");
+
+    if (/^\d/.test(token)) {
+      const value = parseFloat(token);
+      return () => value;
+    }
+
+    if (token === "(") {
+      const inner = parseExpr();
+      expect(")");
+      return inner;
+    }
+
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() === "(") {
+        const fn = Object.hasOwn(FUNCTIONS, token) ? FUNCTIONS[token] : undefined;
+        if (!fn) throw invalid(expression, `ไม่รู้จักฟังก์ชัน "${token}"`);
+        pos++;
+        const args = [parseExpr()];
+        while (peek() === ",") {
+          pos++;
+          args.push(parseExpr());
+        }
+        expect(")");
+        return (m) => fn(...args.map((a) => a(m)));
+      }
+      if (!Object.hasOwn(FACTOR_METRICS, token)) throw invalid(expression, `ไม่รู้จัก metric "${token}"`);
+      return (m) => m[token];
+    }
+
+    throw invalid(expression, `ไม่คาดว่าจะเจอ "${token}"`);
+  }
+
+  const compiled = parseExpr();
+  if (pos < tokens.length) throw invalid(expression, `มีส่วนเกิน "${tokens.slice(pos).join(" ")}"`);
+
+  let sample: unknown;
+  try {
+    sample = compiled(SAMPLE_METRICS);
+  } catch {
+    sample = undefined;
+  }
+  if (typeof sample !== "number") throw invalid(expression, "คำนวณค่าไม่ได้");
+
+  return compiled;
+}
+
+const compiledCache = new Map<string, Compiled>();
+
+function compileCached(expression: string): Compiled {
+  let compiled = compiledCache.get(expression);
+  if (!compiled) {
+    compiled = compileMetricExpression(expression);
+    compiledCache.set(expression, compiled);
+  }
+  return compiled;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function fill(template: string, value: number): string {
+  return template.replace(/\{value\}/g, value.toFixed(2));
+}
+
+/**
+ * Evaluate a definition into a bilingual factor, or null when the
+ * expression has no finite value
+ */
+export function evaluateCustomFactor(def: CustomFactorDefinition, input: FactorMetricsInput): Factor | null {
+  const value = compileCached(def.expression)(buildFactorMetrics(input));
+  if (!Number.isFinite(value)) return null;
+
+  const higherBullish = def.direction !== "HIGHER_BEARISH";
+  const bullish =
+    def.bullishThreshold !== null && (higherBullish ? value >= def.bullishThreshold : value <= def.bullishThreshold);
+  const bearish =
+    !bullish &&
+    def.bearishThreshold !== null &&
+    (higherBullish ? value <= def.bearishThreshold : value >= def.bearishThreshold);
+
+  const sentiment = bullish ? "BULLISH" : bearish ? "BEARISH" : "NEUTRAL";
+  const thai = bullish ? fill(def.bullishTh, value) : bearish ? fill(def.bearishTh, value) : `${def.name}: ${value.toFixed(2)}`;
+  const english = bullish ? fill(def.bullishEn, value) : bearish ? fill(def.bearishEn, value) : `${def.name}: ${value.toFixed(2)}`;
+
+  return {
+    type: `CUSTOM_${sentiment}`,
+    key: `custom_${def.key}`,
+    sentiment,
+    score: bullish ? def.score : bearish ? -def.score : 0,
+    thai: {
+      short: def.name,
+      long: thai,
+      explanation: def.explanationTh ?? "",
+    },
+    english: {
+      short: def.name,
+      long: english,
+      explanation: def.explanationEn ?? "",
+    },
+    values: { value: Math.round(value * 10000) / 10000, expression: def.expression },
+  };
+}
+
+/**
+ * Wrap a definition as a pipeline factor for generateSignal. A definition
+ * that fails to evaluate is skipped rather than failing the whole signal.
+ */
+export function customSignalFactor(def: CustomFactorDefinition): SignalFactor {
+  return {
+    key: `custom_${def.key}`,
+    name: def.name,
+    order: def.order,
+    evaluate(ctx) {
+      let factor: Factor | null;
+      try {
+        factor = evaluateCustomFactor(def, {
+          current_price: ctx.market.current_price,
+          vwap: ctx.market.vwap,
+          pcr: ctx.pcr,
+          maxPain: ctx.maxPain,
+          walls: ctx.walls,
+          netCallOiChange: ctx.netCallOiChange,
+          netPutOiChange: ctx.netPutOiChange,
+        });
+      } catch (error) {
+        console.error(`[Custom Factor] ${def.key} failed:`, error);
+        return null;
+      }
+      if (!factor) return null;
+
+      const sign = factor.score > 0 ? "+" : "";
+      return {
+        score: factor.score,
+        message: factor.score !== 0 ? factor.thai.long : undefined,
+        breakdown: [`[${sign}${factor.score}] ${def.name}: ${def.expression} = ${factor.values?.value} → ${factor.sentiment}`],
+        detail: factor,
+      };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { SignalFactor } from "./types";
+
+/**
+ * Net OI change reported by CME: more new calls than puts = smart money
+ * bullish, more new puts = bearish / hedging
+ */
+export const flowFactor: SignalFactor = {
+  key: "flow",
+  name: "OI Flow",
+  order: 30,
+  evaluate({ netCallOiChange, netPutOiChange, profile }) {
+    const w = profile.weights;
+
+    if (netCallOiChange > netPutOiChange && netCallOiChange > 0) {
+      const diff = netCallOiChange - netPutOiChange;
+      return {
+        score: w.flow,
+        message: `เงินไหลเข้า Call มากกว่า Put (+${diff.toLocaleString()}) = Smart Money คาดราคาขึ้น`,
+        breakdown: [`[+${w.flow}] Net Call OI (+${netCallOiChange.toLocaleString()}) > Net Put OI (+${netPutOiChange.toLocaleString()}) → Smart Money Bullish`],
+      };
+    }
+    if (netPutOiChange > netCallOiChange && netPutOiChange > 0) {
+      const diff = netPutOiChange - netCallOiChange;
+      return {
+        score: -w.flow,
+        message: `เงินไหลเข้า Put มากกว่า Call (+${diff.toLocaleString()}) = Smart Money คาดราคาลง/Hedging`,
+        breakdown: [`[-${w.flow}] Net Put OI (+${netPutOiChange.toLocaleString()}) > Net Call OI (+${netCallOiChange.toLocaleString()}) → Smart Money Bearish`],
+      };
+    }
+    return { score: 0, breakdown: [`[0] OI Flow Balanced → Neutral`] };
+  },
+};
@@ -0,0 +1,72 @@
+/**
+ * Signal Factor Registry
+ *
+ * generateSignal runs every registered factor in order and sums their
+ * points. Built-in factors register below; a new factor is a module that
+ * exports a SignalFactor and is passed to registerSignalFactor.
+ */
+
+import { pcrFactor } from "./pcr";
+import { vwapFactor } from "./vwap";
+import { flowFactor } from "./flow";
+import { wallFactor } from "./wall";
+import { maxPainFactor } from "./max-pain";
+import { oiDiffFactor } from "./oi-diff";
+import { atmBuildupFactor } from "./atm-buildup";
+import { volumeFactor } from "./volume";
+import { skewFactor } from "./skew";
+import type { SignalFactor } from "./types";
+
+export type { FactorContext, FactorOutcome, SignalFactor } from "./types";
+export { analyzeOiDiff, type OiDiffResult, type StrikeOiDiff } from "./oi-diff";
+export {
+  FACTOR_METRICS,
+  compileMetricExpression,
+  customSignalFactor,
+  evaluateCustomFactor,
+  type CustomFactorDefinition,
+  type CustomFactorDirection,
+} from "./custom";
+
+// ============================================
+// Registry
+// ============================================
+
+const registry = new Map<string, SignalFactor>();
+
+/**
+ * Add a factor, replacing any factor registered under the same key
+ */
+export function registerSignalFactor(factor: SignalFactor): void {
+  registry.set(factor.key, factor);
+}
+
+export function unregisterSignalFactor(key: string): void {
+  registry.delete(key);
+}
+
+/**
+ * Registered factors in run order
+ */
+export function getSignalFactors(): SignalFactor[] {
+  return [...registry.values()].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * factor_scores keys of the registered factors, in run order
+ */
+export function getFactorScoreKeys(): string[] {
+  return getSignalFactors().map((f) => `${f.key}_score`);
+}
+
+[
+  pcrFactor,
+  vwapFactor,
+  flowFactor,
+  wallFactor,
+  maxPainFactor,
+  oiDiffFactor,
+  atmBuildupFactor,
+  volumeFactor,
+  skewFactor,
+].forEach(registerSignalFactor);
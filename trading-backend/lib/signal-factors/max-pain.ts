@@ -0,0 +1,32 @@
+import type { SignalFactor } from "./types";
+
+/**
+ * Max pain above price pulls it up, below pulls it down
+ */
+export const maxPainFactor: SignalFactor = {
+  key: "max_pain",
+  name: "Max Pain",
+  order: 50,
+  evaluate({ maxPain, profile }) {
+    const { weights: w, thresholds: t } = profile;
+
+    if (maxPain.distance_percent > t.max_pain_distance_pct) {
+      return {
+        score: w.max_pain,
+        message: `Max Pain (${maxPain.max_pain_strike}) อยู่เหนือราคา ${maxPain.distance_percent.toFixed(1)}% = แรงดึงขึ้น`,
+        breakdown: [`[+${w.max_pain}] Max Pain ${maxPain.max_pain_strike} is ${maxPain.distance_percent.toFixed(1)}% above price → Upward Magnet`],
+      };
+    }
+    if (maxPain.distance_percent < -t.max_pain_distance_pct) {
+      return {
+        score: -w.max_pain,
+        message: `Max Pain (${maxPain.max_pain_strike}) อยู่ใต้ราคา ${Math.abs(maxPain.distance_percent).toFixed(1)}% = แรงดึงลง`,
+        breakdown: [`[-${w.max_pain}] Max Pain ${maxPain.max_pain_strike} is ${Math.abs(maxPain.distance_percent).toFixed(1)}% below price → Downward Magnet`],
+      };
+    }
+    return {
+      score: 0,
+      breakdown: [`[0] Price near Max Pain ${maxPain.max_pain_strike} (${maxPain.distance_percent.toFixed(1)}%) → Sideways Expected`],
+    };
+  },
+};
@@ -0,0 +1,112 @@
+import type { OptionStrike } from "../analysis";
+import type { SignalFactor } from "./types";
+
+// ============================================
+// Types
+// ============================================
+
+export interface StrikeOiDiff {
+  strike: number;
+  callOi: number;
+  putOi: number;
+  callChange: number;
+  putChange: number;
+}
+
+export interface OiDiffResult {
+  changes: StrikeOiDiff[];
+  totalCallChange: number;
+  totalPutChange: number;
+  /** Call change minus put change needed for a direction */
+  threshold: number;
+  signal: "BULLISH" | "BEARISH" | "NEUTRAL";
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Net bias must exceed this share of the previous (larger) OI total */
+const BIAS_THRESHOLD = 0.05;
+
+// ============================================
+// Snapshot-to-snapshot OI diff
+// ============================================
+
+/**
+ * OI change per strike between two OI snapshots. Unlike the CME-reported
+ * OI change this covers whatever interval lies between the snapshots.
+ */
+export function analyzeOiDiff(current: OptionStrike[], previous: OptionStrike[]): OiDiffResult {
+  const prevMap = new Map(previous.map((s) => [s.strike_price, s]));
+
+  let totalCallChange = 0;
+  let totalPutChange = 0;
+  let totalPrevCall = 0;
+  let totalPrevPut = 0;
+
+  const changes = current.map((s) => {
+    const prev = prevMap.get(s.strike_price);
+    const callChange = s.call_oi - (prev?.call_oi ?? 0);
+    const putChange = s.put_oi - (prev?.put_oi ?? 0);
+
+    totalCallChange += callChange;
+    totalPutChange += putChange;
+    totalPrevCall += prev?.call_oi ?? 0;
+    totalPrevPut += prev?.put_oi ?? 0;
+
+    return { strike: s.strike_price, callOi: s.call_oi, putOi: s.put_oi, callChange, putChange };
+  });
+
+  const threshold = Math.max(totalPrevCall, totalPrevPut) * BIAS_THRESHOLD;
+  const netCallBias = totalCallChange - totalPutChange;
+
+  return {
+    changes,
+    totalCallChange,
+    totalPutChange,
+    threshold,
+    signal: netCallBias > threshold ? "BULLISH" : netCallBias < -threshold ? "BEARISH" : "NEUTRAL",
+  };
+}
+
+// ============================================
+// Factor
+// ============================================
+
+/**
+ * Call OI growing faster than put OI since the previous snapshot =
+ * bullish positioning, and vice versa
+ */
+export const oiDiffFactor: SignalFactor = {
+  key: "oi_diff",
+  name: "OI Diff (Snapshot)",
+  order: 60,
+  evaluate({ market, profile }) {
+    if (!market.previous_strikes?.length) return null;
+
+    const w = profile.weights;
+    const diff = analyzeOiDiff(market.strikes, market.previous_strikes);
+    const calls = `${diff.totalCallChange >= 0 ? "+" : ""}${diff.totalCallChange.toLocaleString()}`;
+    const puts = `${diff.totalPutChange >= 0 ? "+" : ""}${diff.totalPutChange.toLocaleString()}`;
+
+    if (diff.signal === "BULLISH") {
+      return {
+        score: w.oi_diff,
+        message: `OI ฝั่ง Call เพิ่มเร็วกว่า Put จาก Snapshot ก่อนหน้า (Call ${calls}, Put ${puts}) = สถานะเอียงขาขึ้น`,
+        breakdown: [`[+${w.oi_diff}] OI Diff vs previous snapshot: Call ${calls} / Put ${puts} → Bullish Positioning`],
+      };
+    }
+    if (diff.signal === "BEARISH") {
+      return {
+        score: -w.oi_diff,
+        message: `OI ฝั่ง Put เพิ่มเร็วกว่า Call จาก Snapshot ก่อนหน้า (Put ${puts}, Call ${calls}) = สถานะเอียงขาลง`,
+        breakdown: [`[-${w.oi_diff}] OI Diff vs previous snapshot: Call ${calls} / Put ${puts} → Bearish Positioning`],
+      };
+    }
+    return {
+      score: 0,
+      breakdown: [`[0] OI Diff vs previous snapshot: Call ${calls} / Put ${puts} → Balanced`],
+    };
+  },
+};
@@ -0,0 +1,45 @@
+import type { SignalFactor } from "./types";
+
+/**
+ * PCR (Volume) below the bullish cut-offs = call buying = bullish;
+ * above the bearish cut-offs = put buying = bearish
+ */
+export const pcrFactor: SignalFactor = {
+  key: "pcr",
+  name: "Put/Call Ratio",
+  order: 10,
+  evaluate({ pcr, profile }) {
+    const { weights: w, thresholds: t } = profile;
+    const volumePcr = pcr.volume_pcr;
+
+    if (volumePcr < t.pcr_strong_bullish) {
+      return {
+        score: w.pcr_strong,
+        message: `PCR ต่ำมาก (${volumePcr.toFixed(2)}) = นักลงทุนซื้อ Call มากกว่า Put อย่างชัดเจน`,
+        breakdown: [`[+${w.pcr_strong}] PCR ${volumePcr.toFixed(2)} < ${t.pcr_strong_bullish} → Bullish Sentiment`],
+      };
+    }
+    if (volumePcr < t.pcr_mild_bullish) {
+      return {
+        score: w.pcr_mild,
+        message: `PCR ค่อนข้างต่ำ (${volumePcr.toFixed(2)}) = มีแนวโน้ม Bullish`,
+        breakdown: [`[+${w.pcr_mild}] PCR ${volumePcr.toFixed(2)} < ${t.pcr_mild_bullish} → Mild Bullish`],
+      };
+    }
+    if (volumePcr > t.pcr_strong_bearish) {
+      return {
+        score: -w.pcr_strong,
+        message: `PCR สูงมาก (${volumePcr.toFixed(2)}) = นักลงทุนซื้อ Put มากกว่า Call อย่างชัดเจน`,
+        breakdown: [`[-${w.pcr_strong}] PCR ${volumePcr.toFixed(2)} > ${t.pcr_strong_bearish} → Bearish Sentiment`],
+      };
+    }
+    if (volumePcr > t.pcr_mild_bearish) {
+      return {
+        score: -w.pcr_mild,
+        message: `PCR ค่อนข้างสูง (${volumePcr.toFixed(2)}) = มีแนวโน้ม Bearish`,
+        breakdown: [`[-${w.pcr_mild}] PCR ${volumePcr.toFixed(2)} > ${t.pcr_mild_bearish} → Mild Bearish`],
+      };
+    }
+    return { score: 0, breakdown: [`[0] PCR ${volumePcr.toFixed(2)} = Neutral`] };
+  },
+};
@@ -0,0 +1,97 @@
+import { SKEW_THRESHOLD } from "../volatility";
+import type { SignalFactor } from "./types";
+
+/**
+ * 25-delta risk reversal of the OI snapshot (lib/volatility): calls bid
+ * over puts beyond SKEW_THRESHOLD vol points = bullish, puts over calls =
+ * bearish. Skipped when the snapshot has no volSettle to build a smile from.
+ */
+export const skewFactor: SignalFactor = {
+  key: "skew",
+  name: "Volatility Skew",
+  order: 80,
+  evaluate({ market, profile }) {
+    const riskReversal = market.skew?.riskReversal ?? null;
+    if (riskReversal === null) return null;
+
+    const w = profile.weights;
+    const change = market.skew?.riskReversalChange ?? null;
+    const rr = riskReversal.toFixed(2);
+    const changeTh = change ? ` (เปลี่ยน ${change > 0 ? "+" : ""}${change.toFixed(2)})` : "";
+    const changeEn = change ? ` (${change > 0 ? "+" : ""}${change.toFixed(2)} since last snapshot)` : "";
+    const values: Record<string, number> = { riskReversal };
+    if (change !== null) values.riskReversalChange = change;
+
+    if (riskReversal >= SKEW_THRESHOLD) {
+      const long = `Call Skew (RR ${rr})${changeTh} = ตลาดยอมจ่ายแพงเพื่อซื้อ Call`;
+      return {
+        score: w.skew,
+        message: long,
+        breakdown: [`[+${w.skew}] Risk Reversal ${rr} ≥ ${SKEW_THRESHOLD} → Call Skew (Bullish)`],
+        detail: {
+          type: "SKEW_CALL",
+          key: "skew",
+          sentiment: "BULLISH",
+          score: w.skew,
+          thai: {
+            short: `Call Skew (RR ${rr})`,
+            long,
+            explanation: `IV ของ Call ที่ 25 Delta สูงกว่า Put ที่ 25 Delta อยู่ ${rr} จุด แสดงว่าความต้องการป้องกันขาขึ้นมีมากกว่าขาลง เป็นสัญญาณ Bullish`,
+          },
+          english: {
+            short: `Call Skew (RR ${rr})`,
+            long: `Call Skew (RR ${rr})${changeEn} = Market Paying Up for Calls`,
+            explanation: `25-delta call IV is ${rr} vol points above 25-delta put IV. Demand for upside protection exceeds downside protection, a bullish signal.`,
+          },
+          values,
+        },
+      };
+    }
+    if (riskReversal <= -SKEW_THRESHOLD) {
+      const long = `Put Skew (RR ${rr})${changeTh} = ตลาดยอมจ่ายแพงเพื่อซื้อ Put`;
+      return {
+        score: -w.skew,
+        message: long,
+        breakdown: [`[-${w.skew}] Risk Reversal ${rr} ≤ -${SKEW_THRESHOLD} → Put Skew (Bearish)`],
+        detail: {
+          type: "SKEW_PUT",
+          key: "skew",
+          sentiment: "BEARISH",
+          score: -w.skew,
+          thai: {
+            short: `Put Skew (RR ${rr})`,
+            long,
+            explanation: `IV ของ Put ที่ 25 Delta สูงกว่า Call ที่ 25 Delta อยู่ ${Math.abs(riskReversal).toFixed(2)} จุด แสดงว่านักลงทุนกำลังป้องกันความเสี่ยงขาลง เป็นสัญญาณ Bearish`,
+          },
+          english: {
+            short: `Put Skew (RR ${rr})`,
+            long: `Put Skew (RR ${rr})${changeEn} = Market Paying Up for Puts`,
+            explanation: `25-delta put IV is ${Math.abs(riskReversal).toFixed(2)} vol points above 25-delta call IV. Investors are paying for downside protection, a bearish signal.`,
+          },
+          values,
+        },
+      };
+    }
+    return {
+      score: 0,
+      breakdown: [`[0] Risk Reversal ${rr} → Balanced Skew`],
+      detail: {
+        type: "SKEW_NEUTRAL",
+        key: "skew",
+        sentiment: "NEUTRAL",
+        score: 0,
+        thai: {
+          short: `Skew สมดุล (RR ${rr})`,
+          long: `Skew สมดุล (RR ${rr})${changeTh}`,
+          explanation: `IV ของ Call และ Put ที่ 25 Delta ใกล้เคียงกัน ตลาดไม่ได้ให้น้ำหนักกับการป้องกันฝั่งใดเป็นพิเศษ`,
+        },
+        english: {
+          short: `Balanced Skew (RR ${rr})`,
+          long: `Balanced Skew (RR ${rr})${changeEn}`,
+          explanation: `25-delta call and put IVs are close. The market is not paying up for protection on either side.`,
+        },
+        values,
+      },
+    };
+  },
+};
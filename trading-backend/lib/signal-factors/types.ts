@@ -0,0 +1,59 @@
+/**
+ * Signal Factor Types
+ *
+ * A signal factor looks at the market context and adds (or takes away)
+ * points from the 50-point neutral base of generateSignal.
+ */
+
+import type {
+  Factor,
+  LiquidityWalls,
+  MarketData,
+  MaxPainResult,
+  PCRResult,
+  ScoringProfile,
+  VolumeAnalysis,
+} from "../analysis";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Everything a factor may look at. Metrics shared by several factors are
+ * computed once by generateSignal.
+ */
+export interface FactorContext {
+  market: MarketData;
+  profile: ScoringProfile;
+  walls: LiquidityWalls;
+  pcr: PCRResult;
+  maxPain: MaxPainResult;
+  volumeAnalysis: VolumeAnalysis;
+  /** Net OI change reported by CME (OI change snapshot) */
+  netCallOiChange: number;
+  netPutOiChange: number;
+  /** Score accumulated by the factors that ran before this one */
+  score: number;
+}
+
+export interface FactorOutcome {
+  /** Points added to the score (negative = bearish) */
+  score: number;
+  /** Thai explanation, listed under positive/negative factors by sign */
+  message?: string;
+  /** Lines for TradingSignal.breakdown */
+  breakdown: string[];
+  /** Bilingual detail, reported in TradingSignal.factor_details */
+  detail?: Factor;
+}
+
+export interface SignalFactor {
+  /** Unique key; the score is reported as factor_scores[`${key}_score`] */
+  key: string;
+  name: string;
+  /** Factors run in ascending order, so later ones see the running score */
+  order: number;
+  /** null when the factor does not apply to this market (no score, no breakdown) */
+  evaluate(context: FactorContext): FactorOutcome | null;
+}
@@ -0,0 +1,46 @@
+import { getVolumeConfirmation } from "../analysis";
+import type { SignalFactor } from "./types";
+
+/**
+ * Volume confirms or contradicts the direction of the factors before it.
+ * Runs last among the built-ins since it needs their running score.
+ */
+export const volumeFactor: SignalFactor = {
+  key: "volume",
+  name: "Volume Confirmation",
+  order: 100,
+  evaluate({ volumeAnalysis, profile, score }) {
+    const { weights: w, thresholds: t } = profile;
+
+    const preliminarySignal: "BUY" | "SELL" | "NEUTRAL" =
+      score >= t.buy ? "BUY" : score <= t.sell ? "SELL" : "NEUTRAL";
+
+    // Confirmation is scored on a ±10 scale, rescaled to the profile weight
+    const confirmation = getVolumeConfirmation(volumeAnalysis, preliminarySignal);
+    const volumeScore = Math.round((confirmation.score * w.volume) / 10);
+
+    const breakdown: string[] = [];
+    if (volumeScore > 0) {
+      breakdown.push(`[+${volumeScore}] Volume Confirmation: ${volumeAnalysis.signal} (${volumeAnalysis.confidence}% confidence)`);
+    } else if (volumeScore < 0) {
+      breakdown.push(`[${volumeScore}] Volume Contradiction: ${volumeAnalysis.signal} (${volumeAnalysis.confidence}% confidence)`);
+    } else {
+      breakdown.push(`[0] Volume: ${volumeAnalysis.signal} - ไม่มีสัญญาณชัดเจน`);
+    }
+
+    // Strikes with volume > 2x average
+    if (volumeAnalysis.volume_spikes.length > 0) {
+      const spikeInfo = volumeAnalysis.volume_spikes
+        .slice(0, 5)
+        .map((s) => `${s.strike}(${s.volume_ratio.toFixed(1)}x)`)
+        .join(", ");
+      breakdown.push(`[INFO] Volume Spikes: ${spikeInfo}`);
+    }
+
+    return {
+      score: volumeScore,
+      message: volumeScore !== 0 ? confirmation.description : undefined,
+      breakdown,
+    };
+  },
+};
@@ -0,0 +1,33 @@
+import type { SignalFactor } from "./types";
+
+/**
+ * Price above VWAP = buyers in control; below = sellers
+ */
+export const vwapFactor: SignalFactor = {
+  key: "vwap",
+  name: "VWAP Trend",
+  order: 20,
+  evaluate({ market, profile }) {
+    const { current_price, vwap } = market;
+    const w = profile.weights;
+    if (!(current_price > 0 && vwap > 0)) return null;
+
+    const vwapDiff = ((current_price - vwap) / vwap) * 100;
+
+    if (current_price > vwap) {
+      return {
+        score: w.vwap,
+        message: `ราคาเหนือ VWAP (+${vwapDiff.toFixed(2)}%) = แรงซื้อเหนือกว่าแรงขาย`,
+        breakdown: [`[+${w.vwap}] Price ${current_price.toFixed(1)} > VWAP ${vwap.toFixed(1)} → Bullish Trend`],
+      };
+    }
+    if (current_price < vwap) {
+      return {
+        score: -w.vwap,
+        message: `ราคาใต้ VWAP (${vwapDiff.toFixed(2)}%) = แรงขายเหนือกว่าแรงซื้อ`,
+        breakdown: [`[-${w.vwap}] Price ${current_price.toFixed(1)} < VWAP ${vwap.toFixed(1)} → Bearish Trend`],
+      };
+    }
+    return { score: 0, breakdown: [`[0] Price = VWAP → Neutral Trend`] };
+  },
+};
@@ -0,0 +1,54 @@
+import type { SignalFactor } from "./types";
+
+/**
+ * Near the Put Wall = bounce expected, near the Call Wall = rejection
+ * expected; through either wall = breakout / breakdown
+ */
+export const wallFactor: SignalFactor = {
+  key: "wall",
+  name: "Wall Interaction",
+  order: 40,
+  evaluate({ market, walls, profile }) {
+    const { current_price } = market;
+    const { weights: w, thresholds: t } = profile;
+
+    const priceRange = walls.resistance.strike - walls.support.strike;
+    if (priceRange <= 0) return null;
+
+    const supportProximityPct = ((current_price - walls.support.strike) / priceRange) * 100;
+    const resistanceProximityPct = ((walls.resistance.strike - current_price) / priceRange) * 100;
+
+    if (supportProximityPct >= 0 && supportProximityPct < t.wall_proximity_pct) {
+      return {
+        score: w.wall,
+        message: `ราคาใกล้แนวรับ ${walls.support.strike} (Put Wall) = คาดเด้งขึ้น`,
+        breakdown: [`[+${w.wall}] Price near Put Wall ${walls.support.strike} (${supportProximityPct.toFixed(0)}% from support) → Bounce Expected`],
+      };
+    }
+    if (resistanceProximityPct >= 0 && resistanceProximityPct < t.wall_proximity_pct) {
+      return {
+        score: -w.wall,
+        message: `ราคาใกล้แนวต้าน ${walls.resistance.strike} (Call Wall) = คาดถูกกดลง`,
+        breakdown: [`[-${w.wall}] Price near Call Wall ${walls.resistance.strike} (${resistanceProximityPct.toFixed(0)}% from resistance) → Rejection Expected`],
+      };
+    }
+    if (current_price > walls.resistance.strike) {
+      return {
+        score: w.wall_breakout,
+        message: `ราคาทะลุแนวต้าน ${walls.resistance.strike} = Breakout ขาขึ้น!`,
+        breakdown: [`[+${w.wall_breakout}] BREAKOUT! Price ${current_price.toFixed(1)} > Call Wall ${walls.resistance.strike}`],
+      };
+    }
+    if (current_price < walls.support.strike) {
+      return {
+        score: -w.wall_breakout,
+        message: `ราคาหลุดแนวรับ ${walls.support.strike} = Breakdown ขาลง!`,
+        breakdown: [`[-${w.wall_breakout}] BREAKDOWN! Price ${current_price.toFixed(1)} < Put Wall ${walls.support.strike}`],
+      };
+    }
+    return {
+      score: 0,
+      breakdown: [`[0] Price in middle of range (${supportProximityPct.toFixed(0)}% from support) → Neutral`],
+    };
+  },
+};
@@ -0,0 +1,358 @@
+/**
+ * Snapshot Analytics
+ *
+ * Walls, PCR, max pain, VWAP, GEX and the expected move of a snapshot group
+ * (an OI snapshot plus the volume and OI change snapshots read with it),
+ * computed once when the group is ingested and stored as a SnapshotAnalytics
+ * row, so read routes don't rebuild the strike map on every poll.
+ *
+ * Each row records the content hash of its sources. A revision of a source
+ * snapshot, a different group than the one requested, or a row computed by
+ * an older ANALYTICS_VERSION is recomputed on the next read; the backfill
+ * fills in snapshots ingested before rows existed.
+ */
+
+import { Prisma, type SnapshotAnalytics as SnapshotAnalyticsRow } from "@prisma/client";
+import prisma from "./db";
+import {
+  calculatePCR,
+  calculateMaxPain,
+  calculateVWAP,
+  getLiquidityWalls,
+  type LiquidityWalls,
+  type MaxPainResult,
+  type OptionStrike,
+  type PCRResult,
+} from "./analysis";
+import { calculateGEX } from "./greeks";
+import { buildExpectedMove, type ExpectedMove } from "./expected-move";
+import { getExpiryContext } from "./expiry-calendar";
+import {
+  mergeSnapshotStrikes,
+  selectLatestPrice,
+  toOptionStrikes,
+  type MergedStrike,
+} from "./strike-merge";
+import { DEFAULT_PRODUCT, findProduct, productWhere } from "./products";
+import { NotFoundError } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+/** A stored snapshot at a given revision */
+export interface SnapshotRef {
+  id: string;
+  contentHash: string | null;
+}
+
+/**
+ * Volume and OI change members of a group. Undefined means "whatever the
+ * stored row has" on read and findGroupPartners on compute; null means none.
+ */
+export interface SnapshotGroupRefs {
+  volume?: SnapshotRef | null;
+  oiChange?: SnapshotRef | null;
+}
+
+export interface SnapshotAnalytics {
+  oiSnapshotId: string;
+  volumeSnapshotId: string | null;
+  oiChangeSnapshotId: string | null;
+  product: string;
+  expiry: string;
+  extractedAt: Date;
+  /** Price of the most recently extracted snapshot in the group */
+  futurePrice: number;
+  daysToExpiry: number;
+  expiresAt: Date | null;
+  expiryEstimated: boolean;
+  strikes: MergedStrike[];
+  optionStrikes: OptionStrike[];
+  walls: LiquidityWalls;
+  pcr: PCRResult;
+  maxPain: MaxPainResult;
+  vwap: number;
+  /** Total GEX under the default dealer positioning */
+  netGex: number;
+  zeroGamma: number | null;
+  expectedMove: ExpectedMove | null;
+  computedAt: Date;
+}
+
+export interface BackfillResult {
+  scanned: number;
+  computed: number;
+  skipped: number;
+  failed: Array<{ oiSnapshotId: string; error: string }>;
+  /** Pass back as cursor for the next batch; null when done */
+  nextCursor: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Bump when the stored calculations change so the backfill recomputes */
+export const ANALYTICS_VERSION = 2;
+
+/** Volume / OI change snapshots extracted this close to the OI snapshot join its group */
+export const DEFAULT_MAX_SKEW_MS = 5 * 60 * 1000;
+
+const DEFAULT_BACKFILL_LIMIT = 100;
+const MAX_BACKFILL_LIMIT = 500;
+
+const strikesInclude = { strikes: { orderBy: { strike: "asc" as const } } };
+
+// ============================================
+// Row Mapping
+// ============================================
+
+function fromRow(row: SnapshotAnalyticsRow): SnapshotAnalytics {
+  const strikes = row.strikes as unknown as MergedStrike[];
+  return {
+    oiSnapshotId: row.oiSnapshotId,
+    volumeSnapshotId: row.volumeSnapshotId,
+    oiChangeSnapshotId: row.oiChangeSnapshotId,
+    product: row.product,
+    expiry: row.expiry,
+    extractedAt: row.extractedAt,
+    futurePrice: row.futurePrice,
+    daysToExpiry: row.daysToExpiry,
+    expiresAt: row.expiresAt,
+    expiryEstimated: row.expiryEstimated,
+    strikes,
+    optionStrikes: toOptionStrikes(strikes),
+    walls: row.walls as unknown as LiquidityWalls,
+    pcr: row.pcr as unknown as PCRResult,
+    maxPain: row.maxPain as unknown as MaxPainResult,
+    vwap: row.vwap,
+    netGex: row.netGex,
+    zeroGamma: row.zeroGamma,
+    expectedMove: row.expectedMove as unknown as ExpectedMove | null,
+    computedAt: row.computedAt,
+  };
+}
+
+/**
+ * Whether a stored row still reflects the given sources
+ */
+function isCurrent(row: SnapshotAnalyticsRow, oi: SnapshotRef, group?: SnapshotGroupRefs): boolean {
+  if (row.version !== ANALYTICS_VERSION || row.oiContentHash !== oi.contentHash) return false;
+
+  const matches = (id: string | null, hash: string | null, ref: SnapshotRef | null | undefined) =>
+    ref === undefined || (ref === null ? id === null : id === ref.id && hash === ref.contentHash);
+
+  return (
+    matches(row.volumeSnapshotId, row.volumeContentHash, group?.volume) &&
+    matches(row.oiChangeSnapshotId, row.oiChangeContentHash, group?.oiChange)
+  );
+}
+
+// ============================================
+// Compute
+// ============================================
+
+/**
+ * Newest volume and OI change snapshots of the same product and expiry
+ * extracted within maxSkewMs of the OI snapshot (either side). Rows come
+ * without strikes. asOf caps the window for replays, so nothing extracted
+ * after the decision time is used.
+ */
+export async function findGroupPartners(
+  oi: { product: string; expiry: string; extractedAt: Date },
+  maxSkewMs: number = DEFAULT_MAX_SKEW_MS,
+  asOf?: Date
+) {
+  const windowEnd = oi.extractedAt.getTime() + maxSkewMs;
+  const where = {
+    ...productWhere(oi.product),
+    expiry: oi.expiry,
+    extractedAt: {
+      gte: new Date(oi.extractedAt.getTime() - maxSkewMs),
+      lte: new Date(asOf ? Math.min(windowEnd, asOf.getTime()) : windowEnd),
+    },
+  };
+  const orderBy = { extractedAt: "desc" as const };
+
+  const [volume, oiChange] = await Promise.all([
+    prisma.intradayVolumeSnapshot.findFirst({ where, orderBy }),
+    prisma.oiChangeSnapshot.findFirst({ where, orderBy }),
+  ]);
+
+  return { volume, oiChange };
+}
+
+/**
+ * Compute and store the analytics of an OI snapshot's group. Members left
+ * undefined are matched by findGroupPartners.
+ */
+export async function refreshSnapshotAnalytics(
+  oiSnapshotId: string,
+  members: { volumeSnapshotId?: string | null; oiChangeSnapshotId?: string | null } = {}
+): Promise<SnapshotAnalytics> {
+  const oi = await prisma.oiSnapshot.findUnique({
+    where: { id: oiSnapshotId },
+    include: strikesInclude,
+  });
+  if (!oi) {
+    throw new NotFoundError("OI Snapshot", { oiSnapshotId });
+  }
+
+  let { volumeSnapshotId, oiChangeSnapshotId } = members;
+  if (volumeSnapshotId === undefined || oiChangeSnapshotId === undefined) {
+    const partners = await findGroupPartners(oi);
+    if (volumeSnapshotId === undefined) volumeSnapshotId = partners.volume?.id ?? null;
+    if (oiChangeSnapshotId === undefined) oiChangeSnapshotId = partners.oiChange?.id ?? null;
+  }
+
+  const [volume, oiChange] = await Promise.all([
+    volumeSnapshotId
+      ? prisma.intradayVolumeSnapshot.findUnique({ where: { id: volumeSnapshotId }, include: strikesInclude })
+      : null,
+    oiChangeSnapshotId
+      ? prisma.oiChangeSnapshot.findUnique({ where: { id: oiChangeSnapshotId }, include: strikesInclude })
+      : null,
+  ]);
+
+  const strikes = mergeSnapshotStrikes(oi, volume, oiChange);
+  const optionStrikes = toOptionStrikes(strikes);
+  const futurePrice = selectLatestPrice([oi, volume, oiChange]) ?? 0;
+  const expiryContext = getExpiryContext(oi.expiry, oi.extractedAt);
+  const contractMultiplier = (findProduct(oi.product) ?? DEFAULT_PRODUCT).contractMultiplier;
+
+  const walls = getLiquidityWalls(optionStrikes);
+  const pcr = calculatePCR(optionStrikes, futurePrice);
+  const maxPain = calculateMaxPain(optionStrikes, futurePrice, expiryContext.daysToExpiry);
+  const vwap = calculateVWAP(optionStrikes);
+  const gex = calculateGEX(
+    optionStrikes,
+    futurePrice,
+    expiryContext.daysToExpiry,
+    undefined,
+    contractMultiplier
+  );
+  const expectedMove = buildExpectedMove(strikes, futurePrice, expiryContext.daysToExpiry);
+
+  const data = {
+    version: ANALYTICS_VERSION,
+    oiContentHash: oi.contentHash,
+    volumeSnapshotId: volume?.id ?? null,
+    volumeContentHash: volume?.contentHash ?? null,
+    oiChangeSnapshotId: oiChange?.id ?? null,
+    oiChangeContentHash: oiChange?.contentHash ?? null,
+    product: oi.product,
+    expiry: oi.expiry,
+    extractedAt: oi.extractedAt,
+    futurePrice,
+    daysToExpiry: expiryContext.daysToExpiry,
+    expiresAt: expiryContext.expiresAt,
+    expiryEstimated: expiryContext.isEstimated,
+    callWall: walls.resistance.strike,
+    putWall: walls.support.strike,
+    oiPcr: pcr.oi_pcr,
+    volumePcr: pcr.volume_pcr,
+    maxPainStrike: maxPain.max_pain_strike,
+    vwap,
+    netGex: Math.round(gex.totalGex),
+    zeroGamma: gex.zeroGammaLevel,
+    walls: walls as unknown as Prisma.InputJsonValue,
+    pcr: pcr as unknown as Prisma.InputJsonValue,
+    maxPain: maxPain as unknown as Prisma.InputJsonValue,
+    expectedMove: expectedMove ? (expectedMove as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+    strikes: strikes as unknown as Prisma.InputJsonValue,
+    computedAt: new Date(),
+  };
+
+  const row = await prisma.snapshotAnalytics.upsert({
+    where: { oiSnapshotId },
+    create: { oiSnapshotId, ...data },
+    update: data,
+  });
+
+  return fromRow(row);
+}
+
+// ============================================
+// Read
+// ============================================
+
+/**
+ * Stored analytics of an OI snapshot's group, recomputed first when a
+ * source was revised or the requested group differs from the stored one
+ */
+export async function getSnapshotAnalytics(
+  oi: SnapshotRef,
+  group?: SnapshotGroupRefs
+): Promise<SnapshotAnalytics> {
+  const row = await prisma.snapshotAnalytics.findUnique({ where: { oiSnapshotId: oi.id } });
+  if (row && isCurrent(row, oi, group)) {
+    return fromRow(row);
+  }
+
+  return refreshSnapshotAnalytics(oi.id, {
+    volumeSnapshotId: group?.volume === undefined ? row?.volumeSnapshotId : group.volume?.id ?? null,
+    oiChangeSnapshotId: group?.oiChange === undefined ? row?.oiChangeSnapshotId : group.oiChange?.id ?? null,
+  });
+}
+
+// ============================================
+// Backfill
+// ============================================
+
+/**
+ * Compute analytics for one batch of OI snapshots that have no current row
+ * (or every snapshot with force). Batches walk snapshots by id; pass
+ * nextCursor back until it is null.
+ */
+export async function backfillSnapshotAnalytics(
+  options: { product?: string | null; cursor?: string | null; limit?: number; force?: boolean } = {}
+): Promise<BackfillResult> {
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_BACKFILL_LIMIT), 1), MAX_BACKFILL_LIMIT);
+
+  const snapshots = await prisma.oiSnapshot.findMany({
+    where: productWhere(options.product),
+    orderBy: { id: "asc" },
+    take: limit,
+    ...(options.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {}),
+    select: { id: true, contentHash: true },
+  });
+
+  const rows = await prisma.snapshotAnalytics.findMany({
+    where: { oiSnapshotId: { in: snapshots.map((s) => s.id) } },
+  });
+  const rowBySnapshot = new Map(rows.map((row) => [row.oiSnapshotId, row]));
+
+  const result: BackfillResult = {
+    scanned: snapshots.length,
+    computed: 0,
+    skipped: 0,
+    failed: [],
+    nextCursor: snapshots.length === limit ? snapshots[snapshots.length - 1].id : null,
+  };
+
+  // One at a time - each compute loads three snapshots with their strikes
+  for (const snapshot of snapshots) {
+    const row = rowBySnapshot.get(snapshot.id);
+    if (row && !options.force && isCurrent(row, snapshot)) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      // Keep the group an earlier ingest recorded
+      await refreshSnapshotAnalytics(
+        snapshot.id,
+        row ? { volumeSnapshotId: row.volumeSnapshotId, oiChangeSnapshotId: row.oiChangeSnapshotId } : {}
+      );
+      result.computed++;
+    } catch (error) {
+      result.failed.push({
+        oiSnapshotId: snapshot.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,187 @@
+/**
+ * Snapshot Revisions
+ *
+ * Every accepted extraction from the extension is kept as an immutable
+ * SnapshotRevision. Snapshot rows (and their strikes) are the projection of
+ * the latest revision, so existing readers keep working while the full
+ * intraday history of each dedup window stays queryable.
+ */
+
+import { createHash } from "crypto";
+import type { Prisma } from "@prisma/client";
+import prisma from "./db";
+import type { ChartSummary, DataType, ExtensionChartData } from "./types";
+
+// ============================================
+// Types
+// ============================================
+
+export interface RevisionStrike {
+  strike: number;
+  put: number | null;
+  call: number | null;
+  volSettle: number | null;
+  range: string | null;
+}
+
+export interface RevisionContent {
+  futurePrice: number | null;
+  summary: ChartSummary;
+  strikes: RevisionStrike[];
+}
+
+export interface RevisionHistoryEntry {
+  id: string;
+  revision: number;
+  contentHash: string;
+  extractedAt: Date;
+  createdAt: Date;
+  futurePrice: number | null;
+  totalPut: number;
+  totalCall: number;
+  putDelta: number;
+  callDelta: number;
+  strikesChanged: number;
+  strikes?: RevisionStrike[];
+}
+
+// ============================================
+// Content Normalization & Hashing
+// ============================================
+
+/**
+ * Normalize extension chart rows into revision content
+ */
+export function buildRevisionContent(
+  chartData: ExtensionChartData,
+  summary: ChartSummary
+): RevisionContent {
+  return {
+    futurePrice: chartData.futurePrice || null,
+    summary,
+    strikes: chartData.tableData.map((row) => ({
+      strike: parseFloat(String(row.strike)) || 0,
+      put: row.put !== null ? parseFloat(String(row.put)) || 0 : null,
+      call: row.call !== null ? parseFloat(String(row.call)) || 0 : null,
+      volSettle: row.volSettle !== null ? parseFloat(String(row.volSettle)) || null : null,
+      range: row.range !== null && row.range !== undefined ? String(row.range) : null,
+    })),
+  };
+}
+
+/**
+ * Hash revision content. Strikes are sorted and keys fixed so the same
+ * table extracted twice always produces the same hash.
+ */
+export function hashRevisionContent(content: RevisionContent): string {
+  const canonical = {
+    futurePrice: content.futurePrice,
+    summary: [
+      content.summary.put,
+      content.summary.call,
+      content.summary.vol,
+      content.summary.volChg,
+      content.summary.futureChg,
+    ],
+    strikes: [...content.strikes]
+      .sort((a, b) => a.strike - b.strike)
+      .map((s) => [s.strike, s.put, s.call, s.volSettle, s.range]),
+  };
+
+  return createHash("sha256").update(JSON.stringify(canonical)).digest("hex");
+}
+
+// ============================================
+// Write
+// ============================================
+
+/**
+ * Build the create input for an immutable revision record
+ */
+export function revisionCreateInput(
+  snapshotType: DataType,
+  snapshotId: string,
+  revision: number,
+  content: RevisionContent,
+  contentHash: string,
+  extractedAt: Date
+): Prisma.SnapshotRevisionCreateInput {
+  return {
+    snapshotType,
+    snapshotId,
+    revision,
+    contentHash,
+    futurePrice: content.futurePrice,
+    totalPut: content.summary.put,
+    totalCall: content.summary.call,
+    vol: content.summary.vol,
+    volChg: content.summary.volChg,
+    futureChg: content.summary.futureChg,
+    strikes: content.strikes as unknown as Prisma.InputJsonValue,
+    extractedAt,
+  };
+}
+
+// ============================================
+// Read
+// ============================================
+
+function sumStrikes(strikes: RevisionStrike[], side: "put" | "call"): number {
+  return strikes.reduce((sum, s) => sum + (s[side] || 0), 0);
+}
+
+function countChangedStrikes(prev: RevisionStrike[], next: RevisionStrike[]): number {
+  const prevByStrike = new Map(prev.map((s) => [s.strike, s]));
+  let changed = 0;
+
+  for (const s of next) {
+    const old = prevByStrike.get(s.strike);
+    if (!old || old.put !== s.put || old.call !== s.call) changed++;
+    prevByStrike.delete(s.strike);
+  }
+
+  return changed + prevByStrike.size;
+}
+
+/**
+ * Get all revisions of a snapshot in order, with put/call build-up
+ * between consecutive revisions
+ */
+export async function getRevisionHistory(
+  snapshotType: DataType,
+  snapshotId: string,
+  includeStrikes = false
+): Promise<RevisionHistoryEntry[]> {
+  const revisions = await prisma.snapshotRevision.findMany({
+    where: { snapshotType, snapshotId },
+    orderBy: { revision: "asc" },
+  });
+
+  let prevStrikes: RevisionStrike[] = [];
+
+  return revisions.map((rev, index) => {
+    const strikes = rev.strikes as unknown as RevisionStrike[];
+    const totalPut = sumStrikes(strikes, "put");
+    const totalCall = sumStrikes(strikes, "call");
+    const prevPut = sumStrikes(prevStrikes, "put");
+    const prevCall = sumStrikes(prevStrikes, "call");
+
+    const entry: RevisionHistoryEntry = {
+      id: rev.id,
+      revision: rev.revision,
+      contentHash: rev.contentHash,
+      extractedAt: rev.extractedAt,
+      createdAt: rev.createdAt,
+      futurePrice: rev.futurePrice,
+      totalPut,
+      totalCall,
+      putDelta: index === 0 ? 0 : totalPut - prevPut,
+      callDelta: index === 0 ? 0 : totalCall - prevCall,
+      strikesChanged: index === 0 ? strikes.length : countChangedStrikes(prevStrikes, strikes),
+      ...(includeStrikes ? { strikes } : {}),
+    };
+
+    prevStrikes = strikes;
+    return entry;
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * Strike Merge
+ *
+ * Merges the three snapshot types (OI, Intraday Volume, OI Change) into one
+ * strike table. OI is the primary source; volume and OI change add strikes
+ * OI does not have (with zero OI), so no source's data is dropped.
+ */
+
+import type { OptionStrike } from "./analysis";
+
+// ============================================
+// Types
+// ============================================
+
+export interface MergedStrike {
+  strike: number;
+  callOi: number;
+  putOi: number;
+  callVolume: number;
+  putVolume: number;
+  callOiChange: number;
+  putOiChange: number;
+  volSettle: number | null;
+  range: string | null;
+  /** Numeric range label (lib/expected-move) */
+  rangeValue: number | null;
+}
+
+interface OiSnapshotLike {
+  strikes: Array<{
+    strike: number;
+    callOi: number | null;
+    putOi: number | null;
+    volSettle: number | null;
+    range: string | null;
+    rangeValue?: number | null;
+  }>;
+}
+
+interface VolumeSnapshotLike {
+  strikes: Array<{
+    strike: number;
+    callVol: number | null;
+    putVol: number | null;
+    volSettle: number | null;
+    range: string | null;
+    rangeValue?: number | null;
+  }>;
+}
+
+interface OiChangeSnapshotLike {
+  strikes: Array<{
+    strike: number;
+    callChange: number | null;
+    putChange: number | null;
+    volSettle?: number | null;
+    range?: string | null;
+    rangeValue?: number | null;
+  }>;
+}
+
+interface PricedSnapshot {
+  futurePrice: number | null;
+  extractedAt: Date;
+}
+
+// ============================================
+// Merge
+// ============================================
+
+/**
+ * Merge snapshot strikes into a sorted strike table
+ */
+export function mergeSnapshotStrikes(
+  oiSnapshot: OiSnapshotLike,
+  volumeSnapshot?: VolumeSnapshotLike | null,
+  oiChangeSnapshot?: OiChangeSnapshotLike | null
+): MergedStrike[] {
+  const strikeMap = new Map<number, MergedStrike>();
+
+  // Initialize with OI data (primary)
+  for (const s of oiSnapshot.strikes) {
+    strikeMap.set(s.strike, {
+      strike: s.strike,
+      callOi: s.callOi || 0,
+      putOi: s.putOi || 0,
+      callVolume: 0,
+      putVolume: 0,
+      callOiChange: 0,
+      putOiChange: 0,
+      volSettle: s.volSettle,
+      range: s.range,
+      rangeValue: s.rangeValue ?? null,
+    });
+  }
+
+  // Add volume data
+  if (volumeSnapshot) {
+    for (const s of volumeSnapshot.strikes) {
+      const existing = strikeMap.get(s.strike);
+      if (existing) {
+        existing.callVolume = s.callVol || 0;
+        existing.putVolume = s.putVol || 0;
+      } else {
+        strikeMap.set(s.strike, {
+          strike: s.strike,
+          callOi: 0,
+          putOi: 0,
+          callVolume: s.callVol || 0,
+          putVolume: s.putVol || 0,
+          callOiChange: 0,
+          putOiChange: 0,
+          volSettle: s.volSettle,
+          range: s.range,
+          rangeValue: s.rangeValue ?? null,
+        });
+      }
+    }
+  }
+
+  // Add OI change data
+  if (oiChangeSnapshot) {
+    for (const s of oiChangeSnapshot.strikes) {
+      const existing = strikeMap.get(s.strike);
+      if (existing) {
+        existing.callOiChange = s.callChange || 0;
+        existing.putOiChange = s.putChange || 0;
+      } else {
+        strikeMap.set(s.strike, {
+          strike: s.strike,
+          callOi: 0,
+          putOi: 0,
+          callVolume: 0,
+          putVolume: 0,
+          callOiChange: s.callChange || 0,
+          putOiChange: s.putChange || 0,
+          volSettle: s.volSettle ?? null,
+          range: s.range ?? null,
+          rangeValue: s.rangeValue ?? null,
+        });
+      }
+    }
+  }
+
+  return Array.from(strikeMap.values()).sort((a, b) => a.strike - b.strike);
+}
+
+/**
+ * Convert merged strikes to OptionStrike format for lib/analysis.ts
+ */
+export function toOptionStrikes(strikes: MergedStrike[]): OptionStrike[] {
+  return strikes.map((s) => ({
+    strike_price: s.strike,
+    call_oi: s.callOi,
+    put_oi: s.putOi,
+    call_volume: s.callVolume,
+    put_volume: s.putVolume,
+    call_oi_change: s.callOiChange,
+    put_oi_change: s.putOiChange,
+    vol_settle: s.volSettle,
+  }));
+}
+
+/**
+ * Price from the most recently extracted snapshot that has one
+ */
+export function selectLatestPrice(
+  snapshots: Array<PricedSnapshot | null | undefined>
+): number | null {
+  const latest = snapshots
+    .filter((s): s is PricedSnapshot => !!s && !!s.futurePrice && s.futurePrice > 0)
+    .sort((a, b) => new Date(b.extractedAt).getTime() - new Date(a.extractedAt).getTime())[0];
+
+  return latest?.futurePrice ?? null;
+}
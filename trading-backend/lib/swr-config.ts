@@ -105,6 +105,24 @@ export function getAnalysisKey(product?: string): string {
     : "/api/analysis";
 }
 
+/**
+ * Generate SWR key for the snapshot time-series API
+ */
+export function getTimeSeriesKey(params: {
+  product?: string;
+  expiry?: string;
+  interval?: string;
+  from?: string;
+  to?: string;
+}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) search.set(key, value);
+  }
+  const query = search.toString();
+  return query ? `/api/time-series?${query}` : "/api/time-series";
+}
+
 /**
  * Generate SWR key for data API
  */
@@ -25,12 +25,13 @@ export interface TechnicalIndicators {
   // Moving Averages
   ma20: number;
   ma50: number;
-  ma200: number;
+  /** null with fewer than 200 closes */
+  ma200: number | null;
   ma_trend: "BULLISH" | "BEARISH" | "SIDEWAYS";
   price_vs_ma: {
     above_ma20: boolean;
     above_ma50: boolean;
-    above_ma200: boolean;
+    above_ma200: boolean | null;
   };
   
   // ATR (Average True Range)
@@ -153,18 +154,18 @@ export function calculateEMA(prices: number[], period: number): number {
 }
 
 /**
- * Determine MA trend
+ * Determine MA trend (from MA20 and MA50 alone when there is no MA200)
  */
 export function getMATrend(
   currentPrice: number,
   ma20: number,
   ma50: number,
-  ma200: number
+  ma200: number | null
 ): "BULLISH" | "BEARISH" | "SIDEWAYS" {
-  const aboveAll = currentPrice > ma20 && currentPrice > ma50 && currentPrice > ma200;
-  const belowAll = currentPrice < ma20 && currentPrice < ma50 && currentPrice < ma200;
-  const maAligned = ma20 > ma50 && ma50 > ma200;
-  const maReversed = ma20 < ma50 && ma50 < ma200;
+  const aboveAll = currentPrice > ma20 && currentPrice > ma50 && (ma200 === null || currentPrice > ma200);
+  const belowAll = currentPrice < ma20 && currentPrice < ma50 && (ma200 === null || currentPrice < ma200);
+  const maAligned = ma20 > ma50 && (ma200 === null || ma50 > ma200);
+  const maReversed = ma20 < ma50 && (ma200 === null || ma50 < ma200);
 
   if (aboveAll && maAligned) return "BULLISH";
   if (belowAll && maReversed) return "BEARISH";
@@ -302,13 +303,14 @@ export function findSupportResistance(
 // ============================================
 
 /**
- * Analyze overall trend
+ * Analyze overall trend. Without MA200 its checks are left out and the
+ * score is judged against the checks that remain.
  */
 export function analyzeTrend(
   prices: number[],
   ma20: number,
   ma50: number,
-  ma200: number
+  ma200: number | null
 ): { trend: TechnicalIndicators["trend"]; strength: number } {
   if (prices.length < 20) {
     return { trend: "SIDEWAYS", strength: 50 };
@@ -321,28 +323,29 @@ export function analyzeTrend(
   let maScore = 0;
   if (currentPrice > ma20) maScore += 1;
   if (currentPrice > ma50) maScore += 1;
-  if (currentPrice > ma200) maScore += 1;
+  if (ma200 !== null && currentPrice > ma200) maScore += 1;
   
   // Check MA alignment
   let alignmentScore = 0;
   if (ma20 > ma50) alignmentScore += 1;
-  if (ma50 > ma200) alignmentScore += 1;
+  if (ma200 !== null && ma50 > ma200) alignmentScore += 1;
 
-  const totalScore = maScore + alignmentScore; // 0-5
+  // Share of the checks passed: 5 with MA200, 3 without
+  const totalScore = (maScore + alignmentScore) / (ma200 !== null ? 5 : 3);
 
   let trend: TechnicalIndicators["trend"];
   let strength: number;
 
-  if (totalScore >= 5 && priceChange > 2) {
+  if (totalScore >= 1 && priceChange > 2) {
     trend = "STRONG_UP";
     strength = 90;
-  } else if (totalScore >= 4) {
+  } else if (totalScore >= 0.8) {
     trend = "UP";
     strength = 70;
   } else if (totalScore <= 0 && priceChange < -2) {
     trend = "STRONG_DOWN";
     strength = 90;
-  } else if (totalScore <= 1) {
+  } else if (totalScore <= 0.2) {
     trend = "DOWN";
     strength = 70;
   } else {
@@ -373,7 +376,8 @@ export function calculateTechnicalIndicators(
   // Moving Averages
   const ma20 = calculateEMA(closePrices, 20);
   const ma50 = calculateEMA(closePrices, 50);
-  const ma200 = calculateSMA(closePrices, 200);
+  // calculateSMA falls back to the last close, which is no MA200
+  const ma200 = closePrices.length >= 200 ? calculateSMA(closePrices, 200) : null;
   const ma_trend = getMATrend(currentPrice, ma20, ma50, ma200);
   
   // ATR
@@ -418,7 +422,7 @@ export function calculateTechnicalIndicators(
     price_vs_ma: {
       above_ma20: currentPrice > ma20,
       above_ma50: currentPrice > ma50,
-      above_ma200: currentPrice > ma200,
+      above_ma200: ma200 !== null ? currentPrice > ma200 : null,
     },
     atr,
     atr_percent: Math.round(atr_percent * 100) / 100,
@@ -443,7 +447,7 @@ function buildTechnicalSummary(data: {
   currentPrice: number;
   ma20: number;
   ma50: number;
-  ma200: number;
+  ma200: number | null;
   support_levels: number[];
   resistance_levels: number[];
 }): string {
@@ -1,5 +1,6 @@
 import prisma from "@/lib/db";
 import type { TradingSignal } from "@/lib/analysis";
+import type { OrderEvent } from "@/lib/order-monitor";
 
 const TELEGRAM_API = "https://api.telegram.org/bot";
 
@@ -264,3 +265,73 @@ ${emoji} <b>${product} แจ้งเตือนราคา</b>
     };
   }
 }
+
+/**
+ * Format an order lifecycle event for Telegram
+ */
+export function formatOrderEventMessage(event: OrderEvent): string {
+  const side = event.orderType === "BUY" ? "🟢 BUY" : "🔴 SELL";
+
+  const titles: Record<OrderEvent["type"], string> = {
+    TP1_HIT: "🎯 ถึง TP1",
+    TP2_HIT: "🎯 ถึง TP2",
+    TP3_HIT: "🎯 ถึง TP3",
+    SL_MOVED_TO_BREAKEVEN: "🛡️ ย้าย SL ไปที่ราคาเข้า",
+    CLOSED: event.result === "SL_HIT" ? "❌ ปิดออเดอร์ (ชน SL)" : `✅ ปิดออเดอร์ (${event.result})`,
+    FILLED: "📥 MT5 เปิดออเดอร์แล้ว",
+    REJECTED: `⛔ MT5 ปฏิเสธออเดอร์ (${event.result || "unknown"})`,
+    CANCELLED: "🚫 ยกเลิกออเดอร์",
+  };
+  const title = titles[event.type];
+
+  const pnl =
+    event.profitLoss !== undefined
+      ? `\n💵 <b>กำไร/ขาดทุน:</b> ${event.profitLoss > 0 ? "+" : ""}${event.profitLoss.toFixed(2)} จุด (${(event.profitLossUsd || 0) >= 0 ? "+" : ""}${(event.profitLossUsd || 0).toFixed(2)} USD)`
+      : "";
+
+  return `
+<b>${title}</b>
+${side} ${event.symbol} ${event.lotSize} lot
+
+📍 ราคาเข้า: ${event.entryPrice.toFixed(2)}
+💰 ราคาปัจจุบัน: ${event.price.toFixed(2)}${pnl}
+
+⏰ ${event.at.toLocaleString("th-TH", { timeZone: "Asia/Bangkok" })}
+  `.trim();
+}
+
+/**
+ * Send order lifecycle events to Telegram
+ */
+export async function sendOrderEventNotifications(
+  events: OrderEvent[]
+): Promise<{ sent: number; error?: string }> {
+  if (events.length === 0) return { sent: 0 };
+
+  try {
+    const settings = await prisma.settings.findFirst({
+      where: { id: "default" },
+    });
+
+    if (!settings?.telegramBotToken || !settings?.telegramChatId) {
+      return { sent: 0, error: "ยังไม่ได้ตั้งค่า Telegram" };
+    }
+
+    let sent = 0;
+    for (const event of events) {
+      const result = await sendTelegramMessage(settings.telegramBotToken, {
+        chat_id: settings.telegramChatId,
+        text: formatOrderEventMessage(event),
+        parse_mode: "HTML",
+      });
+      if (result.ok) sent++;
+    }
+
+    return { sent };
+  } catch (error) {
+    return {
+      sent: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
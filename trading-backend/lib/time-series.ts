@@ -0,0 +1,344 @@
+/**
+ * Snapshot Time Series
+ *
+ * Computes PCR, max pain, walls, VWAP and GEX for every stored snapshot in
+ * a time range and buckets them by interval, so the metrics can be charted
+ * intraday without depending on Signal rows. OI snapshots give OI PCR, max
+ * pain, walls and GEX; volume snapshots give volume PCR and VWAP. Within a
+ * bucket the last snapshot of each type wins.
+ *
+ * Per-snapshot metrics are cached in memory by snapshot id and content
+ * hash, so a revised snapshot is recomputed and unchanged ones are not.
+ * Strikes are only loaded for the snapshots that miss the cache.
+ */
+
+import prisma from "./db";
+import {
+  calculatePCR,
+  calculateMaxPain,
+  calculateVWAP,
+  getLiquidityWalls,
+} from "./analysis";
+import { calculateGEX } from "./greeks";
+import { getExpiryContext } from "./expiry-calendar";
+import { mergeSnapshotStrikes, toOptionStrikes } from "./strike-merge";
+import { productSnapshotWhere, type ProductSpec } from "./products";
+import { ValidationError } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+export type TimeSeriesInterval = "5m" | "15m" | "1h" | "1d";
+
+export interface OiSnapshotMetrics {
+  futurePrice: number;
+  oiPcr: number;
+  maxPain: number;
+  callWall: number;
+  putWall: number;
+  netGex: number;
+}
+
+export interface VolumeSnapshotMetrics {
+  futurePrice: number;
+  volumePcr: number;
+  vwap: number;
+}
+
+export interface TimeSeriesPoint {
+  /** Bucket start */
+  time: string;
+  /** Latest futures price seen in the bucket */
+  futurePrice: number | null;
+  oiPcr: number | null;
+  volumePcr: number | null;
+  maxPain: number | null;
+  callWall: number | null;
+  putWall: number | null;
+  vwap: number | null;
+  netGex: number | null;
+  /** Snapshots that fell into the bucket */
+  snapshots: { oi: number; volume: number };
+}
+
+export interface TimeSeries {
+  product: string;
+  expiry: string | null;
+  interval: TimeSeriesInterval;
+  from: string;
+  to: string;
+  points: TimeSeriesPoint[];
+  cache: { hits: number; misses: number };
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const INTERVAL_MS: Record<TimeSeriesInterval, number> = {
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+
+export const TIME_SERIES_INTERVALS = Object.keys(INTERVAL_MS) as TimeSeriesInterval[];
+
+/** Buckets are aligned to Bangkok time so daily buckets start at local midnight */
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+/** Longest range one request may cover */
+const MAX_RANGE_DAYS = 31;
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+/** Oldest entries are evicted beyond this */
+const MAX_CACHE_ENTRIES = 5000;
+
+// ============================================
+// Metrics Cache
+// ============================================
+
+const oiMetricsCache = new Map<string, OiSnapshotMetrics>();
+const volumeMetricsCache = new Map<string, VolumeSnapshotMetrics>();
+
+function cacheKey(snapshot: { id: string; contentHash: string | null; extractedAt: Date }): string {
+  return `${snapshot.id}:${snapshot.contentHash ?? snapshot.extractedAt.getTime()}`;
+}
+
+/**
+ * Cached metrics of the snapshots that have them, and the ids of the rest
+ */
+function lookupCached<T>(
+  cache: Map<string, T>,
+  snapshots: Array<{ id: string; contentHash: string | null; extractedAt: Date; futurePrice: number | null }>
+): { cached: Map<string, T>; missingIds: string[] } {
+  const cached = new Map<string, T>();
+  const missingIds: string[] = [];
+  for (const snapshot of snapshots) {
+    if (!snapshot.futurePrice || snapshot.futurePrice <= 0) continue;
+    const metrics = cache.get(cacheKey(snapshot));
+    if (metrics) cached.set(snapshot.id, metrics);
+    else missingIds.push(snapshot.id);
+  }
+  return { cached, missingIds };
+}
+
+function groupBySnapshot<T extends { snapshotId: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.snapshotId);
+    if (list) list.push(row);
+    else grouped.set(row.snapshotId, [row]);
+  }
+  return grouped;
+}
+
+function cacheSet<T>(cache: Map<string, T>, key: string, value: T): void {
+  cache.set(key, value);
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+}
+
+// ============================================
+// Parameters
+// ============================================
+
+/**
+ * Parse interval and range query parameters. Defaults to the last 24 hours
+ * at 15 minute buckets.
+ */
+export function parseTimeSeriesParams(params: {
+  interval?: string | null;
+  from?: string | null;
+  to?: string | null;
+}): { interval: TimeSeriesInterval; from: Date; to: Date } {
+  const interval = (params.interval || "15m") as TimeSeriesInterval;
+  if (!Object.hasOwn(INTERVAL_MS, interval)) {
+    throw new ValidationError(`interval ไม่ถูกต้อง: ${params.interval}`, {
+      interval: TIME_SERIES_INTERVALS.join(" | "),
+    });
+  }
+
+  const to = params.to ? new Date(params.to) : new Date();
+  const from = params.from ? new Date(params.from) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new ValidationError("from/to ต้องเป็นวันที่ที่ถูกต้อง", {
+      from: String(params.from),
+      to: String(params.to),
+    });
+  }
+  if (from >= to) {
+    throw new ValidationError("from ต้องมาก่อน to", { from: from.toISOString(), to: to.toISOString() });
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ValidationError(`ช่วงเวลาต้องไม่เกิน ${MAX_RANGE_DAYS} วัน`, {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+  }
+
+  return { interval, from, to };
+}
+
+function bucketStart(date: Date, interval: TimeSeriesInterval): number {
+  const size = INTERVAL_MS[interval];
+  return Math.floor((date.getTime() + BANGKOK_OFFSET_MS) / size) * size - BANGKOK_OFFSET_MS;
+}
+
+// ============================================
+// Time Series
+// ============================================
+
+/**
+ * Bucketed metrics for one expiry of a product. Without an expiry the
+ * newest snapshot's expiry in the range is used, so series don't mix.
+ */
+export async function getSnapshotTimeSeries(
+  product: ProductSpec,
+  options: { expiry?: string | null; interval: TimeSeriesInterval; from: Date; to: Date }
+): Promise<TimeSeries> {
+  const { interval, from, to } = options;
+  const extractedAt = { gte: from, lte: to };
+
+  let expiry = options.expiry || product.defaultExpiry;
+  if (!expiry) {
+    const newest = await prisma.oiSnapshot.findFirst({
+      where: { ...productSnapshotWhere(product), extractedAt },
+      orderBy: { extractedAt: "desc" },
+      select: { expiry: true },
+    });
+    expiry = newest?.expiry ?? null;
+  }
+
+  const where = { ...productSnapshotWhere(product, expiry), extractedAt };
+  const select = { id: true, expiry: true, contentHash: true, extractedAt: true, futurePrice: true };
+
+  const [oiSnapshots, volumeSnapshots] = await Promise.all([
+    prisma.oiSnapshot.findMany({ where, orderBy: { extractedAt: "asc" }, select }),
+    prisma.intradayVolumeSnapshot.findMany({ where, orderBy: { extractedAt: "asc" }, select }),
+  ]);
+
+  const oiLookup = lookupCached(oiMetricsCache, oiSnapshots);
+  const volumeLookup = lookupCached(volumeMetricsCache, volumeSnapshots);
+  const strikeOrder = { strike: "asc" as const };
+
+  const [oiStrikes, volumeStrikes] = await Promise.all([
+    oiLookup.missingIds.length > 0
+      ? prisma.oiStrike.findMany({ where: { snapshotId: { in: oiLookup.missingIds } }, orderBy: strikeOrder })
+      : [],
+    volumeLookup.missingIds.length > 0
+      ? prisma.intradayVolumeStrike.findMany({ where: { snapshotId: { in: volumeLookup.missingIds } }, orderBy: strikeOrder })
+      : [],
+  ]);
+  const oiStrikesById = groupBySnapshot(oiStrikes);
+  const volumeStrikesById = groupBySnapshot(volumeStrikes);
+
+  let hits = 0;
+  let misses = 0;
+  const buckets = new Map<number, TimeSeriesPoint>();
+
+  const bucketFor = (date: Date): TimeSeriesPoint => {
+    const start = bucketStart(date, interval);
+    let point = buckets.get(start);
+    if (!point) {
+      point = {
+        time: new Date(start).toISOString(),
+        futurePrice: null,
+        oiPcr: null,
+        volumePcr: null,
+        maxPain: null,
+        callWall: null,
+        putWall: null,
+        vwap: null,
+        netGex: null,
+        snapshots: { oi: 0, volume: 0 },
+      };
+      buckets.set(start, point);
+    }
+    return point;
+  };
+
+  // Snapshots are in time order, so later ones overwrite within a bucket
+  for (const snapshot of oiSnapshots) {
+    const price = snapshot.futurePrice || 0;
+    if (price <= 0) continue;
+
+    let metrics = oiLookup.cached.get(snapshot.id);
+    if (metrics) {
+      hits++;
+    } else {
+      misses++;
+      const strikes = toOptionStrikes(mergeSnapshotStrikes({ strikes: oiStrikesById.get(snapshot.id) ?? [] }));
+      const { daysToExpiry } = getExpiryContext(snapshot.expiry, snapshot.extractedAt);
+      const walls = getLiquidityWalls(strikes);
+      metrics = {
+        futurePrice: price,
+        oiPcr: calculatePCR(strikes, price).oi_pcr,
+        maxPain: calculateMaxPain(strikes, price, daysToExpiry).max_pain_strike,
+        callWall: walls.resistance.strike,
+        putWall: walls.support.strike,
+        netGex: Math.round(
+          calculateGEX(strikes, price, daysToExpiry, undefined, product.contractMultiplier).totalGex
+        ),
+      };
+      cacheSet(oiMetricsCache, cacheKey(snapshot), metrics);
+    }
+
+    const point = bucketFor(snapshot.extractedAt);
+    point.snapshots.oi++;
+    point.futurePrice = metrics.futurePrice;
+    point.oiPcr = metrics.oiPcr;
+    point.maxPain = metrics.maxPain;
+    point.callWall = metrics.callWall;
+    point.putWall = metrics.putWall;
+    point.netGex = metrics.netGex;
+  }
+
+  for (const snapshot of volumeSnapshots) {
+    const price = snapshot.futurePrice || 0;
+    if (price <= 0) continue;
+
+    let metrics = volumeLookup.cached.get(snapshot.id);
+    if (metrics) {
+      hits++;
+    } else {
+      misses++;
+      const strikes = toOptionStrikes(
+        mergeSnapshotStrikes({ strikes: [] }, { strikes: volumeStrikesById.get(snapshot.id) ?? [] })
+      );
+      metrics = {
+        futurePrice: price,
+        volumePcr: calculatePCR(strikes, price).volume_pcr,
+        vwap: Math.round(calculateVWAP(strikes) * 100) / 100,
+      };
+      cacheSet(volumeMetricsCache, cacheKey(snapshot), metrics);
+    }
+
+    const point = bucketFor(snapshot.extractedAt);
+    point.snapshots.volume++;
+    // OI carries the price when both land in a bucket
+    if (point.snapshots.oi === 0) point.futurePrice = metrics.futurePrice;
+    point.volumePcr = metrics.volumePcr;
+    point.vwap = metrics.vwap;
+  }
+
+  const points = Array.from(buckets.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, point]) => point);
+
+  return {
+    product: product.key,
+    expiry,
+    interval,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    points,
+    cache: { hits, misses },
+  };
+}
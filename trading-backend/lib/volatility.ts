@@ -0,0 +1,294 @@
+/**
+ * Volatility Smile & Skew
+ *
+ * Builds the implied volatility smile from the per-strike volSettle that
+ * QuikStrike publishes with every volume, OI and OI change snapshot, and
+ * reduces it to the usual skew measures:
+ * - ATM IV: smile interpolated at the futures price
+ * - 25-delta risk reversal: IV(25d call) - IV(25d put). Positive means
+ *   upside calls are bid over downside puts.
+ * - 25-delta butterfly: average of the 25d wings minus ATM IV (smile convexity)
+ *
+ * All volatilities are in percent, like volSettle.
+ */
+
+import prisma from "./db";
+import { black76Greeks, RISK_FREE_RATE } from "./greeks";
+import { getExpiryContext } from "./expiry-calendar";
+import { productSnapshotWhere, type ProductSpec } from "./products";
+
+// ============================================
+// Types
+// ============================================
+
+export type VolatilitySource = "volume" | "oi" | "oichange";
+
+export interface SmilePoint {
+  strike: number;
+  /** ln(K / F) */
+  moneyness: number;
+  iv: number;
+  callDelta: number;
+  putDelta: number;
+}
+
+export interface SkewMetrics {
+  atmIv: number | null;
+  call25Iv: number | null;
+  put25Iv: number | null;
+  riskReversal: number | null;
+  butterfly: number | null;
+}
+
+export interface SkewChange {
+  atmIv: number | null;
+  riskReversal: number | null;
+  butterfly: number | null;
+}
+
+export interface SnapshotVolatility {
+  source: VolatilitySource;
+  snapshotId: string;
+  expiry: string;
+  extractedAt: string;
+  futurePrice: number;
+  daysToExpiry: number;
+  smile: SmilePoint[];
+  skew: SkewMetrics;
+  /** Change since the previous snapshot of the same source and expiry */
+  previous: {
+    snapshotId: string;
+    extractedAt: string;
+    skew: SkewMetrics;
+  } | null;
+  change: SkewChange | null;
+}
+
+export interface VolatilityAnalysis {
+  product: string;
+  expiry: string | null;
+  sources: SnapshotVolatility[];
+  interpretation: string;
+}
+
+interface VolSnapshotLike {
+  id: string;
+  expiry: string;
+  futurePrice: number | null;
+  extractedAt: Date;
+  strikes: Array<{ strike: number; volSettle: number | null }>;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const WING_DELTA = 0.25;
+
+/** Risk reversal (vol points) beyond which skew is read as directional */
+export const SKEW_THRESHOLD = 1.0;
+
+const round = (n: number | null, digits = 2) =>
+  n === null ? null : Math.round(n * 10 ** digits) / 10 ** digits;
+
+// ============================================
+// Smile
+// ============================================
+
+/**
+ * Smile points for every strike with a volSettle, ascending by strike.
+ * Each point's deltas use its own IV.
+ */
+export function buildSmile(
+  strikes: Array<{ strike: number; volSettle: number | null }>,
+  futuresPrice: number,
+  daysToExpiry: number
+): SmilePoint[] {
+  if (futuresPrice <= 0) return [];
+  const T = Math.max(daysToExpiry, 0.01) / 365;
+
+  return strikes
+    .filter((s) => s.strike > 0 && s.volSettle !== null && s.volSettle > 0)
+    .sort((a, b) => a.strike - b.strike)
+    .map((s) => {
+      const iv = s.volSettle as number;
+      const greeks = black76Greeks(futuresPrice, s.strike, T, RISK_FREE_RATE, iv / 100);
+      return {
+        strike: s.strike,
+        moneyness: Math.round(Math.log(s.strike / futuresPrice) * 10000) / 10000,
+        iv,
+        callDelta: Math.round(greeks.callDelta * 10000) / 10000,
+        putDelta: Math.round(greeks.putDelta * 10000) / 10000,
+      };
+    });
+}
+
+/** Linear interpolation of IV where key(point) crosses target */
+function interpolateIv(
+  smile: SmilePoint[],
+  key: (p: SmilePoint) => number,
+  target: number
+): number | null {
+  for (let i = 1; i < smile.length; i++) {
+    const a = smile[i - 1];
+    const b = smile[i];
+    const ka = key(a);
+    const kb = key(b);
+    if ((ka - target) * (kb - target) > 0 || ka === kb) continue;
+
+    const t = (target - ka) / (kb - ka);
+    return a.iv + t * (b.iv - a.iv);
+  }
+  return null;
+}
+
+/**
+ * ATM IV, 25-delta risk reversal and butterfly. Values that fall outside
+ * the quoted strikes are null.
+ */
+export function calculateSkew(smile: SmilePoint[], futuresPrice: number): SkewMetrics {
+  const atmIv = interpolateIv(smile, (p) => p.strike, futuresPrice);
+  const call25Iv = interpolateIv(smile, (p) => p.callDelta, WING_DELTA);
+  const put25Iv = interpolateIv(smile, (p) => p.putDelta, -WING_DELTA);
+
+  const riskReversal = call25Iv !== null && put25Iv !== null ? call25Iv - put25Iv : null;
+  const butterfly =
+    call25Iv !== null && put25Iv !== null && atmIv !== null ? (call25Iv + put25Iv) / 2 - atmIv : null;
+
+  return {
+    atmIv: round(atmIv),
+    call25Iv: round(call25Iv),
+    put25Iv: round(put25Iv),
+    riskReversal: round(riskReversal),
+    butterfly: round(butterfly),
+  };
+}
+
+function skewChange(current: SkewMetrics, previous: SkewMetrics): SkewChange {
+  const diff = (a: number | null, b: number | null) => (a !== null && b !== null ? round(a - b) : null);
+  return {
+    atmIv: diff(current.atmIv, previous.atmIv),
+    riskReversal: diff(current.riskReversal, previous.riskReversal),
+    butterfly: diff(current.butterfly, previous.butterfly),
+  };
+}
+
+/**
+ * Smile and skew of one snapshot, with the change from the previous one
+ */
+export function analyzeSnapshotVolatility(
+  source: VolatilitySource,
+  snapshot: VolSnapshotLike,
+  previous?: VolSnapshotLike | null
+): SnapshotVolatility {
+  const describe = (s: VolSnapshotLike) => {
+    const price = s.futurePrice || 0;
+    const { daysToExpiry } = getExpiryContext(s.expiry, s.extractedAt);
+    const smile = buildSmile(s.strikes, price, daysToExpiry);
+    return { price, daysToExpiry, smile, skew: calculateSkew(smile, price) };
+  };
+
+  const current = describe(snapshot);
+  const prior = previous ? describe(previous) : null;
+
+  return {
+    source,
+    snapshotId: snapshot.id,
+    expiry: snapshot.expiry,
+    extractedAt: snapshot.extractedAt.toISOString(),
+    futurePrice: current.price,
+    daysToExpiry: current.daysToExpiry,
+    smile: current.smile,
+    skew: current.skew,
+    previous: previous && prior
+      ? { snapshotId: previous.id, extractedAt: previous.extractedAt.toISOString(), skew: prior.skew }
+      : null,
+    change: prior ? skewChange(current.skew, prior.skew) : null,
+  };
+}
+
+// ============================================
+// Interpretation
+// ============================================
+
+/**
+ * One-line reading of a skew, e.g. for the AI prompt or the dashboard
+ */
+export function interpretSkew(skew: SkewMetrics, change?: SkewChange | null): string {
+  if (skew.riskReversal === null) {
+    return "ข้อมูล IV ไม่พอคำนวณ Skew";
+  }
+
+  const rr = skew.riskReversal;
+  let text =
+    rr >= SKEW_THRESHOLD
+      ? `Call Skew (RR ${rr.toFixed(2)}): ตลาดยอมจ่ายแพงเพื่อป้องกันขาขึ้น`
+      : rr <= -SKEW_THRESHOLD
+        ? `Put Skew (RR ${rr.toFixed(2)}): ตลาดยอมจ่ายแพงเพื่อป้องกันขาลง`
+        : `Skew สมดุล (RR ${rr.toFixed(2)})`;
+
+  if (change?.riskReversal) {
+    text += change.riskReversal > 0
+      ? ` | Skew ขยับไปทาง Call ${change.riskReversal.toFixed(2)} จุด`
+      : ` | Skew ขยับไปทาง Put ${Math.abs(change.riskReversal).toFixed(2)} จุด`;
+  }
+
+  return text;
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Latest smile and skew of a product for each snapshot type, compared with
+ * the previous snapshot of the same type and expiry
+ */
+export async function analyzeVolatility(
+  product: ProductSpec,
+  expiry?: string | null
+): Promise<VolatilityAnalysis> {
+  const where = productSnapshotWhere(product, expiry);
+  const include = { strikes: { orderBy: { strike: "asc" as const } } };
+
+  const [volume, oi, oiChange] = await Promise.all([
+    prisma.intradayVolumeSnapshot.findFirst({ where, orderBy: { extractedAt: "desc" }, include }),
+    prisma.oiSnapshot.findFirst({ where, orderBy: { extractedAt: "desc" }, include }),
+    prisma.oiChangeSnapshot.findFirst({ where, orderBy: { extractedAt: "desc" }, include }),
+  ]);
+
+  const previousWhere = (s: VolSnapshotLike) => ({
+    ...where,
+    expiry: s.expiry,
+    extractedAt: { lt: s.extractedAt },
+  });
+
+  const [volumePrev, oiPrev, oiChangePrev] = await Promise.all([
+    volume
+      ? prisma.intradayVolumeSnapshot.findFirst({ where: previousWhere(volume), orderBy: { extractedAt: "desc" }, include })
+      : null,
+    oi
+      ? prisma.oiSnapshot.findFirst({ where: previousWhere(oi), orderBy: { extractedAt: "desc" }, include })
+      : null,
+    oiChange
+      ? prisma.oiChangeSnapshot.findFirst({ where: previousWhere(oiChange), orderBy: { extractedAt: "desc" }, include })
+      : null,
+  ]);
+
+  const sources: SnapshotVolatility[] = [];
+  if (volume) sources.push(analyzeSnapshotVolatility("volume", volume, volumePrev));
+  if (oi) sources.push(analyzeSnapshotVolatility("oi", oi, oiPrev));
+  if (oiChange) sources.push(analyzeSnapshotVolatility("oichange", oiChange, oiChangePrev));
+
+  // Read the most recent snapshot that has a full skew
+  const primary = sources
+    .filter((s) => s.skew.riskReversal !== null)
+    .sort((a, b) => b.extractedAt.localeCompare(a.extractedAt))[0];
+
+  return {
+    product: product.key,
+    expiry: primary?.expiry ?? sources[0]?.expiry ?? expiry ?? null,
+    sources,
+    interpretation: primary ? interpretSkew(primary.skew, primary.change) : "ไม่มีข้อมูล volSettle",
+  };
+}
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+/**
+ * Snapshot Analytics Backfill
+ *
+ * Walks every stored OI snapshot through POST /api/snapshot-analytics in
+ * batches, computing SnapshotAnalytics rows for snapshots ingested before
+ * they existed (or computed by an older ANALYTICS_VERSION).
+ *
+ * Usage:
+ *   node scripts/backfill-analytics.mjs [--force] [--product=GOLD]
+ *
+ * Env:
+ *   BACKEND_URL     Backend URL (default http://localhost:3000)
+ *   BATCH_SIZE      Snapshots per request (default 100)
+ */
+
+const BASE_URL = (process.env.BACKEND_URL || "http://localhost:3000").replace(/\/$/, "");
+const BATCH_SIZE = Number(process.env.BATCH_SIZE || 100);
+
+const args = process.argv.slice(2);
+const FORCE = args.includes("--force");
+const PRODUCT = args.find((a) => a.startsWith("--product="))?.split("=")[1];
+
+async function backfillBatch(cursor) {
+  const response = await fetch(`${BASE_URL}/api/snapshot-analytics`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ product: PRODUCT, cursor, limit: BATCH_SIZE, force: FORCE }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`backfill ${response.status}: ${JSON.stringify(body.error || body)}`);
+  }
+  return body;
+}
+
+async function main() {
+  const totals = { scanned: 0, computed: 0, skipped: 0, failed: 0 };
+  let cursor = null;
+
+  do {
+    const batch = await backfillBatch(cursor);
+    totals.scanned += batch.scanned;
+    totals.computed += batch.computed;
+    totals.skipped += batch.skipped;
+    totals.failed += batch.failed.length;
+
+    for (const failure of batch.failed) {
+      console.warn(`  ${failure.oiSnapshotId}: ${failure.error}`);
+    }
+    console.log(
+      `[backfill] v${batch.version} scanned ${totals.scanned} | computed ${totals.computed} | current ${totals.skipped} | failed ${totals.failed}`
+    );
+
+    cursor = batch.nextCursor;
+  } while (cursor);
+
+  console.log("[backfill] Done");
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+/**
+ * Mock MT5 Expert Advisor
+ *
+ * Polls /api/mt5-bridge/commands and reports back to /api/mt5-bridge/reports
+ * the way the real EA does, so the bridge can be tested without a terminal.
+ * Fills use the command price plus random slippage; open positions follow a
+ * random walk (or /api/xau with --live-price) and close on SL / TP.
+ *
+ * Usage:
+ *   MT5_BRIDGE_TOKEN=secret node scripts/mock-ea.mjs [--once] [--live-price]
+ *
+ * Env:
+ *   BRIDGE_URL      Backend URL (default http://localhost:3000)
+ *   POLL_MS         Poll interval (default 2000)
+ *   MAX_SLIPPAGE    Max slippage in points (default 0.3)
+ *   REJECT_RATE     Share of PLACE commands to reject, 0-1 (default 0)
+ */
+
+const BASE_URL = (process.env.BRIDGE_URL || "http://localhost:3000").replace(/\/$/, "");
+const TOKEN = process.env.MT5_BRIDGE_TOKEN;
+const POLL_MS = Number(process.env.POLL_MS || 2000);
+const MAX_SLIPPAGE = Number(process.env.MAX_SLIPPAGE || 0.3);
+const REJECT_RATE = Number(process.env.REJECT_RATE || 0);
+
+const args = new Set(process.argv.slice(2));
+const ONCE = args.has("--once");
+const LIVE_PRICE = args.has("--live-price");
+
+if (!TOKEN) {
+  console.error("MT5_BRIDGE_TOKEN is required");
+  process.exit(1);
+}
+
+/** ticket -> simulated position */
+const positions = new Map();
+
+/** commandId -> report already sent; a redelivered command is answered again, not executed twice */
+const handled = new Map();
+let nextTicket = 100000 + Math.floor(Math.random() * 1000);
+
+// ============================================
+// HTTP
+// ============================================
+
+async function call(path, init = {}) {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${TOKEN}`,
+      ...(init.headers || {}),
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${path} ${response.status}: ${JSON.stringify(body.error || body)}`);
+  }
+  return body;
+}
+
+async function report(reports) {
+  if (reports.length === 0) return;
+  const result = await call("/api/mt5-bridge/reports", {
+    method: "POST",
+    body: JSON.stringify({ reports }),
+  });
+  for (const r of result.results || []) {
+    if (!r.ok) console.warn(`  report ${reports[r.index].type} failed: ${r.error}`);
+  }
+}
+
+// ============================================
+// Prices
+// ============================================
+
+const round = (n) => Math.round(n * 100) / 100;
+
+async function currentPrice(position) {
+  if (LIVE_PRICE) {
+    try {
+      const res = await fetch(`${BASE_URL}/api/xau?levels=false`);
+      const body = await res.json();
+      if (body.xau?.price > 0) return body.xau.price;
+    } catch {
+      // fall through to the random walk
+    }
+  }
+  position.price = round(position.price + (Math.random() - 0.5) * 2);
+  return position.price;
+}
+
+// ============================================
+// Commands
+// ============================================
+
+function handleCommand(command) {
+  const { id: commandId, type, orderId, payload } = command;
+  const now = Math.floor(Date.now() / 1000);
+
+  switch (type) {
+    case "PLACE": {
+      if (Math.random() < REJECT_RATE) {
+        return { type: "REJECTED", orderId, commandId, error: "TRADE_RETCODE_NO_MONEY", time: now };
+      }
+      const sign = payload.orderType === "BUY" ? 1 : -1;
+      const fill = round(payload.price + sign * Math.random() * MAX_SLIPPAGE);
+      const ticket = String(nextTicket++);
+      positions.set(ticket, { ...payload, orderId, ticket, entry: fill, price: fill });
+      return { type: "FILLED", orderId, commandId, ticket, price: fill, time: now };
+    }
+
+    case "MODIFY": {
+      const position = positions.get(String(payload.ticket));
+      if (position) Object.assign(position, { sl: payload.sl, tp: payload.tp });
+      return { type: "MODIFIED", orderId, commandId, ticket: payload.ticket, sl: payload.sl, tp: payload.tp, time: now };
+    }
+
+    case "CANCEL":
+      return { type: "CANCELLED", orderId, commandId, time: now };
+
+    case "CLOSE": {
+      const position = positions.get(String(payload.ticket));
+      const price = position ? position.price : payload.price;
+      positions.delete(String(payload.ticket));
+      return { type: "CLOSED", orderId, commandId, ticket: payload.ticket, price, reason: "MANUAL", time: now };
+    }
+
+    default:
+      console.warn(`  unknown command type ${type}`);
+      return null;
+  }
+}
+
+/**
+ * Move every open position one tick and report SL / TP / breakeven
+ */
+async function tickPositions() {
+  const reports = [];
+  const now = Math.floor(Date.now() / 1000);
+
+  for (const position of positions.values()) {
+    const price = await currentPrice(position);
+    const sign = position.orderType === "BUY" ? 1 : -1;
+    const profit = round((price - position.entry) * sign * position.volume * 100);
+
+    if ((price - position.sl) * sign <= 0) {
+      positions.delete(position.ticket);
+      reports.push({ type: "CLOSED", orderId: position.orderId, ticket: position.ticket, price, profit, reason: "SL", time: now });
+    } else if ((price - position.tp) * sign >= 0) {
+      positions.delete(position.ticket);
+      reports.push({ type: "CLOSED", orderId: position.orderId, ticket: position.ticket, price, profit, reason: "TP", time: now });
+    } else if (position.breakevenAt && (price - position.breakevenAt) * sign >= 0 && position.sl !== position.entry) {
+      position.sl = position.entry;
+      reports.push({ type: "MODIFIED", orderId: position.orderId, ticket: position.ticket, sl: position.sl, tp: position.tp, time: now });
+    }
+  }
+
+  return reports;
+}
+
+// ============================================
+// Main loop
+// ============================================
+
+async function pollOnce() {
+  const { commands = [] } = await call("/api/mt5-bridge/commands");
+
+  const reports = [];
+  for (const command of commands) {
+    console.log(`→ ${command.type} ${command.payload.orderType} ${command.payload.volume} ${command.payload.symbol} (order ${command.orderId})`);
+    const result = handled.get(command.id) ?? handleCommand(command);
+    if (result) {
+      handled.set(command.id, result);
+      reports.push(result);
+    }
+  }
+
+  reports.push(...(await tickPositions()));
+
+  for (const r of reports) {
+    console.log(`← ${r.type}${r.price ? ` @ ${r.price}` : ""}${r.reason ? ` (${r.reason})` : ""} order ${r.orderId}`);
+  }
+  await report(reports);
+}
+
+async function main() {
+  console.log(`Mock EA polling ${BASE_URL} every ${POLL_MS}ms${LIVE_PRICE ? " (live price)" : ""}`);
+
+  do {
+    try {
+      await pollOnce();
+    } catch (error) {
+      console.error("poll failed:", error.message);
+    }
+    if (!ONCE) await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+  } while (!ONCE);
+}
+
+main();
@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+/**
+ * AI Prediction Reattribution
+ *
+ * One-off migration through POST /api/ai-accuracy: predictions saved as
+ * provider "auto", or with a display name ("DeepSeek R1") as the model,
+ * are moved to the provider key and API model id the model field names,
+ * and the accuracy stats are recomputed.
+ *
+ * Usage:
+ *   ADMIN_API_TOKEN=secret node scripts/reattribute-predictions.mjs [--dry-run]
+ *
+ * Env:
+ *   BACKEND_URL     Backend URL (default http://localhost:3000)
+ */
+
+const BASE_URL = (process.env.BACKEND_URL || "http://localhost:3000").replace(/\/$/, "");
+const TOKEN = process.env.ADMIN_API_TOKEN;
+
+const args = process.argv.slice(2);
+const DRY_RUN = args.includes("--dry-run");
+
+if (!TOKEN) {
+  console.error("ADMIN_API_TOKEN is required");
+  process.exit(1);
+}
+
+async function main() {
+  const response = await fetch(`${BASE_URL}/api/ai-accuracy`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${TOKEN}` },
+    body: JSON.stringify({ dryRun: DRY_RUN }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`reattribute ${response.status}: ${JSON.stringify(body.error || body)}`);
+  }
+
+  for (const change of body.changes) {
+    console.log(
+      `  ${change.from.provider} / ${change.from.model} -> ${change.to.provider} / ${change.to.model} (${change.count})`
+    );
+  }
+  for (const group of body.unresolved) {
+    const why = group.candidates.length > 0 ? `matches ${group.candidates.join(", ")}` : "no matching provider";
+    console.warn(`  unresolved: auto / ${group.model} (${group.count}): ${why}`);
+  }
+
+  console.log(
+    DRY_RUN
+      ? `[reattribute] Dry run: ${body.changes.length} changes, nothing written`
+      : `[reattribute] Done: ${body.updated} predictions updated, stats recomputed`
+  );
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});